@@ -15,8 +15,14 @@ import Login from './pages/Login';
 import Register from './pages/Register';
 import Dashboard from './pages/Dashboard';
 import Sessions from './pages/Sessions';
+import Organization from './pages/Organization';
+import Team from './pages/Team';
+import Timesheets from './pages/Timesheets';
+import Settings from './pages/Settings';
+import Absences from './pages/Absences';
 import { useAuth } from './hooks/useAuth';
 import { ThemeProvider } from './context/ThemeContext';
+import { TimeZoneProvider } from './context/TimeZoneContext';
 import { Background } from './components/ui/Background';
 
 /**
@@ -55,6 +61,31 @@ function AppRoutes() {
             <Sessions />
           </Layout>
         } />
+        <Route path="/organization" element={
+          <Layout>
+            <Organization />
+          </Layout>
+        } />
+        <Route path="/team" element={
+          <Layout>
+            <Team />
+          </Layout>
+        } />
+        <Route path="/timesheets" element={
+          <Layout>
+            <Timesheets />
+          </Layout>
+        } />
+        <Route path="/absences" element={
+          <Layout>
+            <Absences />
+          </Layout>
+        } />
+        <Route path="/settings" element={
+          <Layout>
+            <Settings />
+          </Layout>
+        } />
         <Route path="/dashboard" element={<Navigate to="/" replace />} />
       </Route>
 
@@ -73,10 +104,12 @@ function AppRoutes() {
 function App() {
   return (
     <ThemeProvider>
-      <BrowserRouter>
-        <Background />
-        <AppRoutes />
-      </BrowserRouter>
+      <TimeZoneProvider>
+        <BrowserRouter>
+          <Background />
+          <AppRoutes />
+        </BrowserRouter>
+      </TimeZoneProvider>
     </ThemeProvider>
   );
 }
@@ -0,0 +1,41 @@
+import { Activity } from 'lucide-react';
+import { formatDuration } from '../../utils/duration';
+
+// ActivityTotal: tiempo neto por actividad.
+import type { ActivityTotal } from '../../utils/activities';
+
+/**
+ * Props del componente ActivityBreakdown.
+ * @property {ActivityTotal[]} totals - Tiempo neto por actividad.
+ * @property {string} [className] - Clases extra del contenedor (márgenes).
+ */
+interface ActivityBreakdownProps {
+    totals: ActivityTotal[];
+    className?: string;
+}
+
+/**
+ * Desglose del tiempo de una sesión por actividad, como etiquetas.
+ *
+ * No muestra nada si ningún tramo tiene actividad: así las sesiones de
+ * quien no cambia de actividad se ven igual que antes.
+ */
+export const ActivityBreakdown = ({ totals, className = '' }: ActivityBreakdownProps) => {
+    if (!totals.some(total => total.activity)) return null;
+
+    return (
+        <div className={`flex flex-wrap items-center gap-2 text-xs ${className}`}>
+            <Activity size={14} className="text-blue-500 dark:text-blue-400" />
+            {totals.map(total => (
+                <span
+                    key={total.activity ?? ''}
+                    className={`px-2 py-0.5 rounded border ${total.activity
+                        ? 'bg-blue-500/10 text-blue-700 dark:text-blue-400 border-blue-500/20'
+                        : 'bg-gray-100 dark:bg-gray-800 text-gray-500 border-gray-200 dark:border-gray-700'}`}
+                >
+                    {total.activity ?? 'Sin actividad'} · <span className="font-mono">{formatDuration(total.seconds * 1000)}</span>
+                </span>
+            ))}
+        </div>
+    );
+};
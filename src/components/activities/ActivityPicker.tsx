@@ -0,0 +1,65 @@
+// useState: actividad que se está escribiendo.
+import { useState } from 'react';
+import { Activity, Check } from 'lucide-react';
+
+const inputClass = 'bg-white dark:bg-dark-bg border border-gray-200 dark:border-white/10 rounded-lg p-2 text-sm text-gray-900 dark:text-white focus:border-primary-lime outline-none disabled:opacity-50 w-48';
+
+/**
+ * Props del componente ActivityPicker.
+ * @property {string | null} value - Actividad actual (null = sin actividad).
+ * @property {string[]} suggestions - Actividades que se proponen al escribir.
+ * @property {Function} onChange - Se llama con la nueva actividad (null si se vacía).
+ * @property {boolean} [disabled] - Bloquea el selector mientras se procesa un fichaje.
+ */
+interface ActivityPickerProps {
+    value: string | null;
+    suggestions: string[];
+    onChange: (activity: string | null) => void;
+    disabled?: boolean;
+}
+
+/**
+ * Selector de actividad del Dashboard.
+ *
+ * La actividad es texto libre con sugerencias; se aplica al pulsar Enter o
+ * el botón de confirmar, no con cada tecla, para no abrir un tramo por letra.
+ * El padre debe pasar `key={value}` para reiniciar el texto cuando la
+ * actividad cambia desde fuera (otro dispositivo).
+ */
+export const ActivityPicker = ({ value, suggestions, onChange, disabled }: ActivityPickerProps) => {
+    const [draft, setDraft] = useState(value ?? '');
+    const next = draft.trim() || null;
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (next !== value) onChange(next);
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="flex items-center justify-center gap-2">
+            <Activity size={18} className="text-blue-500 dark:text-blue-400" />
+            <input
+                type="text"
+                list="activity-suggestions"
+                maxLength={80}
+                placeholder="Sin actividad"
+                value={draft}
+                onChange={e => setDraft(e.target.value)}
+                disabled={disabled}
+                className={inputClass}
+                aria-label="Actividad"
+            />
+            <datalist id="activity-suggestions">
+                {suggestions.map(suggestion => <option key={suggestion} value={suggestion} />)}
+            </datalist>
+            <button
+                type="submit"
+                disabled={disabled || next === value}
+                className="p-2 bg-primary-lime text-dark-bg rounded-lg hover:bg-secondary-lime disabled:opacity-50"
+                title="Cambiar de actividad"
+            >
+                <Check size={16} />
+            </button>
+        </form>
+    );
+};
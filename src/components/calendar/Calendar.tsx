@@ -1,16 +1,37 @@
 import { useState } from 'react';
-import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { AlertTriangle, ChevronLeft, ChevronRight } from 'lucide-react';
 import type { Database } from '../../types/database.types';
+import { allocateSessionByDay } from '../../utils/dayAllocation';
+import { evaluateCompliance, groupIssuesBySession } from '../../utils/compliance';
+import { ABSENCE_TYPE_LABELS, getAbsenceForDate, type AbsenceType } from '../../utils/absences';
+import { toDateKey } from '../../utils/schedule';
+import { getZonedCalendarDate } from '../../utils/timezone';
+import { useTimeZone } from '../../hooks/useTimeZone';
+import type { WorkSession } from '../../hooks/useHistory';
 
-type WorkSession = Database['public']['Tables']['work_sessions']['Row'];
+type Absence = Database['public']['Tables']['absences']['Row'];
+type Holiday = Database['public']['Functions']['user_holidays']['Returns'][number];
 
 interface CalendarProps {
     sessions: WorkSession[];
-    onDayClick: (date: Date, daySessions: WorkSession[]) => void;
+    absences?: Absence[];
+    holidays?: Holiday[];
+    onDayClick: (date: Date, daySessions: WorkSession[], dayAbsence: Absence | null, dayHoliday: Holiday | null) => void;
 }
 
-export const Calendar = ({ sessions, onDayClick }: CalendarProps) => {
-    const [currentDate, setCurrentDate] = useState(new Date());
+// Background of a day covered by an absence, per type
+const ABSENCE_STYLES: Record<AbsenceType, string> = {
+    vacation: 'bg-sky-500/15',
+    sick_leave: 'bg-rose-500/15',
+    public_holiday: 'bg-violet-500/15',
+    personal: 'bg-amber-500/15',
+    other: 'bg-gray-500/15',
+};
+
+export const Calendar = ({ sessions, absences = [], holidays = [], onDayClick }: CalendarProps) => {
+    // Days are calendar days of the profile's timezone, not the browser's
+    const { timeZone } = useTimeZone();
+    const [currentDate, setCurrentDate] = useState(() => getZonedCalendarDate(new Date(), timeZone));
 
     const year = currentDate.getFullYear();
     const month = currentDate.getMonth();
@@ -44,23 +65,35 @@ export const Calendar = ({ sessions, onDayClick }: CalendarProps) => {
     };
 
     const goToToday = () => {
-        setCurrentDate(new Date());
+        setCurrentDate(getZonedCalendarDate(new Date(), timeZone));
     };
 
-    // Group sessions by date
-    const sessionsByDate = sessions.reduce((acc, session) => {
-        const date = new Date(session.start_time).toDateString();
-        if (!acc[date]) acc[date] = [];
-        acc[date].push(session);
-        return acc;
-    }, {} as Record<string, WorkSession[]>);
+    // Group sessions by date: a session spanning midnight shows up on every day it covers,
+    // and each day only adds up the net time worked within it
+    const sessionsByDate: Record<string, WorkSession[]> = {};
+    const secondsByDate: Record<string, number> = {};
+    for (const session of sessions) {
+        for (const [date, seconds] of Object.entries(allocateSessionByDay(session, timeZone))) {
+            (sessionsByDate[date] ??= []).push(session);
+            secondsByDate[date] = (secondsByDate[date] ?? 0) + seconds;
+        }
+    }
+
+    // Sessions that break a rest or weekly-hours rule flag every day they cover
+    const complianceIssues = groupIssuesBySession(evaluateCompliance(sessions, timeZone));
 
     const getSessionsForDay = (day: number, isCurrentMonth: boolean): WorkSession[] => {
         if (!isCurrentMonth) return [];
-        const date = new Date(year, month, day).toDateString();
+        const date = toDateKey(new Date(year, month, day));
         return sessionsByDate[date] || [];
     };
 
+    const formatDayTotal = (seconds: number): string => {
+        const h = Math.floor(seconds / 3600);
+        const m = Math.floor((seconds % 3600) / 60);
+        return h > 0 ? `${h}h ${m.toString().padStart(2, '0')}m` : `${m}m`;
+    };
+
     const getIndicatorColor = (count: number): string => {
         if (count === 0) return '';
         if (count === 1) return 'bg-green-500';
@@ -70,7 +103,7 @@ export const Calendar = ({ sessions, onDayClick }: CalendarProps) => {
 
     const isToday = (day: number, isCurrentMonth: boolean): boolean => {
         if (!isCurrentMonth) return false;
-        const today = new Date();
+        const today = getZonedCalendarDate(new Date(), timeZone);
         return (
             day === today.getDate() &&
             month === today.getMonth() &&
@@ -111,19 +144,50 @@ export const Calendar = ({ sessions, onDayClick }: CalendarProps) => {
             const indicatorColor = getIndicatorColor(daySessions.length);
             const today = isToday(day, isCurrentMonth);
             const cellDate = new Date(cellYear, cellMonth, day);
+            const dayTotalSeconds = isCurrentMonth ? secondsByDate[toDateKey(cellDate)] ?? 0 : 0;
+            const dayAbsence = isCurrentMonth ? getAbsenceForDate(absences, cellDate) : null;
+            const dayHoliday = isCurrentMonth ? holidays.find(h => h.holiday_date === toDateKey(cellDate)) ?? null : null;
+            const dayIssues = daySessions.flatMap(session => complianceIssues[session.id] ?? []);
+            const titleParts = [
+                dayHoliday?.name,
+                dayAbsence && `${ABSENCE_TYPE_LABELS[dayAbsence.absence_type]}${dayAbsence.status === 'pending' ? ' (pendiente)' : ''}`,
+                ...dayIssues.map(issue => issue.message)
+            ].filter(Boolean);
 
             cells.push(
                 <button
                     key={i}
-                    onClick={() => onDayClick(cellDate, daySessions)}
+                    onClick={() => onDayClick(cellDate, daySessions, dayAbsence, dayHoliday)}
+                    title={titleParts.length > 0 ? titleParts.join(' · ') : undefined}
                     className={`
                         aspect-square p-2 rounded-lg transition-all relative
                         ${isCurrentMonth ? 'text-gray-900 dark:text-white hover:bg-gray-100 dark:hover:bg-white/10' : 'text-gray-400 dark:text-gray-600'}
                         ${today ? 'ring-2 ring-primary-lime' : ''}
-                        ${daySessions.length > 0 ? 'cursor-pointer' : 'cursor-default'}
+                        ${daySessions.length > 0 || dayAbsence || dayHoliday ? 'cursor-pointer' : 'cursor-default'}
+                        ${dayAbsence ? ABSENCE_STYLES[dayAbsence.absence_type] : ''}
+                        ${dayAbsence?.status === 'pending' ? 'border border-dashed border-gray-400 dark:border-white/30' : ''}
                     `}
                 >
-                    <div className="text-sm font-medium">{day}</div>
+                    {/* Public holidays are non-working days: red day number and name */}
+                    <div className={`text-sm font-medium ${dayHoliday ? 'text-red-500' : ''}`}>{day}</div>
+                    {dayHoliday && (
+                        <div className="hidden sm:block text-[10px] truncate text-red-500">
+                            {dayHoliday.name}
+                        </div>
+                    )}
+                    {dayAbsence && (
+                        <div className="hidden sm:block text-[10px] truncate text-gray-600 dark:text-gray-300">
+                            {dayAbsence.half_day ? '½ ' : ''}{ABSENCE_TYPE_LABELS[dayAbsence.absence_type]}
+                        </div>
+                    )}
+                    {dayTotalSeconds > 0 && (
+                        <div className="hidden sm:block text-[10px] font-mono text-gray-500 dark:text-gray-400">
+                            {formatDayTotal(dayTotalSeconds)}
+                        </div>
+                    )}
+                    {dayIssues.length > 0 && (
+                        <AlertTriangle size={12} className="absolute top-1 right-1 text-orange-500" />
+                    )}
                     {indicatorColor && (
                         <div className={`absolute bottom-1 left-1/2 -translate-x-1/2 w-1.5 h-1.5 rounded-full ${indicatorColor}`} />
                     )}
@@ -194,7 +258,33 @@ export const Calendar = ({ sessions, onDayClick }: CalendarProps) => {
                     <div className="w-2 h-2 rounded-full bg-orange-500" />
                     <span>4+ sesiones</span>
                 </div>
+                {Object.keys(complianceIssues).length > 0 && (
+                    <div className="flex items-center gap-2">
+                        <AlertTriangle size={14} className="text-orange-500" />
+                        <span>Descanso o jornada fuera de límites</span>
+                    </div>
+                )}
             </div>
+            {(absences.length > 0 || holidays.length > 0) && (
+                <div className="flex flex-wrap items-center justify-center gap-4 text-xs text-gray-500 dark:text-gray-400">
+                    {holidays.length > 0 && (
+                        <div className="flex items-center gap-2">
+                            <span className="font-bold text-red-500">1</span>
+                            <span>Festivo (no laborable)</span>
+                        </div>
+                    )}
+                    {(Object.keys(ABSENCE_STYLES) as AbsenceType[]).map(type => (
+                        <div key={type} className="flex items-center gap-2">
+                            <div className={`w-3 h-3 rounded ${ABSENCE_STYLES[type]}`} />
+                            <span>{ABSENCE_TYPE_LABELS[type]}</span>
+                        </div>
+                    ))}
+                    <div className="flex items-center gap-2">
+                        <div className="w-3 h-3 rounded border border-dashed border-gray-400" />
+                        <span>Pendiente de aprobar</span>
+                    </div>
+                </div>
+            )}
         </div>
     );
 };
@@ -2,9 +2,9 @@ import { useState } from 'react';
 import { Modal } from '../ui/Modal';
 import { Calendar } from './Calendar';
 import { Clock, Coffee } from 'lucide-react';
-import type { Database } from '../../types/database.types';
-
-type WorkSession = Database['public']['Tables']['work_sessions']['Row'];
+import { formatDuration, parseInterval } from '../../utils/duration';
+import { useTimeZone } from '../../hooks/useTimeZone';
+import type { WorkSession } from '../../hooks/useHistory';
 
 interface CalendarModalProps {
     isOpen: boolean;
@@ -13,6 +13,7 @@ interface CalendarModalProps {
 }
 
 export const CalendarModal = ({ isOpen, onClose, sessions }: CalendarModalProps) => {
+    const { timeZone } = useTimeZone();
     const [selectedDate, setSelectedDate] = useState<Date | null>(null);
     const [selectedDaySessions, setSelectedDaySessions] = useState<WorkSession[]>([]);
 
@@ -21,6 +22,7 @@ export const CalendarModal = ({ isOpen, onClose, sessions }: CalendarModalProps)
         setSelectedDaySessions(daySessions);
     };
 
+    // `date` is already the calendar day in the profile's timezone (see Calendar)
     const formatDate = (date: Date) => {
         return date.toLocaleDateString('es-ES', {
             weekday: 'long',
@@ -69,19 +71,21 @@ export const CalendarModal = ({ isOpen, onClose, sessions }: CalendarModalProps)
                                                     <span className="text-gray-900 dark:text-white font-medium">
                                                         {new Date(session.start_time).toLocaleTimeString([], {
                                                             hour: '2-digit',
-                                                            minute: '2-digit'
+                                                            minute: '2-digit',
+                                                            timeZone
                                                         })}
                                                         {' - '}
                                                         {session.end_time
                                                             ? new Date(session.end_time).toLocaleTimeString([], {
                                                                 hour: '2-digit',
-                                                                minute: '2-digit'
+                                                                minute: '2-digit',
+                                                                timeZone
                                                             })
                                                             : 'Activa'}
                                                     </span>
                                                 </div>
                                                 <div className="px-2 py-1 rounded text-xs font-mono bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 border border-gray-200 dark:border-gray-700">
-                                                    {session.total_duration?.split('.')[0] || '--:--:--'}
+                                                    {session.total_duration ? formatDuration(parseInterval(session.total_duration) * 1000) : '--:--:--'}
                                                 </div>
                                             </div>
 
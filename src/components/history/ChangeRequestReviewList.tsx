@@ -0,0 +1,130 @@
+// useState: comentario del revisor por solicitud.
+import { useState } from 'react';
+import { Check, X, FileClock } from 'lucide-react';
+
+// ChangeRequest: solicitud con los valores originales y los propuestos.
+import type { ChangeRequest } from '../../hooks/useChangeRequests';
+
+/**
+ * Props del componente ChangeRequestReviewList.
+ * @property {ChangeRequest[]} requests - Solicitudes pendientes de revisión.
+ * @property {(userId: string) => string} memberName - Nombre visible de un trabajador.
+ * @property {Function} onReview - Aprueba (true) o rechaza (false) una solicitud; retorna si tuvo éxito.
+ */
+interface ChangeRequestReviewListProps {
+    requests: ChangeRequest[];
+    memberName: (userId: string) => string;
+    onReview: (requestId: string, approve: boolean, comment: string) => Promise<boolean>;
+}
+
+// Fecha y hora cortas para comparar valores.
+const formatDateTime = (value: string | null) =>
+    value
+        ? new Date(value).toLocaleString('es-ES', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' })
+        : '-';
+
+// Pausas como lista "09:00-09:15, 13:00-13:30".
+const formatPauses = (pauses: ChangeRequest['original_pauses']) =>
+    pauses.length === 0
+        ? 'Sin pausas'
+        : pauses.map(p => {
+            const time = (value: string | null) => value
+                ? new Date(value).toLocaleTimeString('es-ES', { hour: '2-digit', minute: '2-digit' })
+                : '...';
+            return `${time(p.pause_start)}-${time(p.pause_end)}`;
+        }).join(', ');
+
+/**
+ * Lista de solicitudes de cambio pendientes para managers y admins.
+ *
+ * Muestra, para cada solicitud, el trabajador, el motivo y una tabla con los
+ * valores originales frente a los propuestos (los cambios se resaltan). El
+ * revisor puede aprobar (la base de datos aplica el cambio a la sesión) o
+ * rechazar; rechazar exige un comentario.
+ */
+export const ChangeRequestReviewList = ({ requests, memberName, onReview }: ChangeRequestReviewListProps) => {
+    const [comments, setComments] = useState<Record<string, string>>({});
+
+    const handleReview = async (requestId: string, approve: boolean) => {
+        if (await onReview(requestId, approve, (comments[requestId] ?? '').trim())) {
+            setComments(prev => ({ ...prev, [requestId]: '' }));
+        }
+    };
+
+    return (
+        <div className="glass-card p-6 space-y-4">
+            <h2 className="flex items-center gap-2 text-xl font-bold text-gray-900 dark:text-white">
+                <FileClock size={20} className="text-primary-lime" />
+                Solicitudes de cambio ({requests.length})
+            </h2>
+
+            {requests.length === 0 && (
+                <p className="text-sm text-gray-500 italic">No hay solicitudes pendientes.</p>
+            )}
+
+            {requests.map(request => {
+                const rows = [
+                    { label: 'Inicio', original: formatDateTime(request.original_start_time), proposed: formatDateTime(request.proposed_start_time) },
+                    { label: 'Fin', original: formatDateTime(request.original_end_time), proposed: formatDateTime(request.proposed_end_time) },
+                    { label: 'Pausas', original: formatPauses(request.original_pauses), proposed: formatPauses(request.proposed_pauses) },
+                    { label: 'Notas', original: request.original_notes || '-', proposed: request.proposed_notes || '-' },
+                ];
+
+                return (
+                    <div key={request.id} className="p-4 rounded-lg bg-gray-50 dark:bg-white/5 space-y-3">
+                        <div>
+                            <div className="font-medium text-gray-900 dark:text-white">{memberName(request.user_id)}</div>
+                            <div className="text-sm text-gray-600 dark:text-gray-400 italic">"{request.reason}"</div>
+                        </div>
+
+                        {/* Original vs propuesto */}
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-xs text-gray-500">
+                                    <th className="py-1 pr-3 font-medium"></th>
+                                    <th className="py-1 pr-3 font-medium">Original</th>
+                                    <th className="py-1 font-medium">Propuesto</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rows.map(row => (
+                                    <tr key={row.label} className="border-t border-gray-200 dark:border-white/10">
+                                        <td className="py-1 pr-3 text-gray-500">{row.label}</td>
+                                        <td className="py-1 pr-3 text-gray-700 dark:text-gray-300">{row.original}</td>
+                                        <td className={`py-1 ${row.original !== row.proposed ? 'text-primary-lime font-medium' : 'text-gray-700 dark:text-gray-300'}`}>
+                                            {row.proposed}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+
+                        <div className="flex flex-wrap gap-2">
+                            <input
+                                value={comments[request.id] ?? ''}
+                                onChange={e => setComments(prev => ({ ...prev, [request.id]: e.target.value }))}
+                                placeholder="Comentario (obligatorio para rechazar)"
+                                className="flex-1 min-w-[200px] bg-white dark:bg-dark-bg border border-gray-200 dark:border-white/10 rounded-lg p-2 text-sm text-gray-900 dark:text-white focus:border-primary-lime outline-none"
+                            />
+                            <button
+                                onClick={() => handleReview(request.id, true)}
+                                className="flex items-center gap-1 px-3 py-2 bg-primary-lime text-dark-bg font-bold rounded-lg hover:bg-secondary-lime text-sm"
+                            >
+                                <Check size={16} />
+                                Aprobar
+                            </button>
+                            <button
+                                onClick={() => handleReview(request.id, false)}
+                                disabled={!(comments[request.id] ?? '').trim()}
+                                className="flex items-center gap-1 px-3 py-2 text-red-500 border border-red-500/30 rounded-lg hover:bg-red-500/10 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                <X size={16} />
+                                Rechazar
+                            </button>
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
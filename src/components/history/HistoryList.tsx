@@ -4,8 +4,37 @@ import { useEffect, useState } from 'react';
 
 // useHistory: hook personalizado para gestionar el historial de sesiones.
 import { useHistory } from '../../hooks/useHistory';
-import { Trash2, Edit2, Coffee } from 'lucide-react';
+import { Trash2, Edit2, Coffee, History, AlertTriangle } from 'lucide-react';
 import { Modal } from '../ui/Modal';
+import { formatDuration, parseInterval } from '../../utils/duration';
+
+// PauseEditor: sub-editor de pausas del modal de edición.
+import { PauseEditor, type PauseFormValue } from './PauseEditor';
+import { validatePauses } from '../../utils/pauses';
+
+// useChangeRequests: solicitudes de cambio para sesiones fuera de la ventana de edición.
+import { useChangeRequests, type ChangeRequest } from '../../hooks/useChangeRequests';
+import { isOutsideEditWindow, validateSessionWindow } from '../../utils/sessionRules';
+
+// SessionAuditModal: "Historial de cambios" de una sesión (registro de auditoría).
+import { SessionAuditModal } from './SessionAuditModal';
+import { fromDateTimeLocal, toDateTimeLocal } from '../../utils/date';
+
+// useTimeZone: zona horaria del perfil (fechas y horas de las sesiones).
+import { useTimeZone } from '../../hooks/useTimeZone';
+
+// useProjects / ProjectBreakdown: desglose del tiempo de cada sesión por proyecto.
+import { useProjects } from '../../hooks/useProjects';
+import { ProjectBreakdown } from '../projects/ProjectBreakdown';
+import { getProjectBreakdown } from '../../utils/projects';
+
+// ActivityBreakdown: desglose del tiempo de cada sesión por actividad.
+import { ActivityBreakdown } from '../activities/ActivityBreakdown';
+import { getActivityBreakdown } from '../../utils/activities';
+
+// useSessionsCompliance: marca las sesiones sin descanso obligatorio o por encima del máximo semanal.
+import { useSessionsCompliance } from '../../hooks/useCompliance';
+import { COMPLIANCE_RULE_LABELS } from '../../utils/compliance';
 
 // Database: tipos generados de la base de datos para tipado seguro.
 import type { Database } from '../../types/database.types';
@@ -30,10 +59,17 @@ interface HistoryListProps {
  *
  * Funcionalidades:
  * - Carga las últimas 5 sesiones completadas al montar y cuando cambia `refreshTrigger`.
- * - Muestra cada sesión con: fecha, duración total, horario (inicio - fin), pausas y notas.
+ * - Muestra cada sesión con: fecha, duración total, horario (inicio - fin), pausas,
+ *   desglose por proyecto (si se imputó a alguno) y notas.
+ * - Marca las sesiones sin el descanso obligatorio, con menos de 12 h de
+ *   descanso desde la anterior o con las que se superan las 40 h semanales.
  * - Botones de editar y eliminar por sesión (visibles al hacer hover en pantallas md+).
- * - Modal de edición para modificar inicio, fin y notas de una sesión.
- * - Confirmación con `window.confirm` antes de eliminar una sesión.
+ * - Modal de edición para modificar inicio, fin, notas y pausas de una sesión.
+ * - Confirmación con `window.confirm` antes de mover una sesión a la papelera.
+ * - Las sesiones anteriores a la ventana de edición de la organización no se
+ *   modifican directamente: el modal envía una solicitud de cambio con motivo
+ *   que debe aprobar un manager, y no se pueden eliminar.
+ * - Botón "Historial de cambios" con el registro de auditoría de cada sesión.
  *
  * Estados visuales:
  * - Loading: mensaje "Cargando historial...".
@@ -42,15 +78,52 @@ interface HistoryListProps {
  */
 export const HistoryList = ({ refreshTrigger = 0 }: HistoryListProps) => {
     // Desestructura las funciones y estado del hook de historial.
-    const { sessions, loading, loadSessions, deleteSession, updateSession } = useHistory();
+    const { sessions, loading, error, loadSessions, deleteSession, loadPauses, updateSessionWithPauses } = useHistory();
+    const { timeZone } = useTimeZone();
+    // Proyectos y tareas, para nombrar el desglose de cada sesión.
+    const { projects, tasks } = useProjects();
     // Sesión que se está editando actualmente (null = no hay edición activa).
     const [editingSession, setEditingSession] = useState<WorkSession | null>(null);
     // Estado del formulario de edición con los campos editables.
-    const [editForm, setEditForm] = useState({
+    const [editForm, setEditForm] = useState<{
+        start_time: string;
+        end_time: string;
+        notes: string;
+        pauses: PauseFormValue[];
+    }>({
         start_time: '',
         end_time: '',
-        notes: ''
+        notes: '',
+        pauses: []
+    });
+    // Error de validación o guardado del formulario de edición.
+    const [editError, setEditError] = useState<string | null>(null);
+    // Indica si el último guardado falló en la base de datos (el motivo está en `error`).
+    const [saveFailed, setSaveFailed] = useState(false);
+    // Sesión cuyo historial de cambios se está consultando (null = modal cerrado).
+    const [auditSessionId, setAuditSessionId] = useState<string | null>(null);
+    // Motivo de la solicitud de cambio (sesiones fuera de la ventana de edición).
+    const [reason, setReason] = useState('');
+    // Solicitudes de cambio propias y ventana de edición directa.
+    const { requests, editWindowDays, error: requestError, createChangeRequest, cancelChangeRequest } = useChangeRequests();
+
+    // Última solicitud de cada sesión (las solicitudes llegan de más reciente a más antigua).
+    const latestRequest = new Map<string, ChangeRequest>();
+    requests.forEach(r => {
+        if (!latestRequest.has(r.session_id)) latestRequest.set(r.session_id, r);
     });
+
+    // Incumplimientos de descansos y jornada, evaluados sobre las semanas completas
+    // de las sesiones mostradas (no solo sobre las cargadas).
+    const complianceIssues = useSessionsCompliance(sessions);
+
+    // La sesión en edición requiere solicitud de cambio en lugar de guardado directo.
+    const requiresRequest = !!editingSession && isOutsideEditWindow(editingSession.start_time, editWindowDays);
+    const pendingRequest = editingSession && latestRequest.get(editingSession.id)?.status === 'pending'
+        ? latestRequest.get(editingSession.id)
+        : undefined;
+    // Motivo devuelto por la base de datos cuando falla el guardado o la solicitud.
+    const saveErrorDetail = requiresRequest ? requestError : error;
     // Carga las sesiones al montar y cada vez que cambia refreshTrigger.
     // Carga las últimas 5 sesiones completadas.
     useEffect(() => {
@@ -62,45 +135,112 @@ export const HistoryList = ({ refreshTrigger = 0 }: HistoryListProps) => {
      * @param {string} id - ID de la sesión a eliminar.
      */
     const handleDelete = async (id: string) => {
-        if (window.confirm('¿Estás seguro de eliminar esta sesión?')) {
+        if (window.confirm('¿Mover esta sesión a la papelera? Podrás restaurarla desde Sesiones > Papelera.')) {
             await deleteSession(id);
         }
     };
     /**
-         * Guarda los cambios de edición de una sesión.
-         *
-         * Convierte las fechas del formulario (hora local) de vuelta a ISO UTC
-         * antes de enviarlas a la base de datos.
-         *
-         * @param {React.FormEvent} e - Evento del formulario.
-         */
-    const openEdit = (session: any) => {
+     * Abre el modal de edición de una sesión y carga sus pausas.
+     *
+     * @param {WorkSession} session - Sesión a editar.
+     */
+    const openEdit = async (session: WorkSession) => {
         setEditingSession(session);
-        // Función auxiliar para convertir ISO UTC a formato datetime-local (YYYY-MM-DDThh:mm).
-        // Resta el offset de zona horaria para mostrar la hora local correcta.
-        const toLocalISO = (isoString: string) => {
-            const date = new Date(isoString);
-            return new Date(date.getTime() - (date.getTimezoneOffset() * 60000)).toISOString().slice(0, 16);
-        };
+        setEditError(null);
+        setSaveFailed(false);
+        setReason('');
+        // Las fechas se muestran en formato datetime-local (hora de la zona del perfil).
         setEditForm({
-            start_time: toLocalISO(session.start_time),
-            end_time: session.end_time ? toLocalISO(session.end_time) : '',
-            notes: session.notes || ''
+            start_time: toDateTimeLocal(session.start_time, timeZone),
+            end_time: session.end_time ? toDateTimeLocal(session.end_time, timeZone) : '',
+            notes: session.notes || '',
+            pauses: []
         });
+
+        // Carga las pausas de la sesión para el sub-editor.
+        const pauses = await loadPauses(session.id);
+        setEditForm(prev => ({
+            ...prev,
+            pauses: pauses.map(p => ({
+                id: p.id,
+                pause_start: toDateTimeLocal(p.pause_start, timeZone),
+                pause_end: p.pause_end ? toDateTimeLocal(p.pause_end, timeZone) : '',
+                pause_type_id: p.pause_type_id,
+                paid: p.paid
+            }))
+        }));
     };
 
+    /**
+     * Guarda los cambios de edición de una sesión.
+     *
+     * Convierte las fechas del formulario (hora local) de vuelta a ISO UTC
+     * antes de enviarlas a la base de datos.
+     *
+     * @param {React.FormEvent} e - Evento del formulario.
+     */
     const handleUpdate = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!editingSession) return;
+        setSaveFailed(false);
 
         // Convierte fecha local a ISO UTC para almacenar en la base de datos.
-        const toUTC = (localString: string) => new Date(localString).toISOString();
+        // La duración neta (total_duration) la recalcula el trigger de la base de datos.
+        const startTime = fromDateTimeLocal(editForm.start_time, timeZone);
+        const endTime = fromDateTimeLocal(editForm.end_time, timeZone);
+        const pauses = editForm.pauses.map(p => ({
+            id: p.id,
+            pause_start: fromDateTimeLocal(p.pause_start, timeZone),
+            pause_end: fromDateTimeLocal(p.pause_end, timeZone) || null,
+            pause_type_id: p.pause_type_id,
+            paid: p.paid
+        }));
 
-        await updateSession(editingSession.id, {
-            start_time: toUTC(editForm.start_time),
-            end_time: toUTC(editForm.end_time),
-            notes: editForm.notes
-        });
+        // Validación: fin posterior al inicio, máximo 16 h y pausas coherentes con la sesión.
+        const windowError = validateSessionWindow(startTime, endTime);
+        if (windowError) {
+            setEditError(windowError);
+            return;
+        }
+        const pauseErrors = validatePauses(startTime, endTime, pauses);
+        if (pauseErrors.length > 0) {
+            setEditError(`Pausa ${pauseErrors[0].index + 1}: ${pauseErrors[0].message}`);
+            return;
+        }
+
+        // Sesión antigua: se envía la corrección como solicitud de cambio.
+        if (requiresRequest) {
+            if (!reason.trim()) {
+                setEditError('Indica el motivo del cambio');
+                return;
+            }
+            const sent = await createChangeRequest(
+                editingSession.id,
+                { start_time: startTime, end_time: endTime, notes: editForm.notes, pauses },
+                reason.trim()
+            );
+            if (!sent) {
+                setEditError('No se pudo enviar la solicitud de cambio');
+                setSaveFailed(true);
+                return;
+            }
+            setEditingSession(null);
+            return;
+        }
+
+        // Sesión y pausas en una sola transacción: si algo se rechaza, no se
+        // guarda nada. Después recarga el historial.
+        const saved = await updateSessionWithPauses(
+            editingSession.id,
+            { start_time: startTime, end_time: endTime, notes: editForm.notes },
+            pauses
+        );
+
+        if (!saved) {
+            setEditError('No se pudieron guardar los cambios');
+            setSaveFailed(true);
+            return;
+        }
 
         // Cierra el modal de edición.
         setEditingSession(null);
@@ -113,6 +253,11 @@ export const HistoryList = ({ refreshTrigger = 0 }: HistoryListProps) => {
                 <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Historial de Sesiones</h2>
             </div>
 
+            {/* Error de la última operación (p. ej. eliminar una sesión de un periodo aprobado) */}
+            {error && !editingSession && (
+                <p className="text-sm text-red-500">{error}</p>
+            )}
+
             {/* Renderizado condicional según el estado */}
             {loading ? (
                 // Estado: cargando.
@@ -132,25 +277,68 @@ export const HistoryList = ({ refreshTrigger = 0 }: HistoryListProps) => {
                                 <div className="flex items-center gap-3">
                                     {/* Fecha de la sesión */}
                                     <div className="text-lg font-bold text-gray-900 dark:text-white">
-                                        {new Date(session.start_time).toLocaleDateString()}
+                                        {new Date(session.start_time).toLocaleDateString(undefined, { timeZone })}
                                     </div>
-                                    {/* Duración total formateada */}
+                                    {/* Duración neta (calculada por el trigger de la base de datos) */}
                                     <div className="px-2 py-0.5 rounded text-xs font-mono bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 border border-gray-200 dark:border-gray-700">
-                                        {session.total_duration?.split('.')[0] || 'Unknown'}
+                                        {session.total_duration ? formatDuration(parseInterval(session.total_duration) * 1000) : 'Unknown'}
                                     </div>
+                                    {/* Marca de jornada no fichada en vivo (manual o importada) */}
+                                    {session.source !== 'live' && (
+                                        <div className="px-2 py-0.5 rounded text-xs bg-purple-500/10 text-purple-600 dark:text-purple-400 border border-purple-500/20">
+                                            {session.source === 'manual' ? 'Manual' : 'Importada'}
+                                        </div>
+                                    )}
+                                    {/* Marca de sesión olvidada que cerró el servidor: conviene revisar la salida */}
+                                    {session.forgotten_at && session.status === 'completed' && (
+                                        <div
+                                            className="px-2 py-0.5 rounded text-xs bg-orange-500/10 text-orange-600 dark:text-orange-400 border border-orange-500/20"
+                                            title="Se cerró automáticamente al superar el límite: revisa la hora de salida"
+                                        >
+                                            Cierre automático
+                                        </div>
+                                    )}
+                                    {/* Estado de la última solicitud de cambio (pendiente o rechazada) */}
+                                    {latestRequest.get(session.id)?.status === 'pending' && (
+                                        <div className="px-2 py-0.5 rounded text-xs bg-yellow-500/10 text-yellow-600 dark:text-yellow-400 border border-yellow-500/20">
+                                            Cambio pendiente
+                                        </div>
+                                    )}
+                                    {latestRequest.get(session.id)?.status === 'rejected' && (
+                                        <div
+                                            className="px-2 py-0.5 rounded text-xs bg-red-500/10 text-red-600 dark:text-red-400 border border-red-500/20"
+                                            title={latestRequest.get(session.id)?.review_comment ?? undefined}
+                                        >
+                                            Cambio rechazado
+                                        </div>
+                                    )}
+                                    {/* Incumplimiento de descansos o del máximo semanal */}
+                                    {complianceIssues[session.id] && (
+                                        <div
+                                            className="flex items-center gap-1 px-2 py-0.5 rounded text-xs bg-orange-500/10 text-orange-600 dark:text-orange-400 border border-orange-500/20"
+                                            title={complianceIssues[session.id].map(issue => issue.message).join('\n')}
+                                        >
+                                            <AlertTriangle size={12} />
+                                            {complianceIssues[session.id].map(issue => COMPLIANCE_RULE_LABELS[issue.rule]).join(' · ')}
+                                        </div>
+                                    )}
                                 </div>
                                 {/* Horario de inicio y fin + conteo de pausas */}
                                 <div className="text-sm text-gray-600 dark:text-gray-400 flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4">
                                     <span>
-                                        {new Date(session.start_time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} -
-                                        {session.end_time ? new Date(session.end_time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : 'Active'}
+                                        {new Date(session.start_time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone })} -
+                                        {session.end_time ? new Date(session.end_time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone }) : 'Active'}
                                     </span>
                                     {/* Muestra conteo de pausas con ícono Coffee, siempre visible */}
                                     <span className="flex items-center gap-1 text-yellow-600 dark:text-yellow-500/80">
                                         <Coffee size={14} />
-                                        {session.work_pauses?.[0]?.count || 0} pausa(s)
+                                        {session.work_pauses.length} pausa(s)
                                     </span>
                                 </div>
+                                {/* Tiempo neto por proyecto (oculto si no se imputó a ninguno) */}
+                                <ProjectBreakdown totals={getProjectBreakdown(session)} catalog={{ projects, tasks }} />
+                                {/* Tiempo neto por actividad (oculto si no se indicó ninguna) */}
+                                <ActivityBreakdown totals={getActivityBreakdown(session)} className="mt-1" />
                                 {/* Notas de la sesión (si existen) */}
                                 {session.notes && (
                                     <div className="text-sm text-gray-500 dark:text-gray-500 italic mt-1 font-medium">"{session.notes}"</div>
@@ -160,6 +348,14 @@ export const HistoryList = ({ refreshTrigger = 0 }: HistoryListProps) => {
                             {/* Botones de acción: editar y eliminar */}
                             {/* En pantallas sm+: ocultos por defecto, visibles al hover del grupo */}
                             <div className="flex items-center gap-2 self-end sm:self-center opacity-100 sm:opacity-0 group-hover:opacity-100 transition-opacity">
+                                {/* Botón historial de cambios */}
+                                <button
+                                    onClick={() => setAuditSessionId(session.id)}
+                                    className="p-2 text-gray-400 hover:bg-gray-400/10 rounded-lg transition-colors"
+                                    title="Historial de cambios"
+                                >
+                                    <History size={18} />
+                                </button>
                                 {/* Botón editar */}
                                 <button
                                     onClick={() => openEdit(session)}
@@ -170,7 +366,9 @@ export const HistoryList = ({ refreshTrigger = 0 }: HistoryListProps) => {
                                 {/* Botón eliminar */}
                                 <button
                                     onClick={() => handleDelete(session.id)}
-                                    className="p-2 text-red-400 hover:bg-red-400/10 rounded-lg transition-colors"
+                                    disabled={isOutsideEditWindow(session.start_time, editWindowDays)}
+                                    title={isOutsideEditWindow(session.start_time, editWindowDays) ? 'Las sesiones anteriores a la ventana de edición no se pueden eliminar' : undefined}
+                                    className="p-2 text-red-400 hover:bg-red-400/10 rounded-lg transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
                                 >
                                     <Trash2 size={18} />
                                 </button>
@@ -180,13 +378,36 @@ export const HistoryList = ({ refreshTrigger = 0 }: HistoryListProps) => {
                 </div>
             )}
 
+            {/* === Modal de historial de cambios === */}
+            <SessionAuditModal sessionId={auditSessionId} onClose={() => setAuditSessionId(null)} />
+
             {/* === Modal de edición de sesión === */}
             <Modal
                 isOpen={!!editingSession}
                 onClose={() => setEditingSession(null)}
-                title="Editar Sesión"
+                title={requiresRequest ? 'Solicitar Cambio' : 'Editar Sesión'}
             >
                 <form onSubmit={handleUpdate} className="space-y-4">
+                    {/* Aviso: la sesión es anterior a la ventana de edición */}
+                    {requiresRequest && (
+                        <p className="text-sm p-3 rounded-lg bg-yellow-500/10 text-yellow-700 dark:text-yellow-400">
+                            Esta sesión tiene más de {editWindowDays} día(s). Los cambios se enviarán como solicitud
+                            y se aplicarán cuando un manager la apruebe.
+                        </p>
+                    )}
+                    {/* Solicitud pendiente: solo puede haber una por sesión */}
+                    {pendingRequest && (
+                        <div className="flex items-center justify-between gap-3 text-sm p-3 rounded-lg bg-gray-100 dark:bg-white/5 text-gray-600 dark:text-gray-400">
+                            <span>Ya hay una solicitud pendiente para esta sesión.</span>
+                            <button
+                                type="button"
+                                onClick={() => cancelChangeRequest(pendingRequest.id)}
+                                className="text-red-500 hover:underline shrink-0"
+                            >
+                                Cancelar solicitud
+                            </button>
+                        </div>
+                    )}
                     {/* Campo: Hora de inicio */}
                     <div>
                         <label className="block text-sm text-gray-600 dark:text-gray-400 mb-1">Inicio</label>
@@ -209,6 +430,13 @@ export const HistoryList = ({ refreshTrigger = 0 }: HistoryListProps) => {
                             className="w-full bg-white dark:bg-dark-bg border border-gray-200 dark:border-white/10 rounded-lg p-3 text-gray-900 dark:text-white focus:border-primary-lime outline-none"
                         />
                     </div>
+                    {/* Sub-editor de pausas con vista previa de la duración neta */}
+                    <PauseEditor
+                        pauses={editForm.pauses}
+                        onChange={pauses => setEditForm({ ...editForm, pauses })}
+                        sessionStart={editForm.start_time}
+                        sessionEnd={editForm.end_time}
+                    />
                     {/* Campo: Notas */}
                     <div>
                         <label className="block text-sm text-gray-600 dark:text-gray-400 mb-1">Notas</label>
@@ -219,6 +447,25 @@ export const HistoryList = ({ refreshTrigger = 0 }: HistoryListProps) => {
                             placeholder="Notas opcionales..."
                         />
                     </div>
+                    {/* Campo: Motivo (solo solicitudes de cambio) */}
+                    {requiresRequest && (
+                        <div>
+                            <label className="block text-sm text-gray-600 dark:text-gray-400 mb-1">Motivo del cambio</label>
+                            <textarea
+                                required
+                                value={reason}
+                                onChange={e => setReason(e.target.value)}
+                                className="w-full bg-white dark:bg-dark-bg border border-gray-200 dark:border-white/10 rounded-lg p-3 text-gray-900 dark:text-white focus:border-primary-lime outline-none"
+                                placeholder="Ej.: olvidé fichar la salida"
+                            />
+                        </div>
+                    )}
+                    {/* Error de validación o guardado */}
+                    {editError && (
+                        <p className="text-sm text-red-500">
+                            {editError}{saveFailed && saveErrorDetail ? `: ${saveErrorDetail}` : ''}
+                        </p>
+                    )}
                     {/* Botones del formulario */}
                     <div className="flex justify-end gap-3 mt-6">
                         <button
@@ -230,9 +477,10 @@ export const HistoryList = ({ refreshTrigger = 0 }: HistoryListProps) => {
                         </button>
                         <button
                             type="submit"
-                            className="px-6 py-2 bg-primary-lime text-dark-bg font-bold rounded-lg hover:bg-secondary-lime"
+                            disabled={!!pendingRequest}
+                            className="px-6 py-2 bg-primary-lime text-dark-bg font-bold rounded-lg hover:bg-secondary-lime disabled:opacity-50 disabled:cursor-not-allowed"
                         >
-                            Guardar Cambios
+                            {requiresRequest ? 'Enviar Solicitud' : 'Guardar Cambios'}
                         </button>
                     </div>
                 </form>
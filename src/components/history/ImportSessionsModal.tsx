@@ -0,0 +1,277 @@
+// useState: archivo, mapeo de columnas y filas validadas.
+// useMemo: interpreta las filas al cambiar el archivo o las opciones.
+// useEffect: valida las filas interpretadas contra las sesiones ya registradas.
+import { useEffect, useMemo, useState } from 'react';
+
+// Upload: seleccionar archivo. CheckCircle / AlertCircle: estado de cada fila.
+import { Upload, CheckCircle, AlertCircle } from 'lucide-react';
+
+// useHistory: sesiones existentes (para detectar solapes) e inserción en bloque.
+import { useHistory } from '../../hooks/useHistory';
+import { Modal } from '../ui/Modal';
+
+// Interpretación y validación del CSV importado.
+import {
+    detectMapping,
+    IMPORT_DATE_FORMATS,
+    parseCsv,
+    parseImportRows,
+    validateImportRows,
+    type ImportDateFormat,
+    type ImportMapping,
+    type ImportRow
+} from '../../utils/csvImport';
+import { isValidTimeZone } from '../../utils/timezone';
+import { useTimeZone } from '../../hooks/useTimeZone';
+
+/**
+ * Props del componente ImportSessionsModal.
+ * @property {boolean} isOpen - Indica si el modal está visible.
+ * @property {() => void} onClose - Cierra el modal sin importar.
+ * @property {(count: number) => void} onImported - Se ejecuta tras importar (para refrescar vistas).
+ */
+interface ImportSessionsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onImported: (count: number) => void;
+}
+
+// Campos mapeables, con su etiqueta y si son obligatorios.
+const MAPPING_FIELDS: { field: keyof ImportMapping; label: string; required: boolean }[] = [
+    { field: 'date', label: 'Fecha', required: false },
+    { field: 'start', label: 'Entrada', required: true },
+    { field: 'end', label: 'Salida', required: true },
+    { field: 'pauses', label: 'Pausas', required: false },
+    { field: 'notes', label: 'Notas', required: false },
+];
+
+// Clases compartidas de los inputs.
+const inputClass = 'w-full bg-white dark:bg-dark-bg border border-gray-200 dark:border-white/10 rounded-lg p-2 text-sm text-gray-900 dark:text-white focus:border-primary-lime outline-none';
+
+/**
+ * Formatea un timestamp ISO para la previsualización ("15/01/2024 09:00").
+ */
+const formatPreview = (iso: string) =>
+    iso ? new Date(iso).toLocaleString('es-ES', { dateStyle: 'short', timeStyle: 'short' }) : '-';
+
+/**
+ * Modal "Importar Jornadas".
+ *
+ * Permite traer el histórico de un sistema anterior (hojas de cálculo):
+ * 1. Se elige un archivo CSV (separado por `;` o `,`, con cabecera).
+ * 2. Se ajusta el mapeo de columnas, el formato de fecha y la zona horaria.
+ * 3. Se previsualizan las filas con sus errores (16 horas, pausas, solapes
+ *    con el archivo o con sesiones ya registradas).
+ * 4. Se importan las filas válidas como sesiones completadas (`source = 'import'`).
+ */
+export const ImportSessionsModal = ({ isOpen, onClose, onImported }: ImportSessionsModalProps) => {
+    const { loadSessionWindows, importSessions, error } = useHistory();
+    // Por defecto, la zona horaria del perfil.
+    const { timeZone: profileTimeZone } = useTimeZone();
+    const [fileName, setFileName] = useState('');
+    const [header, setHeader] = useState<string[]>([]);
+    const [records, setRecords] = useState<string[][]>([]);
+    const [mapping, setMapping] = useState<ImportMapping | null>(null);
+    const [dateFormat, setDateFormat] = useState<ImportDateFormat>('DD/MM/YYYY');
+    const [timeZone, setTimeZone] = useState(profileTimeZone);
+    // Resultado de la validación y las filas interpretadas a las que corresponde.
+    const [validation, setValidation] = useState<{ parsed: ImportRow[]; rows: ImportRow[] } | null>(null);
+    const [importing, setImporting] = useState(false);
+
+    const timeZoneValid = isValidTimeZone(timeZone);
+
+    // Filas interpretadas con las opciones actuales (sin validar contra la base de datos).
+    const parsed = useMemo(() => {
+        if (!mapping || records.length === 0 || !timeZoneValid) return [];
+        return parseImportRows(records, { mapping, dateFormat, timeZone });
+    }, [records, mapping, dateFormat, timeZone, timeZoneValid]);
+
+    // Valida contra las sesiones ya registradas en el rango del archivo.
+    useEffect(() => {
+        const starts = parsed.filter(r => r.start_time).map(r => r.start_time).sort();
+        const ends = parsed.filter(r => r.end_time).map(r => r.end_time).sort();
+        if (starts.length === 0) return;
+
+        let cancelled = false;
+        void loadSessionWindows(starts[0], ends[ends.length - 1]).then(existing => {
+            if (!cancelled) setValidation({ parsed, rows: validateImportRows(parsed, existing ?? []) });
+        });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [parsed, loadSessionWindows]);
+
+    // Si ninguna fila tiene fechas válidas no hay nada que validar contra el servidor.
+    const needsValidation = parsed.some(r => r.start_time);
+    const validating = needsValidation && validation?.parsed !== parsed;
+    const rows = needsValidation ? (validation?.parsed === parsed ? validation.rows : parsed) : parsed;
+
+    const reset = () => {
+        setFileName('');
+        setHeader([]);
+        setRecords([]);
+        setMapping(null);
+        setValidation(null);
+    };
+
+    const handleClose = () => {
+        reset();
+        onClose();
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        const [fileHeader = [], ...data] = parseCsv(await file.text());
+        setFileName(file.name);
+        setHeader(fileHeader);
+        setRecords(data);
+        setMapping(detectMapping(fileHeader));
+    };
+
+    const handleImport = async () => {
+        setImporting(true);
+        const count = await importSessions(rows);
+        setImporting(false);
+        if (count !== null) {
+            reset();
+            onImported(count);
+        }
+    };
+
+    const validCount = rows.filter(r => r.errors.length === 0).length;
+
+    return (
+        <Modal isOpen={isOpen} onClose={handleClose} title="Importar Jornadas" size="large">
+            <div className="space-y-4">
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Importa el histórico desde un CSV con cabecera. Cada fila es una jornada completada;
+                    las pausas se indican como "13:00-13:30, 17:00-17:15".
+                </p>
+
+                {/* Selector de archivo */}
+                <label className="flex items-center justify-center gap-2 p-4 border-2 border-dashed border-gray-200 dark:border-white/10 rounded-lg cursor-pointer hover:border-primary-lime/50 text-gray-600 dark:text-gray-400">
+                    <Upload size={18} />
+                    <span>{fileName || 'Seleccionar archivo CSV'}</span>
+                    <input type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+                </label>
+
+                {mapping && (
+                    <>
+                        {/* Mapeo de columnas */}
+                        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                            {MAPPING_FIELDS.map(({ field, label, required }) => (
+                                <div key={field}>
+                                    <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">{label}</label>
+                                    <select
+                                        value={mapping[field] ?? ''}
+                                        onChange={e => setMapping({
+                                            ...mapping,
+                                            [field]: e.target.value === '' ? null : Number(e.target.value)
+                                        })}
+                                        className={inputClass}
+                                    >
+                                        {!required && <option value="">— Ninguna —</option>}
+                                        {header.map((name, index) => (
+                                            <option key={index} value={index}>{name || `Columna ${index + 1}`}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            ))}
+                        </div>
+
+                        {/* Formato de fecha y zona horaria */}
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Formato de fecha</label>
+                                <select
+                                    value={dateFormat}
+                                    onChange={e => setDateFormat(e.target.value as ImportDateFormat)}
+                                    className={inputClass}
+                                >
+                                    {IMPORT_DATE_FORMATS.map(format => (
+                                        <option key={format} value={format}>{format}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Zona horaria</label>
+                                <input
+                                    value={timeZone}
+                                    onChange={e => setTimeZone(e.target.value)}
+                                    className={inputClass}
+                                    placeholder="Europe/Madrid"
+                                />
+                                {!timeZoneValid && <p className="text-xs text-red-500 mt-1">Zona horaria no válida</p>}
+                            </div>
+                        </div>
+
+                        {/* Previsualización */}
+                        <div className="max-h-72 overflow-y-auto border border-gray-200 dark:border-white/10 rounded-lg">
+                            <table className="w-full text-sm">
+                                <thead className="sticky top-0 bg-gray-50 dark:bg-card-bg text-left text-gray-600 dark:text-gray-400">
+                                    <tr>
+                                        <th className="p-2">Línea</th>
+                                        <th className="p-2">Entrada</th>
+                                        <th className="p-2">Salida</th>
+                                        <th className="p-2">Pausas</th>
+                                        <th className="p-2">Estado</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {rows.map(row => (
+                                        <tr key={row.line} className="border-t border-gray-100 dark:border-white/5 text-gray-900 dark:text-white">
+                                            <td className="p-2 font-mono text-gray-500">{row.line}</td>
+                                            <td className="p-2">{formatPreview(row.start_time)}</td>
+                                            <td className="p-2">{formatPreview(row.end_time)}</td>
+                                            <td className="p-2">{row.pauses.length}</td>
+                                            <td className="p-2">
+                                                {row.errors.length === 0 ? (
+                                                    <CheckCircle size={16} className="text-green-500" />
+                                                ) : (
+                                                    <div className="flex items-start gap-1 text-red-500 text-xs">
+                                                        <AlertCircle size={14} className="shrink-0 mt-0.5" />
+                                                        <span>{row.errors.join('. ')}</span>
+                                                    </div>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        <p className="text-sm text-gray-600 dark:text-gray-400">
+                            {validating
+                                ? 'Validando filas...'
+                                : `${validCount} de ${rows.length} filas válidas. Las filas con errores no se importarán.`}
+                        </p>
+                    </>
+                )}
+
+                {error && <p className="text-sm text-red-500">{error}</p>}
+
+                {/* Botones del formulario */}
+                <div className="flex justify-end gap-3 mt-6">
+                    <button
+                        type="button"
+                        onClick={handleClose}
+                        className="px-4 py-2 text-gray-600 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white transition-colors"
+                    >
+                        Cancelar
+                    </button>
+                    <button
+                        type="button"
+                        onClick={handleImport}
+                        disabled={validCount === 0 || validating || importing}
+                        className="px-6 py-2 bg-primary-lime text-dark-bg font-bold rounded-lg hover:bg-secondary-lime disabled:opacity-50"
+                    >
+                        {importing ? 'Importando...' : `Importar ${validCount} jornadas`}
+                    </button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
@@ -0,0 +1,142 @@
+// useState: estado local del formulario de la jornada manual.
+import { useState } from 'react';
+
+// useHistory: expone `createManualSession` y el error de la última operación.
+import { useHistory } from '../../hooks/useHistory';
+import { Modal } from '../ui/Modal';
+
+// PauseEditor: mismo sub-editor de pausas que el modal "Editar Sesión".
+import { PauseEditor, type PauseFormValue } from './PauseEditor';
+import { fromDateTimeLocal } from '../../utils/date';
+import { useTimeZone } from '../../hooks/useTimeZone';
+
+/**
+ * Props del componente ManualSessionModal.
+ * @property {boolean} isOpen - Indica si el modal está visible.
+ * @property {() => void} onClose - Cierra el modal sin guardar.
+ * @property {() => void} onCreated - Se ejecuta tras crear la jornada (para refrescar vistas).
+ */
+interface ManualSessionModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onCreated: () => void;
+}
+
+// Estado inicial del formulario.
+const emptyForm = {
+    start_time: '',
+    end_time: '',
+    notes: '',
+    pauses: [] as PauseFormValue[]
+};
+
+// Clases compartidas de los inputs.
+const inputClass = 'w-full bg-white dark:bg-dark-bg border border-gray-200 dark:border-white/10 rounded-lg p-3 text-gray-900 dark:text-white focus:border-primary-lime outline-none';
+
+/**
+ * Modal "Registrar jornada manual".
+ *
+ * Permite registrar a posteriori un día en que el usuario olvidó fichar:
+ * inicio, fin, pausas y notas. La sesión se guarda como completada y marcada
+ * como manual (`source = 'manual'`). Las validaciones (16 horas, pausas y
+ * solapamientos con otras sesiones) las aplica `createManualSession`.
+ */
+export const ManualSessionModal = ({ isOpen, onClose, onCreated }: ManualSessionModalProps) => {
+    const { createManualSession, error } = useHistory();
+    const { timeZone } = useTimeZone();
+    const [form, setForm] = useState(emptyForm);
+    const [saving, setSaving] = useState(false);
+
+    const handleClose = () => {
+        setForm(emptyForm);
+        onClose();
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+
+        const created = await createManualSession({
+            start_time: fromDateTimeLocal(form.start_time, timeZone),
+            end_time: fromDateTimeLocal(form.end_time, timeZone),
+            notes: form.notes,
+            pauses: form.pauses.map(p => ({
+                pause_start: fromDateTimeLocal(p.pause_start, timeZone),
+                pause_end: fromDateTimeLocal(p.pause_end, timeZone) || null
+            }))
+        });
+
+        setSaving(false);
+        if (created) {
+            setForm(emptyForm);
+            onCreated();
+        }
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={handleClose} title="Registrar Jornada Manual">
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Registra un día en que olvidaste fichar. La jornada quedará marcada como manual.
+                </p>
+                {/* Campo: Hora de inicio */}
+                <div>
+                    <label className="block text-sm text-gray-600 dark:text-gray-400 mb-1">Inicio</label>
+                    <input
+                        type="datetime-local"
+                        required
+                        value={form.start_time}
+                        onChange={e => setForm({ ...form, start_time: e.target.value })}
+                        className={inputClass}
+                    />
+                </div>
+                {/* Campo: Hora de fin */}
+                <div>
+                    <label className="block text-sm text-gray-600 dark:text-gray-400 mb-1">Fin</label>
+                    <input
+                        type="datetime-local"
+                        required
+                        value={form.end_time}
+                        onChange={e => setForm({ ...form, end_time: e.target.value })}
+                        className={inputClass}
+                    />
+                </div>
+                {/* Pausas de la jornada */}
+                <PauseEditor
+                    pauses={form.pauses}
+                    onChange={pauses => setForm({ ...form, pauses })}
+                    sessionStart={form.start_time}
+                    sessionEnd={form.end_time}
+                />
+                {/* Campo: Notas */}
+                <div>
+                    <label className="block text-sm text-gray-600 dark:text-gray-400 mb-1">Notas</label>
+                    <textarea
+                        value={form.notes}
+                        onChange={e => setForm({ ...form, notes: e.target.value })}
+                        className={`${inputClass} min-h-[100px]`}
+                        placeholder="Ej: olvidé fichar al llegar..."
+                    />
+                </div>
+                {error && <p className="text-sm text-red-500">{error}</p>}
+                {/* Botones del formulario */}
+                <div className="flex justify-end gap-3 mt-6">
+                    <button
+                        type="button"
+                        onClick={handleClose}
+                        className="px-4 py-2 text-gray-600 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white transition-colors"
+                    >
+                        Cancelar
+                    </button>
+                    <button
+                        type="submit"
+                        disabled={saving}
+                        className="px-6 py-2 bg-primary-lime text-dark-bg font-bold rounded-lg hover:bg-secondary-lime disabled:opacity-50"
+                    >
+                        {saving ? 'Guardando...' : 'Registrar Jornada'}
+                    </button>
+                </div>
+            </form>
+        </Modal>
+    );
+};
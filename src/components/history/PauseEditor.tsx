@@ -0,0 +1,157 @@
+// Plus: añadir pausa. Trash2: eliminar pausa. Coffee: ícono de pausas.
+import { Plus, Trash2, Coffee } from 'lucide-react';
+
+// Utilidades de duración: cálculo neto descontando pausas y formato "HH:MM:SS".
+import { calculateDuration, formatDuration } from '../../utils/duration';
+
+// validatePauses: reglas de pausas (dentro de la sesión, sin solapes, fin > inicio).
+import { validatePauses } from '../../utils/pauses';
+import { fromDateTimeLocal } from '../../utils/date';
+import { useTimeZone } from '../../hooks/useTimeZone';
+
+/**
+ * Pausa tal como se edita en el formulario.
+ *
+ * @property {string} [id] - UUID de la pausa existente (ausente si es nueva).
+ * @property {string} pause_start - Inicio en formato datetime-local (hora local).
+ * @property {string} pause_end - Fin en formato datetime-local (hora local).
+ * @property {string | null} [pause_type_id] - Tipo de la pausa existente; se conserva al editarla.
+ * @property {boolean} [paid] - Si es retribuida (no se descuenta de la duración neta).
+ */
+export interface PauseFormValue {
+    id?: string;
+    pause_start: string;
+    pause_end: string;
+    pause_type_id?: string | null;
+    paid?: boolean;
+}
+
+/**
+ * Props del componente PauseEditor.
+ * @property {PauseFormValue[]} pauses - Pausas editadas actualmente.
+ * @property {(pauses: PauseFormValue[]) => void} onChange - Callback con la nueva lista.
+ * @property {string} sessionStart - Inicio de la sesión (datetime-local).
+ * @property {string} sessionEnd - Fin de la sesión (datetime-local).
+ */
+interface PauseEditorProps {
+    pauses: PauseFormValue[];
+    onChange: (pauses: PauseFormValue[]) => void;
+    sessionStart: string;
+    sessionEnd: string;
+}
+
+// Clases compartidas de los inputs (mismo estilo que el modal de edición).
+const inputClass = 'w-full bg-white dark:bg-dark-bg border border-gray-200 dark:border-white/10 rounded-lg p-2 text-sm text-gray-900 dark:text-white focus:border-primary-lime outline-none';
+
+/**
+ * Sub-editor de pausas dentro del modal "Editar Sesión".
+ *
+ * Funcionalidades:
+ * - Lista cada pausa de la sesión con inicio y fin editables (las retribuidas,
+ *   marcadas: no restan de la duración neta). Las pausas nuevas no tienen tipo.
+ * - Botones para añadir una pausa nueva o eliminar una existente.
+ * - Validación en vivo: las pausas deben quedar dentro de la sesión y no solaparse.
+ * - Vista previa de la duración neta resultante, calculada con `calculateDuration`.
+ *
+ * Los cambios no se guardan aquí: el formulario padre los envía al confirmar.
+ */
+export const PauseEditor = ({ pauses, onChange, sessionStart, sessionEnd }: PauseEditorProps) => {
+    const { timeZone } = useTimeZone();
+    // Convierte las pausas del formulario a ISO para validar y calcular.
+    const start = fromDateTimeLocal(sessionStart, timeZone);
+    const end = fromDateTimeLocal(sessionEnd, timeZone);
+    const isoPauses = pauses.map(p => ({
+        pause_start: fromDateTimeLocal(p.pause_start, timeZone),
+        pause_end: fromDateTimeLocal(p.pause_end, timeZone) || null,
+        paid: p.paid,
+    }));
+
+    const errors = start && end ? validatePauses(start, end, isoPauses) : [];
+    const netMs = start && end && end > start ? calculateDuration(start, end, isoPauses) : null;
+
+    /**
+     * Actualiza un campo de una pausa concreta.
+     */
+    const updatePause = (index: number, field: 'pause_start' | 'pause_end', value: string) => {
+        onChange(pauses.map((p, i) => (i === index ? { ...p, [field]: value } : p)));
+    };
+
+    /**
+     * Añade una pausa vacía, prellenada con el inicio de la sesión como referencia.
+     */
+    const addPause = () => {
+        onChange([...pauses, { pause_start: sessionStart, pause_end: sessionStart }]);
+    };
+
+    const removePause = (index: number) => {
+        onChange(pauses.filter((_, i) => i !== index));
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between">
+                <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                    <Coffee size={14} className="text-yellow-600 dark:text-yellow-500/80" />
+                    Pausas ({pauses.length})
+                </label>
+                <button
+                    type="button"
+                    onClick={addPause}
+                    className="flex items-center gap-1 px-2 py-1 text-sm text-primary-lime hover:bg-primary-lime/10 rounded-lg transition-colors"
+                >
+                    <Plus size={16} />
+                    Añadir pausa
+                </button>
+            </div>
+
+            {pauses.length === 0 && (
+                <p className="text-sm text-gray-500 italic">Esta sesión no tiene pausas.</p>
+            )}
+
+            {pauses.map((pause, index) => {
+                const error = errors.find(e => e.index === index);
+                return (
+                    <div key={pause.id ?? `new-${index}`} className="space-y-1">
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="datetime-local"
+                                required
+                                aria-label={`Inicio de la pausa ${index + 1}`}
+                                value={pause.pause_start}
+                                onChange={e => updatePause(index, 'pause_start', e.target.value)}
+                                className={inputClass}
+                            />
+                            <span className="text-gray-400">-</span>
+                            <input
+                                type="datetime-local"
+                                required
+                                aria-label={`Fin de la pausa ${index + 1}`}
+                                value={pause.pause_end}
+                                onChange={e => updatePause(index, 'pause_end', e.target.value)}
+                                className={inputClass}
+                            />
+                            <button
+                                type="button"
+                                onClick={() => removePause(index)}
+                                aria-label={`Eliminar pausa ${index + 1}`}
+                                className="p-2 text-red-400 hover:bg-red-400/10 rounded-lg transition-colors shrink-0"
+                            >
+                                <Trash2 size={16} />
+                            </button>
+                        </div>
+                        {pause.paid && <p className="text-xs text-primary-lime">Pausa retribuida: no se descuenta.</p>}
+                        {error && <p className="text-xs text-red-500">{error.message}</p>}
+                    </div>
+                );
+            })}
+
+            {/* Vista previa de la duración neta con las pausas actuales */}
+            <div className="flex items-center justify-between pt-2 border-t border-gray-100 dark:border-white/10 text-sm">
+                <span className="text-gray-600 dark:text-gray-400">Duración neta resultante</span>
+                <span className="font-mono font-bold text-gray-900 dark:text-white">
+                    {netMs !== null ? formatDuration(netMs) : '--:--:--'}
+                </span>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,84 @@
+import { Modal } from '../ui/Modal';
+
+// useSessionAudit: entradas del registro de auditoría de la sesión.
+import { useSessionAudit } from '../../hooks/useSessionAudit';
+import { describeAuditAction, getAuditChanges, isTimestampField } from '../../utils/auditLog';
+
+/**
+ * Props del componente SessionAuditModal.
+ * @property {string | null} sessionId - Sesión cuyo historial se muestra (null = modal cerrado).
+ * @property {() => void} onClose - Cierra el modal.
+ */
+interface SessionAuditModalProps {
+    sessionId: string | null;
+    onClose: () => void;
+}
+
+// Valor legible de un campo: fecha y hora para timestamps, "—" si está vacío.
+const formatValue = (field: string, value: string | null) => {
+    if (value === null) return '—';
+    if (isTimestampField(field)) {
+        return new Date(value).toLocaleString('es-ES', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+    }
+    return value;
+};
+
+/**
+ * Modal "Historial de cambios" de una sesión.
+ *
+ * Lista en orden cronológico cada alta, cambio y baja de la sesión y de sus
+ * pausas registrados por la base de datos: quién, cuándo, desde qué
+ * navegador/IP y los valores anteriores y nuevos de cada campo. El registro
+ * es inmutable, por lo que sirve como prueba de que la jornada no se manipuló.
+ */
+export const SessionAuditModal = ({ sessionId, onClose }: SessionAuditModalProps) => {
+    const { entries, authorName, loading, error } = useSessionAudit(sessionId);
+
+    return (
+        <Modal isOpen={!!sessionId} onClose={onClose} title="Historial de cambios" size="large">
+            {loading ? (
+                <div className="text-center py-6 text-gray-500">Cargando historial...</div>
+            ) : error ? (
+                <p className="text-sm text-red-500">{error}</p>
+            ) : entries.length === 0 ? (
+                <p className="text-sm text-gray-500 italic">No hay cambios registrados para esta sesión.</p>
+            ) : (
+                <ol className="space-y-4">
+                    {entries.map(entry => {
+                        const changes = getAuditChanges(entry);
+                        return (
+                            <li key={entry.id} className="p-4 rounded-lg bg-gray-50 dark:bg-white/5 space-y-2">
+                                <div className="flex flex-wrap items-baseline justify-between gap-2">
+                                    <span className="font-medium text-gray-900 dark:text-white">{describeAuditAction(entry)}</span>
+                                    <span className="text-xs text-gray-500">
+                                        {new Date(entry.changed_at).toLocaleString('es-ES')} · {authorName(entry.changed_by)}
+                                    </span>
+                                </div>
+
+                                {changes.length > 0 && (
+                                    <table className="w-full text-sm">
+                                        <tbody>
+                                            {changes.map(change => (
+                                                <tr key={change.field} className="border-t border-gray-200 dark:border-white/10">
+                                                    <td className="py-1 pr-3 text-gray-500 whitespace-nowrap">{change.label}</td>
+                                                    <td className="py-1 pr-3 text-gray-500 line-through">{entry.action === 'INSERT' ? '' : formatValue(change.field, change.before)}</td>
+                                                    <td className="py-1 text-gray-900 dark:text-white">{entry.action === 'DELETE' ? '' : formatValue(change.field, change.after)}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                )}
+
+                                {entry.client_info?.user_agent && (
+                                    <div className="text-xs text-gray-400 truncate" title={entry.client_info.user_agent}>
+                                        {entry.client_info.ip && `${entry.client_info.ip} · `}{entry.client_info.user_agent}
+                                    </div>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ol>
+            )}
+        </Modal>
+    );
+};
@@ -0,0 +1,108 @@
+// useEffect: carga la papelera al montar.
+import { useEffect } from 'react';
+import { RotateCcw, Trash2 } from 'lucide-react';
+
+// useSessionTrash: sesiones eliminadas, restaurar y eliminar definitivamente.
+import { useSessionTrash } from '../../hooks/useSessionTrash';
+import { useTimeZone } from '../../hooks/useTimeZone';
+import { formatDuration, parseInterval } from '../../utils/duration';
+import { daysUntilPurge, TRASH_RETENTION_DAYS } from '../../utils/sessionRules';
+
+/**
+ * Props del componente TrashList.
+ * @property {() => void} onRestored - Se ejecuta tras restaurar una sesión (para refrescar el historial).
+ */
+interface TrashListProps {
+    onRestored: () => void;
+}
+
+/**
+ * Papelera de sesiones eliminadas.
+ *
+ * Muestra cada sesión con su fecha, duración y los días que faltan para su
+ * eliminación definitiva. Permite restaurarla al historial o eliminarla
+ * definitivamente (con confirmación).
+ */
+export const TrashList = ({ onRestored }: TrashListProps) => {
+    const { sessions, loading, error, loadTrash, restoreSession, purgeSession } = useSessionTrash();
+    const { timeZone } = useTimeZone();
+
+    useEffect(() => {
+        void loadTrash();
+    }, [loadTrash]);
+
+    const handleRestore = async (id: string) => {
+        if (await restoreSession(id)) onRestored();
+    };
+
+    const handlePurge = async (id: string) => {
+        if (window.confirm('¿Eliminar definitivamente esta sesión? No se podrá recuperar.')) {
+            await purgeSession(id);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Papelera</h2>
+                <p className="text-sm text-gray-500">
+                    Las sesiones eliminadas se conservan {TRASH_RETENTION_DAYS} días y después se eliminan definitivamente.
+                </p>
+            </div>
+
+            {error && <p className="text-sm text-red-500">{error}</p>}
+
+            {loading ? (
+                <div className="text-center py-10 text-gray-400">Cargando papelera...</div>
+            ) : sessions.length === 0 ? (
+                <div className="text-center py-10 text-gray-500 glass-card">
+                    La papelera está vacía.
+                </div>
+            ) : (
+                <div className="grid gap-4">
+                    {sessions.map(session => {
+                        const daysLeft = daysUntilPurge(session.deleted_at ?? session.updated_at);
+                        return (
+                            <div key={session.id} className="glass-card p-5 flex flex-col sm:flex-row justify-between gap-4">
+                                <div className="space-y-1">
+                                    <div className="flex items-center gap-3">
+                                        <div className="text-lg font-bold text-gray-900 dark:text-white">
+                                            {new Date(session.start_time).toLocaleDateString(undefined, { timeZone })}
+                                        </div>
+                                        <div className="px-2 py-0.5 rounded text-xs font-mono bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 border border-gray-200 dark:border-gray-700">
+                                            {session.total_duration ? formatDuration(parseInterval(session.total_duration) * 1000) : 'Unknown'}
+                                        </div>
+                                    </div>
+                                    <div className="text-sm text-gray-600 dark:text-gray-400">
+                                        {new Date(session.start_time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone })} -
+                                        {session.end_time ? new Date(session.end_time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone }) : '...'}
+                                    </div>
+                                    <div className="text-xs text-gray-500">
+                                        Se eliminará definitivamente en {daysLeft} día(s)
+                                    </div>
+                                </div>
+
+                                <div className="flex items-center gap-2 self-end sm:self-center">
+                                    <button
+                                        onClick={() => handleRestore(session.id)}
+                                        className="flex items-center gap-2 px-3 py-2 text-sm text-primary-lime border border-primary-lime/30 rounded-lg hover:bg-primary-lime/10 transition-colors"
+                                    >
+                                        <RotateCcw size={16} />
+                                        Restaurar
+                                    </button>
+                                    <button
+                                        onClick={() => handlePurge(session.id)}
+                                        className="p-2 text-red-400 hover:bg-red-400/10 rounded-lg transition-colors"
+                                        title="Eliminar definitivamente"
+                                    >
+                                        <Trash2 size={18} />
+                                    </button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
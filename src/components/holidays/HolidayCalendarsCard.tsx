@@ -0,0 +1,276 @@
+// useState: formularios y calendario desplegado.
+import { useState } from 'react';
+import { CalendarOff, ChevronDown, ChevronRight, Plus, Trash2, Upload } from 'lucide-react';
+
+// useHolidayCalendars: calendarios de festivos, sus festivos y asignaciones.
+import {
+    useHolidayCalendars,
+    HOLIDAY_SCOPE_LABELS,
+    type HolidayCalendar,
+    type HolidayScope
+} from '../../hooks/useHolidayCalendars';
+import { parseICalHolidays } from '../../utils/ical';
+
+const inputClass = 'bg-white dark:bg-dark-bg border border-gray-200 dark:border-white/10 rounded-lg p-2 text-sm text-gray-900 dark:text-white focus:border-primary-lime outline-none';
+
+/**
+ * Props del componente HolidayCalendarsCard.
+ * @property {string} userId - Usuario actual (para sus asignaciones).
+ * @property {boolean} hasOrganization - Si pertenece a una organización.
+ * @property {boolean} isAdmin - Si es admin de su organización.
+ */
+interface HolidayCalendarsCardProps {
+    userId: string;
+    hasOrganization: boolean;
+    isAdmin: boolean;
+}
+
+/**
+ * Tarjeta de calendarios de festivos en Ajustes.
+ *
+ * El usuario marca los calendarios que le aplican. Quien puede gestionarlos
+ * (un admin en su organización, o el propio usuario si no tiene organización)
+ * crea calendarios, importa festivos desde un fichero .ics, los añade a mano
+ * o los elimina.
+ */
+export const HolidayCalendarsCard = ({ userId, hasOrganization, isAdmin }: HolidayCalendarsCardProps) => {
+    const {
+        calendars,
+        holidays,
+        assignments,
+        loading,
+        error,
+        createCalendar,
+        deleteCalendar,
+        importHolidays,
+        addHoliday,
+        deleteHoliday,
+        assignCalendar,
+        unassignCalendar
+    } = useHolidayCalendars();
+
+    const [name, setName] = useState('');
+    const [scope, setScope] = useState<HolidayScope>('national');
+    const [region, setRegion] = useState('');
+    const [openCalendarId, setOpenCalendarId] = useState<string | null>(null);
+    const [newHoliday, setNewHoliday] = useState({ date: '', name: '' });
+    const [importMessage, setImportMessage] = useState<string | null>(null);
+
+    const canCreate = !hasOrganization || isAdmin;
+    const canManage = (calendar: HolidayCalendar) =>
+        calendar.organization_id ? isAdmin : calendar.created_by === userId;
+    const isAssigned = (calendarId: string) =>
+        assignments.some(a => a.user_id === userId && a.calendar_id === calendarId);
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (await createCalendar(name.trim(), scope, region.trim())) {
+            setName('');
+            setRegion('');
+        }
+    };
+
+    const handleToggle = (calendarId: string) => {
+        void (isAssigned(calendarId) ? unassignCalendar(userId, calendarId) : assignCalendar(userId, calendarId));
+    };
+
+    const handleImport = async (calendarId: string, file: File) => {
+        const entries = parseICalHolidays(await file.text());
+        if (entries.length === 0) {
+            setImportMessage('El fichero no contiene eventos de calendario');
+            return;
+        }
+        if (await importHolidays(calendarId, entries)) {
+            setImportMessage(`${entries.length} festivo(s) importado(s) de ${file.name}`);
+        }
+    };
+
+    const handleAddHoliday = async (e: React.FormEvent, calendarId: string) => {
+        e.preventDefault();
+        if (await addHoliday(calendarId, newHoliday.date, newHoliday.name.trim())) {
+            setNewHoliday({ date: '', name: '' });
+        }
+    };
+
+    const handleDeleteCalendar = async (calendar: HolidayCalendar) => {
+        if (window.confirm(`¿Eliminar el calendario "${calendar.name}" y todos sus festivos?`)) {
+            await deleteCalendar(calendar.id);
+        }
+    };
+
+    return (
+        <div className="glass-card p-6 space-y-4">
+            <div>
+                <h2 className="flex items-center gap-2 text-xl font-bold text-gray-900 dark:text-white">
+                    <CalendarOff size={20} className="text-primary-lime" />
+                    Calendarios de festivos
+                </h2>
+                <p className="text-sm text-gray-500">
+                    Marca los calendarios que te aplican. Sus festivos son días no laborables: no tienen horas previstas ni consumen días de ausencia.
+                </p>
+            </div>
+
+            {loading && calendars.length === 0 ? (
+                <p className="text-sm text-gray-500">Cargando calendarios...</p>
+            ) : calendars.length === 0 ? (
+                <p className="text-sm text-gray-500 italic">
+                    {canCreate ? 'Aún no hay calendarios. Crea uno e importa sus festivos.' : 'Tu organización aún no tiene calendarios de festivos.'}
+                </p>
+            ) : (
+                <ul className="space-y-2">
+                    {calendars.map(calendar => {
+                        const calendarHolidays = holidays.filter(h => h.calendar_id === calendar.id);
+                        const open = openCalendarId === calendar.id;
+
+                        return (
+                            <li key={calendar.id} className="rounded-lg bg-gray-50 dark:bg-white/5">
+                                <div className="flex items-center gap-3 p-3">
+                                    <input
+                                        type="checkbox"
+                                        checked={isAssigned(calendar.id)}
+                                        onChange={() => handleToggle(calendar.id)}
+                                        className="accent-primary-lime"
+                                        title="Me aplica"
+                                    />
+                                    <button
+                                        type="button"
+                                        onClick={() => setOpenCalendarId(open ? null : calendar.id)}
+                                        className="flex-1 flex items-center gap-2 text-left text-sm min-w-0"
+                                    >
+                                        {open ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                                        <span className="font-medium text-gray-900 dark:text-white truncate">{calendar.name}</span>
+                                        <span className="text-xs text-gray-500 shrink-0">
+                                            {HOLIDAY_SCOPE_LABELS[calendar.scope]}
+                                            {calendar.region && ` · ${calendar.region}`}
+                                            {` · ${calendarHolidays.length} festivo(s)`}
+                                        </span>
+                                    </button>
+                                    {canManage(calendar) && (
+                                        <button
+                                            type="button"
+                                            onClick={() => handleDeleteCalendar(calendar)}
+                                            className="p-2 text-red-400 hover:bg-red-400/10 rounded-lg transition-colors"
+                                            title="Eliminar calendario"
+                                        >
+                                            <Trash2 size={16} />
+                                        </button>
+                                    )}
+                                </div>
+
+                                {open && (
+                                    <div className="px-3 pb-3 space-y-3">
+                                        {canManage(calendar) && (
+                                            <div className="flex flex-wrap items-center gap-2">
+                                                {/* Import from an .ics file (the input is reset so the same file can be re-imported) */}
+                                                <label className="flex items-center gap-2 px-3 py-2 text-sm rounded-lg bg-white dark:bg-dark-bg border border-gray-200 dark:border-white/10 cursor-pointer hover:border-primary-lime">
+                                                    <Upload size={14} />
+                                                    Importar .ics
+                                                    <input
+                                                        type="file"
+                                                        accept=".ics,text/calendar"
+                                                        className="hidden"
+                                                        onChange={e => {
+                                                            const file = e.target.files?.[0];
+                                                            e.target.value = '';
+                                                            if (file) void handleImport(calendar.id, file);
+                                                        }}
+                                                    />
+                                                </label>
+                                                <form onSubmit={e => handleAddHoliday(e, calendar.id)} className="flex flex-wrap items-center gap-2">
+                                                    <input
+                                                        type="date"
+                                                        required
+                                                        value={newHoliday.date}
+                                                        onChange={e => setNewHoliday(prev => ({ ...prev, date: e.target.value }))}
+                                                        className={inputClass}
+                                                    />
+                                                    <input
+                                                        type="text"
+                                                        required
+                                                        placeholder="Nombre del festivo"
+                                                        value={newHoliday.name}
+                                                        onChange={e => setNewHoliday(prev => ({ ...prev, name: e.target.value }))}
+                                                        className={inputClass}
+                                                    />
+                                                    <button
+                                                        type="submit"
+                                                        className="p-2 bg-primary-lime text-dark-bg rounded-lg hover:bg-secondary-lime"
+                                                        title="Añadir festivo"
+                                                    >
+                                                        <Plus size={16} />
+                                                    </button>
+                                                </form>
+                                            </div>
+                                        )}
+                                        {importMessage && <p className="text-xs text-gray-500">{importMessage}</p>}
+
+                                        {calendarHolidays.length === 0 ? (
+                                            <p className="text-sm text-gray-500 italic">Sin festivos.</p>
+                                        ) : (
+                                            <ul className="max-h-64 overflow-y-auto divide-y divide-gray-200 dark:divide-white/10 text-sm">
+                                                {calendarHolidays.map(holiday => (
+                                                    <li key={holiday.id} className="flex items-center justify-between gap-2 py-1.5">
+                                                        <span className="text-gray-900 dark:text-white">
+                                                            <span className="font-mono text-gray-500 mr-2">
+                                                                {new Date(`${holiday.holiday_date}T00:00`).toLocaleDateString('es-ES')}
+                                                            </span>
+                                                            {holiday.name}
+                                                        </span>
+                                                        {canManage(calendar) && (
+                                                            <button
+                                                                type="button"
+                                                                onClick={() => deleteHoliday(holiday.id)}
+                                                                className="p-1 text-red-400 hover:bg-red-400/10 rounded transition-colors"
+                                                                title="Eliminar festivo"
+                                                            >
+                                                                <Trash2 size={14} />
+                                                            </button>
+                                                        )}
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        )}
+                                    </div>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+
+            {canCreate && (
+                <form onSubmit={handleCreate} className="flex flex-wrap items-center gap-2 pt-2 border-t border-gray-200 dark:border-white/10">
+                    <input
+                        type="text"
+                        required
+                        placeholder="Nombre (p. ej. Festivos Madrid 2025)"
+                        value={name}
+                        onChange={e => setName(e.target.value)}
+                        className={`${inputClass} flex-1 min-w-48`}
+                    />
+                    <select value={scope} onChange={e => setScope(e.target.value as HolidayScope)} className={inputClass}>
+                        {(Object.keys(HOLIDAY_SCOPE_LABELS) as HolidayScope[]).map(s => (
+                            <option key={s} value={s}>{HOLIDAY_SCOPE_LABELS[s]}</option>
+                        ))}
+                    </select>
+                    <input
+                        type="text"
+                        placeholder="Región o municipio"
+                        value={region}
+                        onChange={e => setRegion(e.target.value)}
+                        className={inputClass}
+                    />
+                    <button
+                        type="submit"
+                        disabled={loading}
+                        className="px-4 py-2 bg-primary-lime text-dark-bg font-bold rounded-lg hover:bg-secondary-lime disabled:opacity-50"
+                    >
+                        Crear calendario
+                    </button>
+                </form>
+            )}
+
+            {error && <p className="text-sm text-red-500">{error}</p>}
+        </div>
+    );
+};
@@ -2,7 +2,10 @@
 import { useState } from 'react';
 
 // LogOut: ícono de cerrar sesión. UserIcon: ícono de usuario (renombrado para evitar conflicto con el tipo User).
-import { LogOut, User as UserIcon } from 'lucide-react';
+// Building2: ícono de la página de organización. Users: ícono del panel de equipo.
+// ClipboardCheck: ícono de las hojas de horas. Settings: ícono de ajustes (horario laboral).
+// Palmtree: ícono de ausencias y vacaciones.
+import { LogOut, User as UserIcon, Building2, Users, ClipboardCheck, Settings, Palmtree } from 'lucide-react';
 
 // useAuth: hook personalizado que provee datos del usuario y función de cierre de sesión.
 import { useAuth } from '../../hooks/useAuth';
@@ -21,6 +24,7 @@ import { ThemeToggle } from '../ThemeToggle';
  * - Muestra el logo y nombre de la aplicación "RelojTiktak" con enlace al inicio.
  * - Si el usuario está autenticado:
  *   - Muestra su email con un ícono de usuario (visible solo en pantallas medianas+).
+ *   - Enlaces a las hojas de horas, al panel de equipo (managers) y a la organización (miembros, equipos y roles).
  *   - Botón de cerrar sesión con confirmación mediante modal.
  * - Si NO está autenticado:
  *   - Links para "Iniciar Sesión" y "Registrarse".
@@ -82,6 +86,51 @@ export const Navbar = () => {
                                     </span>
                                 </div>
 
+                                {/* Enlace a las hojas de horas (envío y aprobación de periodos) */}
+                                <Link
+                                    to="/timesheets"
+                                    className="p-2 text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+                                    title="Hojas de horas"
+                                >
+                                    <ClipboardCheck size={20} />
+                                </Link>
+
+                                {/* Enlace a las ausencias (vacaciones, bajas, festivos) */}
+                                <Link
+                                    to="/absences"
+                                    className="p-2 text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+                                    title="Ausencias"
+                                >
+                                    <Palmtree size={20} />
+                                </Link>
+
+                                {/* Enlace al panel de equipo (presencia en vivo, para managers y admins) */}
+                                <Link
+                                    to="/team"
+                                    className="p-2 text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+                                    title="Equipo"
+                                >
+                                    <Users size={20} />
+                                </Link>
+
+                                {/* Enlace a la organización (miembros, equipos y roles) */}
+                                <Link
+                                    to="/organization"
+                                    className="p-2 text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+                                    title="Organización"
+                                >
+                                    <Building2 size={20} />
+                                </Link>
+
+                                {/* Enlace a los ajustes del usuario (horario laboral) */}
+                                <Link
+                                    to="/settings"
+                                    className="p-2 text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+                                    title="Ajustes"
+                                >
+                                    <Settings size={20} />
+                                </Link>
+
                                 {/* Botón de cerrar sesión: abre el modal de confirmación */}
                                 <button
                                     onClick={() => setShowLogoutConfirm(true)}
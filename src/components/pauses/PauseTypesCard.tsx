@@ -0,0 +1,169 @@
+// useState: formulario de nuevo tipo.
+import { useState } from 'react';
+import { Archive, ArchiveRestore, Coffee, Trash2 } from 'lucide-react';
+
+// usePauseTypes: tipos de pausa que se eligen al pausar.
+import { usePauseTypes, type PauseType } from '../../hooks/usePauseTypes';
+
+const inputClass = 'bg-white dark:bg-dark-bg border border-gray-200 dark:border-white/10 rounded-lg p-2 text-sm text-gray-900 dark:text-white focus:border-primary-lime outline-none';
+
+/**
+ * Props del componente PauseTypesCard.
+ * @property {string} userId - Usuario actual (para sus tipos personales).
+ * @property {boolean} hasOrganization - Si pertenece a una organización.
+ * @property {boolean} isAdmin - Si es admin de su organización.
+ */
+interface PauseTypesCardProps {
+    userId: string;
+    hasOrganization: boolean;
+    isAdmin: boolean;
+}
+
+/**
+ * Tarjeta de tipos de pausa en Ajustes.
+ *
+ * Lista los tipos que se ofrecen al pulsar "Pausar" y si son retribuidos
+ * (no se descuentan del tiempo trabajado). Quien puede gestionarlos (un
+ * admin en su organización, o el propio usuario si no tiene organización)
+ * los crea, cambia si son retribuidos, los archiva o los elimina.
+ */
+export const PauseTypesCard = ({ userId, hasOrganization, isAdmin }: PauseTypesCardProps) => {
+    const {
+        pauseTypes,
+        loading,
+        error,
+        createPauseType,
+        createDefaultPauseTypes,
+        setPauseTypePaid,
+        setPauseTypeArchived,
+        deletePauseType
+    } = usePauseTypes();
+
+    const [name, setName] = useState('');
+    const [paid, setPaid] = useState(false);
+
+    const canCreate = !hasOrganization || isAdmin;
+    const canManage = (pauseType: PauseType) =>
+        pauseType.organization_id ? isAdmin : pauseType.created_by === userId;
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (await createPauseType(name.trim(), paid)) {
+            setName('');
+            setPaid(false);
+        }
+    };
+
+    const handleDelete = async (pauseType: PauseType) => {
+        if (window.confirm(`¿Eliminar el tipo de pausa "${pauseType.name}"? Sus pausas quedarán sin tipo. Si solo quieres dejar de usarlo, archívalo.`)) {
+            await deletePauseType(pauseType.id);
+        }
+    };
+
+    return (
+        <div className="glass-card p-6 space-y-4">
+            <div>
+                <h2 className="flex items-center gap-2 text-xl font-bold text-gray-900 dark:text-white">
+                    <Coffee size={20} className="text-yellow-600 dark:text-yellow-500" />
+                    Tipos de pausa
+                </h2>
+                <p className="text-sm text-gray-500">
+                    Al pulsar "Pausar" eliges el tipo de pausa. Las retribuidas cuentan como tiempo trabajado; las no retribuidas se descuentan de la jornada. Cambiar un tipo solo afecta a las pausas nuevas.
+                </p>
+            </div>
+
+            {loading && pauseTypes.length === 0 ? (
+                <p className="text-sm text-gray-500">Cargando tipos de pausa...</p>
+            ) : pauseTypes.length === 0 ? (
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                    <p className="text-sm text-gray-500 italic">
+                        {canCreate ? 'Aún no hay tipos: todas las pausas se descuentan.' : 'Tu organización aún no tiene tipos de pausa.'}
+                    </p>
+                    {canCreate && (
+                        <button
+                            type="button"
+                            onClick={createDefaultPauseTypes}
+                            disabled={loading}
+                            className="px-3 py-1.5 text-sm text-primary-lime border border-primary-lime/30 hover:bg-primary-lime/10 rounded-lg transition-colors disabled:opacity-50"
+                        >
+                            Añadir tipos habituales
+                        </button>
+                    )}
+                </div>
+            ) : (
+                <ul className="divide-y divide-gray-200 dark:divide-white/10">
+                    {pauseTypes.map(pauseType => (
+                        <li key={pauseType.id} className={`flex items-center gap-3 py-2 ${pauseType.archived ? 'opacity-60' : ''}`}>
+                            <span className="flex-1 text-sm font-medium text-gray-900 dark:text-white truncate">
+                                {pauseType.name}
+                                {pauseType.archived && <span className="ml-2 text-xs font-normal text-gray-500">Archivado</span>}
+                            </span>
+                            {canManage(pauseType) ? (
+                                <>
+                                    <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                                        <input
+                                            type="checkbox"
+                                            checked={pauseType.paid}
+                                            onChange={e => setPauseTypePaid(pauseType.id, e.target.checked)}
+                                            className="accent-primary-lime"
+                                        />
+                                        Retribuida
+                                    </label>
+                                    <button
+                                        type="button"
+                                        onClick={() => setPauseTypeArchived(pauseType.id, !pauseType.archived)}
+                                        className="p-2 text-gray-500 hover:bg-gray-200 dark:hover:bg-white/10 rounded-lg transition-colors"
+                                        title={pauseType.archived ? 'Desarchivar tipo' : 'Archivar tipo'}
+                                    >
+                                        {pauseType.archived ? <ArchiveRestore size={16} /> : <Archive size={16} />}
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => handleDelete(pauseType)}
+                                        className="p-2 text-red-400 hover:bg-red-400/10 rounded-lg transition-colors"
+                                        title="Eliminar tipo"
+                                    >
+                                        <Trash2 size={16} />
+                                    </button>
+                                </>
+                            ) : (
+                                <span className="text-xs text-gray-500">{pauseType.paid ? 'Retribuida' : 'No retribuida'}</span>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {canCreate && (
+                <form onSubmit={handleCreate} className="flex flex-wrap items-center gap-2 pt-2 border-t border-gray-200 dark:border-white/10">
+                    <input
+                        type="text"
+                        required
+                        placeholder="Nombre del tipo"
+                        value={name}
+                        onChange={e => setName(e.target.value)}
+                        className={`${inputClass} flex-1 min-w-48`}
+                    />
+                    <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                        <input
+                            type="checkbox"
+                            checked={paid}
+                            onChange={e => setPaid(e.target.checked)}
+                            className="accent-primary-lime"
+                        />
+                        Retribuida
+                    </label>
+                    <button
+                        type="submit"
+                        disabled={loading}
+                        className="px-4 py-2 bg-primary-lime text-dark-bg font-bold rounded-lg hover:bg-secondary-lime disabled:opacity-50"
+                    >
+                        Crear tipo
+                    </button>
+                </form>
+            )}
+
+            {error && <p className="text-sm text-red-500">{error}</p>}
+        </div>
+    );
+};
@@ -0,0 +1,43 @@
+import { FolderKanban } from 'lucide-react';
+import { formatDuration } from '../../utils/duration';
+
+// Totales por proyecto y sus nombres legibles.
+import { formatProjectLabel, type ProjectCatalog, type ProjectTotal } from '../../utils/projects';
+
+/**
+ * Props del componente ProjectBreakdown.
+ * @property {ProjectTotal[]} totals - Tiempo neto por proyecto y tarea.
+ * @property {ProjectCatalog} catalog - Proyectos y tareas para los nombres.
+ * @property {string} [className] - Clases extra del contenedor (márgenes).
+ */
+interface ProjectBreakdownProps {
+    totals: ProjectTotal[];
+    catalog: ProjectCatalog;
+    className?: string;
+}
+
+/**
+ * Desglose del tiempo por proyecto (de una sesión o de un día), como etiquetas.
+ *
+ * No muestra nada si todo el tiempo está sin proyecto: así las sesiones de
+ * quien no usa proyectos se ven igual que antes.
+ */
+export const ProjectBreakdown = ({ totals, catalog, className = '' }: ProjectBreakdownProps) => {
+    if (!totals.some(total => total.projectId)) return null;
+
+    return (
+        <div className={`flex flex-wrap items-center gap-2 text-xs ${className}`}>
+            <FolderKanban size={14} className="text-primary-lime" />
+            {totals.map(total => (
+                <span
+                    key={`${total.projectId}:${total.taskId}`}
+                    className={`px-2 py-0.5 rounded border ${total.projectId
+                        ? 'bg-primary-lime/10 text-green-700 dark:text-primary-lime border-primary-lime/20'
+                        : 'bg-gray-100 dark:bg-gray-800 text-gray-500 border-gray-200 dark:border-gray-700'}`}
+                >
+                    {formatProjectLabel(total, catalog)} · <span className="font-mono">{formatDuration(total.seconds * 1000)}</span>
+                </span>
+            ))}
+        </div>
+    );
+};
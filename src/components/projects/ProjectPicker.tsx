@@ -0,0 +1,69 @@
+import { FolderKanban } from 'lucide-react';
+
+// Project / ProjectTask: filas de proyectos y tareas.
+import type { Project, ProjectTask } from '../../hooks/useProjects';
+import type { ProjectSelection } from '../../utils/projects';
+
+const selectClass = 'bg-white dark:bg-dark-bg border border-gray-200 dark:border-white/10 rounded-lg p-2 text-sm text-gray-900 dark:text-white focus:border-primary-lime outline-none disabled:opacity-50 max-w-56';
+
+/**
+ * Props del componente ProjectPicker.
+ * @property {Project[]} projects - Proyectos visibles (incluidos los archivados).
+ * @property {ProjectTask[]} tasks - Tareas de esos proyectos.
+ * @property {ProjectSelection} value - Proyecto y tarea seleccionados.
+ * @property {Function} onChange - Se llama con la nueva selección.
+ * @property {boolean} [disabled] - Bloquea el selector mientras se procesa un fichaje.
+ */
+interface ProjectPickerProps {
+    projects: Project[];
+    tasks: ProjectTask[];
+    value: ProjectSelection;
+    onChange: (selection: ProjectSelection) => void;
+    disabled?: boolean;
+}
+
+/**
+ * Selector de proyecto y tarea del Dashboard.
+ *
+ * Solo ofrece proyectos y tareas sin archivar, salvo el seleccionado (una
+ * sesión puede seguir imputada a un proyecto que se archivó después). El
+ * selector de tarea aparece solo si el proyecto tiene tareas.
+ */
+export const ProjectPicker = ({ projects, tasks, value, onChange, disabled }: ProjectPickerProps) => {
+    const projectOptions = projects.filter(p => !p.archived || p.id === value.projectId);
+    const taskOptions = tasks.filter(t => t.project_id === value.projectId && (!t.archived || t.id === value.taskId));
+
+    return (
+        <div className="flex flex-wrap items-center justify-center gap-2">
+            <FolderKanban size={18} className="text-primary-lime" />
+            <select
+                value={value.projectId ?? ''}
+                onChange={e => onChange({ projectId: e.target.value || null, taskId: null })}
+                disabled={disabled}
+                className={selectClass}
+                aria-label="Proyecto"
+            >
+                <option value="">Sin proyecto</option>
+                {projectOptions.map(project => (
+                    <option key={project.id} value={project.id}>
+                        {project.client ? `${project.client} / ${project.name}` : project.name}
+                    </option>
+                ))}
+            </select>
+            {taskOptions.length > 0 && (
+                <select
+                    value={value.taskId ?? ''}
+                    onChange={e => onChange({ projectId: value.projectId, taskId: e.target.value || null })}
+                    disabled={disabled}
+                    className={selectClass}
+                    aria-label="Tarea"
+                >
+                    <option value="">Sin tarea</option>
+                    {taskOptions.map(task => (
+                        <option key={task.id} value={task.id}>{task.name}</option>
+                    ))}
+                </select>
+            )}
+        </div>
+    );
+};
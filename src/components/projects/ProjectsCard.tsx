@@ -0,0 +1,229 @@
+// useState: formularios y proyecto desplegado.
+import { useState } from 'react';
+import { Archive, ArchiveRestore, ChevronDown, ChevronRight, FolderKanban, Plus, Trash2 } from 'lucide-react';
+
+// useProjects: proyectos y tareas a los que se imputa el tiempo.
+import { useProjects, type Project } from '../../hooks/useProjects';
+
+const inputClass = 'bg-white dark:bg-dark-bg border border-gray-200 dark:border-white/10 rounded-lg p-2 text-sm text-gray-900 dark:text-white focus:border-primary-lime outline-none';
+
+/**
+ * Props del componente ProjectsCard.
+ * @property {string} userId - Usuario actual (para sus proyectos personales).
+ * @property {boolean} hasOrganization - Si pertenece a una organización.
+ * @property {boolean} isAdmin - Si es admin de su organización.
+ */
+interface ProjectsCardProps {
+    userId: string;
+    hasOrganization: boolean;
+    isAdmin: boolean;
+}
+
+/**
+ * Tarjeta de proyectos en Ajustes.
+ *
+ * Lista los proyectos (y sus tareas) a los que se imputa el tiempo al fichar.
+ * Quien puede gestionarlos (un admin en su organización, o el propio usuario
+ * si no tiene organización) los crea, añade tareas, los archiva para que no
+ * se ofrezcan al fichar o los elimina.
+ */
+export const ProjectsCard = ({ userId, hasOrganization, isAdmin }: ProjectsCardProps) => {
+    const {
+        projects,
+        tasks,
+        loading,
+        error,
+        createProject,
+        setProjectArchived,
+        deleteProject,
+        createTask,
+        setTaskArchived,
+        deleteTask
+    } = useProjects();
+
+    const [name, setName] = useState('');
+    const [client, setClient] = useState('');
+    const [openProjectId, setOpenProjectId] = useState<string | null>(null);
+    const [taskName, setTaskName] = useState('');
+
+    const canCreate = !hasOrganization || isAdmin;
+    const canManage = (project: Project) =>
+        project.organization_id ? isAdmin : project.created_by === userId;
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (await createProject(name.trim(), client.trim())) {
+            setName('');
+            setClient('');
+        }
+    };
+
+    const handleCreateTask = async (e: React.FormEvent, projectId: string) => {
+        e.preventDefault();
+        if (await createTask(projectId, taskName.trim())) {
+            setTaskName('');
+        }
+    };
+
+    const handleDeleteProject = async (project: Project) => {
+        if (window.confirm(`¿Eliminar el proyecto "${project.name}"? El tiempo imputado pasará a "Sin proyecto". Si solo quieres dejar de usarlo, archívalo.`)) {
+            await deleteProject(project.id);
+        }
+    };
+
+    return (
+        <div className="glass-card p-6 space-y-4">
+            <div>
+                <h2 className="flex items-center gap-2 text-xl font-bold text-gray-900 dark:text-white">
+                    <FolderKanban size={20} className="text-primary-lime" />
+                    Proyectos
+                </h2>
+                <p className="text-sm text-gray-500">
+                    Al iniciar la jornada eliges el proyecto (y la tarea) en el que trabajas y puedes cambiarlo sin parar el cronómetro. El historial, el calendario y las exportaciones desglosan el tiempo por proyecto.
+                </p>
+            </div>
+
+            {loading && projects.length === 0 ? (
+                <p className="text-sm text-gray-500">Cargando proyectos...</p>
+            ) : projects.length === 0 ? (
+                <p className="text-sm text-gray-500 italic">
+                    {canCreate ? 'Aún no hay proyectos. Crea el primero.' : 'Tu organización aún no tiene proyectos.'}
+                </p>
+            ) : (
+                <ul className="space-y-2">
+                    {projects.map(project => {
+                        const projectTasks = tasks.filter(t => t.project_id === project.id);
+                        const open = openProjectId === project.id;
+
+                        return (
+                            <li key={project.id} className={`rounded-lg bg-gray-50 dark:bg-white/5 ${project.archived ? 'opacity-60' : ''}`}>
+                                <div className="flex items-center gap-3 p-3">
+                                    <button
+                                        type="button"
+                                        onClick={() => setOpenProjectId(open ? null : project.id)}
+                                        className="flex-1 flex items-center gap-2 text-left text-sm min-w-0"
+                                    >
+                                        {open ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                                        <span className="font-medium text-gray-900 dark:text-white truncate">{project.name}</span>
+                                        <span className="text-xs text-gray-500 shrink-0">
+                                            {project.client && `${project.client} · `}
+                                            {`${projectTasks.length} tarea(s)`}
+                                            {project.archived && ' · Archivado'}
+                                        </span>
+                                    </button>
+                                    {canManage(project) && (
+                                        <>
+                                            <button
+                                                type="button"
+                                                onClick={() => setProjectArchived(project.id, !project.archived)}
+                                                className="p-2 text-gray-500 hover:bg-gray-200 dark:hover:bg-white/10 rounded-lg transition-colors"
+                                                title={project.archived ? 'Desarchivar proyecto' : 'Archivar proyecto'}
+                                            >
+                                                {project.archived ? <ArchiveRestore size={16} /> : <Archive size={16} />}
+                                            </button>
+                                            <button
+                                                type="button"
+                                                onClick={() => handleDeleteProject(project)}
+                                                className="p-2 text-red-400 hover:bg-red-400/10 rounded-lg transition-colors"
+                                                title="Eliminar proyecto"
+                                            >
+                                                <Trash2 size={16} />
+                                            </button>
+                                        </>
+                                    )}
+                                </div>
+
+                                {open && (
+                                    <div className="px-3 pb-3 space-y-3">
+                                        {projectTasks.length === 0 ? (
+                                            <p className="text-sm text-gray-500 italic">Sin tareas: el tiempo se imputa al proyecto.</p>
+                                        ) : (
+                                            <ul className="divide-y divide-gray-200 dark:divide-white/10 text-sm">
+                                                {projectTasks.map(task => (
+                                                    <li key={task.id} className="flex items-center justify-between gap-2 py-1.5">
+                                                        <span className={`text-gray-900 dark:text-white ${task.archived ? 'line-through opacity-60' : ''}`}>
+                                                            {task.name}
+                                                        </span>
+                                                        {canManage(project) && (
+                                                            <div className="flex items-center gap-1">
+                                                                <button
+                                                                    type="button"
+                                                                    onClick={() => setTaskArchived(task.id, !task.archived)}
+                                                                    className="p-1 text-gray-500 hover:bg-gray-200 dark:hover:bg-white/10 rounded transition-colors"
+                                                                    title={task.archived ? 'Desarchivar tarea' : 'Archivar tarea'}
+                                                                >
+                                                                    {task.archived ? <ArchiveRestore size={14} /> : <Archive size={14} />}
+                                                                </button>
+                                                                <button
+                                                                    type="button"
+                                                                    onClick={() => deleteTask(task.id)}
+                                                                    className="p-1 text-red-400 hover:bg-red-400/10 rounded transition-colors"
+                                                                    title="Eliminar tarea"
+                                                                >
+                                                                    <Trash2 size={14} />
+                                                                </button>
+                                                            </div>
+                                                        )}
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        )}
+
+                                        {canManage(project) && (
+                                            <form onSubmit={e => handleCreateTask(e, project.id)} className="flex items-center gap-2">
+                                                <input
+                                                    type="text"
+                                                    required
+                                                    placeholder="Nueva tarea"
+                                                    value={taskName}
+                                                    onChange={e => setTaskName(e.target.value)}
+                                                    className={`${inputClass} flex-1`}
+                                                />
+                                                <button
+                                                    type="submit"
+                                                    className="p-2 bg-primary-lime text-dark-bg rounded-lg hover:bg-secondary-lime"
+                                                    title="Añadir tarea"
+                                                >
+                                                    <Plus size={16} />
+                                                </button>
+                                            </form>
+                                        )}
+                                    </div>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+
+            {canCreate && (
+                <form onSubmit={handleCreate} className="flex flex-wrap items-center gap-2 pt-2 border-t border-gray-200 dark:border-white/10">
+                    <input
+                        type="text"
+                        required
+                        placeholder="Nombre del proyecto"
+                        value={name}
+                        onChange={e => setName(e.target.value)}
+                        className={`${inputClass} flex-1 min-w-48`}
+                    />
+                    <input
+                        type="text"
+                        placeholder="Cliente (opcional)"
+                        value={client}
+                        onChange={e => setClient(e.target.value)}
+                        className={inputClass}
+                    />
+                    <button
+                        type="submit"
+                        disabled={loading}
+                        className="px-4 py-2 bg-primary-lime text-dark-bg font-bold rounded-lg hover:bg-secondary-lime disabled:opacity-50"
+                    >
+                        Crear proyecto
+                    </button>
+                </form>
+            )}
+
+            {error && <p className="text-sm text-red-500">{error}</p>}
+        </div>
+    );
+};
@@ -0,0 +1,137 @@
+// useState: rango de fechas y estado de la exportación.
+import { useState } from 'react';
+
+// FileText: exportar CSV. FileSpreadsheet: exportar XLSX.
+import { FileText, FileSpreadsheet } from 'lucide-react';
+
+// useHistory: consulta las sesiones del rango con sus pausas y tramos por proyecto.
+import { useHistory } from '../../hooks/useHistory';
+import { useProjects } from '../../hooks/useProjects';
+import { Modal } from '../ui/Modal';
+
+// Conversión de sesiones a filas y exportadores CSV/XLSX.
+import { buildProjectSummaryRows, buildSessionExportRows, sessionsToCsv } from '../../utils/sessionExport';
+import { createSessionsXlsx } from '../../lib/sessionExportXlsx';
+import { downloadFile, UTF8_BOM } from '../../utils/download';
+
+/**
+ * Props del componente SessionExportModal.
+ * @property {boolean} isOpen - Indica si el modal está visible.
+ * @property {() => void} onClose - Cierra el modal.
+ */
+interface SessionExportModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+type ExportFormat = 'csv' | 'xlsx';
+
+/**
+ * Fecha local "YYYY-MM-DD" (formato de `<input type="date">`).
+ */
+const toDateInput = (date: Date) =>
+    `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`;
+
+// Clases compartidas de los inputs.
+const inputClass = 'w-full bg-white dark:bg-dark-bg border border-gray-200 dark:border-white/10 rounded-lg p-3 text-gray-900 dark:text-white focus:border-primary-lime outline-none';
+
+/**
+ * Modal "Exportar Sesiones".
+ *
+ * Permite elegir un rango de fechas (por defecto, el mes en curso) y descargar
+ * las sesiones completadas en CSV o XLSX para nóminas: inicio, fin, duración
+ * neta (HH:MM:SS y horas decimales), número y detalle de pausas, tiempo por
+ * proyecto, notas y dispositivo. El XLSX añade una hoja con el total de cada
+ * proyecto en el rango.
+ */
+export const SessionExportModal = ({ isOpen, onClose }: SessionExportModalProps) => {
+    const { loadSessionsForExport, error } = useHistory();
+    const { projects, tasks } = useProjects();
+    const [from, setFrom] = useState(() => {
+        const now = new Date();
+        return toDateInput(new Date(now.getFullYear(), now.getMonth(), 1));
+    });
+    const [to, setTo] = useState(() => toDateInput(new Date()));
+    const [exporting, setExporting] = useState<ExportFormat | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const rangeError = from && to && from > to ? 'La fecha de inicio debe ser anterior a la de fin' : null;
+
+    const handleExport = async (format: ExportFormat) => {
+        if (!from || !to || rangeError) return;
+        setExporting(format);
+        setMessage(null);
+
+        // El rango incluye el día "hasta" completo (hora local).
+        const [fromYear, fromMonth, fromDay] = from.split('-').map(Number);
+        const [toYear, toMonth, toDay] = to.split('-').map(Number);
+        const sessions = await loadSessionsForExport(
+            new Date(fromYear, fromMonth - 1, fromDay).toISOString(),
+            new Date(toYear, toMonth - 1, toDay + 1).toISOString()
+        );
+
+        if (sessions) {
+            if (sessions.length === 0) {
+                setMessage('No hay sesiones completadas en el rango seleccionado.');
+            } else {
+                const rows = buildSessionExportRows(sessions, { projects, tasks });
+                const fileName = `sesiones-${from}_${to}.${format}`;
+                if (format === 'csv') {
+                    downloadFile(UTF8_BOM + sessionsToCsv(rows), fileName, 'text/csv;charset=utf-8');
+                } else {
+                    downloadFile(await createSessionsXlsx(rows, buildProjectSummaryRows(sessions, { projects, tasks })), fileName, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+                }
+            }
+        }
+
+        setExporting(null);
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Exportar Sesiones">
+            <div className="space-y-4">
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Descarga las sesiones completadas del rango elegido con su duración neta, pausas, proyectos, notas y dispositivo.
+                </p>
+
+                {/* Rango de fechas */}
+                <div className="grid grid-cols-2 gap-3">
+                    <div>
+                        <label className="block text-sm text-gray-600 dark:text-gray-400 mb-1">Desde</label>
+                        <input type="date" value={from} onChange={e => setFrom(e.target.value)} className={inputClass} />
+                    </div>
+                    <div>
+                        <label className="block text-sm text-gray-600 dark:text-gray-400 mb-1">Hasta</label>
+                        <input type="date" value={to} onChange={e => setTo(e.target.value)} className={inputClass} />
+                    </div>
+                </div>
+
+                {rangeError && <p className="text-sm text-red-500">{rangeError}</p>}
+                {error && <p className="text-sm text-red-500">{error}</p>}
+                {message && <p className="text-sm text-gray-500">{message}</p>}
+
+                {/* Botones de exportación */}
+                <div className="flex justify-end gap-3 mt-6">
+                    <button
+                        type="button"
+                        onClick={() => handleExport('csv')}
+                        disabled={!!exporting || !!rangeError}
+                        className="flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-200 dark:border-white/10 text-gray-900 dark:text-white hover:bg-gray-100 dark:hover:bg-white/5 disabled:opacity-50"
+                    >
+                        <FileText size={18} />
+                        {exporting === 'csv' ? 'Exportando...' : 'CSV'}
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => handleExport('xlsx')}
+                        disabled={!!exporting || !!rangeError}
+                        className="flex items-center gap-2 px-6 py-2 bg-primary-lime text-dark-bg font-bold rounded-lg hover:bg-secondary-lime disabled:opacity-50"
+                    >
+                        <FileSpreadsheet size={18} />
+                        {exporting === 'xlsx' ? 'Exportando...' : 'Excel'}
+                    </button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
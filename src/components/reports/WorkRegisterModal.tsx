@@ -0,0 +1,137 @@
+// useState: mes seleccionado en el formulario.
+// useEffect: regenera el registro al abrir el modal o cambiar de mes.
+import { useEffect, useState } from 'react';
+
+// FileText: exportar PDF. FileSpreadsheet: exportar CSV.
+import { FileText, FileSpreadsheet } from 'lucide-react';
+
+// useWorkRegister: consulta las sesiones del mes y construye el registro.
+import { useWorkRegister } from '../../hooks/useWorkRegister';
+import { Modal } from '../ui/Modal';
+
+// Exportadores del registro (PDF con jsPDF, CSV como texto).
+import { createWorkRegisterPdf } from '../../lib/workRegisterPdf';
+import { formatRegisterHours, workRegisterToCsv } from '../../utils/workRegister';
+import { downloadFile, UTF8_BOM } from '../../utils/download';
+
+/**
+ * Props del componente WorkRegisterModal.
+ * @property {boolean} isOpen - Indica si el modal está visible.
+ * @property {() => void} onClose - Cierra el modal.
+ */
+interface WorkRegisterModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+/**
+ * Mes actual en formato de `<input type="month">` ("YYYY-MM").
+ */
+const currentMonth = () => {
+    const now = new Date();
+    return `${now.getFullYear()}-${(now.getMonth() + 1).toString().padStart(2, '0')}`;
+};
+
+/**
+ * Modal "Registro de Jornada".
+ *
+ * Permite elegir un mes, ver un resumen (días trabajados, totales semanales
+ * y total mensual) y descargar el registro oficial en PDF (con líneas de
+ * firma) o en CSV.
+ */
+export const WorkRegisterModal = ({ isOpen, onClose }: WorkRegisterModalProps) => {
+    const [month, setMonth] = useState(currentMonth);
+    const { register, loading, error, generateRegister } = useWorkRegister();
+
+    useEffect(() => {
+        if (!isOpen || !month) return;
+        const [year, monthNumber] = month.split('-').map(Number);
+        void generateRegister(year, monthNumber);
+    }, [isOpen, month, generateRegister]);
+
+    const fileBase = register
+        ? `registro-jornada-${register.year}-${register.month.toString().padStart(2, '0')}`
+        : 'registro-jornada';
+
+    const handlePdf = () => {
+        if (!register) return;
+        downloadFile(createWorkRegisterPdf(register), `${fileBase}.pdf`, 'application/pdf');
+    };
+
+    const handleCsv = () => {
+        if (!register) return;
+        downloadFile(UTF8_BOM + workRegisterToCsv(register), `${fileBase}.csv`, 'text/csv;charset=utf-8');
+    };
+
+    const workedDays = register?.days.filter(d => d.entries.length > 0).length ?? 0;
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Registro de Jornada">
+            <div className="space-y-4">
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Registro mensual de entradas, salidas y pausas. Consérvalo durante cuatro años
+                    y entrégalo a la Inspección de Trabajo si lo solicita.
+                </p>
+
+                {/* Selector de mes */}
+                <div>
+                    <label className="block text-sm text-gray-600 dark:text-gray-400 mb-1">Mes</label>
+                    <input
+                        type="month"
+                        value={month}
+                        onChange={e => setMonth(e.target.value)}
+                        className="w-full bg-white dark:bg-dark-bg border border-gray-200 dark:border-white/10 rounded-lg p-3 text-gray-900 dark:text-white focus:border-primary-lime outline-none"
+                    />
+                </div>
+
+                {error && <p className="text-sm text-red-500">{error}</p>}
+
+                {/* Resumen del registro */}
+                {loading ? (
+                    <div className="text-center py-6 text-gray-500">Generando registro...</div>
+                ) : register && (
+                    <div className="bg-gray-50 dark:bg-white/5 rounded-lg p-4 space-y-3 text-sm">
+                        <div className="flex justify-between">
+                            <span className="text-gray-600 dark:text-gray-400">Días trabajados</span>
+                            <span className="font-bold text-gray-900 dark:text-white">{workedDays}</span>
+                        </div>
+                        {register.weeks.map((week, index) => (
+                            <div key={week.from} className="flex justify-between">
+                                <span className="text-gray-600 dark:text-gray-400">
+                                    Semana {index + 1} ({week.from.slice(8)}-{week.to.slice(8)})
+                                </span>
+                                <span className="font-mono text-gray-900 dark:text-white">{formatRegisterHours(week.totalSeconds)}</span>
+                            </div>
+                        ))}
+                        <div className="flex justify-between pt-2 border-t border-gray-200 dark:border-white/10">
+                            <span className="font-medium text-gray-900 dark:text-white">Total mensual</span>
+                            <span className="font-mono font-bold text-primary-lime">{formatRegisterHours(register.totalSeconds)}</span>
+                        </div>
+                    </div>
+                )}
+
+                {/* Botones de exportación */}
+                <div className="flex justify-end gap-3 mt-6">
+                    <button
+                        type="button"
+                        onClick={handleCsv}
+                        disabled={!register || loading}
+                        className="flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-200 dark:border-white/10 text-gray-900 dark:text-white hover:bg-gray-100 dark:hover:bg-white/5 disabled:opacity-50"
+                    >
+                        <FileSpreadsheet size={18} />
+                        CSV
+                    </button>
+                    <button
+                        type="button"
+                        onClick={handlePdf}
+                        disabled={!register || loading}
+                        className="flex items-center gap-2 px-6 py-2 bg-primary-lime text-dark-bg font-bold rounded-lg hover:bg-secondary-lime disabled:opacity-50"
+                    >
+                        <FileText size={18} />
+                        PDF
+                    </button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
@@ -0,0 +1,103 @@
+import { TimerOff } from 'lucide-react';
+
+// useAutoCloseSettings: cierre automático de las sesiones olvidadas.
+import { useAutoCloseSettings, type AutoCloseSettings } from '../../hooks/useAutoCloseSettings';
+import { MAX_SESSION_HOURS } from '../../utils/sessionRules';
+
+const inputClass = 'bg-white dark:bg-dark-bg border border-gray-200 dark:border-white/10 rounded-lg p-2 text-sm text-gray-900 dark:text-white focus:border-primary-lime outline-none disabled:opacity-60';
+
+const MODE_LABELS: Record<AutoCloseSettings['mode'], string> = {
+    close: 'Cerrarla automáticamente',
+    flag: 'Solo marcarla para revisar'
+};
+
+/**
+ * Props del componente AutoCloseCard.
+ * @property {boolean} hasOrganization - Si pertenece a una organización.
+ * @property {boolean} isAdmin - Si es admin de su organización.
+ */
+interface AutoCloseCardProps {
+    hasOrganization: boolean;
+    isAdmin: boolean;
+}
+
+/**
+ * Tarjeta de cierre automático de sesiones olvidadas en Ajustes.
+ *
+ * Muestra qué hace el servidor con una sesión que sigue abierta pasado el
+ * límite: cerrarla (a la hora de salida del horario, si se usa, o al cumplirse
+ * el límite) o solo marcarla para que el usuario indique su hora real de
+ * salida. La configuran los admins para su organización, o el propio usuario
+ * si no tiene organización; el resto solo la consulta.
+ */
+export const AutoCloseCard = ({ hasOrganization, isAdmin }: AutoCloseCardProps) => {
+    const { settings, loading, error, updateSettings } = useAutoCloseSettings();
+    const canEdit = !hasOrganization || isAdmin;
+
+    const save = (changes: Partial<AutoCloseSettings>) => {
+        void updateSettings({ ...settings, ...changes });
+    };
+
+    return (
+        <div className="glass-card p-6 space-y-4">
+            <div>
+                <h2 className="flex items-center gap-2 text-xl font-bold text-gray-900 dark:text-white">
+                    <TimerOff size={20} className="text-primary-lime" />
+                    Sesiones olvidadas
+                </h2>
+                <p className="text-sm text-gray-500">
+                    Si una sesión sigue abierta pasado este límite desde su inicio (olvidaste fichar la salida), el servidor la cierra o la marca sin esperar a que vuelvas. Al volver puedes indicar tu hora real de salida.
+                    {!canEdit && ' La configura tu organización.'}
+                </p>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600 dark:text-gray-400">
+                <label className="flex items-center gap-2">
+                    Pasadas
+                    <input
+                        type="number"
+                        min={1}
+                        max={MAX_SESSION_HOURS}
+                        step={0.5}
+                        defaultValue={settings.after_minutes / 60}
+                        key={settings.after_minutes}
+                        disabled={!canEdit || loading}
+                        onBlur={e => {
+                            const minutes = Math.round(Number(e.target.value) * 60);
+                            if (minutes >= 60 && minutes <= MAX_SESSION_HOURS * 60 && minutes !== settings.after_minutes) {
+                                save({ after_minutes: minutes });
+                            }
+                        }}
+                        className={`${inputClass} w-20`}
+                    />
+                    h
+                </label>
+                <select
+                    value={settings.mode}
+                    disabled={!canEdit || loading}
+                    onChange={e => save({ mode: e.target.value as AutoCloseSettings['mode'] })}
+                    className={inputClass}
+                    aria-label="Qué hacer con la sesión"
+                >
+                    {(Object.keys(MODE_LABELS) as AutoCloseSettings['mode'][]).map(mode => (
+                        <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>
+                    ))}
+                </select>
+                {settings.mode === 'close' && (
+                    <label className="flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            checked={settings.at_schedule_end}
+                            disabled={!canEdit || loading}
+                            onChange={e => save({ at_schedule_end: e.target.checked })}
+                            className="accent-primary-lime"
+                        />
+                        A la hora de salida del horario
+                    </label>
+                )}
+            </div>
+
+            {error && <p className="text-sm text-red-500">{error}</p>}
+        </div>
+    );
+};
@@ -0,0 +1,57 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { TimeZoneContext } from '../hooks/useTimeZone';
+import { getBrowserTimeZone, isValidTimeZone } from '../utils/timezone';
+
+/**
+ * Proveedor de la zona horaria del usuario (`profiles.timezone`).
+ *
+ * Los días y semanas de las sesiones se agrupan en esta zona, no en la del
+ * navegador. Hasta cargar el perfil (o sin sesión) se usa la del navegador.
+ */
+export const TimeZoneProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const { user } = useAuth();
+    const userId = user?.id;
+    const [timeZone, setTimeZone] = useState(getBrowserTimeZone);
+
+    useEffect(() => {
+        if (!userId) return;
+
+        void supabase
+            .from('profiles')
+            .select('timezone')
+            .eq('id', userId)
+            .single()
+            .then(({ data, error }) => {
+                if (error) {
+                    console.error('Error loading profile timezone:', error);
+                    return;
+                }
+                if (isValidTimeZone(data.timezone)) setTimeZone(data.timezone);
+            });
+    }, [userId]);
+
+    const updateTimeZone = async (newTimeZone: string) => {
+        if (!userId || !isValidTimeZone(newTimeZone)) return false;
+
+        const { error } = await supabase
+            .from('profiles')
+            .update({ timezone: newTimeZone })
+            .eq('id', userId);
+
+        if (error) {
+            console.error('Error updating profile timezone:', error);
+            return false;
+        }
+
+        setTimeZone(newTimeZone);
+        return true;
+    };
+
+    return (
+        <TimeZoneContext.Provider value={{ timeZone, updateTimeZone }}>
+            {children}
+        </TimeZoneContext.Provider>
+    );
+};
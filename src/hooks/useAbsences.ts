@@ -0,0 +1,189 @@
+// useState: estado local (ausencias propias, pendientes de revisar, cupos, loading, error).
+// useCallback / useEffect: carga inicial memorizada.
+import { useState, useCallback, useEffect } from 'react';
+
+// supabase: instancia del cliente de Supabase.
+import { supabase } from '../lib/supabase';
+
+// Database: tipos de la base de datos para tipado seguro.
+import type { Database } from '../types/database.types';
+
+// AbsenceType: tipos de ausencia (vacaciones, baja médica, festivo...).
+import type { AbsenceType } from '../utils/absences';
+
+/**
+ * Fila de la tabla `absences`.
+ */
+export type Absence = Database['public']['Tables']['absences']['Row'];
+
+/**
+ * Datos de una nueva ausencia ("YYYY-MM-DD", fin incluido).
+ */
+export interface AbsenceInput {
+    absence_type: AbsenceType;
+    start_date: string;
+    end_date: string;
+    half_day: boolean;
+    notes: string;
+}
+
+/**
+ * Hook para las ausencias (vacaciones, bajas, festivos, asuntos propios...).
+ *
+ * - El trabajador solicita ausencias por días completos o media jornada y
+ *   puede retirarlas mientras están pendientes.
+ * - Managers y admins aprueban o rechazan las de sus equipos. Sin
+ *   organización, la base de datos las aprueba al crearlas.
+ * - Los admins fijan los días por año de cada tipo (`absence_allowances`).
+ *
+ * @returns {Object} Objeto con:
+ * - `absences` {Absence[]} - Ausencias del usuario actual (más recientes primero).
+ * - `pendingReviews` {Absence[]} - Ausencias de otros usuarios pendientes de revisión.
+ * - `allowances` {Partial<Record<AbsenceType, number>>} - Días por año de cada tipo (sin clave = sin límite).
+ * - `loading` / `error` - Estado de la última operación.
+ * - `loadAbsences` {Function} - Recarga las listas y los cupos.
+ * - `requestAbsence` / `cancelAbsence` / `reviewAbsence` / `updateAllowance` {Function} - Acciones (retornan boolean).
+ */
+export function useAbsences() {
+    const [absences, setAbsences] = useState<Absence[]>([]);
+    const [pendingReviews, setPendingReviews] = useState<Absence[]>([]);
+    const [allowances, setAllowances] = useState<Partial<Record<AbsenceType, number>>>({});
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    /**
+     * Carga las ausencias propias, las pendientes de revisar (RLS limita estas
+     * últimas a los equipos del manager) y los cupos de la organización.
+     */
+    const loadAbsences = useCallback(async () => {
+        try {
+            setLoading(true);
+            setError(null);
+
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) return;
+
+            const [own, pending, allowanceRows] = await Promise.all([
+                supabase
+                    .from('absences')
+                    .select('*')
+                    .eq('user_id', user.id)
+                    .order('start_date', { ascending: false }),
+                supabase
+                    .from('absences')
+                    .select('*')
+                    .neq('user_id', user.id)
+                    .eq('status', 'pending')
+                    .order('start_date', { ascending: true }),
+                supabase.from('absence_allowances').select('absence_type, days_per_year')
+            ]);
+
+            if (own.error) throw own.error;
+            if (pending.error) throw pending.error;
+            if (allowanceRows.error) throw allowanceRows.error;
+
+            setAbsences(own.data);
+            setPendingReviews(pending.data);
+            setAllowances(Object.fromEntries(allowanceRows.data.map(a => [a.absence_type, Number(a.days_per_year)])));
+        } catch (err) {
+            console.error('Error loading absences:', err);
+            setError((err as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        void loadAbsences();
+    }, [loadAbsences]);
+
+    /**
+     * Ejecuta una operación de escritura y recarga las listas si tiene éxito.
+     */
+    const mutate = async (label: string, operation: () => PromiseLike<{ error: unknown }>) => {
+        try {
+            setError(null);
+            const { error } = await operation();
+            if (error) throw error;
+            await loadAbsences();
+            return true;
+        } catch (err) {
+            console.error(`Error ${label}:`, err);
+            setError((err as Error).message);
+            return false;
+        }
+    };
+
+    /**
+     * Solicita una ausencia. La base de datos rechaza solapes con otra ausencia.
+     */
+    const requestAbsence = (input: AbsenceInput) =>
+        mutate('requesting absence', async () => {
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) return { error: new Error('No authenticated user') };
+
+            return supabase.from('absences').insert({
+                user_id: user.id,
+                absence_type: input.absence_type,
+                start_date: input.start_date,
+                end_date: input.end_date,
+                half_day: input.half_day,
+                notes: input.notes || null
+            });
+        });
+
+    /**
+     * Retira una ausencia propia pendiente (o cualquiera, sin organización).
+     */
+    const cancelAbsence = (absenceId: string) =>
+        mutate('cancelling absence', () => supabase.from('absences').delete().eq('id', absenceId));
+
+    /**
+     * Aprueba o rechaza una ausencia de otro usuario (managers y admins).
+     *
+     * @param {string} absenceId - Ausencia a revisar.
+     * @param {'approved' | 'rejected'} decision - Decisión del revisor.
+     * @param {string} comment - Comentario para el trabajador (obligatorio al rechazar en la UI).
+     */
+    const reviewAbsence = (absenceId: string, decision: 'approved' | 'rejected', comment: string) =>
+        mutate('reviewing absence', () => supabase
+            .from('absences')
+            .update({ status: decision, review_comment: comment || null })
+            .eq('id', absenceId));
+
+    /**
+     * Fija los días por año de un tipo de ausencia en la organización (solo
+     * admins). Con null se elimina el límite.
+     */
+    const updateAllowance = (type: AbsenceType, days: number | null) =>
+        mutate('updating absence allowance', async () => {
+            const { data: organizationId, error } = await supabase.rpc('current_organization_id');
+            if (error) return { error };
+            if (!organizationId) return { error: new Error('No perteneces a ninguna organización') };
+
+            if (days === null) {
+                return supabase
+                    .from('absence_allowances')
+                    .delete()
+                    .eq('organization_id', organizationId)
+                    .eq('absence_type', type);
+            }
+
+            return supabase
+                .from('absence_allowances')
+                .upsert({ organization_id: organizationId, absence_type: type, days_per_year: days });
+        });
+
+    return {
+        absences,
+        pendingReviews,
+        allowances,
+        loading,
+        error,
+        loadAbsences,
+        requestAbsence,
+        cancelAbsence,
+        reviewAbsence,
+        updateAllowance
+    };
+}
@@ -0,0 +1,108 @@
+// useState: estado local (configuración, loading, error).
+// useCallback / useEffect: carga inicial memorizada.
+import { useState, useCallback, useEffect } from 'react';
+
+// supabase: instancia del cliente de Supabase.
+import { supabase } from '../lib/supabase';
+
+// Database: tipos de la base de datos para tipado seguro.
+import type { Database } from '../types/database.types';
+
+// DEFAULT_AUTO_CLOSE_MINUTES: límite por defecto mientras carga.
+import { DEFAULT_AUTO_CLOSE_MINUTES } from '../utils/sessionRules';
+
+/**
+ * Configuración de cierre automático de sesiones olvidadas (RPC `auto_close_settings`).
+ */
+export type AutoCloseSettings = Database['public']['Functions']['auto_close_settings']['Returns'][number];
+
+const DEFAULT_SETTINGS: AutoCloseSettings = {
+    mode: 'close',
+    after_minutes: DEFAULT_AUTO_CLOSE_MINUTES,
+    at_schedule_end: true
+};
+
+/**
+ * Hook para el cierre automático de las sesiones olvidadas.
+ *
+ * La configuración que rige es la de la organización del usuario (la cambian
+ * sus admins) o, si no pertenece a ninguna, la de su perfil. El job del
+ * servidor cierra o marca las sesiones abiertas que superan el límite.
+ *
+ * @returns {Object} Objeto con:
+ * - `settings` {AutoCloseSettings} - Modo, límite en minutos y si usa la salida del horario.
+ * - `loading` / `error` - Estado de la última operación.
+ * - `loadSettings` {Function} - Recarga la configuración.
+ * - `updateSettings` {Function} - Guarda la configuración en la organización
+ *   o en el perfil (retorna boolean).
+ */
+export function useAutoCloseSettings() {
+    const [settings, setSettings] = useState<AutoCloseSettings>(DEFAULT_SETTINGS);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadSettings = useCallback(async () => {
+        try {
+            setLoading(true);
+            setError(null);
+
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) return;
+
+            const { data, error } = await supabase.rpc('auto_close_settings', { p_user_id: user.id });
+            if (error) throw error;
+
+            setSettings(data[0] ?? DEFAULT_SETTINGS);
+        } catch (err) {
+            console.error('Error loading auto-close settings:', err);
+            setError((err as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        void loadSettings();
+    }, [loadSettings]);
+
+    /**
+     * Guarda la configuración: en la organización del usuario (RLS solo deja a
+     * sus admins) o en su perfil si no pertenece a ninguna.
+     */
+    const updateSettings = async (next: AutoCloseSettings) => {
+        try {
+            setError(null);
+
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) throw new Error('No authenticated user');
+
+            const { data: organizationId, error: organizationError } = await supabase.rpc('current_organization_id');
+            if (organizationError) throw organizationError;
+
+            const changes = {
+                auto_close_mode: next.mode,
+                auto_close_after_minutes: next.after_minutes,
+                auto_close_at_schedule_end: next.at_schedule_end
+            };
+            const { error } = organizationId
+                ? await supabase.from('organizations').update(changes).eq('id', organizationId)
+                : await supabase.from('profiles').update(changes).eq('id', user.id);
+            if (error) throw error;
+
+            await loadSettings();
+            return true;
+        } catch (err) {
+            console.error('Error updating auto-close settings:', err);
+            setError((err as Error).message);
+            return false;
+        }
+    };
+
+    return {
+        settings,
+        loading,
+        error,
+        loadSettings,
+        updateSettings
+    };
+}
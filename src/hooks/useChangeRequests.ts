@@ -0,0 +1,171 @@
+// useState: estado local (solicitudes propias, pendientes de revisar, ventana, loading, error).
+// useCallback / useEffect: carga inicial memorizada.
+import { useState, useCallback, useEffect } from 'react';
+
+// supabase: instancia del cliente de Supabase.
+import { supabase } from '../lib/supabase';
+
+// Database: tipos de la base de datos para tipado seguro.
+import type { Database } from '../types/database.types';
+
+// EditablePause: pausa editada en la UI (el id se descarta en la propuesta).
+import type { EditablePause } from '../utils/pauses';
+
+/**
+ * Fila de la tabla `session_change_requests`.
+ */
+export type ChangeRequest = Database['public']['Tables']['session_change_requests']['Row'];
+
+/**
+ * Valores corregidos que propone el trabajador (timestamps ISO).
+ */
+export interface ChangeRequestProposal {
+    start_time: string;
+    end_time: string;
+    notes: string;
+    pauses: EditablePause[];
+}
+
+/**
+ * Hook para las solicitudes de cambio de sesiones antiguas.
+ *
+ * Las sesiones completadas anteriores a la ventana de edición de la
+ * organización no se modifican directamente: el trabajador propone los
+ * valores corregidos con un motivo y un manager o admin aprueba (la base de
+ * datos aplica el cambio) o rechaza la solicitud. Original y corrección
+ * quedan guardados en la solicitud.
+ *
+ * @returns {Object} Objeto con:
+ * - `requests` {ChangeRequest[]} - Solicitudes del usuario actual (más recientes primero).
+ * - `pendingReviews` {ChangeRequest[]} - Solicitudes de otros usuarios pendientes de revisión.
+ * - `editWindowDays` {number | null} - Ventana de edición directa (null = sin límite).
+ * - `loading` / `error` - Estado de la última operación.
+ * - `loadRequests` {Function} - Recarga las listas y la ventana.
+ * - `createChangeRequest` / `cancelChangeRequest` / `reviewChangeRequest` {Function} - Acciones (retornan boolean).
+ */
+export function useChangeRequests() {
+    const [requests, setRequests] = useState<ChangeRequest[]>([]);
+    const [pendingReviews, setPendingReviews] = useState<ChangeRequest[]>([]);
+    const [editWindowDays, setEditWindowDays] = useState<number | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    /**
+     * Carga las solicitudes propias, las pendientes de revisar (RLS limita
+     * estas últimas a los equipos del manager) y la ventana de edición.
+     */
+    const loadRequests = useCallback(async () => {
+        try {
+            setLoading(true);
+            setError(null);
+
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) return;
+
+            const [own, pending, windowDays] = await Promise.all([
+                supabase
+                    .from('session_change_requests')
+                    .select('*')
+                    .eq('user_id', user.id)
+                    .order('created_at', { ascending: false }),
+                supabase
+                    .from('session_change_requests')
+                    .select('*')
+                    .neq('user_id', user.id)
+                    .eq('status', 'pending')
+                    .order('created_at', { ascending: true }),
+                supabase.rpc('session_edit_window_days', { p_user_id: user.id })
+            ]);
+
+            if (own.error) throw own.error;
+            if (pending.error) throw pending.error;
+            if (windowDays.error) throw windowDays.error;
+
+            setRequests(own.data);
+            setPendingReviews(pending.data);
+            setEditWindowDays(windowDays.data);
+        } catch (err) {
+            console.error('Error loading change requests:', err);
+            setError((err as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        void loadRequests();
+    }, [loadRequests]);
+
+    /**
+     * Ejecuta una operación de escritura y recarga las listas si tiene éxito.
+     */
+    const mutate = async (label: string, operation: () => PromiseLike<{ error: unknown }>) => {
+        try {
+            setError(null);
+            const { error } = await operation();
+            if (error) throw error;
+            await loadRequests();
+            return true;
+        } catch (err) {
+            console.error(`Error ${label}:`, err);
+            setError((err as Error).message);
+            return false;
+        }
+    };
+
+    /**
+     * Envía una solicitud de cambio para una sesión propia. Los valores
+     * originales los copia la base de datos al crearla.
+     *
+     * @param {string} sessionId - Sesión a corregir.
+     * @param {ChangeRequestProposal} proposal - Valores corregidos, ya validados.
+     * @param {string} reason - Motivo del cambio.
+     */
+    const createChangeRequest = (sessionId: string, proposal: ChangeRequestProposal, reason: string) =>
+        mutate('creating change request', async () => {
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) return { error: new Error('No authenticated user') };
+
+            return supabase.from('session_change_requests').insert({
+                session_id: sessionId,
+                user_id: user.id,
+                reason,
+                proposed_start_time: proposal.start_time,
+                proposed_end_time: proposal.end_time,
+                proposed_notes: proposal.notes || null,
+                proposed_pauses: proposal.pauses.map(p => ({ pause_start: p.pause_start, pause_end: p.pause_end, pause_type_id: p.pause_type_id ?? null }))
+            });
+        });
+
+    /**
+     * Cancela una solicitud propia pendiente.
+     */
+    const cancelChangeRequest = (requestId: string) =>
+        mutate('cancelling change request', () => supabase.from('session_change_requests').delete().eq('id', requestId));
+
+    /**
+     * Aprueba (aplicando el cambio a la sesión) o rechaza una solicitud de otro usuario.
+     *
+     * @param {string} requestId - Solicitud a revisar.
+     * @param {boolean} approve - true para aprobar, false para rechazar.
+     * @param {string} comment - Comentario para el trabajador.
+     */
+    const reviewChangeRequest = (requestId: string, approve: boolean, comment: string) =>
+        mutate('reviewing change request', () => supabase.rpc('review_session_change_request', {
+            p_request_id: requestId,
+            p_approve: approve,
+            p_comment: comment || null
+        }));
+
+    return {
+        requests,
+        pendingReviews,
+        editWindowDays,
+        loading,
+        error,
+        loadRequests,
+        createChangeRequest,
+        cancelChangeRequest,
+        reviewChangeRequest
+    };
+}
@@ -0,0 +1,155 @@
+// useState: estado local (sesiones, instante de referencia).
+// useCallback / useEffect: carga memorizada y refresco periódico.
+// useMemo: evaluación de las reglas solo cuando cambian los datos.
+import { useState, useCallback, useEffect, useMemo } from 'react';
+
+// supabase: instancia del cliente de Supabase.
+import { supabase } from '../lib/supabase';
+
+// useTimeZone: días y semanas en la zona horaria del perfil.
+import { useTimeZone } from './useTimeZone';
+
+// getStartOfWeek: lunes de la semana actual.
+import { getStartOfWeek } from '../utils/date';
+
+// evaluateCompliance: reglas de descansos y máximo semanal.
+import {
+    evaluateCompliance,
+    evaluateComplianceByWeek,
+    groupIssuesBySession,
+    type ComplianceIssue,
+    type ComplianceSession,
+} from '../utils/compliance';
+
+/**
+ * Consulta de las sesiones completadas de `userId` que terminan desde `since`
+ * (y, si se indica, empiezan antes de `until`), con las pausas que necesitan
+ * las reglas.
+ *
+ * Filtra explícitamente por usuario: RLS también deja leer las sesiones del
+ * equipo a managers y admins.
+ */
+function complianceSessionsQuery(userId: string, since: string, until?: string) {
+    const query = supabase
+        .from('work_sessions')
+        .select('id, start_time, end_time, work_pauses(pause_start, pause_end, paid)')
+        .eq('user_id', userId)
+        .eq('status', 'completed')
+        .is('deleted_at', null)
+        .gte('end_time', since);
+    return until ? query.lt('start_time', until) : query;
+}
+
+type Props = {
+    // Sesión en curso: se evalúa hasta el momento actual.
+    activeSession: ComplianceSession | null;
+    // Se incrementa al finalizar una sesión para volver a evaluar.
+    refreshTrigger: number;
+};
+
+/**
+ * Hook con los avisos de descansos obligatorios y máximo semanal del usuario
+ * para el Dashboard.
+ *
+ * Carga las sesiones completadas de la semana actual (y la del día anterior
+ * a su inicio, para medir el descanso del lunes), les suma la sesión en curso
+ * y evalúa las reglas. Se vuelve a cargar al finalizar la jornada
+ * (`refreshTrigger`) y recalcula cada minuto mientras hay una sesión abierta.
+ *
+ * @returns {Object} Objeto con:
+ * - `issues` {ComplianceIssue[]} - Incumplimientos de las sesiones de esta semana.
+ * - `loadCompliance` {Function} - Recarga las sesiones.
+ */
+export function useCompliance({ activeSession, refreshTrigger }: Props) {
+    const { timeZone } = useTimeZone();
+    const [sessions, setSessions] = useState<ComplianceSession[]>([]);
+    const [weekStart, setWeekStart] = useState(() => getStartOfWeek(timeZone));
+    const [now, setNow] = useState(() => new Date());
+
+    const loadCompliance = useCallback(async () => {
+        try {
+            const startOfWeek = getStartOfWeek(timeZone);
+            const since = new Date(new Date(startOfWeek).getTime() - 24 * 3600 * 1000).toISOString();
+
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) return;
+
+            const { data, error } = await complianceSessionsQuery(user.id, since);
+
+            if (error) throw error;
+
+            setSessions(data ?? []);
+            setWeekStart(startOfWeek);
+            setNow(new Date());
+        } catch (err) {
+            console.error('Error fetching sessions for compliance:', err);
+        }
+    }, [timeZone]);
+
+    useEffect(() => {
+        void loadCompliance();
+    }, [loadCompliance, refreshTrigger]);
+
+    // Con una sesión abierta, los límites se pueden superar mientras se trabaja.
+    useEffect(() => {
+        if (!activeSession) return;
+        const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+        return () => clearInterval(interval);
+    }, [activeSession]);
+
+    const issues = useMemo(() => {
+        const all = activeSession ? [...sessions.filter(s => s.id !== activeSession.id), activeSession] : sessions;
+        // La sesión del día anterior solo sirve de referencia para el descanso.
+        const thisWeek = new Set(all.filter(s => !s.end_time || new Date(s.end_time) >= new Date(weekStart)).map(s => s.id));
+        return evaluateCompliance(all, timeZone, now).filter(issue => thisWeek.has(issue.sessionId));
+    }, [sessions, activeSession, weekStart, timeZone, now]);
+
+    return { issues, loadCompliance };
+}
+
+/**
+ * Hook con los incumplimientos de las sesiones de una lista paginada (ej: el
+ * historial del Dashboard, que solo muestra las últimas).
+ *
+ * No evalúa solo las sesiones visibles: carga las semanas completas a las que
+ * pertenecen (y el día anterior a cada una, para el descanso) con la misma
+ * consulta que `useCompliance`, y evalúa semana a semana.
+ *
+ * @param {Object[]} sessions - Sesiones mostradas (basta con su inicio).
+ * @returns {Record<string, ComplianceIssue[]>} Incumplimientos de cada sesión (por id).
+ */
+export function useSessionsCompliance(sessions: { start_time: string }[]) {
+    const { timeZone } = useTimeZone();
+    const [issues, setIssues] = useState<ComplianceIssue[]>([]);
+
+    const loadIssues = useCallback(async () => {
+        try {
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) return;
+
+            // Semanas de las sesiones mostradas, desde el día anterior a la primera
+            // (referencia del descanso). Un día de margen al final por los cambios
+            // de hora: evaluateComplianceByWeek descarta lo que no es de esas semanas.
+            const weekStarts = [...new Set(sessions.map(s => getStartOfWeek(timeZone, new Date(s.start_time))))].sort();
+            if (weekStarts.length === 0) return;
+
+            const { data, error } = await complianceSessionsQuery(
+                user.id,
+                new Date(new Date(weekStarts[0]).getTime() - 24 * 3600 * 1000).toISOString(),
+                new Date(new Date(weekStarts[weekStarts.length - 1]).getTime() + 8 * 24 * 3600 * 1000).toISOString()
+            );
+
+            if (error) throw error;
+
+            setIssues(evaluateComplianceByWeek(data ?? [], weekStarts, timeZone));
+        } catch (err) {
+            console.error('Error fetching sessions for compliance:', err);
+        }
+    }, [sessions, timeZone]);
+
+    useEffect(() => {
+        void loadIssues();
+    }, [loadIssues]);
+
+    return useMemo(() => groupIssuesBySession(issues), [issues]);
+}
@@ -8,30 +8,116 @@ import { supabase } from '../lib/supabase';
 // Database: tipos generados de la base de datos para tipado seguro.
 import type { Database } from '../types/database.types';
 
+// EditablePause: pausa existente (con id) o nueva (sin id) editada en la UI.
+import { validatePauses, type EditablePause } from '../utils/pauses';
+
+// Pausa: inicio y fin de una pausa, para repartir la sesión entre días.
+import type { Pausa } from '../utils/duration';
+
+// ProjectSegment / ActivitySegment: tramo de la sesión con su proyecto y su actividad.
+import type { ProjectSegment } from '../utils/projects';
+import type { ActivitySegment } from '../utils/activities';
+
+// Reglas de sesión replicadas en el cliente (16 horas máximo, sin solapes).
+import { validateSessionWindow } from '../utils/sessionRules';
+
+// ExportSession: sesión con pausas completas, como la usa la exportación CSV/XLSX.
+import type { ExportSession } from '../utils/sessionExport';
+
+// ImportRow: fila de un CSV importado, ya interpretada y validada.
+import type { ImportRow } from '../utils/csvImport';
+
+/**
+ * Fila de la tabla `work_pauses`.
+ */
+type WorkPause = Database['public']['Tables']['work_pauses']['Row'];
+
 /**
  * Tipo extendido de sesión de trabajo.
- * Extiende el tipo base de `work_sessions` con la relación de pausas,
- * incluyendo el conteo de pausas (count) para mostrar en la UI.
+ * Extiende el tipo base de `work_sessions` con sus pausas (inicio y fin), para
+ * contarlas en la UI y repartir el tiempo neto entre días en el calendario, y
+ * con sus tramos por proyecto y actividad, para desglosar el tiempo.
  */
-type WorkSession = Database['public']['Tables']['work_sessions']['Row'] & {
-    work_pauses: { count: number }[];
+export type WorkSession = Database['public']['Tables']['work_sessions']['Row'] & {
+    work_pauses: Pausa[];
+    work_segments: (ProjectSegment & ActivitySegment)[];
 };
 
+/**
+ * Datos de una jornada registrada manualmente (timestamps ISO).
+ */
+export interface ManualSessionInput {
+    start_time: string;
+    end_time: string;
+    notes: string;
+    pauses: EditablePause[];
+}
+
+/**
+ * Mensaje cuando se intenta modificar una sesión de una hoja de horas aprobada.
+ */
+export const LOCKED_PERIOD_MESSAGE = 'La sesión pertenece a un periodo aprobado y no se puede modificar';
+
+/**
+ * Lanza un error si alguno de los instantes cae en un periodo aprobado del usuario.
+ *
+ * La base de datos aplica la misma regla con triggers; comprobarlo antes evita
+ * escrituras parciales (por ejemplo, en el editor de pausas) y da un mensaje claro.
+ *
+ * @param {string} userId - Dueño de la sesión.
+ * @param {string[]} times - Timestamps ISO a comprobar (inicio actual y nuevo).
+ */
+async function assertPeriodUnlocked(userId: string, times: string[]) {
+    for (const time of times) {
+        const { data, error } = await supabase.rpc('is_period_locked', { p_user_id: userId, p_time: time });
+        if (error) throw error;
+        if (data) throw new Error(LOCKED_PERIOD_MESSAGE);
+    }
+}
+
+/**
+ * Comprueba que una sesión existente no pertenece a un periodo aprobado.
+ *
+ * @param {string} sessionId - ID de la sesión.
+ * @param {string} [newStartTime] - Nuevo inicio, si la edición lo cambia.
+ */
+async function assertSessionUnlocked(sessionId: string, newStartTime?: string | null) {
+    const { data: session, error } = await supabase
+        .from('work_sessions')
+        .select('user_id, start_time')
+        .eq('id', sessionId)
+        .single();
+
+    if (error) throw error;
+
+    await assertPeriodUnlocked(session.user_id, newStartTime ? [session.start_time, newStartTime] : [session.start_time]);
+}
+
 /**
  * Hook personalizado para gestionar el historial de sesiones de trabajo completadas.
  *
  * Provee funciones para:
  * - Cargar las sesiones completadas del usuario.
  * - Actualizar una sesión existente (editar inicio, fin, notas).
- * - Eliminar una sesión del historial.
+ * - Eliminar una sesión del historial (la mueve a la papelera).
+ * - Consultar las pausas de una sesión y guardarla junto con ellas (editor de pausas).
+ * - Registrar a posteriori una jornada completa olvidada (entrada manual).
+ *
+ * Las sesiones de un periodo con hoja de horas aprobada están bloqueadas:
+ * editar, eliminar o cambiar sus pausas falla con `LOCKED_PERIOD_MESSAGE`.
  *
  * @returns {Object} Objeto con:
  * - `sessions` {WorkSession[]} - Lista de sesiones completadas.
  * - `loading` {boolean} - Indica si se están cargando las sesiones.
  * - `error` {string | null} - Mensaje de error, si hay alguno.
  * - `loadSessions` {Function} - Carga las sesiones (con límite opcional).
- * - `updateSession` {Function} - Actualiza campos de una sesión.
- * - `deleteSession` {Function} - Elimina una sesión por ID.
+ * - `deleteSession` {Function} - Mueve una sesión a la papelera por ID.
+ * - `loadPauses` {Function} - Obtiene las pausas de una sesión.
+ * - `updateSessionWithPauses` {Function} - Guarda inicio, fin, notas y pausas en una transacción.
+ * - `createManualSession` {Function} - Crea una sesión completada marcada como manual.
+ * - `loadSessionsForExport` {Function} - Obtiene las sesiones de un rango de fechas con sus pausas.
+ * - `loadSessionWindows` {Function} - Obtiene inicio y fin de las sesiones que tocan un rango.
+ * - `importSessions` {Function} - Inserta en bloque las jornadas importadas desde un CSV.
  */
 export function useHistory() {
     // Lista de sesiones de trabajo completadas.
@@ -48,7 +134,7 @@ export function useHistory() {
      *
      * Consulta a Supabase las sesiones con estado 'completed', ordenadas
      * por fecha de inicio descendente (más recientes primero).
-     * Incluye el conteo de pausas (work_pauses(count)) de cada sesión.
+     * Incluye las pausas y los tramos por proyecto de cada sesión.
      *
      * @param {number} limit - Número máximo de sesiones a cargar (por defecto 50).
      */
@@ -62,15 +148,16 @@ export function useHistory() {
             if (!user) return;
 
             // Construye la consulta a la tabla work_sessions.
-            // - Selecciona todos los campos + conteo de pausas asociadas.
+            // - Selecciona todos los campos + inicio y fin de sus pausas y tramos por proyecto.
             // - Filtra por user_id del usuario actual y estado 'completed'.
             // - Ordena por start_time descendente (más recientes primero).
             // - Limita la cantidad de resultados.
             let query = supabase
                 .from('work_sessions')
-                .select('*, work_pauses(count)')
+                .select('*, work_pauses(pause_start, pause_end, paid), work_segments(segment_start, segment_end, project_id, task_id, activity)')
                 .eq('user_id', user.id)
                 .eq('status', 'completed')
+                .is('deleted_at', null)
                 .order('start_time', { ascending: false })
                 .limit(limit);
 
@@ -90,68 +177,312 @@ export function useHistory() {
     }, []);
 
     /**
-     * Actualiza los campos de una sesión de trabajo existente.
+     * Mueve una sesión de trabajo a la papelera (borrado lógico).
      *
-     * Tras actualizar en la base de datos, recarga todas las sesiones
-     * para reflejar los cambios en la UI.
+     * Marca `deleted_at`: la sesión desaparece del historial, los totales y los
+     * informes, pero se puede restaurar desde la papelera (`useSessionTrash`)
+     * hasta que se elimine definitivamente.
      *
-     * @param {string} sessionId - ID de la sesión a actualizar.
-     * @param {Partial<WorkSession>} updates - Campos a actualizar (start_time, end_time, notes, etc.).
-     * @returns {boolean} true si la actualización fue exitosa, false en caso de error.
+     * Tras eliminar, actualiza el estado local filtrando la sesión eliminada
+     * sin necesidad de recargar desde la base de datos.
+     *
+     * @param {string} sessionId - ID de la sesión a eliminar.
+     * @returns {boolean} true si la eliminación fue exitosa, false en caso de error.
      */
-    const updateSession = async (sessionId: string, updates: Partial<WorkSession>) => {
+    const deleteSession = async (sessionId: string) => {
         try {
+            setError(null);
+            await assertSessionUnlocked(sessionId);
+
             const { error } = await supabase
                 .from('work_sessions')
-                .update(updates)
+                .update({ deleted_at: new Date().toISOString() })
                 .eq('id', sessionId);
 
             if (error) throw error;
 
-            // Recarga las sesiones para actualizar la UI con los cambios.
-            await loadSessions();
+            // Actualiza el estado local removiendo la sesión eliminada (optimistic update).
+            setSessions(prev => prev.filter(s => s.id !== sessionId));
             return true;
         } catch (err: any) {
-            console.error('Error updating session:', err);
+            console.error('Error deleting session:', err);
             setError(err.message);
             return false;
         }
     };
 
     /**
-     * Elimina una sesión de trabajo de la base de datos.
+     * Obtiene todas las pausas de una sesión, ordenadas por inicio.
      *
-     * Tras eliminar, actualiza el estado local filtrando la sesión eliminada
-     * sin necesidad de recargar desde la base de datos.
+     * @param {string} sessionId - ID de la sesión.
+     * @returns {WorkPause[]} Pausas de la sesión (vacío en caso de error).
+     */
+    const loadPauses = async (sessionId: string): Promise<WorkPause[]> => {
+        const { data, error } = await supabase
+            .from('work_pauses')
+            .select('*')
+            .eq('session_id', sessionId)
+            .order('pause_start', { ascending: true });
+
+        if (error) {
+            console.error('Error loading pauses:', error);
+            setError(error.message);
+            return [];
+        }
+
+        return data;
+    };
+
+    /**
+     * Guarda la edición de una sesión junto con sus pausas.
      *
-     * @param {string} sessionId - ID de la sesión a eliminar.
-     * @returns {boolean} true si la eliminación fue exitosa, false en caso de error.
+     * Todo se aplica en una sola transacción (RPC `update_session_with_pauses`):
+     * las pausas que ya no están en la lista se eliminan, las existentes (con `id`)
+     * se actualizan y las nuevas (sin `id`) se insertan. Si el servidor rechaza
+     * cualquier cambio, la sesión queda como estaba.
+     *
+     * La duración neta de la sesión la recalcula el trigger de la base de datos.
+     *
+     * @param {string} sessionId - ID de la sesión.
+     * @param {Object} updates - Nuevo inicio, fin (ISO) y notas.
+     * @param {EditablePause[]} pauses - Pausas finales (timestamps ISO), ya validadas.
+     * @returns {boolean} true si se guardó correctamente, false en caso de error.
      */
-    const deleteSession = async (sessionId: string) => {
+    const updateSessionWithPauses = async (
+        sessionId: string,
+        updates: { start_time: string; end_time: string; notes: string },
+        pauses: EditablePause[]
+    ) => {
         try {
-            const { error } = await supabase
-                .from('work_sessions')
-                .delete()
-                .eq('id', sessionId);
+            setError(null);
+            await assertSessionUnlocked(sessionId, updates.start_time);
+
+            const { error } = await supabase.rpc('update_session_with_pauses', {
+                p_session_id: sessionId,
+                p_start_time: updates.start_time,
+                p_end_time: updates.end_time,
+                p_notes: updates.notes,
+                p_pauses: pauses.map(p => ({ id: p.id ?? null, pause_start: p.pause_start, pause_end: p.pause_end }))
+            });
 
             if (error) throw error;
 
-            // Actualiza el estado local removiendo la sesión eliminada (optimistic update).
-            setSessions(prev => prev.filter(s => s.id !== sessionId));
+            // Recarga las sesiones para actualizar la UI con los cambios.
+            await loadSessions();
             return true;
-        } catch (err: any) {
-            console.error('Error deleting session:', err);
-            setError(err.message);
+        } catch (err) {
+            console.error('Error saving session:', err);
+            setError((err as Error).message);
+            return false;
+        }
+    };
+
+    /**
+     * Registra una jornada completada que el usuario olvidó fichar.
+     *
+     * La sesión se crea con `source = 'manual'` para distinguirla de los fichajes
+     * en vivo en los informes. Antes de insertar se validan las mismas reglas que
+     * aplica la base de datos:
+     * - Fin posterior al inicio y duración máxima de 16 horas.
+     * - Pausas dentro de la jornada y sin solaparse.
+     * - Sin solaparse con otra sesión del usuario, incluida una sesión activa.
+     *
+     * No recarga la lista: el llamador decide qué vistas refrescar.
+     *
+     * @param {ManualSessionInput} input - Inicio, fin, notas y pausas de la jornada.
+     * @returns {boolean} true si se creó correctamente; si no, el motivo queda en `error`.
+     */
+    const createManualSession = async (input: ManualSessionInput) => {
+        try {
+            setError(null);
+
+            const windowError = validateSessionWindow(input.start_time, input.end_time);
+            if (windowError) throw new Error(windowError);
+
+            const pauseErrors = validatePauses(input.start_time, input.end_time, input.pauses);
+            if (pauseErrors.length > 0) {
+                throw new Error(`Pausa ${pauseErrors[0].index + 1}: ${pauseErrors[0].message}`);
+            }
+
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) throw new Error('No authenticated user');
+
+            await assertPeriodUnlocked(user.id, [input.start_time]);
+
+            // Comprueba solapamientos con otras sesiones (una sesión abierta no tiene fin).
+            // Las descartadas ('abandoned') no cuentan, igual que en el trigger.
+            const { data: overlapping, error: overlapError } = await supabase
+                .from('work_sessions')
+                .select('id')
+                .eq('user_id', user.id)
+                .neq('status', 'abandoned')
+                .is('deleted_at', null)
+                .lt('start_time', input.end_time)
+                .or(`end_time.gt.${input.start_time},end_time.is.null`)
+                .limit(1);
+
+            if (overlapError) throw overlapError;
+            if (overlapping.length > 0) {
+                throw new Error('La jornada se solapa con otra sesión registrada o en curso');
+            }
+
+            // Sesión y pausas en una sola transacción: si el servidor rechaza
+            // algo no queda una jornada sin sus pausas.
+            const { error: insertError } = await supabase.rpc('create_completed_sessions', {
+                p_source: 'manual',
+                p_sessions: [{
+                    start_time: input.start_time,
+                    end_time: input.end_time,
+                    notes: input.notes || null,
+                    device_info: {
+                        userAgent: navigator.userAgent,
+                        platform: navigator.platform
+                    },
+                    pauses: input.pauses.map(p => ({ pause_start: p.pause_start, pause_end: p.pause_end }))
+                }]
+            });
+
+            if (insertError) throw insertError;
+
+            return true;
+        } catch (err) {
+            console.error('Error creating manual session:', err);
+            setError((err as Error).message);
             return false;
         }
     };
 
+    /**
+     * Obtiene las sesiones completadas cuyo inicio cae en el rango indicado,
+     * con el detalle de sus pausas, para exportarlas (CSV/XLSX).
+     *
+     * A diferencia de `loadSessions`, no tiene límite de resultados ni modifica
+     * la lista mostrada en pantalla.
+     *
+     * @param {string} from - Timestamp ISO de inicio del rango (incluido).
+     * @param {string} to - Timestamp ISO de fin del rango (excluido).
+     * @returns {ExportSession[] | null} Sesiones ordenadas por inicio, o null si hubo un error.
+     */
+    const loadSessionsForExport = useCallback(async (from: string, to: string) => {
+        try {
+            setError(null);
+
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) throw new Error('No authenticated user');
+
+            const { data, error } = await supabase
+                .from('work_sessions')
+                .select('start_time, end_time, total_duration, notes, device_info, work_pauses(pause_start, pause_end, paid), work_segments(segment_start, segment_end, project_id, task_id, activity)')
+                .eq('user_id', user.id)
+                .eq('status', 'completed')
+                .is('deleted_at', null)
+                .gte('start_time', from)
+                .lt('start_time', to)
+                .order('start_time', { ascending: true });
+
+            if (error) throw error;
+
+            return data as ExportSession[];
+        } catch (err) {
+            console.error('Error loading sessions for export:', err);
+            setError((err as Error).message);
+            return null;
+        }
+    }, []);
+
+    /**
+     * Obtiene inicio y fin de todas las sesiones del usuario que tocan el rango
+     * indicado (incluida una sesión abierta, sin las descartadas), para detectar
+     * solapes antes de importar.
+     *
+     * @param {string} from - Timestamp ISO de inicio del rango.
+     * @param {string} to - Timestamp ISO de fin del rango.
+     * @returns {{ start_time: string; end_time: string | null }[] | null} Sesiones, o null si hubo un error.
+     */
+    const loadSessionWindows = useCallback(async (from: string, to: string) => {
+        try {
+            setError(null);
+
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) throw new Error('No authenticated user');
+
+            const { data, error } = await supabase
+                .from('work_sessions')
+                .select('start_time, end_time')
+                .eq('user_id', user.id)
+                .neq('status', 'abandoned')
+                .is('deleted_at', null)
+                .lt('start_time', to)
+                .or(`end_time.gt.${from},end_time.is.null`);
+
+            if (error) throw error;
+
+            return data;
+        } catch (err) {
+            console.error('Error loading session windows:', err);
+            setError((err as Error).message);
+            return null;
+        }
+    }, []);
+
+    /**
+     * Inserta en bloque jornadas importadas desde un CSV como sesiones completadas
+     * (`source = 'import'`) junto con sus pausas.
+     *
+     * Las filas deben llegar ya validadas (`validateImportRows`); las que tengan
+     * errores se ignoran. Cada lote se crea en una sola transacción
+     * (`create_completed_sessions`): si los triggers rechazan una sesión o una
+     * pausa, el lote entero falla sin dejar jornadas incompletas.
+     *
+     * @param {ImportRow[]} rows - Filas interpretadas y validadas.
+     * @returns {number | null} Número de sesiones importadas, o null si hubo un error.
+     */
+    const importSessions = async (rows: ImportRow[]) => {
+        const BATCH_SIZE = 200;
+        const validRows = rows.filter(r => r.errors.length === 0);
+        let imported = 0;
+
+        try {
+            setError(null);
+
+            for (let i = 0; i < validRows.length; i += BATCH_SIZE) {
+                const batch = validRows.slice(i, i + BATCH_SIZE);
+
+                const { data: count, error: insertError } = await supabase.rpc('create_completed_sessions', {
+                    p_source: 'import',
+                    p_sessions: batch.map(row => ({
+                        start_time: row.start_time,
+                        end_time: row.end_time,
+                        notes: row.notes,
+                        pauses: row.pauses.map(p => ({ pause_start: p.pause_start, pause_end: p.pause_end }))
+                    }))
+                });
+
+                if (insertError) throw insertError;
+
+                imported += count;
+            }
+
+            return imported;
+        } catch (err) {
+            console.error('Error importing sessions:', err);
+            const message = (err as Error).message;
+            setError(imported > 0 ? `Se importaron ${imported} jornadas; el resto falló: ${message}` : message);
+            return null;
+        }
+    };
+
     return {
         sessions,
         loading,
         error,
         loadSessions,
-        updateSession,
-        deleteSession
+        deleteSession,
+        loadPauses,
+        updateSessionWithPauses,
+        createManualSession,
+        loadSessionsForExport,
+        loadSessionWindows,
+        importSessions
     };
 }
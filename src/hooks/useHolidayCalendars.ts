@@ -0,0 +1,182 @@
+// useState: estado local (calendarios, festivos, asignaciones, loading, error).
+// useCallback / useEffect: carga inicial memorizada.
+import { useState, useCallback, useEffect } from 'react';
+
+// supabase: instancia del cliente de Supabase.
+import { supabase } from '../lib/supabase';
+
+// Database: tipos de la base de datos para tipado seguro.
+import type { Database } from '../types/database.types';
+
+// ICalHoliday: festivo leído de un fichero .ics.
+import type { ICalHoliday } from '../utils/ical';
+
+/**
+ * Fila de la tabla `holiday_calendars`.
+ */
+export type HolidayCalendar = Database['public']['Tables']['holiday_calendars']['Row'];
+
+/**
+ * Fila de la tabla `holidays`.
+ */
+export type Holiday = Database['public']['Tables']['holidays']['Row'];
+
+/**
+ * Ámbito de un calendario de festivos.
+ */
+export type HolidayScope = HolidayCalendar['scope'];
+
+/**
+ * Nombre legible de cada ámbito.
+ */
+export const HOLIDAY_SCOPE_LABELS: Record<HolidayScope, string> = {
+    national: 'Nacional',
+    regional: 'Autonómico',
+    local: 'Local',
+};
+
+/**
+ * Hook para gestionar los calendarios de festivos.
+ *
+ * Los calendarios de una organización los crean y editan sus admins; un
+ * usuario sin organización gestiona los suyos. Cada usuario elige los
+ * calendarios que le aplican y un admin puede asignarlos a sus miembros.
+ *
+ * @returns {Object} Objeto con:
+ * - `calendars` {HolidayCalendar[]} - Calendarios visibles (por nombre).
+ * - `holidays` {Holiday[]} - Festivos de esos calendarios (por fecha).
+ * - `assignments` {{ user_id: string; calendar_id: string }[]} - Asignaciones visibles.
+ * - `loading` / `error` - Estado de la última operación.
+ * - `loadCalendars` {Function} - Recarga todo.
+ * - `createCalendar`, `deleteCalendar`, `importHolidays`, `addHoliday`, `deleteHoliday`,
+ *   `assignCalendar`, `unassignCalendar` - Acciones (retornan boolean).
+ */
+export function useHolidayCalendars() {
+    const [calendars, setCalendars] = useState<HolidayCalendar[]>([]);
+    const [holidays, setHolidays] = useState<Holiday[]>([]);
+    const [assignments, setAssignments] = useState<{ user_id: string; calendar_id: string }[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadCalendars = useCallback(async () => {
+        try {
+            setLoading(true);
+            setError(null);
+
+            const [calendarRows, holidayRows, assignmentRows] = await Promise.all([
+                supabase.from('holiday_calendars').select('*').order('name'),
+                supabase.from('holidays').select('*').order('holiday_date'),
+                supabase.from('user_holiday_calendars').select('user_id, calendar_id')
+            ]);
+
+            if (calendarRows.error) throw calendarRows.error;
+            if (holidayRows.error) throw holidayRows.error;
+            if (assignmentRows.error) throw assignmentRows.error;
+
+            setCalendars(calendarRows.data);
+            setHolidays(holidayRows.data);
+            setAssignments(assignmentRows.data);
+        } catch (err) {
+            console.error('Error loading holiday calendars:', err);
+            setError((err as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        void loadCalendars();
+    }, [loadCalendars]);
+
+    /**
+     * Ejecuta una operación de escritura y recarga los datos si tiene éxito.
+     */
+    const mutate = async (label: string, operation: () => PromiseLike<{ error: unknown }>) => {
+        try {
+            setError(null);
+            const { error } = await operation();
+            if (error) throw error;
+            await loadCalendars();
+            return true;
+        } catch (err) {
+            console.error(`Error ${label}:`, err);
+            setError((err as Error).message);
+            return false;
+        }
+    };
+
+    /**
+     * Crea un calendario: de la organización del usuario (solo admins) o
+     * personal si no pertenece a ninguna.
+     */
+    const createCalendar = (name: string, scope: HolidayScope, region: string) =>
+        mutate('creating holiday calendar', async () => {
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) return { error: new Error('No authenticated user') };
+
+            const { data: organizationId, error } = await supabase.rpc('current_organization_id');
+            if (error) return { error };
+
+            return supabase.from('holiday_calendars').insert({
+                organization_id: organizationId,
+                created_by: user.id,
+                name,
+                scope,
+                region: region || null
+            });
+        });
+
+    const deleteCalendar = (calendarId: string) =>
+        mutate('deleting holiday calendar', () => supabase.from('holiday_calendars').delete().eq('id', calendarId));
+
+    /**
+     * Añade a un calendario los festivos de un fichero .ics. Las fechas que ya
+     * tenía el calendario se conservan.
+     */
+    const importHolidays = (calendarId: string, entries: ICalHoliday[]) =>
+        mutate('importing holidays', () => supabase
+            .from('holidays')
+            .upsert(
+                entries.map(e => ({ calendar_id: calendarId, holiday_date: e.date, name: e.name })),
+                { onConflict: 'calendar_id,holiday_date', ignoreDuplicates: true }
+            ));
+
+    const addHoliday = (calendarId: string, date: string, name: string) =>
+        mutate('adding holiday', () => supabase
+            .from('holidays')
+            .insert({ calendar_id: calendarId, holiday_date: date, name }));
+
+    const deleteHoliday = (holidayId: string) =>
+        mutate('deleting holiday', () => supabase.from('holidays').delete().eq('id', holidayId));
+
+    /**
+     * Asigna un calendario a un usuario (a uno mismo, o un admin a sus miembros).
+     */
+    const assignCalendar = (userId: string, calendarId: string) =>
+        mutate('assigning holiday calendar', () => supabase
+            .from('user_holiday_calendars')
+            .insert({ user_id: userId, calendar_id: calendarId }));
+
+    const unassignCalendar = (userId: string, calendarId: string) =>
+        mutate('unassigning holiday calendar', () => supabase
+            .from('user_holiday_calendars')
+            .delete()
+            .eq('user_id', userId)
+            .eq('calendar_id', calendarId));
+
+    return {
+        calendars,
+        holidays,
+        assignments,
+        loading,
+        error,
+        loadCalendars,
+        createCalendar,
+        deleteCalendar,
+        importHolidays,
+        addHoliday,
+        deleteHoliday,
+        assignCalendar,
+        unassignCalendar
+    };
+}
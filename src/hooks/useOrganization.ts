@@ -0,0 +1,266 @@
+// useState: estado local (organización, miembros, equipos, loading, error).
+// useCallback: memoriza la carga para usarla en efectos.
+// useEffect: carga la organización al montar el hook.
+import { useState, useCallback, useEffect } from 'react';
+
+// supabase: instancia del cliente de Supabase.
+import { supabase } from '../lib/supabase';
+
+// Database: tipos de la base de datos para tipado seguro.
+import type { Database } from '../types/database.types';
+
+type Tables = Database['public']['Tables'];
+
+/**
+ * Rol de un usuario dentro de su organización.
+ */
+export type OrganizationRole = Tables['organization_members']['Row']['role'];
+
+/**
+ * Organización del usuario actual.
+ */
+export type Organization = Tables['organizations']['Row'];
+
+/**
+ * Miembro de la organización con los datos de su perfil.
+ *
+ * @property {string} user_id - UUID del usuario.
+ * @property {OrganizationRole} role - Rol en la organización.
+ * @property {string | null} email - Email (null si el usuario actual no puede leer su perfil).
+ * @property {string | null} full_name - Nombre completo, si lo hay.
+ */
+export interface OrganizationMember {
+    user_id: string;
+    role: OrganizationRole;
+    email: string | null;
+    full_name: string | null;
+}
+
+/**
+ * Equipo de la organización con los UUID de sus miembros.
+ */
+export interface Team {
+    id: string;
+    name: string;
+    member_ids: string[];
+}
+
+/**
+ * Etiquetas de los roles para la UI.
+ */
+export const ROLE_LABELS: Record<OrganizationRole, string> = {
+    employee: 'Empleado',
+    manager: 'Manager',
+    admin: 'Admin',
+};
+
+/**
+ * Hook para gestionar la organización, sus miembros y equipos.
+ *
+ * Permisos (aplicados por RLS en la base de datos):
+ * - Cualquier miembro ve su organización, sus miembros y sus equipos.
+ * - Solo los admins añaden o quitan miembros, cambian roles y gestionan equipos.
+ * - Los managers pueden leer (no modificar) las sesiones de sus equipos.
+ *
+ * @returns {Object} Objeto con:
+ * - `organization` {Organization | null} - Organización del usuario (null si no tiene).
+ * - `role` {OrganizationRole | null} - Rol del usuario actual.
+ * - `members` {OrganizationMember[]} - Miembros de la organización.
+ * - `teams` {Team[]} - Equipos de la organización.
+ * - `loading` / `error` - Estado de la última operación.
+ * - `createOrganization`, `addMember`, `updateMemberRole`, `removeMember`,
+ *   `createTeam`, `deleteTeam`, `addTeamMember`, `removeTeamMember`,
+ *   `updateEditWindow`, `updateOvertimeThresholds` - Acciones (retornan boolean).
+ */
+export function useOrganization() {
+    const [organization, setOrganization] = useState<Organization | null>(null);
+    const [role, setRole] = useState<OrganizationRole | null>(null);
+    const [members, setMembers] = useState<OrganizationMember[]>([]);
+    const [teams, setTeams] = useState<Team[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    /**
+     * Carga la organización del usuario actual con sus miembros y equipos.
+     */
+    const loadOrganization = useCallback(async () => {
+        try {
+            setLoading(true);
+            setError(null);
+
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) return;
+
+            const { data: membership, error: membershipError } = await supabase
+                .from('organization_members')
+                .select('role, organizations(*)')
+                .eq('user_id', user.id)
+                .maybeSingle();
+
+            if (membershipError) throw membershipError;
+
+            if (!membership?.organizations) {
+                setOrganization(null);
+                setRole(null);
+                setMembers([]);
+                setTeams([]);
+                return;
+            }
+
+            const org = membership.organizations as Organization;
+            setOrganization(org);
+            setRole(membership.role);
+
+            const [membersResult, teamsResult] = await Promise.all([
+                supabase
+                    .from('organization_members')
+                    .select('user_id, role')
+                    .eq('organization_id', org.id),
+                supabase
+                    .from('teams')
+                    .select('id, name, team_members(user_id)')
+                    .eq('organization_id', org.id)
+                    .order('name')
+            ]);
+
+            if (membersResult.error) throw membersResult.error;
+            if (teamsResult.error) throw teamsResult.error;
+
+            // Perfiles visibles según RLS (el propio, los del equipo o toda la organización para admins).
+            const { data: profiles, error: profilesError } = await supabase
+                .from('profiles')
+                .select('id, email, full_name')
+                .in('id', membersResult.data.map(m => m.user_id));
+
+            if (profilesError) throw profilesError;
+
+            const profileById = new Map(profiles.map(p => [p.id, p]));
+            setMembers(membersResult.data
+                .map(m => ({
+                    user_id: m.user_id,
+                    role: m.role,
+                    email: profileById.get(m.user_id)?.email ?? null,
+                    full_name: profileById.get(m.user_id)?.full_name ?? null,
+                }))
+                .sort((a, b) => (a.full_name || a.email || '').localeCompare(b.full_name || b.email || '')));
+
+            setTeams(teamsResult.data.map(t => ({
+                id: t.id,
+                name: t.name,
+                member_ids: t.team_members.map(tm => tm.user_id),
+            })));
+        } catch (err) {
+            console.error('Error loading organization:', err);
+            setError((err as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        void loadOrganization();
+    }, [loadOrganization]);
+
+    /**
+     * Ejecuta una operación de escritura y recarga la organización si tiene éxito.
+     *
+     * @param {string} label - Descripción para el log de errores.
+     * @param {() => PromiseLike<{ error: unknown }>} operation - Llamada a Supabase.
+     * @returns {boolean} true si la operación fue exitosa.
+     */
+    const mutate = async (label: string, operation: () => PromiseLike<{ error: unknown }>) => {
+        try {
+            setError(null);
+            const { error } = await operation();
+            if (error) throw error;
+            await loadOrganization();
+            return true;
+        } catch (err) {
+            console.error(`Error ${label}:`, err);
+            setError((err as Error).message);
+            return false;
+        }
+    };
+
+    const createOrganization = (name: string) =>
+        mutate('creating organization', () => supabase.rpc('create_organization', { p_name: name }));
+
+    const addMember = (email: string, memberRole: OrganizationRole) =>
+        mutate('adding member', () => supabase.rpc('add_organization_member', { p_email: email, p_role: memberRole }));
+
+    const updateMemberRole = (userId: string, memberRole: OrganizationRole) =>
+        mutate('updating member role', () => supabase
+            .from('organization_members')
+            .update({ role: memberRole })
+            .eq('organization_id', organization?.id ?? '')
+            .eq('user_id', userId));
+
+    const removeMember = (userId: string) =>
+        mutate('removing member', () => supabase
+            .from('organization_members')
+            .delete()
+            .eq('organization_id', organization?.id ?? '')
+            .eq('user_id', userId));
+
+    /**
+     * Cambia los días durante los que los miembros editan sus sesiones sin
+     * solicitud de cambio (solo admins).
+     */
+    const updateEditWindow = (days: number) =>
+        mutate('updating edit window', () => supabase
+            .from('organizations')
+            .update({ edit_window_days: days })
+            .eq('id', organization?.id ?? ''));
+
+    /**
+     * Cambia los umbrales de horas extra de la organización (solo admins).
+     *
+     * @param {number} dailyMinutes - Minutos trabajados al día a partir de los que hay horas extra.
+     * @param {number} weeklyMinutes - Ídem por semana.
+     */
+    const updateOvertimeThresholds = (dailyMinutes: number, weeklyMinutes: number) =>
+        mutate('updating overtime thresholds', () => supabase
+            .from('organizations')
+            .update({ overtime_daily_minutes: dailyMinutes, overtime_weekly_minutes: weeklyMinutes })
+            .eq('id', organization?.id ?? ''));
+
+    const createTeam = (name: string) =>
+        mutate('creating team', () => supabase
+            .from('teams')
+            .insert({ organization_id: organization?.id ?? '', name }));
+
+    const deleteTeam = (teamId: string) =>
+        mutate('deleting team', () => supabase.from('teams').delete().eq('id', teamId));
+
+    const addTeamMember = (teamId: string, userId: string) =>
+        mutate('adding team member', () => supabase
+            .from('team_members')
+            .insert({ team_id: teamId, user_id: userId }));
+
+    const removeTeamMember = (teamId: string, userId: string) =>
+        mutate('removing team member', () => supabase
+            .from('team_members')
+            .delete()
+            .eq('team_id', teamId)
+            .eq('user_id', userId));
+
+    return {
+        organization,
+        role,
+        members,
+        teams,
+        loading,
+        error,
+        loadOrganization,
+        createOrganization,
+        addMember,
+        updateMemberRole,
+        removeMember,
+        createTeam,
+        deleteTeam,
+        addTeamMember,
+        removeTeamMember,
+        updateEditWindow,
+        updateOvertimeThresholds
+    };
+}
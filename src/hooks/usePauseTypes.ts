@@ -0,0 +1,132 @@
+// useState: estado local (tipos de pausa, loading, error).
+// useCallback / useEffect: carga inicial memorizada.
+import { useState, useCallback, useEffect } from 'react';
+
+// supabase: instancia del cliente de Supabase.
+import { supabase } from '../lib/supabase';
+
+// Database: tipos de la base de datos para tipado seguro.
+import type { Database } from '../types/database.types';
+
+// DEFAULT_PAUSE_TYPES: tipos habituales del convenio para empezar.
+import { DEFAULT_PAUSE_TYPES } from '../utils/pauses';
+
+/**
+ * Fila de la tabla `pause_types`.
+ */
+export type PauseType = Database['public']['Tables']['pause_types']['Row'];
+
+/**
+ * Hook para gestionar los tipos de pausa (café, comida, cita médica...).
+ *
+ * Los tipos de una organización los crean y editan sus admins; un usuario
+ * sin organización gestiona los suyos. Todos los miembros los ven para
+ * elegirlos al pausar. Los archivados se siguen cargando para poder mostrar
+ * el tipo de las pausas que ya lo tenían.
+ *
+ * Cambiar si un tipo es retribuido solo afecta a las pausas nuevas: cada
+ * pausa guarda si era retribuida al crearla.
+ *
+ * @returns {Object} Objeto con:
+ * - `pauseTypes` {PauseType[]} - Tipos visibles (por nombre), incluidos los archivados.
+ * - `loading` / `error` - Estado de la última operación.
+ * - `loadPauseTypes` {Function} - Recarga los tipos.
+ * - `createPauseType`, `createDefaultPauseTypes`, `setPauseTypePaid`,
+ *   `setPauseTypeArchived`, `deletePauseType` - Acciones (retornan boolean).
+ */
+export function usePauseTypes() {
+    const [pauseTypes, setPauseTypes] = useState<PauseType[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadPauseTypes = useCallback(async () => {
+        try {
+            setLoading(true);
+            setError(null);
+
+            const { data, error } = await supabase.from('pause_types').select('*').order('name');
+            if (error) throw error;
+
+            setPauseTypes(data);
+        } catch (err) {
+            console.error('Error loading pause types:', err);
+            setError((err as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        void loadPauseTypes();
+    }, [loadPauseTypes]);
+
+    /**
+     * Ejecuta una operación de escritura y recarga los datos si tiene éxito.
+     */
+    const mutate = async (label: string, operation: () => PromiseLike<{ error: unknown }>) => {
+        try {
+            setError(null);
+            const { error } = await operation();
+            if (error) throw error;
+            await loadPauseTypes();
+            return true;
+        } catch (err) {
+            console.error(`Error ${label}:`, err);
+            setError((err as Error).message);
+            return false;
+        }
+    };
+
+    /**
+     * Crea tipos de pausa: de la organización del usuario (solo admins) o
+     * personales si no pertenece a ninguna.
+     */
+    const insertPauseTypes = (label: string, types: { name: string; paid: boolean }[]) =>
+        mutate(label, async () => {
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) return { error: new Error('No authenticated user') };
+
+            const { data: organizationId, error } = await supabase.rpc('current_organization_id');
+            if (error) return { error };
+
+            return supabase.from('pause_types').insert(types.map(type => ({
+                organization_id: organizationId,
+                created_by: user.id,
+                name: type.name,
+                paid: type.paid
+            })));
+        });
+
+    const createPauseType = (name: string, paid: boolean) =>
+        insertPauseTypes('creating pause type', [{ name, paid }]);
+
+    /**
+     * Crea los tipos habituales (`DEFAULT_PAUSE_TYPES`) para no partir de cero.
+     */
+    const createDefaultPauseTypes = () =>
+        insertPauseTypes('creating default pause types', DEFAULT_PAUSE_TYPES);
+
+    const setPauseTypePaid = (pauseTypeId: string, paid: boolean) =>
+        mutate('updating pause type', () => supabase.from('pause_types').update({ paid }).eq('id', pauseTypeId));
+
+    const setPauseTypeArchived = (pauseTypeId: string, archived: boolean) =>
+        mutate('archiving pause type', () => supabase.from('pause_types').update({ archived }).eq('id', pauseTypeId));
+
+    /**
+     * Elimina un tipo. Sus pausas quedan sin tipo pero conservan si eran retribuidas.
+     */
+    const deletePauseType = (pauseTypeId: string) =>
+        mutate('deleting pause type', () => supabase.from('pause_types').delete().eq('id', pauseTypeId));
+
+    return {
+        pauseTypes,
+        loading,
+        error,
+        loadPauseTypes,
+        createPauseType,
+        createDefaultPauseTypes,
+        setPauseTypePaid,
+        setPauseTypeArchived,
+        deletePauseType
+    };
+}
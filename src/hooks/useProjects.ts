@@ -0,0 +1,139 @@
+// useState: estado local (proyectos, tareas, loading, error).
+// useCallback / useEffect: carga inicial memorizada.
+import { useState, useCallback, useEffect } from 'react';
+
+// supabase: instancia del cliente de Supabase.
+import { supabase } from '../lib/supabase';
+
+// Database: tipos de la base de datos para tipado seguro.
+import type { Database } from '../types/database.types';
+
+/**
+ * Fila de la tabla `projects`.
+ */
+export type Project = Database['public']['Tables']['projects']['Row'];
+
+/**
+ * Fila de la tabla `project_tasks`.
+ */
+export type ProjectTask = Database['public']['Tables']['project_tasks']['Row'];
+
+/**
+ * Hook para gestionar los proyectos y sus tareas.
+ *
+ * Los proyectos de una organización los crean y editan sus admins; un
+ * usuario sin organización gestiona los suyos. Todos los miembros los ven
+ * para imputarles tiempo al fichar. Los archivados se siguen cargando para
+ * poder mostrar el tiempo que ya tenían imputado.
+ *
+ * @returns {Object} Objeto con:
+ * - `projects` {Project[]} - Proyectos visibles (por nombre), incluidos los archivados.
+ * - `tasks` {ProjectTask[]} - Tareas de esos proyectos (por nombre).
+ * - `loading` / `error` - Estado de la última operación.
+ * - `loadProjects` {Function} - Recarga todo.
+ * - `createProject`, `setProjectArchived`, `deleteProject`, `createTask`,
+ *   `setTaskArchived`, `deleteTask` - Acciones (retornan boolean).
+ */
+export function useProjects() {
+    const [projects, setProjects] = useState<Project[]>([]);
+    const [tasks, setTasks] = useState<ProjectTask[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadProjects = useCallback(async () => {
+        try {
+            setLoading(true);
+            setError(null);
+
+            const [projectRows, taskRows] = await Promise.all([
+                supabase.from('projects').select('*').order('name'),
+                supabase.from('project_tasks').select('*').order('name')
+            ]);
+
+            if (projectRows.error) throw projectRows.error;
+            if (taskRows.error) throw taskRows.error;
+
+            setProjects(projectRows.data);
+            setTasks(taskRows.data);
+        } catch (err) {
+            console.error('Error loading projects:', err);
+            setError((err as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        void loadProjects();
+    }, [loadProjects]);
+
+    /**
+     * Ejecuta una operación de escritura y recarga los datos si tiene éxito.
+     */
+    const mutate = async (label: string, operation: () => PromiseLike<{ error: unknown }>) => {
+        try {
+            setError(null);
+            const { error } = await operation();
+            if (error) throw error;
+            await loadProjects();
+            return true;
+        } catch (err) {
+            console.error(`Error ${label}:`, err);
+            setError((err as Error).message);
+            return false;
+        }
+    };
+
+    /**
+     * Crea un proyecto: de la organización del usuario (solo admins) o
+     * personal si no pertenece a ninguna.
+     */
+    const createProject = (name: string, client: string) =>
+        mutate('creating project', async () => {
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) return { error: new Error('No authenticated user') };
+
+            const { data: organizationId, error } = await supabase.rpc('current_organization_id');
+            if (error) return { error };
+
+            return supabase.from('projects').insert({
+                organization_id: organizationId,
+                created_by: user.id,
+                name,
+                client: client || null
+            });
+        });
+
+    const setProjectArchived = (projectId: string, archived: boolean) =>
+        mutate('archiving project', () => supabase.from('projects').update({ archived }).eq('id', projectId));
+
+    /**
+     * Elimina un proyecto y sus tareas. El tiempo que tenía imputado pasa a
+     * "Sin proyecto".
+     */
+    const deleteProject = (projectId: string) =>
+        mutate('deleting project', () => supabase.from('projects').delete().eq('id', projectId));
+
+    const createTask = (projectId: string, name: string) =>
+        mutate('creating task', () => supabase.from('project_tasks').insert({ project_id: projectId, name }));
+
+    const setTaskArchived = (taskId: string, archived: boolean) =>
+        mutate('archiving task', () => supabase.from('project_tasks').update({ archived }).eq('id', taskId));
+
+    const deleteTask = (taskId: string) =>
+        mutate('deleting task', () => supabase.from('project_tasks').delete().eq('id', taskId));
+
+    return {
+        projects,
+        tasks,
+        loading,
+        error,
+        loadProjects,
+        createProject,
+        setProjectArchived,
+        deleteProject,
+        createTask,
+        setTaskArchived,
+        deleteTask
+    };
+}
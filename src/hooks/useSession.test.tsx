@@ -1,6 +1,7 @@
 // renderHook: utilidad de testing-library para testear hooks de React de forma aislada.
 // waitFor: utilidad que espera hasta que una condición se cumpla (útil para operaciones asíncronas).
-import { renderHook, waitFor } from '@testing-library/react';
+// act: envuelve acciones que actualizan el estado del hook.
+import { renderHook, waitFor, act } from '@testing-library/react';
 
 // describe, it, expect: funciones de Vitest para definir suites, tests y aserciones.
 // vi: módulo de Vitest para crear mocks (funciones simuladas).
@@ -22,15 +23,24 @@ import { useSession } from './useSession';
  * - `auth.getUser()`: Obtiene el usuario autenticado.
  * - `from()`: Accede a una tabla de la base de datos.
  * - `rpc()`: Llama a funciones remotas (como check_abandoned_sessions).
+ * - `channel()` / `removeChannel()`: Suscripción a cambios en tiempo real.
+ *   `mockChannel.on` guarda los callbacks para poder simular eventos remotos.
  */
-const { mockSupabase } = vi.hoisted(() => {
+const { mockSupabase, mockChannel } = vi.hoisted(() => {
+    const mockChannel = {
+        on: vi.fn(),
+        subscribe: vi.fn(),
+    };
     return {
+        mockChannel,
         mockSupabase: {
             auth: {
                 getUser: vi.fn(),
             },
             from: vi.fn(),
             rpc: vi.fn(),
+            channel: vi.fn(() => mockChannel),
+            removeChannel: vi.fn(),
         }
     };
 });
@@ -51,6 +61,8 @@ describe('useSession Hook', () => {
     // Limpia todos los mocks antes de cada test para evitar contaminación entre tests.
     beforeEach(() => {
         vi.clearAllMocks();
+        mockChannel.on.mockReturnValue(mockChannel);
+        mockChannel.subscribe.mockReturnValue(mockChannel);
     });
 
     /**
@@ -95,4 +107,94 @@ describe('useSession Hook', () => {
         expect(result.current.activeSession).toBeNull();
         expect(result.current.isPaused).toBe(false);
     });
+
+    /**
+     * Test: Una sesión recuperada no vuelve a abrir el aviso de sesión abierta
+     * mientras no supere el límite contado desde la recuperación.
+     *
+     * Setup:
+     * 1. La sesión empezó hace 13 h (límite de 12 h) y se recuperó hace 1 h.
+     * 2. Al recargar, se carga como sesión activa sin `abandonedSession`.
+     */
+    it('should not reopen the abandoned modal for a recovered session', async () => {
+        mockSupabase.auth.getUser.mockResolvedValue({ data: { user: { id: 'user-123' } } });
+
+        const recoveredSession = {
+            id: 'session-1',
+            user_id: 'user-123',
+            start_time: new Date(Date.now() - 13 * 3600 * 1000).toISOString(),
+            status: 'active',
+            forgotten_at: null,
+            recovered_at: new Date(Date.now() - 3600 * 1000).toISOString(),
+            work_pauses: [],
+            work_segments: [],
+        };
+
+        mockSupabase.from.mockReturnValue({
+            select: vi.fn().mockReturnThis(),
+            eq: vi.fn().mockReturnThis(),
+            in: vi.fn().mockReturnThis(),
+            order: vi.fn().mockReturnThis(),
+            maybeSingle: vi.fn().mockResolvedValue({ data: recoveredSession, error: null }),
+        });
+        mockSupabase.rpc.mockResolvedValue({ data: [{ mode: 'close', after_minutes: 720, at_schedule_end: true }], error: null });
+
+        const { result } = renderHook(() => useSession());
+
+        await waitFor(() => expect(result.current.activeSession?.id).toBe('session-1'));
+        expect(result.current.abandonedSession).toBeNull();
+    });
+
+    /**
+     * Test: Un cambio realtime (ej: sesión iniciada desde otro dispositivo)
+     * recarga la sesión activa y actualiza el estado del hook.
+     *
+     * Setup:
+     * 1. La primera consulta no encuentra sesión activa.
+     * 2. Se dispara el callback registrado en el canal de `work_sessions`.
+     * 3. La recarga devuelve una sesión pausada creada en otro dispositivo.
+     * 4. El canal se rehace escuchando solo las pausas y tramos de esa sesión.
+     */
+    it('should reload the active session when a realtime change arrives', async () => {
+        mockSupabase.auth.getUser.mockResolvedValue({ data: { user: { id: 'user-123' } } });
+
+        const remoteSession = {
+            id: 'session-1',
+            user_id: 'user-123',
+            start_time: new Date(Date.now() - 3600 * 1000).toISOString(),
+            status: 'paused',
+            work_pauses: [{ id: 'pause-1', pause_start: new Date().toISOString(), pause_end: null }],
+        };
+        const mockMaybeSingle = vi.fn()
+            .mockResolvedValueOnce({ data: null, error: null })
+            .mockResolvedValueOnce({ data: null, error: null })
+            .mockResolvedValue({ data: remoteSession, error: null });
+
+        mockSupabase.from.mockReturnValue({
+            select: vi.fn().mockReturnThis(),
+            eq: vi.fn().mockReturnThis(),
+            in: vi.fn().mockReturnThis(),
+            order: vi.fn().mockReturnThis(),
+            maybeSingle: mockMaybeSingle,
+        });
+
+        const { result } = renderHook(() => useSession());
+        await waitFor(() => expect(result.current.loading).toBe(false));
+        await waitFor(() => expect(mockChannel.subscribe).toHaveBeenCalled());
+
+        // Simula el evento remoto sobre work_sessions.
+        const sessionsCallback = mockChannel.on.mock.calls.find(([, filter]) => filter.table === 'work_sessions')?.[2];
+        act(() => sessionsCallback());
+
+        await waitFor(() => expect(result.current.activeSession?.id).toBe('session-1'));
+        expect(result.current.isPaused).toBe(true);
+        expect(result.current.pauseCount).toBe(1);
+
+        // Con la sesión cargada, las pausas y los tramos se escuchan solo de esa sesión.
+        await waitFor(() => expect(mockChannel.on.mock.calls.some(([, filter]) => filter.table === 'work_pauses')).toBe(true));
+        const childFilters = mockChannel.on.mock.calls
+            .map(([, filter]) => filter)
+            .filter(filter => filter.table === 'work_pauses' || filter.table === 'work_segments');
+        expect(childFilters.map(filter => filter.filter)).toEqual(['session_id=eq.session-1', 'session_id=eq.session-1']);
+    });
 });
@@ -5,17 +5,58 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 // supabase: instancia del cliente de Supabase.
 import { supabase } from '../lib/supabase';
 
-// Database: tipos generados de la base de datos.
-import type { Database } from '../types/database.types';
+// RealtimeChannel: canal de suscripción a cambios en tiempo real de Supabase.
+import type { RealtimeChannel } from '@supabase/supabase-js';
+
+// Cola offline de fichajes: guarda las acciones sin red y las reproduce al reconectar.
+import {
+    createLocalId,
+    enqueueAction,
+    isLocalId,
+    isNetworkError,
+    loadQueue,
+    loadSnapshot,
+    replayQueue,
+    resolveSessionId,
+    type QueuedAction,
+    type SyncConflict,
+} from '../lib/offlineQueue';
+
+// applySessionAction: escribe un fichaje en Supabase (en vivo o al reproducir la cola).
+import { applySessionAction, type WorkSessionWithPauses } from '../lib/sessionActions';
 import { formatTime } from '../utils/time';
+import { calculateDuration } from '../utils/duration';
+
+// ProjectSelection: proyecto y tarea a los que se imputa el tramo en curso.
+import { NO_PROJECT, type ProjectSelection } from '../utils/projects';
+
+// PauseType: tipo de pausa elegido al pausar (retribuida o no).
+import type { PauseType } from './usePauseTypes';
+
+// Límite de cierre automático, duración máxima y fichajes de una sesión olvidada.
+import { DEFAULT_AUTO_CLOSE_MINUTES, MAX_SESSION_HOURS, getAutoCloseDueAt, type OpenSessionActions } from '../utils/sessionRules';
 
 /**
  * Tipo extendido de sesión de trabajo.
- * Incluye la relación con las pausas (work_pauses) completas, no solo el conteo.
+ * Incluye la relación con las pausas (work_pauses) completas, no solo el conteo,
+ * y los tramos por proyecto (work_segments).
  */
-type WorkSession = Database['public']['Tables']['work_sessions']['Row'] & {
-    work_pauses: Database['public']['Tables']['work_pauses']['Row'][];
-};
+type WorkSession = WorkSessionWithPauses;
+
+/**
+ * Sesión abandonada que se ofrece recuperar, descartar o cerrar a mano.
+ *
+ * @property {string} id - Id de la sesión.
+ * @property {string} timeMessage - Tiempo desde el inicio, legible ("13 horas").
+ * @property {boolean} flagged - Si el cierre automático ya la marcó como olvidada.
+ * @property {OpenSessionActions} actions - Inicio, pausas y tramos, para validar la salida.
+ */
+export interface AbandonedSession {
+    id: string;
+    timeMessage: string;
+    flagged: boolean;
+    actions: OpenSessionActions;
+}
 
 /**
  * Hook principal para gestionar la sesión de trabajo activa del usuario.
@@ -25,24 +66,45 @@ type WorkSession = Database['public']['Tables']['work_sessions']['Row'] & {
  *
  * Funcionalidades:
  * - Carga la sesión activa/pausada al montar.
- * - Detecta sesiones abandonadas (abiertas por muchas horas sin actividad).
- * - Cronómetro en tiempo real que descuenta el tiempo de pausas.
+ * - Detecta sesiones abandonadas: abiertas más allá del límite de cierre
+ *   automático o marcadas como olvidadas por el servidor.
+ * - Cronómetro en tiempo real que descuenta el tiempo de pausas no retribuidas
+ *   (durante una pausa retribuida sigue contando).
  * - Cálculo preciso de tiempo neto de trabajo.
+ * - Funcionamiento sin conexión: los fichajes se encolan con su hora real y se
+ *   sincronizan en orden al recuperar la red (ver `lib/offlineQueue`).
+ * - Imputación por proyecto y actividad: la sesión se divide en tramos
+ *   (`work_segments`); cambiar de proyecto o de actividad cierra el tramo en
+ *   curso y abre otro sin parar el cronómetro.
+ * - Sincronización entre dispositivos: se suscribe a los cambios en tiempo real
+ *   de sus `work_sessions` y de las `work_pauses` y `work_segments` de la sesión
+ *   en curso, de modo que iniciar, pausar, reanudar, cambiar de proyecto o de
+ *   actividad o finalizar en otro dispositivo se refleja aquí al instante.
  *
  * @returns {Object} Objeto con:
  * - `activeSession` {WorkSession | null} - Sesión activa actual.
- * - `abandonedSession` {Object | null} - Sesión abandonada detectada, con id y timeMessage.
+ * - `abandonedSession` {AbandonedSession | null} - Sesión abandonada detectada.
  * - `elapsedTime` {string} - Tiempo transcurrido formateado como "HH:MM:SS".
  * - `elapsedSeconds` {number} - Tiempo transcurrido en segundos (sin formatear).
  * - `pauseCount` {number} - Número de pausas en la sesión activa.
+ * - `currentProject` {ProjectSelection | null} - Proyecto y tarea del tramo en curso.
+ * - `currentActivity` {string | null} - Actividad del tramo en curso.
+ * - `activityElapsedTime` {string} - Tiempo neto en la actividad actual, "HH:MM:SS".
  * - `isPaused` {boolean} - Si la sesión está pausada actualmente.
  * - `loading` {boolean} - Si se está cargando o procesando una operación.
  * - `startSession` {Function} - Inicia una nueva sesión de trabajo.
- * - `pauseSession` {Function} - Pausa la sesión activa.
+ * - `pauseSession` {Function} - Pausa la sesión activa, con un tipo de pausa opcional.
  * - `resumeSession` {Function} - Reanuda una sesión pausada.
+ * - `switchProject` {Function} - Imputa el tiempo desde ahora a otro proyecto.
+ * - `switchActivity` {Function} - Cambia de actividad desde ahora.
  * - `endSession` {Function} - Finaliza la sesión y calcula la duración total.
  * - `recoverSession` {Function} - Recupera una sesión abandonada.
  * - `discardSession` {Function} - Descarta una sesión abandonada.
+ * - `closeAbandonedSession` {Function} - Finaliza una sesión abandonada a la hora de salida indicada.
+ * - `isOnline` {boolean} - Si el navegador tiene conexión.
+ * - `pendingActions` {number} - Fichajes guardados localmente pendientes de sincronizar.
+ * - `syncConflict` {SyncConflict | null} - Último fichaje rechazado por el servidor al sincronizar.
+ * - `dismissSyncConflict` {Function} - Descarta el aviso de conflicto.
  */
 export function useSession() {
     // Sesión de trabajo activa actual (null si no hay ninguna).
@@ -62,11 +124,24 @@ export function useSession() {
     const timerRef = useRef<number | null>(null);
     const hasInitialized = useRef(false);
 
-    // Sesión abandonada detectada: contiene su id y un mensaje de tiempo legible.
-    const [abandonedSession, setAbandonedSession] = useState<{ id: string; timeMessage: string } | null>(null);
+    // Sesión abandonada detectada: su id, un mensaje de tiempo legible y sus fichajes.
+    const [abandonedSession, setAbandonedSession] = useState<AbandonedSession | null>(null);
+
+    // Estado de la conexión y de la cola de fichajes offline.
+    const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+    const [pendingActions, setPendingActions] = useState(() => loadQueue().length);
+    const [syncConflict, setSyncConflict] = useState<SyncConflict | null>(null);
+
+    // Evita reproducir la cola dos veces en paralelo.
+    const isFlushing = useRef(false);
+
+    // Temporizador para agrupar ráfagas de eventos realtime (una pausa genera
+    // dos cambios: el insert en work_pauses y el update del estado de la sesión).
+    const realtimeReloadRef = useRef<number | null>(null);
 
     /**
-     * Calcula el tiempo neto transcurrido de una sesión, descontando todas las pausas.
+     * Calcula el tiempo neto transcurrido de una sesión, descontando las pausas
+     * no retribuidas (las retribuidas cuentan como tiempo trabajado).
      *
      * Lógica:
      * 1. Calcula el tiempo total desde el inicio de la sesión hasta ahora.
@@ -85,8 +160,9 @@ export function useSession() {
         let isCurrentlyPaused = false; // Si hay una pausa abierta ahora.
         let currentPauseStart = 0;     // Timestamp de inicio de la pausa actual.
 
-        // Recorre todas las pausas de la sesión.
+        // Recorre las pausas no retribuidas de la sesión.
         session.work_pauses.forEach(pause => {
+            if (pause.paid) return;
             if (pause.pause_end) {
                 // Pausa completada: suma su duración al total.
                 totalPauseMs += new Date(pause.pause_end).getTime() - new Date(pause.pause_start).getTime();
@@ -118,10 +194,26 @@ export function useSession() {
      *
      * Usa `maybeSingle()` porque se espera 0 o 1 resultado (no debería haber
      * más de una sesión activa a la vez).
+     *
+     * Si hay fichajes offline pendientes, el servidor aún no los conoce: se
+     * restaura la sesión local guardada junto a la cola en su lugar.
+     *
+     * @param {boolean} silent - Si es true no activa `loading` (recargas en segundo
+     *   plano disparadas por cambios realtime, para no bloquear los botones).
      */
-    const loadActiveSession = useCallback(async () => {
+    const loadActiveSession = useCallback(async (silent: boolean = false) => {
         try {
-            setLoading(true);
+            if (!silent) setLoading(true);
+
+            if (loadQueue().length > 0) {
+                const snapshot = loadSnapshot<WorkSession>();
+                setActiveSession(snapshot);
+                setIsPaused(snapshot?.status === 'paused');
+                if (snapshot) calculateElapsedTime(snapshot);
+                else setElapsedTime(0);
+                return;
+            }
+
             const { data: { user } } = await supabase.auth.getUser();
             if (!user) return;
 
@@ -129,7 +221,7 @@ export function useSession() {
             // incluyendo todas sus pausas asociadas.
             const { data, error } = await supabase
                 .from('work_sessions')
-                .select('*, work_pauses(*)')
+                .select('*, work_pauses(*), work_segments(*)')
                 .eq('user_id', user.id)
                 .in('status', ['active', 'paused'])
                 .order('created_at', { ascending: false })
@@ -142,7 +234,6 @@ export function useSession() {
             }
 
             if (data) {
-                // @ts-ignore - Inferencia de tipos con joins de Supabase.
                 const sessionWithPauses = data as WorkSession;
                 setActiveSession(sessionWithPauses);
                 setIsPaused(data.status === 'paused');
@@ -154,27 +245,36 @@ export function useSession() {
                 setIsPaused(false);
             }
         } finally {
-            setLoading(false);
+            if (!silent) setLoading(false);
         }
     }, [calculateElapsedTime]);
 
     /**
-     * Verifica si hay sesiones "abandonadas" (abiertas por demasiado tiempo).
+     * Verifica si hay sesiones "abandonadas": abiertas más allá del límite de
+     * cierre automático del usuario (`auto_close_settings`) o ya marcadas como
+     * olvidadas por el job del servidor. Una sesión dentro del límite se carga
+     * como activa sin preguntar.
      *
      * Si encuentra una sesión abandonada, en lugar de usar `window.confirm`,
      * guarda el estado en `abandonedSession` para que la UI lo maneje.
      * El mensaje de tiempo se expresa en horas (si ≥ 1h) o en minutos.
      *
      * Después de detectar la sesión, espera la acción del usuario
-     * a través de `recoverSession` o `discardSession`.
+     * a través de `recoverSession`, `discardSession` o `closeAbandonedSession`.
      */
     const checkAbandonedSessions = useCallback(async () => {
+        // Con fichajes offline pendientes, la sesión local manda sobre la del servidor.
+        if (loadQueue().length > 0) {
+            await loadActiveSession();
+            return;
+        }
+
         const { data: { user } } = await supabase.auth.getUser();
         if (!user) return;
 
         const { data, error } = await supabase
             .from('work_sessions')
-            .select('id, start_time')
+            .select('id, start_time, forgotten_at, recovered_at, work_pauses(pause_start, pause_end), work_segments(segment_start)')
             .eq('user_id', user.id)
             .in('status', ['active', 'paused'])
             .order('created_at', { ascending: false })
@@ -185,8 +285,17 @@ export function useSession() {
             return;
         }
 
-        if (data) {
-            const msSinceStart = Date.now() - new Date(data.start_time).getTime();
+        let limitMinutes = DEFAULT_AUTO_CLOSE_MINUTES;
+        if (data && !data.forgotten_at) {
+            const { data: settings, error: settingsError } = await supabase.rpc('auto_close_settings', { p_user_id: user.id });
+            if (settingsError) console.error('Error fetching auto-close settings:', settingsError);
+            limitMinutes = settings?.[0]?.after_minutes ?? DEFAULT_AUTO_CLOSE_MINUTES;
+        }
+
+        const msSinceStart = data ? Date.now() - new Date(data.start_time).getTime() : 0;
+        const overdue = !!data && Date.now() >= getAutoCloseDueAt(data.start_time, data.recovered_at, limitMinutes);
+
+        if (data && (data.forgotten_at || overdue)) {
             const hoursSinceStart = msSinceStart / (1000 * 3600);
 
             // Formatea el mensaje de tiempo: horas si ≥ 1h, minutos si no.
@@ -201,7 +310,9 @@ export function useSession() {
             // En lugar de window.confirm, expone el estado para que la UI decida.
             setAbandonedSession({
                 id: data.id,
-                timeMessage
+                timeMessage,
+                flagged: !!data.forgotten_at,
+                actions: data
             });
         } else {
             // Si no hay sesión abandonada, continúa con el flujo normal.
@@ -209,38 +320,195 @@ export function useSession() {
         }
     }, [loadActiveSession]);
 
+    // Id real de la sesión en curso (una sesión creada sin conexión aún no lo tiene),
+    // para escuchar solo las pausas y los tramos de esa sesión.
+    const activeSessionId = activeSession && !isLocalId(activeSession.id) ? activeSession.id : null;
+
+    /**
+     * Efecto de sincronización en tiempo real entre dispositivos.
+     *
+     * Escucha los cambios de `work_sessions` del usuario y de `work_pauses` y
+     * `work_segments` de la sesión en curso, y recarga la sesión activa en
+     * segundo plano. Las pausas y tramos se filtran por `session_id`: RLS deja
+     * ver las sesiones del equipo a los managers y, sin filtro, cada fichaje
+     * de su equipo les recargaría la sesión. Se vuelve a suscribir al cambiar
+     * la sesión en curso; una sesión nueva llega por `work_sessions`.
+     * Mientras haya fichajes offline pendientes se ignoran: la sesión local
+     * manda hasta que se sincronicen.
+     */
+    useEffect(() => {
+        let channel: RealtimeChannel | null = null;
+        let cancelled = false;
+
+        const handleRemoteChange = () => {
+            if (isFlushing.current || loadQueue().length > 0) return;
+
+            if (realtimeReloadRef.current) clearTimeout(realtimeReloadRef.current);
+            realtimeReloadRef.current = window.setTimeout(() => {
+                realtimeReloadRef.current = null;
+                void loadActiveSession(true);
+            }, 300);
+        };
+
+        const subscribe = async () => {
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user || cancelled) return;
+
+            channel = supabase
+                .channel(`active-session:${user.id}:${activeSessionId ?? 'none'}`)
+                .on('postgres_changes', { event: '*', schema: 'public', table: 'work_sessions', filter: `user_id=eq.${user.id}` }, handleRemoteChange);
+
+            if (activeSessionId) {
+                channel = channel
+                    .on('postgres_changes', { event: '*', schema: 'public', table: 'work_pauses', filter: `session_id=eq.${activeSessionId}` }, handleRemoteChange)
+                    .on('postgres_changes', { event: '*', schema: 'public', table: 'work_segments', filter: `session_id=eq.${activeSessionId}` }, handleRemoteChange);
+            }
+
+            channel.subscribe();
+        };
+
+        void subscribe();
+
+        // Cleanup: cancela la recarga pendiente y elimina el canal al desmontar
+        // o al cambiar de sesión en curso.
+        return () => {
+            cancelled = true;
+            if (realtimeReloadRef.current) {
+                clearTimeout(realtimeReloadRef.current);
+                realtimeReloadRef.current = null;
+            }
+            if (channel) void supabase.removeChannel(channel);
+        };
+    }, [loadActiveSession, activeSessionId]);
+
+    /**
+     * Reproduce en orden los fichajes guardados sin conexión.
+     *
+     * Si el servidor rechaza alguno (ej: ya existe otra sesión activa creada
+     * desde otro dispositivo), se expone en `syncConflict` para que la UI avise
+     * al usuario. Al terminar, recarga la sesión desde la base de datos.
+     */
+    const flushPendingActions = useCallback(async () => {
+        if (!navigator.onLine || isFlushing.current || loadQueue().length === 0) return;
+        isFlushing.current = true;
+
+        try {
+            const result = await replayQueue(async action => {
+                const session = await applySessionAction(action);
+                return session?.id ?? null;
+            });
+
+            setPendingActions(result.pending);
+            if (result.conflicts.length > 0) {
+                console.error('Offline actions rejected:', result.conflicts);
+                setSyncConflict(result.conflicts[result.conflicts.length - 1]);
+            }
+            if (result.processed > 0 || result.conflicts.length > 0) {
+                await loadActiveSession();
+            }
+        } finally {
+            isFlushing.current = false;
+        }
+    }, [loadActiveSession]);
+
+    /**
+     * Envía un fichaje al servidor o, si no hay red, lo encola.
+     *
+     * Mientras queden acciones pendientes, las nuevas también se encolan para
+     * respetar el orden original de los fichajes.
+     *
+     * @param {Omit<QueuedAction, 'id'>} action - Fichaje con el timestamp del cliente.
+     * @param {WorkSession | null} snapshot - Estado local de la sesión tras la acción.
+     * @returns {Promise<Object>} `queued` indica si quedó pendiente; `session` es la
+     *   sesión creada por el servidor en acciones `start` aplicadas en vivo.
+     * @throws {Error} Si el servidor rechaza la acción.
+     */
+    const dispatchAction = async (action: Omit<QueuedAction, 'id'>, snapshot: WorkSession | null) => {
+        // El id se fija aquí para que, si falla por red, la acción encolada
+        // reutilice las mismas claves que el intento en vivo.
+        const id = crypto.randomUUID();
+
+        if (navigator.onLine && loadQueue().length === 0) {
+            try {
+                const session = await applySessionAction({
+                    ...action,
+                    id,
+                    sessionId: resolveSessionId(action.sessionId),
+                });
+                return { queued: false, session };
+            } catch (error) {
+                if (!isNetworkError(error)) throw error;
+            }
+        }
+
+        const queue = enqueueAction({ ...action, id }, snapshot);
+        setPendingActions(queue.length);
+        void flushPendingActions();
+        return { queued: true, session: null };
+    };
+
     /**
      * Recupera una sesión abandonada marcándola de nuevo como 'active'.
+     * Quita la marca de olvidada y guarda `recovered_at`: el límite del cierre
+     * automático se vuelve a contar desde ahora (sin pasar de las 16 h), así
+     * que ni el aviso ni el job la tratan hasta que vuelva a superarlo.
      * Luego recarga la sesión activa normalmente.
+     *
+     * @throws {Error} Si el servidor rechaza la recuperación.
      */
     const recoverSession = async () => {
         if (!abandonedSession) return;
 
-        await supabase
+        const { error } = await supabase
             .from('work_sessions')
-            .update({ status: 'active' })
+            .update({ status: 'active', forgotten_at: null, recovered_at: new Date().toISOString() })
             .eq('id', abandonedSession.id);
 
+        if (error) throw error;
+
         setAbandonedSession(null);
         await loadActiveSession();
     };
 
     /**
      * Descarta una sesión abandonada marcándola como 'abandoned'
-     * con la hora actual como tiempo de fin.
+     * con la hora actual como tiempo de fin, sin pasar de las 16 h desde su
+     * inicio (el máximo que admite `check_max_session_duration`).
      * Luego recarga la sesión activa normalmente.
+     *
+     * @throws {Error} Si el servidor rechaza el descarte (ej: periodo aprobado).
      */
     const discardSession = async () => {
         if (!abandonedSession) return;
 
-        await supabase
+        const maxEnd = new Date(abandonedSession.actions.start_time).getTime() + MAX_SESSION_HOURS * 60 * 60 * 1000;
+        const { error } = await supabase
             .from('work_sessions')
             .update({
                 status: 'abandoned',
-                end_time: new Date().toISOString()
+                end_time: new Date(Math.min(Date.now(), maxEnd)).toISOString()
             })
             .eq('id', abandonedSession.id);
 
+        if (error) throw error;
+
+        setAbandonedSession(null);
+        await loadActiveSession();
+    };
+
+    /**
+     * Finaliza una sesión abandonada a la hora real de salida que indica el
+     * usuario (validada antes con `validateForgottenSessionEnd`). Cierra su
+     * pausa y su tramo abiertos igual que `endSession`.
+     *
+     * @param {string} endTime - Timestamp ISO de la salida.
+     * @throws {Error} Si el servidor rechaza el cierre (ej: periodo aprobado).
+     */
+    const closeAbandonedSession = async (endTime: string) => {
+        if (!abandonedSession) return;
+
+        await applySessionAction({ id: crypto.randomUUID(), type: 'end', sessionId: abandonedSession.id, timestamp: endTime });
+
         setAbandonedSession(null);
         await loadActiveSession();
     };
@@ -251,23 +519,43 @@ export function useSession() {
         if (hasInitialized.current) return;
         hasInitialized.current = true;
 
-        checkAbandonedSessions();
+        void checkAbandonedSessions().then(flushPendingActions);
 
         return () => {
             hasInitialized.current = false;
         };
-    }, [checkAbandonedSessions]);
+    }, [checkAbandonedSessions, flushPendingActions]);
+
+    // Efecto de conectividad: al recuperar la red, sincroniza la cola pendiente.
+    useEffect(() => {
+        const handleOnline = () => {
+            setIsOnline(true);
+            void flushPendingActions();
+        };
+        const handleOffline = () => setIsOnline(false);
+
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+
+        return () => {
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+        };
+    }, [flushPendingActions]);
 
     /**
      * Efecto del cronómetro.
      *
-     * Si hay una sesión activa y NO está pausada, crea un intervalo que
-     * recalcula el tiempo neto cada segundo usando `calculateElapsedTime`.
+     * Si hay una sesión activa y NO está pausada (o lo está en una pausa
+     * retribuida, que cuenta como trabajo), crea un intervalo que recalcula el
+     * tiempo neto cada segundo usando `calculateElapsedTime`.
      * Si la sesión se pausa o se elimina, limpia el intervalo.
      * El cleanup del efecto también limpia el intervalo al desmontar.
      */
+    const inPaidPause = !!activeSession?.work_pauses.some(pause => !pause.pause_end && pause.paid);
+
     useEffect(() => {
-        if (!activeSession || isPaused) return;
+        if (!activeSession || (isPaused && !inPaidPause)) return;
 
         // Calcula el tiempo inicial al activar el efecto.
         calculateElapsedTime(activeSession);
@@ -283,7 +571,7 @@ export function useSession() {
                 timerRef.current = null;
             }
         };
-    }, [activeSession, isPaused, calculateElapsedTime]);
+    }, [activeSession, isPaused, inPaidPause, calculateElapsedTime]);
 
     /**
      * Inicia una nueva sesión de trabajo.
@@ -294,32 +582,58 @@ export function useSession() {
      * - status 'active'.
      * - device_info con información del navegador/dispositivo.
      *
+     * Y su primer tramo en `work_segments`, imputado al proyecto y la actividad elegidos.
+     *
+     * Sin conexión, la sesión se crea localmente con un id temporal y el
+     * cronómetro arranca igualmente.
+     *
+     * @param {ProjectSelection} [project] - Proyecto y tarea iniciales (por defecto, sin proyecto).
+     * @param {string | null} [activity] - Actividad inicial (por defecto, ninguna).
      * @throws {Error} Si ya hay una sesión activa o no hay usuario autenticado.
      */
-    const startSession = async () => {
+    const startSession = async (project: ProjectSelection = NO_PROJECT, activity: string | null = null) => {
         if (activeSession) throw new Error("Ya hay una sesión activa");
 
-        const { data: { user } } = await supabase.auth.getUser();
-        if (!user) throw new Error("No authenticated user");
-
-        const { data, error } = await supabase
-            .from('work_sessions')
-            .insert({
-                user_id: user.id,
-                start_time: new Date().toISOString(),
-                status: 'active',
-                device_info: {
-                    userAgent: navigator.userAgent,
-                    platform: navigator.platform
-                }
-            })
-            .select('*, work_pauses(*)')
-            .single();
+        const timestamp = new Date().toISOString();
+        const deviceInfo = {
+            userAgent: navigator.userAgent,
+            platform: navigator.platform
+        };
+        const localId = createLocalId();
+        const localSession: WorkSession = {
+            id: localId,
+            user_id: '',
+            start_time: timestamp,
+            end_time: null,
+            total_duration: null,
+            status: 'active',
+            source: 'live',
+            notes: null,
+            device_info: deviceInfo,
+            deleted_at: null,
+            forgotten_at: null,
+            recovered_at: null,
+            created_at: timestamp,
+            updated_at: timestamp,
+            work_pauses: [],
+            work_segments: [{
+                id: createLocalId(),
+                session_id: localId,
+                project_id: project.projectId,
+                task_id: project.taskId,
+                activity,
+                segment_start: timestamp,
+                segment_end: null,
+                created_at: timestamp
+            }]
+        };
 
-        if (error) throw error;
+        const { session } = await dispatchAction(
+            { type: 'start', sessionId: localId, timestamp, deviceInfo, ...project, activity },
+            localSession
+        );
 
-        // @ts-ignore
-        setActiveSession(data as WorkSession);
+        setActiveSession(session ?? localSession);
         setIsPaused(false);
         setElapsedTime(0);
     };
@@ -328,14 +642,18 @@ export function useSession() {
      * Pausa la sesión activa actual.
      *
      * Flujo:
-     * 1. Crea un registro de pausa en `work_pauses` con `pause_start` = ahora.
+     * 1. Crea un registro de pausa en `work_pauses` con `pause_start` = ahora y
+     *    su tipo. Si el tipo es retribuido, el cronómetro sigue contando.
      * 2. Actualiza el estado de la sesión a 'paused' en `work_sessions`.
-     * 3. Recarga la sesión para sincronizar el estado.
+     * 3. Recarga la sesión para sincronizar el estado (o, sin conexión, conserva
+     *    la pausa local hasta que se sincronice la cola).
      *
      * Si ocurre un error, hace rollback del estado de pausa en la UI.
      * Incluye guard clause para evitar pausas duplicadas o durante carga.
+     *
+     * @param {PauseType | null} [pauseType] - Tipo de pausa (por defecto, sin tipo: no retribuida).
      */
-    const pauseSession = async () => {
+    const pauseSession = async (pauseType: Pick<PauseType, 'id' | 'paid'> | null = null) => {
         // Verifica que la sesión esté activa, no pausada y no en carga.
         if (!activeSession) return;
         if (isPaused || loading) return;
@@ -347,31 +665,37 @@ export function useSession() {
             timerRef.current = null;
         }
 
+        const timestamp = new Date().toISOString();
+        const pausedSession: WorkSession = {
+            ...activeSession,
+            status: 'paused',
+            work_pauses: [
+                ...activeSession.work_pauses,
+                {
+                    id: createLocalId(),
+                    session_id: activeSession.id,
+                    pause_start: timestamp,
+                    pause_end: null,
+                    pause_type_id: pauseType?.id ?? null,
+                    paid: pauseType?.paid ?? false,
+                    created_at: timestamp
+                }
+            ]
+        };
+
         // Actualización optimista: marca como pausada inmediatamente en la UI.
         setIsPaused(true);
         setLoading(true);
 
         try {
-            // 1. Crear registro de pausa en la base de datos.
-            const { error: pauseError } = await supabase
-                .from('work_pauses')
-                .insert({
-                    session_id: activeSession.id,
-                    pause_start: new Date().toISOString(),
-                });
-
-            if (pauseError) throw pauseError;
-
-            // 2. Actualizar estado de la sesión a 'paused'.
-            const { error: sessionError } = await supabase
-                .from('work_sessions')
-                .update({ status: 'paused' })
-                .eq('id', activeSession.id);
-
-            if (sessionError) throw sessionError;
-
-            // 3. Recargar la sesión para sincronizar con la base de datos.
-            await loadActiveSession();
+            const { queued } = await dispatchAction(
+                { type: 'pause', sessionId: activeSession.id, timestamp, pauseTypeId: pauseType?.id ?? null },
+                pausedSession
+            );
+
+            // Sincroniza con la base de datos, o conserva la pausa local si quedó encolada.
+            if (queued) setActiveSession(pausedSession);
+            else await loadActiveSession();
         } catch (error) {
             console.error(error);
 
@@ -396,31 +720,28 @@ export function useSession() {
     const resumeSession = async () => {
         if (!activeSession || !isPaused || loading) return;
 
+        const timestamp = new Date().toISOString();
+        const resumedSession: WorkSession = {
+            ...activeSession,
+            status: 'active',
+            work_pauses: activeSession.work_pauses.map(pause =>
+                pause.pause_end ? pause : { ...pause, pause_end: timestamp }
+            )
+        };
+
         // Desbloqueo inmediato en UI (actualización optimista).
         setIsPaused(false);
         setLoading(true);
 
         try {
-            // 1. Cerrar la pausa activa: busca la pausa sin pause_end y la cierra.
-            const { error: updatePauseError } = await supabase
-                .from('work_pauses')
-                .update({ pause_end: new Date().toISOString() })
-                .eq('session_id', activeSession.id)
-                .is('pause_end', null);
-
-            if (updatePauseError) throw updatePauseError;
-
-            // 2. Actualizar estado de la sesión a 'active'.
-            const { error: sessionError } = await supabase
-                .from('work_sessions')
-                .update({ status: 'active' })
-                .eq('id', activeSession.id);
+            const { queued } = await dispatchAction(
+                { type: 'resume', sessionId: activeSession.id, timestamp },
+                resumedSession
+            );
 
-            if (sessionError) throw sessionError;
-
-            // 3. Recargar la sesión para sincronizar con la base de datos.
             // El cronómetro se reanuda automáticamente por el efecto del timer.
-            await loadActiveSession();
+            if (queued) setActiveSession(resumedSession);
+            else await loadActiveSession();
         } catch (error) {
             console.error(error);
 
@@ -432,16 +753,95 @@ export function useSession() {
     };
 
     /**
-     * Finaliza la sesión activa y calcula la duración total neta de trabajo.
+     * Cierra el tramo en curso y abre otro en el mismo instante con el
+     * proyecto, la tarea y la actividad indicados; el cronómetro y las pausas
+     * no cambian. Sin conexión, el cambio se encola como el resto de fichajes.
+     *
+     * @param {ProjectSelection} project - Proyecto y tarea del nuevo tramo.
+     * @param {string | null} activity - Actividad del nuevo tramo.
+     * @throws {Error} Si el servidor rechaza el cambio.
+     */
+    const switchSegment = async (project: ProjectSelection, activity: string | null) => {
+        if (!activeSession || loading) return;
+
+        const timestamp = new Date().toISOString();
+        const switchedSession: WorkSession = {
+            ...activeSession,
+            work_segments: [
+                ...(activeSession.work_segments ?? []).map(segment =>
+                    segment.segment_end ? segment : { ...segment, segment_end: timestamp }
+                ),
+                {
+                    id: createLocalId(),
+                    session_id: activeSession.id,
+                    project_id: project.projectId,
+                    task_id: project.taskId,
+                    activity,
+                    segment_start: timestamp,
+                    segment_end: null,
+                    created_at: timestamp
+                }
+            ]
+        };
+
+        // Actualización optimista: el selector muestra el nuevo tramo al instante.
+        setActiveSession(switchedSession);
+        setLoading(true);
+
+        try {
+            const { queued } = await dispatchAction(
+                { type: 'switch', sessionId: activeSession.id, timestamp, ...project, activity },
+                switchedSession
+            );
+
+            if (!queued) await loadActiveSession();
+        } catch (error) {
+            // Rollback: conserva el tramo anterior.
+            setActiveSession(activeSession);
+            throw error;
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    // Tramo abierto de la sesión activa. Las sesiones sin tramos (recuperadas de
+    // antes de existir los proyectos) cuentan como sin proyecto ni actividad.
+    const openSegment = activeSession?.work_segments?.find(segment => !segment.segment_end);
+    const currentProject: ProjectSelection | null = activeSession
+        ? { projectId: openSegment?.project_id ?? null, taskId: openSegment?.task_id ?? null }
+        : null;
+    const currentActivity = openSegment?.activity ?? null;
+
+    /**
+     * Imputa el tiempo a partir de ahora a otro proyecto (o a ninguno),
+     * manteniendo la actividad en curso.
+     *
+     * @param {ProjectSelection} project - Nuevo proyecto y tarea.
+     * @throws {Error} Si el servidor rechaza el cambio.
+     */
+    const switchProject = (project: ProjectSelection) => switchSegment(project, currentActivity);
+
+    /**
+     * Cambia de actividad a partir de ahora (p. ej. de "Soporte" a
+     * "Desarrollo"), manteniendo el proyecto en curso.
+     *
+     * @param {string | null} activity - Nueva actividad (null = sin actividad).
+     * @throws {Error} Si el servidor rechaza el cambio.
+     */
+    const switchActivity = (activity: string | null) => switchSegment(currentProject ?? NO_PROJECT, activity);
+
+    /**
+     * Finaliza la sesión activa.
      *
      * Flujo:
      * 1. Detiene el cronómetro inmediatamente.
-     * 2. Obtiene todas las pausas de la sesión desde la base de datos.
-     * 3. Calcula el tiempo total pausado (sumando cada pausa).
-     *    Si una pausa no tiene fin, usa Date.now() como fin.
-     * 4. Calcula el tiempo neto = (fin - inicio) - pausas totales.
-     * 5. Actualiza la sesión con end_time, status='completed' y total_duration formateada.
-     * 6. Reinicia todos los estados locales.
+     * 2. Cierra la pausa abierta (si la hay) y el tramo en curso.
+     * 3. Actualiza la sesión con end_time y status='completed'. La duración neta
+     *    (`total_duration`) la calcula el trigger de la base de datos, restando
+     *    solo las pausas no retribuidas.
+     * 4. Reinicia todos los estados locales.
+     *
+     * Sin conexión, el fin se encola con su hora real y se aplica al sincronizar.
      *
      * @throws {Error} Si no hay sesión activa.
      */
@@ -454,40 +854,10 @@ export function useSession() {
             timerRef.current = null;
         }
 
-        // Obtiene todas las pausas de la sesión para cálculo preciso.
-        const { data: pauses } = await supabase
-            .from('work_pauses')
-            .select('pause_start, pause_end')
-            .eq('session_id', activeSession.id);
-
-        // Calcula el tiempo total de pausas en milisegundos.
-        let totalPauseTimeMs = 0;
-        if (pauses) {
-            pauses.forEach(p => {
-                // Si la pausa no tiene fin (abierta), usa la hora actual.
-                const end = p.pause_end ? new Date(p.pause_end).getTime() : Date.now();
-                const start = new Date(p.pause_start).getTime();
-                totalPauseTimeMs += end - start;
-            });
-        }
-
-        // Calcula la duración neta de trabajo.
-        const start = new Date(activeSession.start_time).getTime();
-        const end = Date.now();
-        const netWorkSeconds = Math.max(0, Math.floor(((end - start) - totalPauseTimeMs) / 1000));
-        const formattedDuration = formatTime(netWorkSeconds);
-
-        // Actualiza la sesión en la base de datos marcándola como completada.
-        const { error } = await supabase
-            .from('work_sessions')
-            .update({
-                end_time: new Date().toISOString(),
-                status: 'completed',
-                total_duration: formattedDuration
-            })
-            .eq('id', activeSession.id);
-
-        if (error) throw error;
+        await dispatchAction(
+            { type: 'end', sessionId: activeSession.id, timestamp: new Date().toISOString() },
+            null
+        );
 
         // Reinicia todos los estados locales.
         setActiveSession(null);
@@ -495,19 +865,35 @@ export function useSession() {
         setIsPaused(false);
     };
 
+    // Tiempo neto en la actividad actual: el de la sesión menos el trabajado
+    // antes de abrir el tramo en curso.
+    const activityElapsedSeconds = activeSession && openSegment
+        ? Math.max(0, elapsedTime - Math.floor(calculateDuration(activeSession.start_time, openSegment.segment_start, activeSession.work_pauses) / 1000))
+        : elapsedTime;
+
     return {
         activeSession,
         abandonedSession,
         elapsedSeconds: elapsedTime,        // Tiempo en segundos sin formatear.
         elapsedTime: formatTime(elapsedTime), // Tiempo ya formateado como "HH:MM:SS".
         pauseCount: activeSession?.work_pauses?.length ?? 0, // Número de pausas en la sesión.
+        currentProject,     // Proyecto y tarea del tramo en curso (null sin sesión).
+        currentActivity,    // Actividad del tramo en curso (null si no hay).
+        activityElapsedTime: formatTime(activityElapsedSeconds), // Tiempo en la actividad actual.
         isPaused,
         loading,
         startSession,
         pauseSession,
         resumeSession,
+        switchProject,
+        switchActivity,
         endSession,
         recoverSession,
-        discardSession
+        discardSession,
+        closeAbandonedSession,
+        isOnline,
+        pendingActions,
+        syncConflict,
+        dismissSyncConflict: () => setSyncConflict(null)
     };
 }
\ No newline at end of file
@@ -0,0 +1,98 @@
+// useState: estado local (entradas, autores, loading, error).
+// useCallback / useEffect: recarga al cambiar la sesión consultada.
+import { useState, useCallback, useEffect } from 'react';
+
+// supabase: instancia del cliente de Supabase.
+import { supabase } from '../lib/supabase';
+
+// Database: tipos de la base de datos para tipado seguro.
+import type { Database } from '../types/database.types';
+
+/**
+ * Fila de la tabla `audit_log`.
+ */
+export type AuditLogEntry = Database['public']['Tables']['audit_log']['Row'];
+
+/**
+ * Hook para el "Historial de cambios" de una sesión.
+ *
+ * Consulta el registro de auditoría (rellenado por triggers de la base de
+ * datos) de la sesión y de sus pausas, en orden cronológico, y resuelve el
+ * nombre de quién hizo cada cambio cuando su perfil es visible.
+ *
+ * @param {string | null} sessionId - Sesión a consultar (null = ninguna).
+ * @returns {Object} Objeto con:
+ * - `entries` {AuditLogEntry[]} - Cambios de la sesión y sus pausas (más antiguos primero).
+ * - `authorName` {Function} - Nombre legible del autor de un cambio.
+ * - `loading` / `error` - Estado de la consulta.
+ */
+export function useSessionAudit(sessionId: string | null) {
+    const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+    const [authors, setAuthors] = useState<Record<string, string>>({});
+    const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadEntries = useCallback(async () => {
+        if (!sessionId) {
+            setEntries([]);
+            return;
+        }
+
+        try {
+            setLoading(true);
+            setError(null);
+
+            const { data: { user } } = await supabase.auth.getUser();
+            setCurrentUserId(user?.id ?? null);
+
+            const { data, error } = await supabase
+                .from('audit_log')
+                .select('*')
+                .eq('session_id', sessionId)
+                .order('id', { ascending: true });
+
+            if (error) throw error;
+
+            // Perfiles visibles de los autores (RLS oculta los que no se pueden leer).
+            const authorIds = [...new Set(data.map(e => e.changed_by).filter((id): id is string => !!id))];
+            if (authorIds.length > 0) {
+                const { data: profiles, error: profilesError } = await supabase
+                    .from('profiles')
+                    .select('id, email, full_name')
+                    .in('id', authorIds);
+
+                if (profilesError) throw profilesError;
+                setAuthors(Object.fromEntries(profiles.map(p => [p.id, p.full_name || p.email])));
+            }
+
+            setEntries(data);
+        } catch (err) {
+            console.error('Error loading audit log:', err);
+            setError((err as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    }, [sessionId]);
+
+    useEffect(() => {
+        void loadEntries();
+    }, [loadEntries]);
+
+    /**
+     * Nombre del autor de un cambio: "Tú", su nombre o email, o "Sistema"
+     * para los cambios sin usuario (tareas programadas).
+     */
+    const authorName = (changedBy: string | null) => {
+        if (!changedBy) return 'Sistema';
+        if (changedBy === currentUserId) return 'Tú';
+        return authors[changedBy] ?? 'Otro usuario';
+    };
+
+    return {
+        entries,
+        authorName,
+        loading,
+        error
+    };
+}
@@ -0,0 +1,131 @@
+// useState: estado local (sesiones en la papelera, loading, error).
+// useCallback: memoriza la carga para usarla en efectos.
+import { useState, useCallback } from 'react';
+
+// supabase: instancia del cliente de Supabase.
+import { supabase } from '../lib/supabase';
+
+// Database: tipos de la base de datos para tipado seguro.
+import type { Database } from '../types/database.types';
+
+/**
+ * Sesión de la papelera (fila de `work_sessions` con `deleted_at`).
+ */
+export type DeletedSession = Database['public']['Tables']['work_sessions']['Row'];
+
+/**
+ * Hook para la papelera de sesiones.
+ *
+ * `useHistory.deleteSession` solo marca `deleted_at`; desde aquí el usuario
+ * restaura sus sesiones o las elimina definitivamente. Las que superan el
+ * periodo de retención (30 días) las elimina un job diario; al cargar la
+ * papelera se purgan también las que vencieron desde entonces.
+ *
+ * @returns {Object} Objeto con:
+ * - `sessions` {DeletedSession[]} - Sesiones en la papelera (últimas eliminadas primero).
+ * - `loading` / `error` - Estado de la última operación.
+ * - `loadTrash` {Function} - Purga las vencidas y carga la papelera.
+ * - `restoreSession` {Function} - Devuelve una sesión al historial.
+ * - `purgeSession` {Function} - Elimina una sesión definitivamente (con sus pausas).
+ */
+export function useSessionTrash() {
+    const [sessions, setSessions] = useState<DeletedSession[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    /**
+     * Elimina las sesiones con la retención vencida y carga el resto.
+     */
+    const loadTrash = useCallback(async () => {
+        try {
+            setLoading(true);
+            setError(null);
+
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) return;
+
+            // La retención la aplica el job diario; esto solo adelanta lo vencido
+            // desde entonces, así que un fallo no impide ver la papelera.
+            const { error: purgeError } = await supabase.rpc('purge_deleted_sessions');
+            if (purgeError) console.error('Error purging expired sessions:', purgeError);
+
+            const { data, error } = await supabase
+                .from('work_sessions')
+                .select('*')
+                .eq('user_id', user.id)
+                .not('deleted_at', 'is', null)
+                .order('deleted_at', { ascending: false });
+
+            if (error) throw error;
+
+            setSessions(data);
+        } catch (err) {
+            console.error('Error loading trash:', err);
+            setError((err as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    /**
+     * Restaura una sesión. Falla si ahora se solapa con otra sesión o si su
+     * periodo ya fue aprobado (lo comprueba la base de datos).
+     *
+     * @param {string} sessionId - Sesión a restaurar.
+     * @returns {boolean} true si se restauró.
+     */
+    const restoreSession = async (sessionId: string) => {
+        try {
+            setError(null);
+            const { error } = await supabase
+                .from('work_sessions')
+                .update({ deleted_at: null })
+                .eq('id', sessionId);
+
+            if (error) throw error;
+
+            setSessions(prev => prev.filter(s => s.id !== sessionId));
+            return true;
+        } catch (err) {
+            console.error('Error restoring session:', err);
+            setError((err as Error).message);
+            return false;
+        }
+    };
+
+    /**
+     * Elimina definitivamente una sesión de la papelera. Solo se aceptan
+     * sesiones ya marcadas como eliminadas.
+     *
+     * @param {string} sessionId - Sesión a eliminar.
+     * @returns {boolean} true si se eliminó.
+     */
+    const purgeSession = async (sessionId: string) => {
+        try {
+            setError(null);
+            const { error } = await supabase
+                .from('work_sessions')
+                .delete()
+                .eq('id', sessionId)
+                .not('deleted_at', 'is', null);
+
+            if (error) throw error;
+
+            setSessions(prev => prev.filter(s => s.id !== sessionId));
+            return true;
+        } catch (err) {
+            console.error('Error purging session:', err);
+            setError((err as Error).message);
+            return false;
+        }
+    };
+
+    return {
+        sessions,
+        loading,
+        error,
+        loadTrash,
+        restoreSession,
+        purgeSession
+    };
+}
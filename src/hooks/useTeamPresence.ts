@@ -0,0 +1,159 @@
+// useState: estado local (sesiones, reloj, loading, error).
+// useEffect: carga inicial, suscripción realtime y reloj de un segundo.
+// useCallback / useMemo / useRef: memoriza la consulta y agrupa los resultados.
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+
+// RealtimeChannel: canal de Supabase Realtime para escuchar cambios.
+import type { RealtimeChannel } from '@supabase/supabase-js';
+
+// supabase: instancia del cliente de Supabase.
+import { supabase } from '../lib/supabase';
+
+// Inicio del día y de la semana (en la zona horaria de cada miembro) para los totales.
+import { getStartOfDay, getStartOfWeek } from '../utils/date';
+import { getBrowserTimeZone, isValidTimeZone } from '../utils/timezone';
+
+// Cálculo de presencia por miembro (estado, hoy y semana).
+import { summarizePresence, type PresenceSession, type PresenceSummary } from '../utils/teamPresence';
+
+/**
+ * Hook para el panel de equipo: presencia en vivo de varios usuarios a la vez.
+ *
+ * Para cada usuario indicado consulta sus sesiones de la semana y su sesión
+ * abierta, y calcula su estado (trabajando, en pausa, fuera), el tiempo neto
+ * de hoy y el total semanal (días y semanas en la zona horaria de su perfil). Los datos se recargan con Supabase Realtime
+ * (RLS solo entrega los cambios de los equipos del manager) y los contadores
+ * avanzan cada segundo.
+ *
+ * @param {string[]} userIds - Usuarios a mostrar (miembros visibles para el manager).
+ * @returns {Object} Objeto con:
+ * - `presence` {Record<string, PresenceSummary>} - Resumen por `user_id`.
+ * - `loading` {boolean} - Indica si se está cargando la primera consulta.
+ * - `error` {string | null} - Mensaje de error, si hay alguno.
+ */
+export function useTeamPresence(userIds: string[]) {
+    const [sessions, setSessions] = useState<PresenceSession[]>([]);
+    const [timeZones, setTimeZones] = useState<Record<string, string>>({});
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [now, setNow] = useState(() => new Date());
+
+    // Temporizador para agrupar ráfagas de eventos realtime en una sola recarga.
+    const reloadTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    // Clave estable de la lista de usuarios (el array cambia de identidad en cada render).
+    const userKey = [...userIds].sort().join(',');
+
+    /**
+     * Consulta las sesiones que acaban esta semana (aunque empezaran la anterior)
+     * y las sesiones abiertas de los usuarios.
+     */
+    const fetchSessions = useCallback(async () => {
+        const ids = userKey ? userKey.split(',') : [];
+        if (ids.length === 0) {
+            setSessions([]);
+            setLoading(false);
+            return;
+        }
+
+        try {
+            setError(null);
+
+            const { data: profiles, error: profilesError } = await supabase
+                .from('profiles')
+                .select('id, timezone')
+                .in('id', ids);
+
+            if (profilesError) throw profilesError;
+
+            const userTimeZones: Record<string, string> = Object.fromEntries(
+                profiles.map(p => [p.id, isValidTimeZone(p.timezone) ? p.timezone : getBrowserTimeZone()])
+            );
+
+            // La semana empieza antes en unas zonas que en otras: se consulta
+            // desde el inicio más temprano.
+            const since = [getBrowserTimeZone(), ...Object.values(userTimeZones)]
+                .map(timeZone => getStartOfWeek(timeZone))
+                .reduce((earliest, start) => start < earliest ? start : earliest);
+
+            const { data, error } = await supabase
+                .from('work_sessions')
+                .select('user_id, start_time, end_time, status, total_duration, work_pauses(pause_start, pause_end, paid)')
+                .in('user_id', ids)
+                .is('deleted_at', null)
+                .or(`end_time.gte.${since},status.in.(active,paused)`);
+
+            if (error) throw error;
+
+            setTimeZones(userTimeZones);
+            setSessions(data as PresenceSession[]);
+        } catch (err) {
+            console.error('Error loading team presence:', err);
+            setError((err as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    }, [userKey]);
+
+    useEffect(() => {
+        void fetchSessions();
+    }, [fetchSessions]);
+
+    // Recarga cuando cambia cualquier sesión o pausa visible (fichajes del equipo).
+    useEffect(() => {
+        let channel: RealtimeChannel | null = null;
+        let cancelled = false;
+
+        const scheduleReload = () => {
+            if (reloadTimeout.current) clearTimeout(reloadTimeout.current);
+            reloadTimeout.current = setTimeout(() => void fetchSessions(), 300);
+        };
+
+        const subscribe = async () => {
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user || cancelled) return;
+
+            channel = supabase
+                .channel(`team-presence:${user.id}`)
+                .on('postgres_changes', { event: '*', schema: 'public', table: 'work_sessions' }, scheduleReload)
+                .on('postgres_changes', { event: '*', schema: 'public', table: 'work_pauses' }, scheduleReload)
+                .subscribe();
+        };
+
+        void subscribe();
+
+        return () => {
+            cancelled = true;
+            if (reloadTimeout.current) clearTimeout(reloadTimeout.current);
+            if (channel) void supabase.removeChannel(channel);
+        };
+    }, [fetchSessions]);
+
+    // Reloj de un segundo para que los contadores de las sesiones abiertas avancen.
+    useEffect(() => {
+        const interval = setInterval(() => setNow(new Date()), 1000);
+        return () => clearInterval(interval);
+    }, []);
+
+    const presence = useMemo(() => {
+        const byUser: Record<string, PresenceSummary> = {};
+
+        (userKey ? userKey.split(',') : []).forEach(id => {
+            const timeZone = timeZones[id] ?? getBrowserTimeZone();
+            byUser[id] = summarizePresence(
+                sessions.filter(s => s.user_id === id),
+                now,
+                getStartOfDay(timeZone),
+                getStartOfWeek(timeZone)
+            );
+        });
+
+        return byUser;
+    }, [sessions, timeZones, now, userKey]);
+
+    return {
+        presence,
+        loading,
+        error
+    };
+}
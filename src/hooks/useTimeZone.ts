@@ -0,0 +1,28 @@
+// createContext / useContext: contexto compartido con TimeZoneProvider.
+import { createContext, useContext } from 'react';
+
+// getBrowserTimeZone: zona por defecto fuera del proveedor.
+import { getBrowserTimeZone } from '../utils/timezone';
+
+interface TimeZoneContextType {
+    timeZone: string;
+    updateTimeZone: (timeZone: string) => Promise<boolean>;
+}
+
+/**
+ * Contexto de la zona horaria del perfil (lo provee `TimeZoneProvider`).
+ * Fuera del proveedor (tests, componentes aislados) se usa la del navegador.
+ */
+export const TimeZoneContext = createContext<TimeZoneContextType>({
+    timeZone: getBrowserTimeZone(),
+    updateTimeZone: async () => false,
+});
+
+/**
+ * Hook con la zona horaria del usuario (`profiles.timezone`).
+ *
+ * @returns {Object} Objeto con:
+ * - `timeZone` {string} - Zona IANA en la que se agrupan las sesiones por días y semanas.
+ * - `updateTimeZone` {Function} - Guarda una nueva zona en el perfil (retorna boolean).
+ */
+export const useTimeZone = () => useContext(TimeZoneContext);
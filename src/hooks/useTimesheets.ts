@@ -0,0 +1,202 @@
+// useState: estado local (hojas propias, pendientes de revisar, loading, error).
+// useCallback / useEffect: carga inicial memorizada.
+import { useState, useCallback, useEffect } from 'react';
+
+// supabase: instancia del cliente de Supabase.
+import { supabase } from '../lib/supabase';
+
+// Database: tipos de la base de datos para tipado seguro.
+import type { Database } from '../types/database.types';
+
+// Suma de la duración neta de sesiones completadas (mismo cálculo que el trigger).
+import { sumNetSeconds } from '../utils/duration';
+import type { PeriodRange, PeriodType } from '../utils/timesheets';
+
+/**
+ * Fila de la tabla `timesheets`.
+ */
+export type Timesheet = Database['public']['Tables']['timesheets']['Row'];
+
+/**
+ * Decisión del revisor sobre una hoja de horas.
+ */
+export type TimesheetDecision = 'approved' | 'rejected';
+
+/**
+ * Hook para el flujo de aprobación de hojas de horas.
+ *
+ * - El trabajador envía un periodo (semana o mes) construido a partir de sus
+ *   sesiones completadas; mientras está pendiente puede retirarlo y, si se
+ *   rechaza, puede corregir sus sesiones y reenviarlo.
+ * - Managers y admins aprueban o rechazan (con comentario) las hojas de sus equipos.
+ * - Un periodo aprobado queda bloqueado: la base de datos rechaza cambios en
+ *   sus sesiones y pausas.
+ *
+ * @returns {Object} Objeto con:
+ * - `timesheets` {Timesheet[]} - Hojas del usuario actual (más recientes primero).
+ * - `pendingReviews` {Timesheet[]} - Hojas de otros usuarios pendientes de revisión.
+ * - `loading` / `error` - Estado de la última operación.
+ * - `loadTimesheets` {Function} - Recarga ambas listas.
+ * - `getPeriodSummary` {Function} - Total neto y número de sesiones de un periodo.
+ * - `submitTimesheet` / `withdrawTimesheet` / `reviewTimesheet` {Function} - Acciones (retornan boolean).
+ */
+export function useTimesheets() {
+    const [timesheets, setTimesheets] = useState<Timesheet[]>([]);
+    const [pendingReviews, setPendingReviews] = useState<Timesheet[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    /**
+     * Carga las hojas propias y las pendientes de revisar (RLS limita estas
+     * últimas a los equipos del manager o a la organización del admin).
+     */
+    const loadTimesheets = useCallback(async () => {
+        try {
+            setLoading(true);
+            setError(null);
+
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) return;
+
+            const [own, pending] = await Promise.all([
+                supabase
+                    .from('timesheets')
+                    .select('*')
+                    .eq('user_id', user.id)
+                    .order('period_start', { ascending: false }),
+                supabase
+                    .from('timesheets')
+                    .select('*')
+                    .neq('user_id', user.id)
+                    .eq('status', 'submitted')
+                    .order('submitted_at', { ascending: true })
+            ]);
+
+            if (own.error) throw own.error;
+            if (pending.error) throw pending.error;
+
+            setTimesheets(own.data);
+            setPendingReviews(pending.data);
+        } catch (err) {
+            console.error('Error loading timesheets:', err);
+            setError((err as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        void loadTimesheets();
+    }, [loadTimesheets]);
+
+    /**
+     * Total neto y número de sesiones completadas de un periodo.
+     *
+     * @param {PeriodRange} period - Periodo a resumir, en instantes (ver `toZonedPeriod`).
+     * @param {string} [userId] - Usuario (por defecto, el actual).
+     * @returns {{ totalSeconds: number; sessionCount: number } | null} Resumen, o null si hubo un error.
+     */
+    const getPeriodSummary = useCallback(async (period: PeriodRange, userId?: string) => {
+        try {
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) return null;
+
+            const { data, error } = await supabase
+                .from('work_sessions')
+                .select('total_duration')
+                .eq('user_id', userId ?? user.id)
+                .eq('status', 'completed')
+                .is('deleted_at', null)
+                .gte('start_time', period.start.toISOString())
+                .lt('start_time', period.end.toISOString());
+
+            if (error) throw error;
+
+            return { totalSeconds: sumNetSeconds(data), sessionCount: data.length };
+        } catch (err) {
+            console.error('Error loading period summary:', err);
+            setError((err as Error).message);
+            return null;
+        }
+    }, []);
+
+    /**
+     * Ejecuta una operación de escritura y recarga las listas si tiene éxito.
+     */
+    const mutate = async (label: string, operation: () => PromiseLike<{ error: unknown }>) => {
+        try {
+            setError(null);
+            const { error } = await operation();
+            if (error) throw error;
+            await loadTimesheets();
+            return true;
+        } catch (err) {
+            console.error(`Error ${label}:`, err);
+            setError((err as Error).message);
+            return false;
+        }
+    };
+
+    /**
+     * Envía (o reenvía tras un rechazo) la hoja de horas de un periodo.
+     * El total del periodo lo calcula la base de datos al recibirla.
+     *
+     * @param {PeriodType} type - 'week' o 'month'.
+     * @param {PeriodRange} period - Periodo a enviar, en instantes (ver `toZonedPeriod`).
+     */
+    const submitTimesheet = async (type: PeriodType, period: PeriodRange) => {
+        const existing = timesheets.find(t =>
+            t.period_type === type && new Date(t.period_start).getTime() === period.start.getTime()
+        );
+
+        if (existing) {
+            return mutate('resubmitting timesheet', () => supabase
+                .from('timesheets')
+                .update({ status: 'submitted', review_comment: null })
+                .eq('id', existing.id));
+        }
+
+        return mutate('submitting timesheet', async () => {
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) return { error: new Error('No authenticated user') };
+
+            return supabase.from('timesheets').insert({
+                user_id: user.id,
+                period_type: type,
+                period_start: period.start.toISOString(),
+                period_end: period.end.toISOString()
+            });
+        });
+    };
+
+    /**
+     * Retira una hoja pendiente de revisión.
+     */
+    const withdrawTimesheet = (timesheetId: string) =>
+        mutate('withdrawing timesheet', () => supabase.from('timesheets').delete().eq('id', timesheetId));
+
+    /**
+     * Aprueba o rechaza una hoja de otro usuario (managers y admins).
+     *
+     * @param {string} timesheetId - Hoja a revisar.
+     * @param {TimesheetDecision} decision - 'approved' o 'rejected'.
+     * @param {string} comment - Comentario para el trabajador (obligatorio al rechazar en la UI).
+     */
+    const reviewTimesheet = (timesheetId: string, decision: TimesheetDecision, comment: string) =>
+        mutate('reviewing timesheet', () => supabase
+            .from('timesheets')
+            .update({ status: decision, review_comment: comment || null })
+            .eq('id', timesheetId));
+
+    return {
+        timesheets,
+        pendingReviews,
+        loading,
+        error,
+        loadTimesheets,
+        getPeriodSummary,
+        submitTimesheet,
+        withdrawTimesheet,
+        reviewTimesheet
+    };
+}
@@ -0,0 +1,55 @@
+// useState: estado local (festivos del usuario).
+// useEffect: carga al montar.
+import { useState, useEffect } from 'react';
+
+// supabase: instancia del cliente de Supabase.
+import { supabase } from '../lib/supabase';
+
+// Database: tipos de la base de datos para tipado seguro.
+import type { Database } from '../types/database.types';
+
+/**
+ * Festivo de un usuario (fila de la función `user_holidays`).
+ */
+export type UserHoliday = Database['public']['Functions']['user_holidays']['Returns'][number];
+
+/**
+ * Hook con los festivos del usuario actual según sus calendarios asignados,
+ * del año anterior al siguiente (el rango que recorren el calendario y el
+ * recuento de ausencias).
+ *
+ * @returns {Object} Objeto con:
+ * - `holidays` {UserHoliday[]} - Festivos ordenados por fecha.
+ * - `holidayDates` {string[]} - Sus fechas ("YYYY-MM-DD").
+ */
+export function useUserHolidays() {
+    const [holidays, setHolidays] = useState<UserHoliday[]>([]);
+
+    useEffect(() => {
+        const loadHolidays = async () => {
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) return;
+
+            const year = new Date().getFullYear();
+            const { data, error } = await supabase.rpc('user_holidays', {
+                p_user_id: user.id,
+                p_from: `${year - 1}-01-01`,
+                p_to: `${year + 1}-12-31`
+            });
+
+            if (error) {
+                console.error('Error loading holidays:', error);
+                return;
+            }
+
+            setHolidays(data);
+        };
+
+        void loadHolidays();
+    }, []);
+
+    return {
+        holidays,
+        holidayDates: holidays.map(h => h.holiday_date)
+    };
+}
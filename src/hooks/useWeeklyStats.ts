@@ -1,62 +1,269 @@
-import { useEffect, useState, useMemo } from 'react';
+import { useCallback, useEffect, useState, useMemo } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
+import { useTimeZone } from './useTimeZone';
 import { getStartOfWeek } from '../utils/date';
+import { allocateSessionByDay, type AllocatableSession } from '../utils/dayAllocation';
+import { toDateKey, type WorkSchedule } from '../utils/schedule';
+import type { AbsenceRange } from '../utils/absences';
+import { getPeriodRange } from '../utils/timesheets';
+import { getZonedCalendarDate, getZonedDateKey, startOfZonedDay } from '../utils/timezone';
+import {
+    DEFAULT_OVERTIME_THRESHOLDS,
+    computeBalance,
+    getOvertimeSeconds,
+    groupWorkedByDay,
+    type HourBalance
+} from '../utils/hourBalance';
 
 type Props = {
     elapsedSeconds: number; // número real
-    hasActiveSession: boolean;
+    // Sesión abierta: si empezó antes de hoy, su tiempo se reparte entre los días.
+    activeSession: AllocatableSession | null;
 };
 
-export function useWeeklyStats({ elapsedSeconds, hasActiveSession }: Props) {
-    const [weeklyBaseSeconds, setWeeklyBaseSeconds] = useState(0);
+/**
+ * Saldos de la bolsa de horas que muestra el Dashboard.
+ *
+ * - `today` / `week` / `month`: del inicio del periodo hasta hoy (incluida la sesión activa).
+ * - `cumulative`: acumulado desde el primer horario hasta ayer (días cerrados).
+ * - `dailyOvertimeSeconds` / `weeklyOvertimeSeconds`: exceso sobre los umbrales de horas extra.
+ */
+export interface HourBalanceSummary {
+    today: HourBalance;
+    week: HourBalance;
+    month: HourBalance;
+    cumulative: HourBalance;
+    dailyOvertimeSeconds: number;
+    weeklyOvertimeSeconds: number;
+}
+
+// PostgREST devuelve como máximo 1000 filas por petición.
+const SESSION_PAGE_SIZE = 1000;
+
+/**
+ * Sesiones completadas del usuario que acabaron desde `since`, con sus pausas.
+ *
+ * La bolsa de horas acumulada puede abarcar años de fichajes, así que se piden
+ * por páginas hasta recibir una incompleta.
+ */
+async function fetchCompletedSessionsSince(userId: string, since: string) {
+    const sessions: AllocatableSession[] = [];
+
+    for (let from = 0; ; from += SESSION_PAGE_SIZE) {
+        const { data, error } = await supabase
+            .from('work_sessions')
+            .select('start_time, end_time, work_pauses(pause_start, pause_end, paid)')
+            .eq('user_id', userId)
+            .eq('status', 'completed')
+            .is('deleted_at', null)
+            // También las que empezaron antes y acabaron dentro del rango (turnos de noche).
+            .gte('end_time', since)
+            // Orden estable para que las páginas no se solapen.
+            .order('start_time', { ascending: true })
+            .order('id', { ascending: true })
+            .range(from, from + SESSION_PAGE_SIZE - 1);
+
+        if (error) return { data: null, error };
+        sessions.push(...data);
+        if (data.length < SESSION_PAGE_SIZE) return { data: sessions, error: null };
+    }
+}
+
+export function useWeeklyStats({ elapsedSeconds, activeSession }: Props) {
+    // Días y semanas en la zona horaria del perfil.
+    const { timeZone } = useTimeZone();
+    // Horas previstas de la semana según el horario laboral (null = sin horario).
+    const [expectedWeeklySeconds, setExpectedWeeklySeconds] = useState<number | null>(null);
+    // Datos de la bolsa de horas: trabajado por día, horario, ausencias aprobadas, festivos y umbrales.
+    const [workedByDay, setWorkedByDay] = useState<Record<string, number>>({});
+    const [schedules, setSchedules] = useState<WorkSchedule[]>([]);
+    const [absences, setAbsences] = useState<AbsenceRange[]>([]);
+    const [holidayDates, setHolidayDates] = useState<string[]>([]);
+    const [thresholds, setThresholds] = useState(DEFAULT_OVERTIME_THRESHOLDS);
+    const [referenceDate, setReferenceDate] = useState(() => new Date());
     const [loading, setLoading] = useState(true);
 
-    useEffect(() => {
-        const fetchWeeklySessions = async () => {
-            try {
-                setLoading(true);
-
-                const startOfWeek = getStartOfWeek();
-
-                const { data, error } = await supabase
-                    .from('work_sessions')
-                    .select('total_duration')
-                    .eq('status', 'completed')
-                    .gte('start_time', startOfWeek);
-
-                if (error) {
-                    console.error('Error fetching weekly sessions:', error);
-                    return;
-                }
-
-                const intervalToSeconds = (interval: string) => {
-                    const parts = interval.split(':').map(Number);
-                    const [h = 0, m = 0, s = 0] = parts;
-                    return h * 3600 + m * 60 + s;
-                };
-
-                const total = data?.reduce((acc, session) => {
-                    if (!session.total_duration) return acc;
-                    return acc + intervalToSeconds(session.total_duration);
-                }, 0) ?? 0;
-
-                setWeeklyBaseSeconds(total);
-
-            } finally {
-                setLoading(false);
+    const fetchWeeklySessions = useCallback(async () => {
+        try {
+            setLoading(true);
+
+            const now = new Date();
+            const startOfWeek = getStartOfWeek(timeZone);
+            const month = getPeriodRange('month', getZonedCalendarDate(now, timeZone));
+
+            // Filtro explícito por usuario: RLS también deja leer las sesiones del
+            // equipo a managers y admins.
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) return;
+
+            const [scheduleResult, thresholdResult] = await Promise.all([
+                supabase
+                    .from('work_schedules')
+                    .select('effective_from, days')
+                    .eq('user_id', user.id)
+                    .order('effective_from', { ascending: true }),
+                supabase.rpc('overtime_thresholds', { p_user_id: user.id })
+            ]);
+
+            const userSchedules = scheduleResult.data ?? [];
+            if (scheduleResult.error) console.error('Error fetching work schedules:', scheduleResult.error);
+            if (thresholdResult.error) console.error('Error fetching overtime thresholds:', thresholdResult.error);
+
+            // La bolsa de horas necesita las sesiones desde el primer horario;
+            // la semana y el mes actuales, siempre.
+            const since = [
+                startOfWeek,
+                startOfZonedDay(month.start, timeZone).toISOString(),
+                userSchedules[0] ? startOfZonedDay(new Date(`${userSchedules[0].effective_from}T00:00`), timeZone).toISOString() : null
+            ]
+                .filter((date): date is string => !!date)
+                .reduce((earliest, date) => new Date(date) < new Date(earliest) ? date : earliest);
+
+            const sinceKey = getZonedDateKey(new Date(since), timeZone);
+            const weekStart = getZonedCalendarDate(new Date(startOfWeek), timeZone);
+            const weekEnd = new Date(weekStart);
+            weekEnd.setDate(weekStart.getDate() + 7);
+
+            const [{ data, error }, absenceResult, holidayResult] = await Promise.all([
+                fetchCompletedSessionsSince(user.id, since),
+                supabase
+                    .from('absences')
+                    .select('absence_type, start_date, end_date, half_day, status')
+                    .eq('user_id', user.id)
+                    .eq('status', 'approved')
+                    .gte('end_date', sinceKey),
+                supabase.rpc('user_holidays', {
+                    p_user_id: user.id,
+                    p_from: sinceKey,
+                    p_to: toDateKey(weekEnd > month.end ? weekEnd : month.end)
+                })
+            ]);
+
+            const userAbsences = absenceResult.data ?? [];
+            if (absenceResult.error) console.error('Error fetching absences:', absenceResult.error);
+            const userHolidayDates = (holidayResult.data ?? []).map(h => h.holiday_date);
+            if (holidayResult.error) console.error('Error fetching holidays:', holidayResult.error);
+
+            if (error) {
+                console.error('Error fetching weekly sessions:', error);
+                return;
             }
-        };
 
+            setExpectedWeeklySeconds(userSchedules.length > 0
+                ? computeBalance({}, userSchedules, weekStart, weekEnd, userAbsences, userHolidayDates).expectedSeconds
+                : null);
+            // Tiempo neto repartido por días: una sesión que cruza la medianoche cuenta en ambos.
+            setWorkedByDay(groupWorkedByDay(data ?? [], timeZone));
+            setSchedules(userSchedules);
+            setAbsences(userAbsences);
+            setHolidayDates(userHolidayDates);
+            setThresholds(thresholdResult.data?.[0] ?? DEFAULT_OVERTIME_THRESHOLDS);
+            setReferenceDate(now);
+
+        } finally {
+            setLoading(false);
+        }
+    }, [timeZone]);
+
+    useEffect(() => {
         fetchWeeklySessions();
-    }, []);
+    }, [fetchWeeklySessions]);
+
+    // Recalcula la base semanal cuando una sesión cambia en cualquier dispositivo
+    // (ej: se finaliza la jornada desde el móvil).
+    useEffect(() => {
+        let channel: RealtimeChannel | null = null;
+        let cancelled = false;
+
+        const subscribe = async () => {
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user || cancelled) return;
+
+            channel = supabase
+                .channel(`weekly-stats:${user.id}`)
+                .on('postgres_changes', { event: '*', schema: 'public', table: 'work_sessions', filter: `user_id=eq.${user.id}` }, () => {
+                    void fetchWeeklySessions();
+                })
+                // Una ausencia aprobada cambia las horas previstas.
+                .on('postgres_changes', { event: '*', schema: 'public', table: 'absences', filter: `user_id=eq.${user.id}` }, () => {
+                    void fetchWeeklySessions();
+                })
+                // Igual que un cambio en los calendarios de festivos asignados.
+                .on('postgres_changes', { event: '*', schema: 'public', table: 'user_holiday_calendars', filter: `user_id=eq.${user.id}` }, () => {
+                    void fetchWeeklySessions();
+                })
+                .subscribe();
+        };
+
+        void subscribe();
+
+        return () => {
+            cancelled = true;
+            if (channel) void supabase.removeChannel(channel);
+        };
+    }, [fetchWeeklySessions]);
+
+    const todayStart = useMemo(() => getZonedCalendarDate(referenceDate, timeZone), [referenceDate, timeZone]);
+
+    // A medianoche (en la zona del perfil) cambian el día y quizá la semana o el
+    // mes: se avanza la fecha de referencia y se recargan los datos del nuevo periodo.
+    useEffect(() => {
+        const tomorrow = new Date(todayStart.getFullYear(), todayStart.getMonth(), todayStart.getDate() + 1);
+        const delay = Math.max(0, startOfZonedDay(tomorrow, timeZone).getTime() - Date.now());
+
+        const timeout = setTimeout(() => {
+            setReferenceDate(new Date());
+            void fetchWeeklySessions();
+        }, delay);
+
+        return () => clearTimeout(timeout);
+    }, [todayStart, timeZone, fetchWeeklySessions]);
+
+    // Trabajado por día incluyendo la sesión activa: lo que lleva desde antes de
+    // hoy va a sus días y el resto (que avanza con elapsedSeconds) a hoy.
+    const liveWorked = useMemo(() => {
+        if (!activeSession) return workedByDay;
+
+        const todayKey = toDateKey(todayStart);
+        const before = allocateSessionByDay(activeSession, timeZone, startOfZonedDay(todayStart, timeZone));
+        const beforeSeconds = Object.values(before).reduce((acc, seconds) => acc + seconds, 0);
+
+        const worked = { ...workedByDay };
+        for (const [key, seconds] of Object.entries(before)) worked[key] = (worked[key] ?? 0) + seconds;
+        worked[todayKey] = (worked[todayKey] ?? 0) + Math.max(0, elapsedSeconds - beforeSeconds);
+        return worked;
+    }, [workedByDay, activeSession, elapsedSeconds, todayStart, timeZone]);
 
     // 🔥 Se recalcula automáticamente cuando cambia elapsedSeconds
     const totalWeeklySeconds = useMemo(() => {
-        return weeklyBaseSeconds + (hasActiveSession ? elapsedSeconds : 0);
-    }, [weeklyBaseSeconds, elapsedSeconds, hasActiveSession]);
+        const week = getPeriodRange('week', todayStart);
+        return computeBalance(liveWorked, [], week.start, week.end).workedSeconds;
+    }, [liveWorked, todayStart]);
+
+    // Bolsa de horas (null sin horario laboral).
+    const hourBalance = useMemo<HourBalanceSummary | null>(() => {
+        if (schedules.length === 0) return null;
+
+        const tomorrow = new Date(todayStart.getFullYear(), todayStart.getMonth(), todayStart.getDate() + 1);
+
+        const today = computeBalance(liveWorked, schedules, todayStart, tomorrow, absences, holidayDates);
+        const week = computeBalance(liveWorked, schedules, getPeriodRange('week', todayStart).start, tomorrow, absences, holidayDates);
+
+        return {
+            today,
+            week,
+            month: computeBalance(liveWorked, schedules, getPeriodRange('month', todayStart).start, tomorrow, absences, holidayDates),
+            cumulative: computeBalance(liveWorked, schedules, new Date(`${schedules[0].effective_from}T00:00`), todayStart, absences, holidayDates),
+            dailyOvertimeSeconds: getOvertimeSeconds(today.workedSeconds, thresholds.daily_minutes),
+            weeklyOvertimeSeconds: getOvertimeSeconds(week.workedSeconds, thresholds.weekly_minutes)
+        };
+    }, [schedules, liveWorked, absences, holidayDates, thresholds, todayStart]);
 
     return {
         totalWeeklySeconds,
+        expectedWeeklySeconds,
+        hourBalance,
         loading
     };
 }
@@ -0,0 +1,89 @@
+// useState: estado local (registro generado, loading, error).
+// useCallback: memoriza la función de generación.
+import { useState, useCallback } from 'react';
+
+// supabase: instancia del cliente de Supabase.
+import { supabase } from '../lib/supabase';
+
+// Generador del registro de jornada a partir de sesiones y pausas.
+import { buildWorkRegister, getMonthRange, type RegisterSession, type WorkRegister } from '../utils/workRegister';
+
+/**
+ * Hook para generar el registro de jornada mensual (Registro de Jornada).
+ *
+ * La normativa española obliga a conservar durante cuatro años el registro
+ * diario de inicio y fin de jornada de cada trabajador y a entregarlo al
+ * trabajador o a la Inspección de Trabajo cuando lo soliciten. Este hook
+ * consulta las sesiones completadas del mes (con sus pausas) y construye el
+ * registro que luego se exporta a PDF o CSV.
+ *
+ * @returns {Object} Objeto con:
+ * - `register` {WorkRegister | null} - Último registro generado.
+ * - `loading` {boolean} - Indica si se está generando.
+ * - `error` {string | null} - Mensaje de error, si hay alguno.
+ * - `generateRegister` {Function} - Genera el registro de un mes (año, mes 1-12).
+ */
+export function useWorkRegister() {
+    const [register, setRegister] = useState<WorkRegister | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    /**
+     * Genera el registro del mes indicado para el usuario actual.
+     *
+     * @param {number} year - Año del registro.
+     * @param {number} month - Mes del registro (1-12).
+     * @returns {WorkRegister | null} El registro generado, o null si hubo un error.
+     */
+    const generateRegister = useCallback(async (year: number, month: number) => {
+        try {
+            setLoading(true);
+            setError(null);
+
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) throw new Error('No hay usuario autenticado');
+
+            // Nombre del trabajador para la cabecera (perfil, o metadatos de registro).
+            const { data: profile } = await supabase
+                .from('profiles')
+                .select('full_name, email')
+                .eq('id', user.id)
+                .maybeSingle();
+
+            // Sesiones completadas cuya entrada cae dentro del mes.
+            const { from, to } = getMonthRange(year, month);
+            const { data, error } = await supabase
+                .from('work_sessions')
+                .select('start_time, end_time, total_duration, source, work_pauses(pause_start, pause_end, paid)')
+                .eq('user_id', user.id)
+                .eq('status', 'completed')
+                .is('deleted_at', null)
+                .gte('start_time', from)
+                .lt('start_time', to)
+                .order('start_time', { ascending: true });
+
+            if (error) throw error;
+
+            const result = buildWorkRegister((data ?? []) as RegisterSession[], year, month, {
+                name: profile?.full_name || user.user_metadata?.full_name || user.email || '',
+                email: profile?.email || user.email || '',
+            });
+
+            setRegister(result);
+            return result;
+        } catch (err) {
+            console.error('Error generating work register:', err);
+            setError((err as Error).message);
+            return null;
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    return {
+        register,
+        loading,
+        error,
+        generateRegister
+    };
+}
@@ -0,0 +1,114 @@
+// useState: estado local (versiones del horario, loading, error).
+// useCallback / useEffect: carga inicial memorizada.
+import { useState, useCallback, useEffect } from 'react';
+
+// supabase: instancia del cliente de Supabase.
+import { supabase } from '../lib/supabase';
+
+// Database: tipos de la base de datos para tipado seguro.
+import type { Database } from '../types/database.types';
+
+// ScheduleDay: día del patrón semanal.
+import type { ScheduleDay } from '../utils/schedule';
+
+/**
+ * Fila de la tabla `work_schedules`.
+ */
+export type WorkScheduleRow = Database['public']['Tables']['work_schedules']['Row'];
+
+/**
+ * Hook para el horario laboral del usuario actual.
+ *
+ * Cada versión del horario (patrón semanal con horas previstas y franja de
+ * entrada/salida) rige desde su fecha de entrada en vigor; guardar un horario
+ * con una fecha ya existente reemplaza esa versión.
+ *
+ * @returns {Object} Objeto con:
+ * - `schedules` {WorkScheduleRow[]} - Versiones del horario (más recientes primero).
+ * - `loading` / `error` - Estado de la última operación.
+ * - `loadSchedules` {Function} - Recarga las versiones.
+ * - `saveSchedule` / `deleteSchedule` {Function} - Acciones (retornan boolean).
+ */
+export function useWorkSchedules() {
+    const [schedules, setSchedules] = useState<WorkScheduleRow[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadSchedules = useCallback(async () => {
+        try {
+            setLoading(true);
+            setError(null);
+
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) return;
+
+            // Filtro explícito por usuario: managers y admins también leen los horarios de su equipo.
+            const { data, error } = await supabase
+                .from('work_schedules')
+                .select('*')
+                .eq('user_id', user.id)
+                .order('effective_from', { ascending: false });
+
+            if (error) throw error;
+
+            setSchedules(data);
+        } catch (err) {
+            console.error('Error loading work schedules:', err);
+            setError((err as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        void loadSchedules();
+    }, [loadSchedules]);
+
+    /**
+     * Ejecuta una operación de escritura y recarga las versiones si tiene éxito.
+     */
+    const mutate = async (label: string, operation: () => PromiseLike<{ error: unknown }>) => {
+        try {
+            setError(null);
+            const { error } = await operation();
+            if (error) throw error;
+            await loadSchedules();
+            return true;
+        } catch (err) {
+            console.error(`Error ${label}:`, err);
+            setError((err as Error).message);
+            return false;
+        }
+    };
+
+    /**
+     * Guarda una versión del horario (la crea o reemplaza la de la misma fecha).
+     *
+     * @param {string} effectiveFrom - Fecha de entrada en vigor ("YYYY-MM-DD").
+     * @param {ScheduleDay[]} days - Patrón de lunes a domingo, ya validado.
+     */
+    const saveSchedule = (effectiveFrom: string, days: ScheduleDay[]) =>
+        mutate('saving work schedule', async () => {
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) return { error: new Error('No authenticated user') };
+
+            return supabase
+                .from('work_schedules')
+                .upsert({ user_id: user.id, effective_from: effectiveFrom, days }, { onConflict: 'user_id,effective_from' });
+        });
+
+    /**
+     * Elimina una versión del horario; rige de nuevo la anterior.
+     */
+    const deleteSchedule = (scheduleId: string) =>
+        mutate('deleting work schedule', () => supabase.from('work_schedules').delete().eq('id', scheduleId));
+
+    return {
+        schedules,
+        loading,
+        error,
+        loadSchedules,
+        saveSchedule,
+        deleteSchedule
+    };
+}
@@ -0,0 +1,92 @@
+// Funciones de Vitest para definir suites de test, casos individuales, mocks y aserciones.
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Funciones a testear: cola persistente de fichajes offline.
+import { createLocalId, enqueueAction, loadQueue, loadSnapshot, replayQueue } from './offlineQueue';
+
+/**
+ * Suite de tests de la cola offline de fichajes.
+ *
+ * Verifica que:
+ * 1. Las acciones se persisten en localStorage en orden.
+ * 2. La reproducción traduce los ids temporales a los reales del servidor.
+ * 3. Un fallo de red detiene la reproducción sin perder acciones.
+ * 4. Un rechazo del servidor descarta la sesión afectada y continúa con el resto.
+ */
+describe('offlineQueue', () => {
+    // Cada test empieza con la cola vacía.
+    beforeEach(() => {
+        localStorage.clear();
+    });
+
+    /**
+     * Test: Las acciones encoladas se guardan en orden junto al snapshot.
+     */
+    it('should persist queued actions in order', () => {
+        const sessionId = createLocalId();
+        enqueueAction({ type: 'start', sessionId, timestamp: '2024-01-01T08:00:00Z' }, { id: sessionId });
+        enqueueAction({ type: 'pause', sessionId, timestamp: '2024-01-01T10:00:00Z' }, { id: sessionId, status: 'paused' });
+
+        expect(loadQueue().map(a => a.type)).toEqual(['start', 'pause']);
+        expect(loadSnapshot()).toEqual({ id: sessionId, status: 'paused' });
+    });
+
+    /**
+     * Test: Tras reproducir el `start`, las acciones siguientes usan el id real.
+     */
+    it('should replay in order mapping local ids to server ids', async () => {
+        const sessionId = createLocalId();
+        enqueueAction({ type: 'start', sessionId, timestamp: '2024-01-01T08:00:00Z' }, null);
+        enqueueAction({ type: 'pause', sessionId, timestamp: '2024-01-01T10:00:00Z' }, null);
+
+        const apply = vi.fn().mockResolvedValueOnce('server-1').mockResolvedValueOnce(null);
+        const result = await replayQueue(apply);
+
+        expect(apply.mock.calls[0][0]).toMatchObject({ type: 'start', sessionId, timestamp: '2024-01-01T08:00:00Z' });
+        expect(apply.mock.calls[1][0]).toMatchObject({ type: 'pause', sessionId: 'server-1', timestamp: '2024-01-01T10:00:00Z' });
+        expect(result).toEqual({ processed: 2, pending: 0, conflicts: [] });
+        expect(loadQueue()).toEqual([]);
+    });
+
+    /**
+     * Test: Un error de red detiene la reproducción y conserva las acciones restantes.
+     */
+    it('should stop and keep remaining actions on network errors', async () => {
+        enqueueAction({ type: 'pause', sessionId: 'server-1', timestamp: '2024-01-01T10:00:00Z' }, null);
+        enqueueAction({ type: 'resume', sessionId: 'server-1', timestamp: '2024-01-01T10:15:00Z' }, null);
+
+        const apply = vi.fn()
+            .mockResolvedValueOnce(null)
+            .mockRejectedValueOnce({ message: 'TypeError: Failed to fetch' });
+        const result = await replayQueue(apply);
+
+        expect(result.processed).toBe(1);
+        expect(result.pending).toBe(1);
+        expect(loadQueue()[0].type).toBe('resume');
+    });
+
+    /**
+     * Test: Un rechazo del servidor (ej: sesión activa duplicada) descarta esa
+     * sesión completa y sigue con las acciones de otras sesiones.
+     */
+    it('should discard the rejected session and report a conflict', async () => {
+        const rejected = createLocalId();
+        enqueueAction({ type: 'end', sessionId: 'server-1', timestamp: '2024-01-01T17:00:00Z' }, null);
+        enqueueAction({ type: 'start', sessionId: rejected, timestamp: '2024-01-01T18:00:00Z' }, null);
+        enqueueAction({ type: 'pause', sessionId: rejected, timestamp: '2024-01-01T19:00:00Z' }, null);
+
+        const apply = vi.fn()
+            .mockResolvedValueOnce(null)
+            .mockRejectedValueOnce({ message: 'Ya existe una sesión activa para este usuario' });
+        const result = await replayQueue(apply);
+
+        expect(apply).toHaveBeenCalledTimes(2);
+        expect(result.processed).toBe(1);
+        expect(result.pending).toBe(0);
+        expect(result.conflicts).toHaveLength(1);
+        expect(result.conflicts[0]).toMatchObject({
+            message: 'Ya existe una sesión activa para este usuario',
+            discarded: 2,
+        });
+    });
+});
@@ -0,0 +1,243 @@
+// Json: tipo base para valores JSON (se usa en device_info).
+import type { Json } from '../types/database.types';
+
+/**
+ * Cola persistente de acciones de fichaje (offline-first).
+ *
+ * Cuando la red no está disponible, cada acción de `useSession` (iniciar, pausar,
+ * reanudar, cambiar de proyecto o de actividad, finalizar) se guarda en localStorage con su timestamp real del cliente.
+ * Al recuperar la conexión, la cola se reproduce en orden contra Supabase.
+ *
+ * Las sesiones creadas sin conexión reciben un id temporal (`local-...`) que se
+ * traduce al UUID real del servidor en cuanto se reproduce la acción `start`.
+ */
+
+/**
+ * Tipos de acción que se pueden encolar.
+ */
+export type QueuedActionType = 'start' | 'pause' | 'resume' | 'switch' | 'end';
+
+/**
+ * Acción de fichaje pendiente de sincronizar.
+ *
+ * @property {string} id - Identificador único de la acción.
+ * @property {QueuedActionType} type - Tipo de acción.
+ * @property {string} sessionId - Id de la sesión (real o temporal `local-...`).
+ * @property {string} timestamp - Timestamp ISO del momento real del fichaje en el cliente.
+ * @property {Json} [deviceInfo] - Info del dispositivo (solo para `start`).
+ * @property {string | null} [projectId] - Proyecto del tramo que se abre (`start` y `switch`).
+ * @property {string | null} [taskId] - Tarea del tramo que se abre (`start` y `switch`).
+ * @property {string | null} [activity] - Actividad del tramo que se abre (`start` y `switch`).
+ * @property {string | null} [pauseTypeId] - Tipo de la pausa que se abre (solo para `pause`).
+ */
+export interface QueuedAction {
+    id: string;
+    type: QueuedActionType;
+    sessionId: string;
+    timestamp: string;
+    deviceInfo?: Json;
+    projectId?: string | null;
+    taskId?: string | null;
+    activity?: string | null;
+    pauseTypeId?: string | null;
+}
+
+/**
+ * Conflicto producido cuando el servidor rechaza una acción reproducida
+ * (ej: el trigger `validate_single_active_session`).
+ *
+ * @property {QueuedAction} action - Acción rechazada.
+ * @property {string} message - Mensaje de error devuelto por el servidor.
+ * @property {number} discarded - Número de acciones descartadas (la rechazada y
+ *   las posteriores de la misma sesión, que dependían de ella).
+ */
+export interface SyncConflict {
+    action: QueuedAction;
+    message: string;
+    discarded: number;
+}
+
+/**
+ * Resultado de reproducir la cola.
+ */
+export interface ReplayResult {
+    processed: number;
+    pending: number;
+    conflicts: SyncConflict[];
+}
+
+/**
+ * Estructura almacenada en localStorage.
+ * - `actions`: acciones pendientes, en orden de creación.
+ * - `idMap`: traducción de ids temporales a ids reales del servidor.
+ * - `snapshot`: última sesión conocida en la UI, para restaurarla si se recarga sin red.
+ */
+interface QueueState {
+    actions: QueuedAction[];
+    idMap: Record<string, string>;
+    snapshot: unknown | null;
+}
+
+// Clave de almacenamiento en localStorage.
+const STORAGE_KEY = 'relojtiktak:offline-queue';
+
+// Prefijo de los ids temporales de sesiones y pausas creadas sin conexión.
+const LOCAL_ID_PREFIX = 'local-';
+
+const emptyState = (): QueueState => ({ actions: [], idMap: {}, snapshot: null });
+
+const readState = (): QueueState => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        if (!raw) return emptyState();
+        const parsed = JSON.parse(raw) as Partial<QueueState>;
+        return {
+            actions: parsed.actions ?? [],
+            idMap: parsed.idMap ?? {},
+            snapshot: parsed.snapshot ?? null,
+        };
+    } catch {
+        // Si el contenido está corrupto, se descarta para no bloquear la app.
+        return emptyState();
+    }
+};
+
+const writeState = (state: QueueState) => {
+    if (state.actions.length === 0) {
+        // Cola vacía: el snapshot ya no hace falta, pero se conserva la traducción
+        // de ids por si la UI aún referencia una sesión con id temporal.
+        if (Object.keys(state.idMap).length === 0) {
+            localStorage.removeItem(STORAGE_KEY);
+            return;
+        }
+        state.snapshot = null;
+    }
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+};
+
+/**
+ * Genera un id temporal para una sesión o pausa creada sin conexión.
+ */
+export const createLocalId = (): string => `${LOCAL_ID_PREFIX}${crypto.randomUUID()}`;
+
+/**
+ * Indica si un id es temporal (aún no existe en el servidor).
+ */
+export const isLocalId = (id: string): boolean => id.startsWith(LOCAL_ID_PREFIX);
+
+/**
+ * Devuelve las acciones pendientes, en orden.
+ */
+export function loadQueue(): QueuedAction[] {
+    return readState().actions;
+}
+
+/**
+ * Añade una acción al final de la cola y guarda el snapshot de la sesión local.
+ *
+ * @param {Object} action - Acción a encolar. Conserva su `id` si ya se intentó
+ *   aplicar en vivo, para que el reintento reutilice las mismas claves.
+ * @param {unknown} snapshot - Estado actual de la sesión en la UI (o null si no hay).
+ * @returns {QueuedAction[]} La cola resultante.
+ */
+export function enqueueAction(
+    action: Omit<QueuedAction, 'id'> & { id?: string },
+    snapshot: unknown | null
+): QueuedAction[] {
+    const state = readState();
+    state.actions.push({ ...action, id: action.id ?? crypto.randomUUID() });
+    state.snapshot = snapshot;
+    writeState(state);
+    return state.actions;
+}
+
+/**
+ * Devuelve la última sesión guardada junto a la cola (o null).
+ */
+export function loadSnapshot<T>(): T | null {
+    return readState().snapshot as T | null;
+}
+
+/**
+ * Traduce un id de sesión temporal al id real, si ya se conoce.
+ */
+export function resolveSessionId(sessionId: string): string {
+    return readState().idMap[sessionId] ?? sessionId;
+}
+
+/**
+ * Detecta si un error se debe a la falta de conexión (y no a un rechazo del servidor).
+ *
+ * Supabase no lanza excepciones en fallos de red: devuelve un error cuyo mensaje
+ * contiene el `TypeError` de `fetch`.
+ *
+ * @param {unknown} error - Error capturado.
+ * @returns {boolean} true si la acción debe reintentarse más tarde.
+ */
+export function isNetworkError(error: unknown): boolean {
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+    const message = error instanceof Error
+        ? error.message
+        : (error as { message?: string } | null)?.message ?? '';
+    return /failed to fetch|networkerror|network request failed|load failed|fetch failed/i.test(message);
+}
+
+/**
+ * Reproduce la cola de acciones en orden contra el servidor.
+ *
+ * Flujo por cada acción:
+ * 1. Traduce el id temporal de sesión al real (si ya se conoce).
+ * 2. Ejecuta `apply`. Si es un `start`, guarda el id real devuelto.
+ * 3. Si falla por red, se detiene y conserva el resto para el próximo intento.
+ * 4. Si el servidor la rechaza, registra el conflicto y descarta esa acción y
+ *    todas las posteriores de la misma sesión (dependen de ella).
+ *
+ * El progreso se persiste tras cada acción. Una acción que falla a medias
+ * (ej: se insertó la pausa pero no se actualizó la sesión) sigue en la cola y
+ * se reintenta entera: `apply` debe ser idempotente, y `applySessionAction` lo es
+ * porque usa el `id` de la acción como clave de las filas que crea.
+ *
+ * @param {Function} apply - Ejecuta una acción (con el id de sesión ya resuelto)
+ *   y devuelve el id real de la sesión para acciones `start`.
+ * @returns {Promise<ReplayResult>} Resumen de la reproducción.
+ */
+export async function replayQueue(
+    apply: (action: QueuedAction) => Promise<string | null>
+): Promise<ReplayResult> {
+    const conflicts: SyncConflict[] = [];
+    let processed = 0;
+
+    for (;;) {
+        const action = readState().actions[0];
+        if (!action) break;
+
+        try {
+            const serverId = await apply({ ...action, sessionId: resolveSessionId(action.sessionId) });
+
+            // Se relee el estado: pueden haberse encolado acciones durante la espera.
+            const state = readState();
+            if (action.type === 'start' && serverId) {
+                state.idMap[action.sessionId] = serverId;
+            }
+            state.actions = state.actions.filter(a => a.id !== action.id);
+            writeState(state);
+            processed++;
+        } catch (error) {
+            if (isNetworkError(error)) break;
+
+            const state = readState();
+            const remaining = state.actions.filter(
+                a => a.id !== action.id && a.sessionId !== action.sessionId
+            );
+            conflicts.push({
+                action,
+                message: (error as { message?: string })?.message ?? String(error),
+                discarded: state.actions.length - remaining.length,
+            });
+            state.actions = remaining;
+            writeState(state);
+        }
+    }
+
+    return { processed, pending: loadQueue().length, conflicts };
+}
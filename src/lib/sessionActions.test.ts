@@ -0,0 +1,73 @@
+// Funciones de Vitest para definir suites de test, casos individuales, mocks y aserciones.
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Funciones a testear: aplicación de fichajes y reproducción de la cola offline.
+import { applySessionAction } from './sessionActions';
+import { enqueueAction, loadQueue, replayQueue } from './offlineQueue';
+
+/**
+ * Mock del cliente de Supabase.
+ *
+ * `upsert` registra las filas insertadas; `update().eq()` devuelve los
+ * resultados encolados en `updateResults` (por defecto, sin error).
+ */
+const { mockSupabase, upsert, updateResults } = vi.hoisted(() => {
+    const upsert = vi.fn(() => Promise.resolve({ error: null }));
+    const updateResults: { error: unknown }[] = [];
+    const update = vi.fn(() => ({
+        eq: vi.fn(() => Promise.resolve(updateResults.shift() ?? { error: null })),
+    }));
+    return {
+        upsert,
+        updateResults,
+        mockSupabase: {
+            from: vi.fn(() => ({ upsert, update })),
+        },
+    };
+});
+
+vi.mock('./supabase', () => ({
+    supabase: mockSupabase,
+}));
+
+/**
+ * Suite de tests de `applySessionAction` reproducida desde la cola offline.
+ *
+ * Verifica que reintentar una acción que falló a medias no duplica filas.
+ */
+describe('applySessionAction', () => {
+    beforeEach(() => {
+        localStorage.clear();
+        vi.clearAllMocks();
+        updateResults.length = 0;
+    });
+
+    /**
+     * Test: Si la pausa se inserta pero la actualización de la sesión falla por
+     * red, el reintento vuelve a insertar la pausa con la misma clave, de modo
+     * que el servidor la ignora en lugar de crear otra.
+     */
+    it('should retry a half-applied pause with the same row key', async () => {
+        enqueueAction({ type: 'pause', sessionId: 'server-1', timestamp: '2024-01-01T10:00:00Z' }, null);
+        const [queued] = loadQueue();
+
+        updateResults.push({ error: { message: 'TypeError: Failed to fetch' } });
+        const apply = async (action: Parameters<typeof applySessionAction>[0]) => {
+            await applySessionAction(action);
+            return null;
+        };
+
+        const first = await replayQueue(apply);
+        expect(first).toMatchObject({ processed: 0, pending: 1 });
+        expect(loadQueue()[0].id).toBe(queued.id);
+
+        const second = await replayQueue(apply);
+        expect(second).toMatchObject({ processed: 1, pending: 0 });
+
+        expect(upsert).toHaveBeenCalledTimes(2);
+        for (const [row, options] of upsert.mock.calls as unknown as [{ id: string }, object][]) {
+            expect(row.id).toBe(queued.id);
+            expect(options).toEqual({ onConflict: 'id', ignoreDuplicates: true });
+        }
+    });
+});
@@ -0,0 +1,188 @@
+// supabase: instancia del cliente de Supabase.
+import { supabase } from './supabase';
+
+// QueuedAction: acción de fichaje con su timestamp real del cliente.
+// isNetworkError: distingue fallos de red (reintentables) de rechazos del servidor.
+import { isNetworkError, type QueuedAction } from './offlineQueue';
+
+// Database: tipos generados de la base de datos.
+import type { Database } from '../types/database.types';
+
+/**
+ * Sesión de trabajo con todas sus pausas y sus tramos (proyecto y actividad).
+ */
+export type WorkSessionWithPauses = Database['public']['Tables']['work_sessions']['Row'] & {
+    work_pauses: Database['public']['Tables']['work_pauses']['Row'][];
+    work_segments: Database['public']['Tables']['work_segments']['Row'][];
+};
+
+/**
+ * Cierra el tramo abierto de una sesión y, si se indica, abre otro en el
+ * mismo instante con su proyecto, tarea y actividad.
+ *
+ * El tramo nuevo usa el id de la acción: si un reintento repite la acción,
+ * no se cierra ese tramo ni se inserta otro.
+ */
+async function closeAndOpenSegment(action: QueuedAction, openNext: boolean) {
+    const { error: closeError } = await supabase
+        .from('work_segments')
+        .update({ segment_end: action.timestamp })
+        .eq('session_id', action.sessionId)
+        .is('segment_end', null)
+        .neq('id', action.id);
+
+    if (closeError) throw closeError;
+    if (!openNext) return;
+
+    const { error: openError } = await supabase
+        .from('work_segments')
+        .upsert({
+            id: action.id,
+            session_id: action.sessionId,
+            project_id: action.projectId ?? null,
+            task_id: action.taskId ?? null,
+            activity: action.activity ?? null,
+            segment_start: action.timestamp,
+        }, { onConflict: 'id', ignoreDuplicates: true });
+
+    if (openError) throw openError;
+}
+
+/**
+ * Aplica una acción de fichaje contra Supabase usando el timestamp del cliente.
+ *
+ * Es el único punto que escribe fichajes en `work_sessions`/`work_pauses`/`work_segments`:
+ * lo usa `useSession` tanto para las acciones en vivo como para reproducir la
+ * cola offline, de modo que ambas rutas producen exactamente los mismos registros.
+ *
+ * Los errores de Supabase se lanzan tal cual para que el llamador distinga
+ * entre fallos de red (reintentables) y rechazos del servidor (conflictos).
+ *
+ * Es idempotente: las filas que crea (sesión, primer tramo, pausa, tramo nuevo)
+ * usan `action.id` como clave y se insertan con `ON CONFLICT DO NOTHING`, y las
+ * actualizaciones fijan valores absolutos. Reintentar una acción que falló a
+ * medias no duplica fichajes.
+ *
+ * @param {QueuedAction} action - Acción con el id real de la sesión ya resuelto.
+ * @returns {Promise<WorkSessionWithPauses | null>} La sesión creada en acciones
+ *   `start`; null en el resto.
+ * @throws {Error} Si no hay usuario autenticado o el servidor rechaza la acción.
+ */
+export async function applySessionAction(action: QueuedAction): Promise<WorkSessionWithPauses | null> {
+    switch (action.type) {
+        case 'start': {
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) throw new Error('No authenticated user');
+
+            const { error: sessionError } = await supabase
+                .from('work_sessions')
+                .upsert({
+                    id: action.id,
+                    user_id: user.id,
+                    start_time: action.timestamp,
+                    status: 'active',
+                    device_info: action.deviceInfo ?? null
+                }, { onConflict: 'id', ignoreDuplicates: true });
+
+            if (sessionError) throw sessionError;
+
+            // Primer tramo de la sesión, con el proyecto y la actividad elegidos (o sin ellos).
+            // Si el servidor lo rechaza, la sesión ya existe: no se rechaza el fichaje
+            // y su tiempo queda sin proyecto hasta el siguiente cambio. Un fallo de
+            // red sí se lanza para reintentar la acción entera.
+            const { error: segmentError } = await supabase
+                .from('work_segments')
+                .upsert({
+                    id: action.id,
+                    session_id: action.id,
+                    project_id: action.projectId ?? null,
+                    task_id: action.taskId ?? null,
+                    activity: action.activity ?? null,
+                    segment_start: action.timestamp,
+                }, { onConflict: 'id', ignoreDuplicates: true });
+
+            if (segmentError) {
+                if (isNetworkError(segmentError)) throw segmentError;
+                console.error('Error opening first segment:', segmentError);
+            }
+
+            const { data, error } = await supabase
+                .from('work_sessions')
+                .select('*, work_pauses(*), work_segments(*)')
+                .eq('id', action.id)
+                .single();
+
+            if (error) throw error;
+            return data as WorkSessionWithPauses;
+        }
+
+        case 'pause': {
+            const { error: pauseError } = await supabase
+                .from('work_pauses')
+                .upsert({
+                    id: action.id,
+                    session_id: action.sessionId,
+                    pause_start: action.timestamp,
+                    pause_type_id: action.pauseTypeId ?? null,
+                }, { onConflict: 'id', ignoreDuplicates: true });
+
+            if (pauseError) throw pauseError;
+
+            const { error: sessionError } = await supabase
+                .from('work_sessions')
+                .update({ status: 'paused' })
+                .eq('id', action.sessionId);
+
+            if (sessionError) throw sessionError;
+            return null;
+        }
+
+        case 'resume': {
+            const { error: pauseError } = await supabase
+                .from('work_pauses')
+                .update({ pause_end: action.timestamp })
+                .eq('session_id', action.sessionId)
+                .is('pause_end', null);
+
+            if (pauseError) throw pauseError;
+
+            const { error: sessionError } = await supabase
+                .from('work_sessions')
+                .update({ status: 'active' })
+                .eq('id', action.sessionId);
+
+            if (sessionError) throw sessionError;
+            return null;
+        }
+
+        case 'switch': {
+            await closeAndOpenSegment(action, true);
+            return null;
+        }
+
+        case 'end': {
+            // Cierra una posible pausa abierta en el momento del fin.
+            const { error: pauseError } = await supabase
+                .from('work_pauses')
+                .update({ pause_end: action.timestamp })
+                .eq('session_id', action.sessionId)
+                .is('pause_end', null);
+
+            if (pauseError) throw pauseError;
+
+            await closeAndOpenSegment(action, false);
+
+            // La duración neta (total_duration) la calcula el trigger de la base de datos.
+            const { error } = await supabase
+                .from('work_sessions')
+                .update({
+                    end_time: action.timestamp,
+                    status: 'completed'
+                })
+                .eq('id', action.sessionId);
+
+            if (error) throw error;
+            return null;
+        }
+    }
+}
@@ -0,0 +1,59 @@
+import writeXlsxFile, { type SheetData } from 'write-excel-file/browser';
+import {
+    PROJECT_SUMMARY_HEADERS,
+    SESSION_EXPORT_HEADERS,
+    type ProjectSummaryRow,
+    type SessionExportRow
+} from '../utils/sessionExport';
+
+/**
+ * Genera el libro XLSX del historial de sesiones.
+ *
+ * Inicio y fin se escriben como fechas y las horas decimales como números,
+ * para que puedan sumarse directamente en la hoja de nóminas. Una segunda
+ * hoja resume el tiempo del rango por proyecto.
+ *
+ * @param {SessionExportRow[]} rows - Filas generadas con `buildSessionExportRows`.
+ * @param {ProjectSummaryRow[]} projectRows - Totales generados con `buildProjectSummaryRows`.
+ * @returns {Promise<Blob>} Archivo XLSX listo para descargar.
+ */
+export function createSessionsXlsx(rows: SessionExportRow[], projectRows: ProjectSummaryRow[]): Promise<Blob> {
+    const data: SheetData = [
+        SESSION_EXPORT_HEADERS.map(header => ({ value: header, fontWeight: 'bold' as const })),
+        ...rows.map(row => [
+            { value: row.start, type: Date, format: 'yyyy-mm-dd hh:mm:ss' },
+            row.end ? { value: row.end, type: Date, format: 'yyyy-mm-dd hh:mm:ss' } : null,
+            row.netDuration,
+            { value: row.netHours, type: Number, format: '0.00' },
+            row.pauseCount,
+            row.pauseDetails,
+            row.projects,
+            row.notes,
+            row.device,
+        ]),
+    ];
+
+    const projectData: SheetData = [
+        PROJECT_SUMMARY_HEADERS.map(header => ({ value: header, fontWeight: 'bold' as const })),
+        ...projectRows.map(row => [
+            row.project,
+            row.netDuration,
+            { value: row.netHours, type: Number, format: '0.00' },
+        ]),
+    ];
+
+    return writeXlsxFile([
+        {
+            data,
+            sheet: 'Sesiones',
+            columns: [{ width: 20 }, { width: 20 }, { width: 14 }, { width: 14 }, { width: 10 }, { width: 50 }, { width: 50 }, { width: 40 }, { width: 40 }],
+            stickyRowsCount: 1,
+        },
+        {
+            data: projectData,
+            sheet: 'Proyectos',
+            columns: [{ width: 50 }, { width: 14 }, { width: 14 }],
+            stickyRowsCount: 1,
+        },
+    ]).toBlob();
+}
@@ -0,0 +1,90 @@
+import { jsPDF } from 'jspdf';
+import { autoTable } from 'jspdf-autotable';
+import { formatRegisterHours, type WorkRegister } from '../utils/workRegister';
+
+const MONTHS = ['Enero', 'Febrero', 'Marzo', 'Abril', 'Mayo', 'Junio', 'Julio', 'Agosto', 'Septiembre', 'Octubre', 'Noviembre', 'Diciembre'];
+
+/**
+ * Formatea "YYYY-MM-DD" como "DD/MM/YYYY".
+ */
+const formatDay = (key: string) => key.split('-').reverse().join('/');
+
+/**
+ * Genera el PDF del registro de jornada mensual.
+ *
+ * Contenido: cabecera con empresa/trabajador/periodo, tabla diaria (entrada,
+ * salida, pausas, horas netas y total del día), totales semanales, total
+ * mensual y líneas de firma de la empresa y del trabajador.
+ *
+ * @param {WorkRegister} register - Registro generado con `buildWorkRegister`.
+ * @returns {Blob} Documento PDF listo para descargar.
+ */
+export function createWorkRegisterPdf(register: WorkRegister): Blob {
+    const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const period = `${MONTHS[register.month - 1]} ${register.year}`;
+
+    doc.setFontSize(16);
+    doc.text('Registro de Jornada', 14, 18);
+    doc.setFontSize(10);
+    doc.text(`Trabajador: ${register.employeeName}`, 14, 26);
+    doc.text(`Email: ${register.employeeEmail}`, 14, 31);
+    doc.text(`Periodo: ${period}`, 14, 36);
+    doc.text(`Generado: ${new Date(register.generatedAt).toLocaleString('es-ES')}`, pageWidth - 14, 36, { align: 'right' });
+
+    // Tabla diaria: una fila por fichaje; los días sin fichajes aparecen vacíos.
+    const body = register.days.flatMap(day => {
+        if (day.entries.length === 0) {
+            return [[formatDay(day.date), '', '', '', '', '']];
+        }
+        return day.entries.map((entry, index) => [
+            index === 0 ? formatDay(day.date) : '',
+            entry.entry,
+            entry.exit,
+            entry.pauses + (entry.manual ? ' (manual)' : ''),
+            formatRegisterHours(entry.netSeconds),
+            index === day.entries.length - 1 ? formatRegisterHours(day.totalSeconds) : '',
+        ]);
+    });
+
+    let cursorY = 42;
+    autoTable(doc, {
+        startY: cursorY,
+        head: [['Fecha', 'Entrada', 'Salida', 'Pausas', 'Horas netas', 'Total día']],
+        body,
+        styles: { fontSize: 8 },
+        headStyles: { fillColor: [40, 40, 40] },
+        didDrawPage: data => { cursorY = data.cursor?.y ?? cursorY; },
+    });
+
+    autoTable(doc, {
+        startY: cursorY + 6,
+        head: [['Semana', 'Desde', 'Hasta', 'Horas']],
+        body: [
+            ...register.weeks.map((week, index) => [
+                `${index + 1}`,
+                formatDay(week.from),
+                formatDay(week.to),
+                formatRegisterHours(week.totalSeconds),
+            ]),
+            [{ content: 'Total mensual', colSpan: 3, styles: { fontStyle: 'bold' } }, formatRegisterHours(register.totalSeconds)],
+        ],
+        styles: { fontSize: 8 },
+        headStyles: { fillColor: [40, 40, 40] },
+        tableWidth: 110,
+        didDrawPage: data => { cursorY = data.cursor?.y ?? cursorY; },
+    });
+
+    // Líneas de firma: si no caben en la página actual, se pasan a una nueva.
+    let signatureY = cursorY + 30;
+    if (signatureY > doc.internal.pageSize.getHeight() - 20) {
+        doc.addPage();
+        signatureY = 40;
+    }
+    doc.line(14, signatureY, 90, signatureY);
+    doc.line(pageWidth - 90, signatureY, pageWidth - 14, signatureY);
+    doc.text('Firma de la empresa', 14, signatureY + 5);
+    doc.text('Firma del trabajador', pageWidth - 90, signatureY + 5);
+
+    return doc.output('blob');
+}
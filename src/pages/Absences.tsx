@@ -0,0 +1,285 @@
+import { useState } from 'react';
+import { Check, X, Palmtree, Trash2, ClipboardCheck } from 'lucide-react';
+import { useOrganization } from '../hooks/useOrganization';
+import { useAbsences, type Absence, type AbsenceInput } from '../hooks/useAbsences';
+import { useWorkSchedules } from '../hooks/useWorkSchedules';
+import { useUserHolidays } from '../hooks/useUserHolidays';
+import { toDateKey } from '../utils/schedule';
+import {
+    ABSENCE_TYPES,
+    ABSENCE_TYPE_LABELS,
+    countAbsenceDays,
+    getAllowanceUsage
+} from '../utils/absences';
+
+const STATUS_STYLES: Record<Absence['status'], { label: string; className: string }> = {
+    pending: { label: 'Pendiente', className: 'bg-yellow-500/10 text-yellow-600 dark:text-yellow-400' },
+    approved: { label: 'Aprobada', className: 'bg-green-500/10 text-green-600 dark:text-green-400' },
+    rejected: { label: 'Rechazada', className: 'bg-red-500/10 text-red-600 dark:text-red-400' },
+};
+
+const inputClass = 'bg-white dark:bg-dark-bg border border-gray-200 dark:border-white/10 rounded-lg p-2 text-sm text-gray-900 dark:text-white focus:border-primary-lime outline-none';
+
+const StatusBadge = ({ status }: { status: Absence['status'] }) => (
+    <span className={`text-xs font-medium px-2 py-1 rounded shrink-0 ${STATUS_STYLES[status].className}`}>
+        {STATUS_STYLES[status].label}
+    </span>
+);
+
+// "12/08/2024" or "12/08/2024 - 16/08/2024", plus "(media jornada)"
+const formatRange = (absence: Pick<Absence, 'start_date' | 'end_date' | 'half_day'>) => {
+    const format = (date: string) => new Date(`${date}T00:00`).toLocaleDateString('es-ES');
+    const range = absence.start_date === absence.end_date
+        ? format(absence.start_date)
+        : `${format(absence.start_date)} - ${format(absence.end_date)}`;
+    return absence.half_day ? `${range} (media jornada)` : range;
+};
+
+export default function Absences() {
+    const { organization, role, members } = useOrganization();
+    const { schedules } = useWorkSchedules();
+    const { holidayDates } = useUserHolidays();
+    const {
+        absences,
+        pendingReviews,
+        allowances,
+        loading,
+        error,
+        requestAbsence,
+        cancelAbsence,
+        reviewAbsence
+    } = useAbsences();
+
+    const [today] = useState(() => new Date());
+    const [form, setForm] = useState<AbsenceInput>(() => ({
+        absence_type: 'vacation',
+        start_date: toDateKey(today),
+        end_date: toDateKey(today),
+        half_day: false,
+        notes: ''
+    }));
+    const [formError, setFormError] = useState<string | null>(null);
+    const [comments, setComments] = useState<Record<string, string>>({});
+
+    const year = today.getFullYear();
+    const usage = getAllowanceUsage(absences, schedules, year, holidayDates);
+    const singleDay = form.start_date === form.end_date;
+
+    const memberName = (userId: string) => {
+        const member = members.find(m => m.user_id === userId);
+        return member?.full_name || member?.email || userId.slice(0, 8);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (form.end_date < form.start_date) {
+            setFormError('La fecha de fin debe ser igual o posterior a la de inicio');
+            return;
+        }
+        setFormError(null);
+
+        const input = { ...form, half_day: singleDay && form.half_day };
+        if (await requestAbsence(input)) setForm(prev => ({ ...prev, notes: '' }));
+    };
+
+    const handleReview = async (absence: Absence, decision: 'approved' | 'rejected') => {
+        const comment = (comments[absence.id] ?? '').trim();
+        if (await reviewAbsence(absence.id, decision, comment)) {
+            setComments(prev => ({ ...prev, [absence.id]: '' }));
+        }
+    };
+
+    const canReview = role === 'manager' || role === 'admin';
+
+    return (
+        <div className="space-y-8">
+            {/* Header */}
+            <div>
+                <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+                    <span className="text-primary-lime">Ausencias</span>
+                </h1>
+                <p className="text-gray-500 dark:text-gray-400">
+                    Registra vacaciones, bajas, festivos y otras ausencias. Los días aprobados no cuentan como horas previstas.
+                </p>
+            </div>
+
+            {error && <p className="text-sm text-red-500">{error}</p>}
+
+            {/* Yearly allowance per type */}
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                {ABSENCE_TYPES.map(type => (
+                    <div key={type} className="glass-card p-4">
+                        <div className="text-sm text-gray-500">{ABSENCE_TYPE_LABELS[type]}</div>
+                        <div className="text-xl font-bold text-gray-900 dark:text-white">
+                            {usage[type]}
+                            {allowances[type] !== undefined && <span className="text-gray-500"> / {allowances[type]}</span>}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                            {allowances[type] !== undefined
+                                ? `días en ${year} (quedan ${Math.max(0, allowances[type] - usage[type])})`
+                                : `días en ${year}`}
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {/* Request form */}
+            <form onSubmit={handleSubmit} className="glass-card p-6 space-y-4">
+                <h2 className="flex items-center gap-2 text-xl font-bold text-gray-900 dark:text-white">
+                    <Palmtree size={20} className="text-primary-lime" />
+                    Nueva ausencia
+                </h2>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                    <label className="flex flex-col gap-1 text-sm text-gray-600 dark:text-gray-400">
+                        Tipo
+                        <select
+                            value={form.absence_type}
+                            onChange={e => setForm(prev => ({ ...prev, absence_type: e.target.value as AbsenceInput['absence_type'] }))}
+                            className={inputClass}
+                        >
+                            {ABSENCE_TYPES.map(type => (
+                                <option key={type} value={type}>{ABSENCE_TYPE_LABELS[type]}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="flex flex-col gap-1 text-sm text-gray-600 dark:text-gray-400">
+                        Desde
+                        <input
+                            type="date"
+                            required
+                            value={form.start_date}
+                            onChange={e => setForm(prev => ({
+                                ...prev,
+                                start_date: e.target.value,
+                                end_date: prev.end_date < e.target.value ? e.target.value : prev.end_date
+                            }))}
+                            className={inputClass}
+                        />
+                    </label>
+                    <label className="flex flex-col gap-1 text-sm text-gray-600 dark:text-gray-400">
+                        Hasta (incluido)
+                        <input
+                            type="date"
+                            required
+                            min={form.start_date}
+                            value={form.end_date}
+                            onChange={e => setForm(prev => ({ ...prev, end_date: e.target.value }))}
+                            className={inputClass}
+                        />
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 md:mt-6">
+                        <input
+                            type="checkbox"
+                            checked={singleDay && form.half_day}
+                            disabled={!singleDay}
+                            onChange={e => setForm(prev => ({ ...prev, half_day: e.target.checked }))}
+                        />
+                        Media jornada
+                    </label>
+                </div>
+                <div className="flex flex-wrap gap-3">
+                    <input
+                        value={form.notes}
+                        onChange={e => setForm(prev => ({ ...prev, notes: e.target.value }))}
+                        placeholder="Comentario (opcional)"
+                        className={`${inputClass} flex-1 min-w-[200px]`}
+                    />
+                    <button type="submit" className="px-4 py-2 bg-primary-lime text-dark-bg font-bold rounded-lg hover:bg-secondary-lime">
+                        {organization ? 'Solicitar' : 'Registrar'}
+                    </button>
+                </div>
+                {formError && <p className="text-sm text-red-500">{formError}</p>}
+            </form>
+
+            {/* Pending reviews (managers and admins) */}
+            {canReview && (
+                <div className="glass-card p-6 space-y-4">
+                    <h2 className="flex items-center gap-2 text-xl font-bold text-gray-900 dark:text-white">
+                        <ClipboardCheck size={20} className="text-primary-lime" />
+                        Pendientes de revisión ({pendingReviews.length})
+                    </h2>
+
+                    {pendingReviews.length === 0 && (
+                        <p className="text-sm text-gray-500 italic">No hay ausencias pendientes.</p>
+                    )}
+
+                    {pendingReviews.map(absence => (
+                        <div key={absence.id} className="p-4 rounded-lg bg-gray-50 dark:bg-white/5 space-y-3">
+                            <div>
+                                <div className="font-medium text-gray-900 dark:text-white">
+                                    {memberName(absence.user_id)} · {ABSENCE_TYPE_LABELS[absence.absence_type]}
+                                </div>
+                                <div className="text-xs text-gray-500">{formatRange(absence)}</div>
+                                {absence.notes && <div className="text-xs text-gray-500 italic">"{absence.notes}"</div>}
+                            </div>
+                            <div className="flex flex-wrap gap-2">
+                                <input
+                                    value={comments[absence.id] ?? ''}
+                                    onChange={e => setComments(prev => ({ ...prev, [absence.id]: e.target.value }))}
+                                    placeholder="Comentario (obligatorio para rechazar)"
+                                    className={`${inputClass} flex-1 min-w-[200px]`}
+                                />
+                                <button
+                                    onClick={() => handleReview(absence, 'approved')}
+                                    className="flex items-center gap-1 px-3 py-2 bg-primary-lime text-dark-bg font-bold rounded-lg hover:bg-secondary-lime text-sm"
+                                >
+                                    <Check size={16} />
+                                    Aprobar
+                                </button>
+                                <button
+                                    onClick={() => handleReview(absence, 'rejected')}
+                                    disabled={!(comments[absence.id] ?? '').trim()}
+                                    className="flex items-center gap-1 px-3 py-2 text-red-500 border border-red-500/30 rounded-lg hover:bg-red-500/10 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    <X size={16} />
+                                    Rechazar
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Own absences */}
+            <div className="space-y-4">
+                <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Mis ausencias</h2>
+                {loading ? (
+                    <div className="text-center py-8 text-gray-500">Cargando ausencias...</div>
+                ) : absences.length === 0 ? (
+                    <div className="text-center py-8 text-gray-500 glass-card">No has registrado ninguna ausencia.</div>
+                ) : (
+                    <div className="grid gap-3">
+                        {absences.map(absence => (
+                            <div key={absence.id} className="glass-card p-4 flex flex-wrap items-center justify-between gap-3">
+                                <div>
+                                    <div className="font-medium text-gray-900 dark:text-white">
+                                        {ABSENCE_TYPE_LABELS[absence.absence_type]}
+                                        <span className="ml-2 text-sm font-normal text-gray-500">
+                                            {countAbsenceDays(absence, schedules, undefined, holidayDates)} día(s)
+                                        </span>
+                                    </div>
+                                    <div className="text-sm text-gray-500">{formatRange(absence)}</div>
+                                    {absence.review_comment && (
+                                        <div className="text-xs text-gray-500 italic">"{absence.review_comment}"</div>
+                                    )}
+                                </div>
+                                <div className="flex items-center gap-3">
+                                    <StatusBadge status={absence.status} />
+                                    {(absence.status === 'pending' || !organization) && (
+                                        <button
+                                            onClick={() => cancelAbsence(absence.id)}
+                                            className="p-2 text-red-400 hover:bg-red-400/10 rounded-lg transition-colors"
+                                            title="Retirar ausencia"
+                                        >
+                                            <Trash2 size={16} />
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
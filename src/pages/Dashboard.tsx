@@ -5,13 +5,31 @@ import { useNavigate } from 'react-router-dom';
 // useAuth: hook de autenticación para obtener datos del usuario.
 import { useAuth } from '../hooks/useAuth';
 
+// useTimeZone: zona horaria del perfil (fecha de hoy).
+import { useTimeZone } from '../hooks/useTimeZone';
+
 // useSession: hook principal que gestiona el ciclo de vida de la sesión de trabajo.
 import { useSession } from '../hooks/useSession';
 
 // Íconos de lucide-react:
 // Play: iniciar/reanudar. Pause: pausar. Square: detener/finalizar.
 // Clock: reloj. Coffee: café/pausas. ClipboardList: sesiones. AlertTriangle: advertencia.
-import { Play, Pause, Square, Clock, Coffee, ClipboardList, AlertTriangle } from 'lucide-react';
+// WifiOff: sin conexión / fichajes pendientes de sincronizar. PiggyBank: bolsa de horas.
+import { Play, Pause, Square, Clock, Coffee, ClipboardList, AlertTriangle, WifiOff, PiggyBank } from 'lucide-react';
+
+// useProjects: proyectos y tareas a los que se imputa el tiempo.
+import { useProjects } from '../hooks/useProjects';
+
+// ProjectPicker: selector de proyecto y tarea al iniciar o durante la jornada.
+import { ProjectPicker } from '../components/projects/ProjectPicker';
+import { NO_PROJECT, type ProjectSelection } from '../utils/projects';
+
+// ActivityPicker: actividad en curso ("Soporte", "Desarrollo"...) y cambio de actividad.
+import { ActivityPicker } from '../components/activities/ActivityPicker';
+import { ACTIVITY_SUGGESTIONS } from '../utils/activities';
+
+// usePauseTypes: tipos de pausa (retribuida o no) que se eligen al pausar.
+import { usePauseTypes, type PauseType } from '../hooks/usePauseTypes';
 
 // HistoryList: componente que muestra el historial de sesiones completadas.
 import { HistoryList } from '../components/history/HistoryList';
@@ -20,6 +38,15 @@ import { HistoryList } from '../components/history/HistoryList';
 import { Modal } from '../components/ui/Modal';
 import { formatTime } from '../utils/time';
 import { useWeeklyStats } from '../hooks/useWeeklyStats';
+import { formatBalance } from '../utils/hourBalance';
+
+// useCompliance: avisos de descansos obligatorios y máximo semanal.
+import { useCompliance } from '../hooks/useCompliance';
+import { COMPLIANCE_RULE_LABELS } from '../utils/compliance';
+
+// Hora de salida de una sesión olvidada: conversión del input y validación.
+import { fromDateTimeLocal, toDateTimeLocal } from '../utils/date';
+import { getLastActionTime, validateForgottenSessionEnd } from '../utils/sessionRules';
 
 /**
  * Página principal del Dashboard (panel de control).
@@ -30,26 +57,41 @@ import { useWeeklyStats } from '../hooks/useWeeklyStats';
  * 1. **Encabezado**: Saludo personalizado con nombre del usuario y fecha actual.
  *
  * 2. **Tarjeta del cronómetro**: Componente central con:
- *    - Badge de estado (sin sesión / en curso / pausada) con animaciones.
+ *    - Badge de estado (sin sesión / en curso / pausada, con el tipo de pausa) con animaciones.
  *    - Display del cronómetro en formato grande HH:MM:SS.
  *    - Botones de control (Iniciar / Pausar-Reanudar / Finalizar).
+ *    - Selector de proyecto: el de la jornada que se va a iniciar o, con la
+ *      sesión en curso, cambia de proyecto sin parar el cronómetro.
+ *    - Actividad actual y el tiempo que lleva en ella; cambiarla abre un
+ *      nuevo tramo de la sesión, igual que el proyecto.
  *    - Efecto visual de fondo animado cuando la sesión está activa.
  *
- * 3. **Estadísticas rápidas**: Tarjetas con horas semanales, conteo de pausas
- *    y acceso directo a todas las sesiones.
+ * 3. **Estadísticas rápidas**: Tarjetas con horas semanales, bolsa de horas
+ *    (saldo frente al horario laboral), conteo de pausas y acceso directo a
+ *    todas las sesiones.
  *
  * 4. **Historial**: Lista de las últimas sesiones completadas (componente HistoryList).
  *
  * 5. **Modal de confirmación**: Diálogo para confirmar la finalización de la jornada.
+ *    Y, si hay tipos de pausa configurados, un diálogo para elegir el tipo al pausar.
  *
- * 6. **Modal de sesión abandonada**: Diálogo para recuperar o descartar
- *    una sesión que quedó abierta en una visita anterior.
+ * 6. **Modal de sesión abandonada**: Diálogo para recuperar, descartar o
+ *    indicar la hora real de salida de una sesión que quedó abierta más allá
+ *    del límite de cierre automático.
+ *
+ * 7. **Aviso offline**: Indica que no hay conexión o que quedan fichajes por
+ *    sincronizar, y un modal si el servidor rechazó alguno al sincronizar.
+ *
+ * 8. **Avisos de descansos**: Jornadas de esta semana sin el descanso de
+ *    15 min, con menos de 12 h de descanso desde la anterior o con las que se
+ *    superan las 40 h semanales. Se recalculan al finalizar la jornada.
  */
 export default function Dashboard() {
     const navigate = useNavigate();
 
     // Datos del usuario autenticado.
     const { user } = useAuth();
+    const { timeZone } = useTimeZone();
 
     // Desestructura todas las propiedades del hook de sesión.
     const {
@@ -60,45 +102,126 @@ export default function Dashboard() {
         isPaused,         // Si la sesión está pausada.
         loading,          // Si se está procesando una operación.
         pauseCount,       // Número de pausas en la sesión actual.
+        currentProject,   // Proyecto y tarea del tramo en curso (o null).
+        currentActivity,  // Actividad del tramo en curso (o null).
+        activityElapsedTime, // Tiempo en la actividad actual "HH:MM:SS".
         startSession,     // Función para iniciar sesión de trabajo.
         pauseSession,     // Función para pausar la sesión.
         resumeSession,    // Función para reanudar la sesión.
+        switchProject,    // Función para cambiar de proyecto sin parar la sesión.
+        switchActivity,   // Función para cambiar de actividad sin parar la sesión.
         endSession,       // Función para finalizar la sesión.
         recoverSession,   // Función para recuperar una sesión abandonada.
-        discardSession    // Función para descartar una sesión abandonada.
+        discardSession,   // Función para descartar una sesión abandonada.
+        closeAbandonedSession, // Función para cerrar una sesión abandonada a una hora dada.
+        isOnline,         // Si el navegador tiene conexión.
+        pendingActions,   // Fichajes offline pendientes de sincronizar.
+        syncConflict,     // Fichaje rechazado por el servidor al sincronizar, o null.
+        dismissSyncConflict // Cierra el aviso de conflicto.
     } = useSession();
 
-    const { totalWeeklySeconds } = useWeeklyStats({
+    const { totalWeeklySeconds, expectedWeeklySeconds, hourBalance } = useWeeklyStats({
         elapsedSeconds,
-        hasActiveSession: !!activeSession
+        activeSession
     });
 
+    // Proyectos disponibles y el elegido para la próxima jornada.
+    const { projects, tasks } = useProjects();
+    const [nextProject, setNextProject] = useState<ProjectSelection>(NO_PROJECT);
+
+    // Actividad para la próxima jornada y sugerencias (las habituales y las ya usadas hoy).
+    const [nextActivity, setNextActivity] = useState<string | null>(null);
+    const activitySuggestions = [...new Set([
+        ...ACTIVITY_SUGGESTIONS,
+        ...(activeSession?.work_segments ?? []).flatMap(segment => segment.activity ? [segment.activity] : [])
+    ])];
+
     // Controla la visibilidad del modal de confirmación de fin de jornada.
     const [isEndModalOpen, setIsEndModalOpen] = useState(false);
 
+    // Hora de salida que indica el usuario para la sesión abandonada ("YYYY-MM-DDThh:mm";
+    // null = formulario oculto) y su error de validación o guardado.
+    const [manualEnd, setManualEnd] = useState<string | null>(null);
+    const [manualEndError, setManualEndError] = useState<string | null>(null);
+
+    // Error al recuperar o descartar la sesión abandonada (ej: periodo aprobado).
+    const [abandonedError, setAbandonedError] = useState<string | null>(null);
+
+    // Tipos de pausa que se ofrecen al pausar (sin los archivados) y el de la pausa en curso.
+    const { pauseTypes } = usePauseTypes();
+    const availablePauseTypes = pauseTypes.filter(pauseType => !pauseType.archived);
+    const [isPauseModalOpen, setIsPauseModalOpen] = useState(false);
+    const openPause = activeSession?.work_pauses.find(pause => !pause.pause_end);
+    const openPauseType = pauseTypes.find(pauseType => pauseType.id === openPause?.pause_type_id);
+
     // Trigger para refrescar el historial después de finalizar una sesión.
     // Se incrementa cada vez que se completa una sesión para que HistoryList recargue.
     const [refreshTrigger, setRefreshTrigger] = useState(0);
 
+    // Incumplimientos de descansos y jornada de esta semana (incluida la sesión en curso).
+    const { issues: complianceIssues } = useCompliance({ activeSession, refreshTrigger });
+
     /**
      * Inicia una nueva sesión de trabajo.
      * Muestra una alerta si ocurre un error (ej: ya hay sesión activa).
      */
     const handleStart = async () => {
         try {
-            await startSession();
+            await startSession(nextProject, nextActivity);
+        } catch (e) {
+            alert(e);
+        }
+    };
+
+    /**
+     * Con sesión en curso, imputa el tiempo desde ahora al proyecto elegido;
+     * sin sesión, guarda el proyecto con el que se iniciará la jornada.
+     */
+    const handleProjectChange = async (project: ProjectSelection) => {
+        if (!activeSession) {
+            setNextProject(project);
+            return;
+        }
+        try {
+            await switchProject(project);
+        } catch (e) {
+            alert(e);
+        }
+    };
+
+    /**
+     * Con sesión en curso, cambia de actividad desde ahora; sin sesión,
+     * guarda la actividad con la que se iniciará la jornada.
+     */
+    const handleActivityChange = async (activity: string | null) => {
+        if (!activeSession) {
+            setNextActivity(activity);
+            return;
+        }
+        try {
+            await switchActivity(activity);
         } catch (e) {
             alert(e);
         }
     };
 
     /**
-     * Pausa la sesión activa.
+     * Al pulsar "Pausar": si hay tipos de pausa, abre el diálogo para elegir
+     * uno; si no, pausa directamente (pausa sin tipo, no retribuida).
+     */
+    const handlePauseClick = () => {
+        if (availablePauseTypes.length > 0) setIsPauseModalOpen(true);
+        else void handlePause(null);
+    };
+
+    /**
+     * Pausa la sesión activa con el tipo elegido.
      * Muestra una alerta si ocurre un error.
      */
-    const handlePause = async () => {
+    const handlePause = async (pauseType: PauseType | null) => {
+        setIsPauseModalOpen(false);
         try {
-            await pauseSession();
+            await pauseSession(pauseType);
         } catch (e) {
             alert(e);
         }
@@ -140,6 +263,43 @@ export default function Dashboard() {
         }
     };
 
+    /**
+     * Cierra la sesión abandonada a la hora de salida indicada, tras validar
+     * que no es futura, no supera las 16 h ni es anterior a su último fichaje.
+     */
+    const handleManualEnd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!abandonedSession || manualEnd === null) return;
+
+        const endTime = fromDateTimeLocal(manualEnd, timeZone);
+        const validationError = validateForgottenSessionEnd(abandonedSession.actions, endTime);
+        setManualEndError(validationError);
+        if (validationError) return;
+
+        try {
+            await closeAbandonedSession(endTime);
+            setManualEnd(null);
+            setRefreshTrigger(prev => prev + 1);
+        } catch (err) {
+            setManualEndError((err as Error).message);
+        }
+    };
+
+    /**
+     * Recupera o descarta la sesión abandonada y muestra el error en el modal
+     * si el servidor lo rechaza.
+     *
+     * @param {Function} action - `recoverSession` o `discardSession`.
+     */
+    const handleAbandonedAction = async (action: () => Promise<void>) => {
+        setAbandonedError(null);
+        try {
+            await action();
+        } catch (err) {
+            setAbandonedError((err as Error).message);
+        }
+    };
+
     return (
         <div className="space-y-8">
             {/* === Encabezado === */}
@@ -155,11 +315,38 @@ export default function Dashboard() {
                 <div className="bg-white/50 dark:bg-card-bg/50 px-4 py-2 rounded-lg border border-gray-200 dark:border-white/5 flex items-center gap-2">
                     <Clock size={18} className="text-primary-lime" />
                     <span className="text-gray-700 dark:text-gray-300 font-mono">
-                        {new Date().toLocaleDateString(undefined, { weekday: 'long', day: 'numeric', month: 'long' })}
+                        {new Date().toLocaleDateString(undefined, { weekday: 'long', day: 'numeric', month: 'long', timeZone })}
                     </span>
                 </div>
             </div>
 
+            {/* === Aviso de conexión: sin red o con fichajes pendientes de sincronizar === */}
+            {(!isOnline || pendingActions > 0) && (
+                <div className="flex items-center gap-3 px-4 py-3 rounded-lg border bg-yellow-500/10 border-yellow-500/20 text-yellow-700 dark:text-yellow-500">
+                    <WifiOff size={18} className="shrink-0" />
+                    <span className="text-sm">
+                        {!isOnline
+                            ? 'Sin conexión: tus fichajes se guardan en este dispositivo y se sincronizarán al recuperar la red.'
+                            : 'Sincronizando fichajes guardados sin conexión...'}
+                        {pendingActions > 0 && ` (${pendingActions} pendiente${pendingActions !== 1 ? 's' : ''})`}
+                    </span>
+                </div>
+            )}
+
+            {/* === Avisos de descansos obligatorios y máximo semanal === */}
+            {complianceIssues.length > 0 && (
+                <div className="flex items-start gap-3 px-4 py-3 rounded-lg border bg-yellow-500/10 border-yellow-500/20 text-yellow-700 dark:text-yellow-500">
+                    <AlertTriangle size={18} className="shrink-0 mt-0.5" />
+                    <ul className="text-sm space-y-1">
+                        {complianceIssues.map(issue => (
+                            <li key={`${issue.rule}:${issue.sessionId}`}>
+                                <span className="font-semibold">{COMPLIANCE_RULE_LABELS[issue.rule]}:</span> {issue.message}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
             {/* === Tarjeta principal del cronómetro === */}
             <div className={`glass-card p-8 md:p-12 transition-all duration-300 relative ${activeSession ? 'border-primary-lime/20' : ''}`}>
                 {/* Efecto de fondo dinámico: orbe pulsante solo cuando la sesión está activa */}
@@ -176,7 +363,11 @@ export default function Dashboard() {
                             ? 'bg-yellow-500/10 text-yellow-500 border-yellow-500/20'  // Pausada
                             : 'bg-primary-lime/10 text-primary-lime border-primary-lime/20 animate-pulse' // Activa
                         }`}>
-                        {!activeSession ? 'Sin sesión activa' : isPaused ? 'Sesión Pausada' : 'Sesión en curso'}
+                        {!activeSession
+                            ? 'Sin sesión activa'
+                            : isPaused
+                                ? openPauseType ? `Pausa: ${openPauseType.name}${openPause?.paid ? ' (retribuida)' : ''}` : 'Sesión Pausada'
+                                : 'Sesión en curso'}
                     </div>
 
                     {/* Display del cronómetro: muestra el tiempo en formato grande */}
@@ -184,6 +375,35 @@ export default function Dashboard() {
                         {elapsedTime}
                     </div>
 
+                    {/* Selector de proyecto: solo si hay proyectos a los que imputar tiempo */}
+                    {projects.length > 0 && (
+                        <div className="mb-8">
+                            <ProjectPicker
+                                projects={projects}
+                                tasks={tasks}
+                                value={currentProject ?? nextProject}
+                                onChange={handleProjectChange}
+                                disabled={loading}
+                            />
+                        </div>
+                    )}
+
+                    {/* Actividad en curso: se reinicia el texto si cambia desde otro dispositivo */}
+                    <div className="mb-8 space-y-2">
+                        <ActivityPicker
+                            key={activeSession ? currentActivity : nextActivity}
+                            value={activeSession ? currentActivity : nextActivity}
+                            suggestions={activitySuggestions}
+                            onChange={handleActivityChange}
+                            disabled={loading}
+                        />
+                        {activeSession && currentActivity && (
+                            <p className="text-sm text-gray-500 dark:text-gray-400">
+                                En <span className="font-medium text-gray-900 dark:text-white">{currentActivity}</span> desde hace <span className="font-mono">{activityElapsedTime}</span>
+                            </p>
+                        )}
+                    </div>
+
                     {/* === Controles del cronómetro === */}
                     <div className="flex items-center gap-6">
                         {!activeSession ? (
@@ -211,7 +431,7 @@ export default function Dashboard() {
                                 ) : (
                                     // Botón "Pausar": visible cuando la sesión está activa (corriendo).
                                     <button
-                                        onClick={handlePause}
+                                        onClick={handlePauseClick}
                                         disabled={isPaused || loading}
                                         className="flex flex-col items-center gap-2 group"
                                     >
@@ -239,7 +459,7 @@ export default function Dashboard() {
             </div>
 
             {/* === Tarjetas de estadísticas rápidas === */}
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
                 {/* Tarjeta: Horas semanales acumuladas */}
                 <div className="glass-card p-6 flex flex-col items-center justify-center">
                     <div className="w-12 h-12 rounded-full bg-blue-500/10 flex items-center justify-center text-blue-500 dark:text-blue-400 mb-3">
@@ -247,6 +467,63 @@ export default function Dashboard() {
                     </div>
                     <p className="text-gray-600 dark:text-gray-400 text-sm mb-1">Horas Semanales</p>
                     <h3 className="text-2xl font-bold text-gray-900 dark:text-white">{formatTime(totalWeeklySeconds)}</h3>
+                    {/* Comparación con las horas previstas del horario laboral (si está configurado) */}
+                    {expectedWeeklySeconds !== null && (
+                        <div className="w-full mt-3 space-y-1">
+                            <div className="h-1.5 rounded-full bg-gray-200 dark:bg-white/10 overflow-hidden">
+                                <div
+                                    className="h-full bg-blue-500 transition-all"
+                                    style={{ width: `${expectedWeeklySeconds > 0 ? Math.min(100, totalWeeklySeconds / expectedWeeklySeconds * 100) : 100}%` }}
+                                />
+                            </div>
+                            <p className="text-xs text-center text-gray-500">
+                                de {formatTime(expectedWeeklySeconds)} previstas
+                            </p>
+                        </div>
+                    )}
+                </div>
+
+                {/* Tarjeta: Bolsa de horas (trabajado frente a previsto según el horario laboral) */}
+                <div className="glass-card p-6 flex flex-col items-center justify-center">
+                    <div className="w-12 h-12 rounded-full bg-emerald-500/10 flex items-center justify-center text-emerald-600 dark:text-emerald-400 mb-3">
+                        <PiggyBank size={24} />
+                    </div>
+                    <p className="text-gray-600 dark:text-gray-400 text-sm mb-1">Bolsa de Horas</p>
+                    {hourBalance ? (
+                        <>
+                            <h3
+                                className={`text-2xl font-bold ${hourBalance.cumulative.balanceSeconds < 0 ? 'text-red-500' : 'text-gray-900 dark:text-white'}`}
+                                title="Saldo acumulado hasta ayer"
+                            >
+                                {formatBalance(hourBalance.cumulative.balanceSeconds)}
+                            </h3>
+                            <div className="w-full mt-3 grid grid-cols-3 gap-2 text-center text-xs">
+                                {([['Hoy', hourBalance.today], ['Semana', hourBalance.week], ['Mes', hourBalance.month]] as const).map(([label, balance]) => (
+                                    <div key={label}>
+                                        <div className="text-gray-500">{label}</div>
+                                        <div className={`font-medium ${balance.balanceSeconds < 0 ? 'text-red-500' : 'text-gray-900 dark:text-white'}`}>
+                                            {formatBalance(balance.balanceSeconds)}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                            {/* Aviso de horas extra: se superó el umbral diario o semanal de la organización */}
+                            {(hourBalance.dailyOvertimeSeconds > 0 || hourBalance.weeklyOvertimeSeconds > 0) && (
+                                <p className="mt-3 px-2 py-0.5 rounded text-xs font-medium bg-orange-500/10 text-orange-600 dark:text-orange-400">
+                                    Horas extra: {hourBalance.weeklyOvertimeSeconds > 0
+                                        ? `${formatTime(hourBalance.weeklyOvertimeSeconds)} esta semana`
+                                        : `${formatTime(hourBalance.dailyOvertimeSeconds)} hoy`}
+                                </p>
+                            )}
+                        </>
+                    ) : (
+                        <button
+                            onClick={() => navigate('/settings')}
+                            className="text-sm text-primary-lime hover:underline"
+                        >
+                            Configura tu horario
+                        </button>
+                    )}
                 </div>
 
                 {/* Tarjeta: Número de pausas de la sesión activa */}
@@ -307,6 +584,63 @@ export default function Dashboard() {
                 </div>
             </Modal>
 
+            {/* === Modal para elegir el tipo de pausa === */}
+            <Modal
+                isOpen={isPauseModalOpen}
+                onClose={() => setIsPauseModalOpen(false)}
+                title="Tipo de Pausa"
+            >
+                <div className="space-y-4">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        {availablePauseTypes.map(pauseType => (
+                            <button
+                                key={pauseType.id}
+                                onClick={() => handlePause(pauseType)}
+                                className="flex flex-col items-start gap-1 p-4 rounded-lg border border-gray-200 dark:border-white/10 hover:border-yellow-500/50 hover:bg-yellow-500/10 text-left transition-colors"
+                            >
+                                <span className="font-medium text-gray-900 dark:text-white">{pauseType.name}</span>
+                                <span className={`text-xs ${pauseType.paid ? 'text-green-700 dark:text-primary-lime' : 'text-gray-500'}`}>
+                                    {pauseType.paid ? 'Retribuida: cuenta como trabajo' : 'No retribuida: se descuenta'}
+                                </span>
+                            </button>
+                        ))}
+                    </div>
+                    {/* Pausa sin tipo: se descuenta, como antes de existir los tipos */}
+                    <div className="flex justify-end">
+                        <button
+                            onClick={() => handlePause(null)}
+                            className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+                        >
+                            Pausar sin tipo
+                        </button>
+                    </div>
+                </div>
+            </Modal>
+
+            {/* === Modal de conflicto al sincronizar fichajes offline === */}
+            <Modal
+                isOpen={!!syncConflict}
+                onClose={dismissSyncConflict}
+                title="Conflicto de Sincronización"
+            >
+                <div className="space-y-6">
+                    <p className="text-gray-700 dark:text-gray-300 whitespace-normal break-words">
+                        El servidor rechazó un fichaje registrado sin conexión
+                        ({syncConflict?.discarded} acción{syncConflict?.discarded !== 1 ? 'es' : ''} descartada{syncConflict?.discarded !== 1 ? 's' : ''}).
+                        Revisa tu historial y corrige la sesión si es necesario.
+                    </p>
+                    <p className="text-sm text-red-500 font-mono break-words">{syncConflict?.message}</p>
+                    <div className="flex justify-end">
+                        <button
+                            onClick={dismissSyncConflict}
+                            className="px-6 py-2 bg-primary-lime text-dark-bg font-bold rounded-lg hover:bg-secondary-lime"
+                        >
+                            Entendido
+                        </button>
+                    </div>
+                </div>
+            </Modal>
+
             {/* === Modal de sesión abandonada: recuperar o descartar === */}
             <Modal
                 isOpen={!!abandonedSession}
@@ -323,25 +657,71 @@ export default function Dashboard() {
                         <p className="text-gray-700 dark:text-gray-400 max-w-sm mx-auto">
                             Tienes una sesión que quedó abierta hace{' '}
                             <span className="text-primary-lime font-mono font-bold">{abandonedSession?.timeMessage}</span>.
+                            {abandonedSession?.flagged && ' Se marcó como olvidada: indica tu hora real de salida.'}
                         </p>
                     </div>
 
+                    {/* Formulario de hora de salida real (tercera opción) */}
+                    {manualEnd !== null && abandonedSession && (
+                        <form onSubmit={handleManualEnd} className="w-full space-y-3">
+                            <label className="flex flex-col gap-1 text-sm text-gray-600 dark:text-gray-400">
+                                Hora de salida
+                                <input
+                                    type="datetime-local"
+                                    required
+                                    value={manualEnd}
+                                    min={toDateTimeLocal(getLastActionTime(abandonedSession.actions), timeZone)}
+                                    onChange={e => setManualEnd(e.target.value)}
+                                    className="bg-white dark:bg-dark-bg border border-gray-200 dark:border-white/10 rounded-lg p-2 text-sm text-gray-900 dark:text-white focus:border-primary-lime outline-none"
+                                />
+                            </label>
+                            {manualEndError && <p className="text-sm text-red-500">{manualEndError}</p>}
+                            <div className="flex justify-center gap-3">
+                                <button
+                                    type="button"
+                                    onClick={() => { setManualEnd(null); setManualEndError(null); }}
+                                    className="px-4 py-2 text-gray-500 hover:text-gray-900 dark:hover:text-white transition-colors"
+                                >
+                                    Cancelar
+                                </button>
+                                <button
+                                    type="submit"
+                                    className="px-6 py-2 bg-primary-lime hover:bg-secondary-lime text-dark-bg rounded-xl font-bold transition-all"
+                                >
+                                    Finalizar a esa hora
+                                </button>
+                            </div>
+                        </form>
+                    )}
+
+                    {abandonedError && <p className="text-sm text-red-500">{abandonedError}</p>}
+
                     <div className="flex flex-col sm:flex-row gap-3 w-full sm:w-auto mt-4">
                         {/* Botón descartar: ignora la sesión y permite iniciar una nueva */}
                         <button
-                            onClick={discardSession}
+                            onClick={() => handleAbandonedAction(discardSession)}
                             className="px-6 py-3 bg-gray-200 dark:bg-gray-800 hover:bg-gray-300 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-xl font-medium transition-all flex items-center justify-center gap-2"
                         >
                             Ignorar y comenzar nueva
                         </button>
                         {/* Botón recuperar: reanuda la sesión abandonada */}
                         <button
-                            onClick={recoverSession}
+                            onClick={() => handleAbandonedAction(recoverSession)}
                             className="px-6 py-3 bg-primary-lime hover:bg-secondary-lime text-dark-bg rounded-xl font-bold transition-all shadow-lg shadow-primary-lime/20 flex items-center justify-center gap-2"
                         >
                             <Play size={18} fill="currentColor" />
                             Recuperar Sesión
                         </button>
+                        {/* Botón hora de salida: finaliza la sesión a la hora real indicada */}
+                        {manualEnd === null && abandonedSession && (
+                            <button
+                                onClick={() => setManualEnd(toDateTimeLocal(getLastActionTime(abandonedSession.actions), timeZone))}
+                                className="px-6 py-3 bg-gray-200 dark:bg-gray-800 hover:bg-gray-300 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-xl font-medium transition-all flex items-center justify-center gap-2"
+                            >
+                                <Clock size={18} />
+                                Indicar hora de salida
+                            </button>
+                        )}
                     </div>
                 </div>
             </Modal>
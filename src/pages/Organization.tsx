@@ -0,0 +1,425 @@
+import { useState } from 'react';
+import { Building2, UserPlus, Users, Trash2, X, Plus } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { useOrganization, ROLE_LABELS, type OrganizationMember, type OrganizationRole } from '../hooks/useOrganization';
+import { useAbsences } from '../hooks/useAbsences';
+import { useHolidayCalendars } from '../hooks/useHolidayCalendars';
+import { ABSENCE_TYPES, ABSENCE_TYPE_LABELS } from '../utils/absences';
+
+const inputClass = 'bg-white dark:bg-dark-bg border border-gray-200 dark:border-white/10 rounded-lg p-2 text-sm text-gray-900 dark:text-white focus:border-primary-lime outline-none';
+
+const ROLES: OrganizationRole[] = ['employee', 'manager', 'admin'];
+
+// Display name for a member: full name, then email, then a short id
+const memberName = (member?: OrganizationMember) =>
+    member ? member.full_name || member.email || member.user_id.slice(0, 8) : 'Usuario';
+
+export default function Organization() {
+    const { user } = useAuth();
+    const {
+        organization,
+        role,
+        members,
+        teams,
+        loading,
+        error,
+        createOrganization,
+        addMember,
+        updateMemberRole,
+        removeMember,
+        createTeam,
+        deleteTeam,
+        addTeamMember,
+        removeTeamMember,
+        updateEditWindow,
+        updateOvertimeThresholds
+    } = useOrganization();
+    const { allowances, error: allowanceError, updateAllowance } = useAbsences();
+    const {
+        calendars,
+        assignments,
+        error: calendarError,
+        assignCalendar,
+        unassignCalendar
+    } = useHolidayCalendars();
+
+    const [orgName, setOrgName] = useState('');
+    const [newMemberEmail, setNewMemberEmail] = useState('');
+    const [newMemberRole, setNewMemberRole] = useState<OrganizationRole>('employee');
+    const [newTeamName, setNewTeamName] = useState('');
+
+    const isAdmin = role === 'admin';
+    const memberById = new Map(members.map(m => [m.user_id, m]));
+    const organizationCalendars = calendars.filter(c => c.organization_id === organization?.id);
+
+    const handleCreateOrganization = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (await createOrganization(orgName.trim())) setOrgName('');
+    };
+
+    const handleAddMember = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (await addMember(newMemberEmail.trim(), newMemberRole)) setNewMemberEmail('');
+    };
+
+    const handleCreateTeam = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (await createTeam(newTeamName.trim())) setNewTeamName('');
+    };
+
+    if (loading && !organization) {
+        return <div className="text-center py-8 text-gray-500">Cargando organización...</div>;
+    }
+
+    // No organization yet: offer to create one (the creator becomes admin)
+    if (!organization) {
+        return (
+            <div className="max-w-xl mx-auto glass-card p-8 space-y-4">
+                <div className="flex items-center gap-3">
+                    <Building2 className="text-primary-lime" />
+                    <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Crear organización</h1>
+                </div>
+                <p className="text-gray-600 dark:text-gray-400">
+                    No perteneces a ninguna organización. Crea una para tu empresa y añade a tus compañeros,
+                    o pide a un administrador que te añada con tu email.
+                </p>
+                <form onSubmit={handleCreateOrganization} className="flex gap-3">
+                    <input
+                        required
+                        value={orgName}
+                        onChange={e => setOrgName(e.target.value)}
+                        placeholder="Nombre de la empresa"
+                        className={`${inputClass} flex-1`}
+                    />
+                    <button type="submit" className="px-4 py-2 bg-primary-lime text-dark-bg font-bold rounded-lg hover:bg-secondary-lime">
+                        Crear
+                    </button>
+                </form>
+                {error && <p className="text-sm text-red-500">{error}</p>}
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-8">
+            {/* Header */}
+            <div>
+                <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+                    {organization.name}
+                </h1>
+                <p className="text-gray-500 dark:text-gray-400">
+                    Tu rol: <span className="text-primary-lime font-medium">{role ? ROLE_LABELS[role] : '-'}</span>
+                </p>
+            </div>
+
+            {/* Edit window: older sessions require an approved change request */}
+            <div className="glass-card p-6 flex flex-wrap items-center justify-between gap-4">
+                <div>
+                    <h2 className="text-lg font-bold text-gray-900 dark:text-white">Ventana de edición</h2>
+                    <p className="text-sm text-gray-500">
+                        Las sesiones con más días de antigüedad solo se corrigen mediante una solicitud de cambio que aprueba un manager.
+                    </p>
+                </div>
+                {isAdmin ? (
+                    <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                        <input
+                            type="number"
+                            min={0}
+                            defaultValue={organization.edit_window_days}
+                            key={organization.edit_window_days}
+                            onBlur={e => {
+                                const days = Number(e.target.value);
+                                if (Number.isInteger(days) && days >= 0 && days !== organization.edit_window_days) {
+                                    void updateEditWindow(days);
+                                }
+                            }}
+                            className={`${inputClass} w-20`}
+                        />
+                        días
+                    </label>
+                ) : (
+                    <span className="font-bold text-gray-900 dark:text-white">{organization.edit_window_days} días</span>
+                )}
+            </div>
+
+            {/* Overtime thresholds: hours worked above them are flagged as overtime */}
+            <div className="glass-card p-6 flex flex-wrap items-center justify-between gap-4">
+                <div>
+                    <h2 className="text-lg font-bold text-gray-900 dark:text-white">Horas extra</h2>
+                    <p className="text-sm text-gray-500">
+                        Lo trabajado por encima de estos límites se marca como horas extra en la bolsa de horas.
+                    </p>
+                </div>
+                {isAdmin ? (
+                    <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600 dark:text-gray-400">
+                        {([
+                            ['daily', organization.overtime_daily_minutes, 24, 'h / día'],
+                            ['weekly', organization.overtime_weekly_minutes, 168, 'h / semana']
+                        ] as const).map(([period, minutes, max, unit]) => (
+                            <label key={period} className="flex items-center gap-2">
+                                <input
+                                    type="number"
+                                    min={0.5}
+                                    max={max}
+                                    step={0.5}
+                                    defaultValue={minutes / 60}
+                                    key={minutes}
+                                    onBlur={e => {
+                                        const value = Math.round(Number(e.target.value) * 60);
+                                        if (value > 0 && value <= max * 60 && value !== minutes) {
+                                            void updateOvertimeThresholds(
+                                                period === 'daily' ? value : organization.overtime_daily_minutes,
+                                                period === 'weekly' ? value : organization.overtime_weekly_minutes
+                                            );
+                                        }
+                                    }}
+                                    className={`${inputClass} w-20`}
+                                />
+                                {unit}
+                            </label>
+                        ))}
+                    </div>
+                ) : (
+                    <span className="font-bold text-gray-900 dark:text-white">
+                        {organization.overtime_daily_minutes / 60} h / día · {organization.overtime_weekly_minutes / 60} h / semana
+                    </span>
+                )}
+            </div>
+
+            {/* Yearly absence allowance per type (empty = no limit) */}
+            <div className="glass-card p-6 space-y-4">
+                <div>
+                    <h2 className="text-lg font-bold text-gray-900 dark:text-white">Días de ausencia por año</h2>
+                    <p className="text-sm text-gray-500">
+                        Días laborables que corresponden a cada miembro por año. Sin valor, el tipo no tiene límite.
+                    </p>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                    {ABSENCE_TYPES.map(type => (
+                        <label key={type} className="flex flex-col gap-1 text-sm text-gray-600 dark:text-gray-400">
+                            {ABSENCE_TYPE_LABELS[type]}
+                            {isAdmin ? (
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={0.5}
+                                    placeholder="Sin límite"
+                                    defaultValue={allowances[type] ?? ''}
+                                    key={allowances[type] ?? 'none'}
+                                    onBlur={e => {
+                                        const days = e.target.value === '' ? null : Number(e.target.value);
+                                        if ((days === null || days >= 0) && days !== (allowances[type] ?? null)) {
+                                            void updateAllowance(type, days);
+                                        }
+                                    }}
+                                    className={inputClass}
+                                />
+                            ) : (
+                                <span className="font-bold text-gray-900 dark:text-white">{allowances[type] ?? 'Sin límite'}</span>
+                            )}
+                        </label>
+                    ))}
+                </div>
+                {allowanceError && <p className="text-sm text-red-500">{allowanceError}</p>}
+            </div>
+
+            {/* Holiday calendars assigned to each member (calendars are created in Settings) */}
+            {isAdmin && organizationCalendars.length > 0 && (
+                <div className="glass-card p-6 space-y-4">
+                    <div>
+                        <h2 className="text-lg font-bold text-gray-900 dark:text-white">Calendarios de festivos</h2>
+                        <p className="text-sm text-gray-500">
+                            Festivos que se aplican a cada miembro. Los calendarios se crean e importan en Ajustes.
+                        </p>
+                    </div>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-gray-500">
+                                    <th className="py-2 pr-4 font-medium">Miembro</th>
+                                    {organizationCalendars.map(calendar => (
+                                        <th key={calendar.id} className="py-2 px-2 font-medium text-center">{calendar.name}</th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {members.map(member => (
+                                    <tr key={member.user_id} className="border-t border-gray-200 dark:border-white/10">
+                                        <td className="py-2 pr-4 text-gray-900 dark:text-white">{memberName(member)}</td>
+                                        {organizationCalendars.map(calendar => {
+                                            const assigned = assignments.some(a => a.user_id === member.user_id && a.calendar_id === calendar.id);
+                                            return (
+                                                <td key={calendar.id} className="py-2 px-2 text-center">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={assigned}
+                                                        onChange={() => void (assigned
+                                                            ? unassignCalendar(member.user_id, calendar.id)
+                                                            : assignCalendar(member.user_id, calendar.id))}
+                                                        className="accent-primary-lime"
+                                                    />
+                                                </td>
+                                            );
+                                        })}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    {calendarError && <p className="text-sm text-red-500">{calendarError}</p>}
+                </div>
+            )}
+
+            {error && <p className="text-sm text-red-500">{error}</p>}
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                {/* Members */}
+                <div className="glass-card p-6 space-y-4">
+                    <h2 className="flex items-center gap-2 text-xl font-bold text-gray-900 dark:text-white">
+                        <Users size={20} className="text-primary-lime" />
+                        Miembros ({members.length})
+                    </h2>
+
+                    <div className="space-y-2">
+                        {members.map(member => (
+                            <div key={member.user_id} className="flex items-center justify-between gap-3 p-3 rounded-lg bg-gray-50 dark:bg-white/5">
+                                <div className="min-w-0">
+                                    <div className="font-medium text-gray-900 dark:text-white truncate">{memberName(member)}</div>
+                                    {member.full_name && member.email && (
+                                        <div className="text-xs text-gray-500 truncate">{member.email}</div>
+                                    )}
+                                </div>
+                                {isAdmin && member.user_id !== user?.id ? (
+                                    <div className="flex items-center gap-2 shrink-0">
+                                        <select
+                                            value={member.role}
+                                            onChange={e => updateMemberRole(member.user_id, e.target.value as OrganizationRole)}
+                                            className={inputClass}
+                                        >
+                                            {ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                                        </select>
+                                        <button
+                                            onClick={() => removeMember(member.user_id)}
+                                            className="p-2 text-red-400 hover:bg-red-400/10 rounded-lg transition-colors"
+                                            title="Quitar de la organización"
+                                        >
+                                            <Trash2 size={16} />
+                                        </button>
+                                    </div>
+                                ) : (
+                                    <span className="text-xs px-2 py-1 rounded bg-primary-lime/10 text-primary-lime shrink-0">
+                                        {ROLE_LABELS[member.role]}
+                                    </span>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+
+                    {/* Add member (admins only) */}
+                    {isAdmin && (
+                        <form onSubmit={handleAddMember} className="flex flex-wrap gap-2 pt-4 border-t border-gray-100 dark:border-white/10">
+                            <input
+                                type="email"
+                                required
+                                value={newMemberEmail}
+                                onChange={e => setNewMemberEmail(e.target.value)}
+                                placeholder="email@empresa.com"
+                                className={`${inputClass} flex-1 min-w-[180px]`}
+                            />
+                            <select
+                                value={newMemberRole}
+                                onChange={e => setNewMemberRole(e.target.value as OrganizationRole)}
+                                className={inputClass}
+                            >
+                                {ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                            </select>
+                            <button type="submit" className="flex items-center gap-2 px-4 py-2 bg-primary-lime text-dark-bg font-bold rounded-lg hover:bg-secondary-lime">
+                                <UserPlus size={16} />
+                                Añadir
+                            </button>
+                        </form>
+                    )}
+                </div>
+
+                {/* Teams */}
+                <div className="glass-card p-6 space-y-4">
+                    <h2 className="flex items-center gap-2 text-xl font-bold text-gray-900 dark:text-white">
+                        <Building2 size={20} className="text-primary-lime" />
+                        Equipos ({teams.length})
+                    </h2>
+
+                    {teams.length === 0 && (
+                        <p className="text-sm text-gray-500 italic">Todavía no hay equipos.</p>
+                    )}
+
+                    {teams.map(team => {
+                        const available = members.filter(m => !team.member_ids.includes(m.user_id));
+                        return (
+                            <div key={team.id} className="p-4 rounded-lg bg-gray-50 dark:bg-white/5 space-y-3">
+                                <div className="flex items-center justify-between">
+                                    <span className="font-medium text-gray-900 dark:text-white">{team.name}</span>
+                                    {isAdmin && (
+                                        <button
+                                            onClick={() => deleteTeam(team.id)}
+                                            className="p-1 text-red-400 hover:bg-red-400/10 rounded-lg transition-colors"
+                                            title="Eliminar equipo"
+                                        >
+                                            <Trash2 size={16} />
+                                        </button>
+                                    )}
+                                </div>
+
+                                <div className="flex flex-wrap gap-2">
+                                    {team.member_ids.map(id => (
+                                        <span key={id} className="flex items-center gap-1 text-xs px-2 py-1 rounded-full bg-white dark:bg-dark-bg border border-gray-200 dark:border-white/10 text-gray-700 dark:text-gray-300">
+                                            {memberName(memberById.get(id))}
+                                            {memberById.get(id)?.role === 'manager' && <span className="text-primary-lime">· Manager</span>}
+                                            {isAdmin && (
+                                                <button onClick={() => removeTeamMember(team.id, id)} title="Quitar del equipo">
+                                                    <X size={12} />
+                                                </button>
+                                            )}
+                                        </span>
+                                    ))}
+                                    {team.member_ids.length === 0 && <span className="text-xs text-gray-500 italic">Sin miembros</span>}
+                                </div>
+
+                                {isAdmin && available.length > 0 && (
+                                    <select
+                                        value=""
+                                        onChange={e => e.target.value && addTeamMember(team.id, e.target.value)}
+                                        className={`${inputClass} w-full`}
+                                    >
+                                        <option value="">Añadir miembro al equipo...</option>
+                                        {available.map(m => <option key={m.user_id} value={m.user_id}>{memberName(m)}</option>)}
+                                    </select>
+                                )}
+                            </div>
+                        );
+                    })}
+
+                    {/* Create team (admins only) */}
+                    {isAdmin && (
+                        <form onSubmit={handleCreateTeam} className="flex gap-2 pt-4 border-t border-gray-100 dark:border-white/10">
+                            <input
+                                required
+                                value={newTeamName}
+                                onChange={e => setNewTeamName(e.target.value)}
+                                placeholder="Nombre del equipo"
+                                className={`${inputClass} flex-1`}
+                            />
+                            <button type="submit" className="flex items-center gap-2 px-4 py-2 bg-primary-lime text-dark-bg font-bold rounded-lg hover:bg-secondary-lime">
+                                <Plus size={16} />
+                                Crear equipo
+                            </button>
+                        </form>
+                    )}
+
+                    <p className="text-xs text-gray-500">
+                        Los managers pueden consultar (sin modificar) las jornadas de los miembros de sus equipos.
+                    </p>
+                </div>
+            </div>
+        </div>
+    );
+}
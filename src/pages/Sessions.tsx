@@ -1,26 +1,74 @@
 import { useState, useEffect } from 'react';
-import { Calendar as CalendarIcon, List, Coffee } from 'lucide-react';
+import { Calendar as CalendarIcon, List, Coffee, Plus, FileText, Download, Upload, Trash2 } from 'lucide-react';
 import { HistoryList } from '../components/history/HistoryList';
+import { ManualSessionModal } from '../components/history/ManualSessionModal';
+import { ImportSessionsModal } from '../components/history/ImportSessionsModal';
+import { TrashList } from '../components/history/TrashList';
+import { WorkRegisterModal } from '../components/reports/WorkRegisterModal';
+import { SessionExportModal } from '../components/reports/SessionExportModal';
 import { Calendar } from '../components/calendar/Calendar';
-import { useHistory } from '../hooks/useHistory';
-import type { Database } from '../types/database.types';
-
-type WorkSession = Database['public']['Tables']['work_sessions']['Row'];
+import { useHistory, type WorkSession } from '../hooks/useHistory';
+import { useAbsences, type Absence } from '../hooks/useAbsences';
+import { useUserHolidays, type UserHoliday } from '../hooks/useUserHolidays';
+import { ABSENCE_TYPE_LABELS } from '../utils/absences';
+import { formatDuration, parseInterval } from '../utils/duration';
+import { useTimeZone } from '../hooks/useTimeZone';
+import { useProjects } from '../hooks/useProjects';
+import { ProjectBreakdown } from '../components/projects/ProjectBreakdown';
+import { getProjectBreakdown, mergeProjectTotals } from '../utils/projects';
+import { ActivityBreakdown } from '../components/activities/ActivityBreakdown';
+import { getActivityBreakdown } from '../utils/activities';
+import { startOfZonedDay } from '../utils/timezone';
 
 export default function Sessions() {
-    const [viewMode, setViewMode] = useState<'list' | 'calendar'>('list');
+    const [viewMode, setViewMode] = useState<'list' | 'calendar' | 'trash'>('list');
     const [selectedDate, setSelectedDate] = useState<Date | null>(null);
     const [selectedDaySessions, setSelectedDaySessions] = useState<WorkSession[]>([]);
+    const [selectedDayAbsence, setSelectedDayAbsence] = useState<Absence | null>(null);
+    const [selectedDayHoliday, setSelectedDayHoliday] = useState<UserHoliday | null>(null);
+    const [isManualModalOpen, setIsManualModalOpen] = useState(false);
+    const [isRegisterModalOpen, setIsRegisterModalOpen] = useState(false);
+    const [isExportModalOpen, setIsExportModalOpen] = useState(false);
+    const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+    // Incremented after creating a manual session so both views reload
+    const [refreshTrigger, setRefreshTrigger] = useState(0);
     const { sessions, loadSessions } = useHistory();
+    const { absences } = useAbsences();
+    const { holidays } = useUserHolidays();
+    const { timeZone } = useTimeZone();
+    const { projects, tasks } = useProjects();
 
     useEffect(() => {
         loadSessions(100); // Load more sessions for calendar view
-    }, [loadSessions]);
+    }, [loadSessions, refreshTrigger]);
+
+    const handleManualCreated = () => {
+        setIsManualModalOpen(false);
+        setSelectedDate(null);
+        setRefreshTrigger(prev => prev + 1);
+    };
+
+    const handleImported = () => {
+        setIsImportModalOpen(false);
+        setSelectedDate(null);
+        setRefreshTrigger(prev => prev + 1);
+    };
 
-    const handleDayClick = (date: Date, daySessions: WorkSession[]) => {
+    const handleDayClick = (date: Date, daySessions: WorkSession[], dayAbsence: Absence | null, dayHoliday: UserHoliday | null) => {
         setSelectedDate(date);
         setSelectedDaySessions(daySessions);
+        setSelectedDayAbsence(dayAbsence);
+        setSelectedDayHoliday(dayHoliday);
+    };
+
+    // Net time of the selected day by project (only the part of each session within that day)
+    const selectedDayRange = selectedDate && {
+        from: startOfZonedDay(selectedDate, timeZone),
+        to: startOfZonedDay(new Date(selectedDate.getFullYear(), selectedDate.getMonth(), selectedDate.getDate() + 1), timeZone)
     };
+    const selectedDayProjects = selectedDayRange
+        ? mergeProjectTotals(selectedDaySessions.flatMap(session => getProjectBreakdown(session, selectedDayRange)))
+        : [];
 
     const formatDate = (date: Date) => {
         return date.toLocaleDateString('es-ES', {
@@ -42,6 +90,43 @@ export default function Sessions() {
                     <p className="text-gray-500 dark:text-gray-400">Todas tus sesiones de trabajo registradas</p>
                 </div>
 
+                <div className="flex flex-wrap items-center gap-3">
+                {/* CSV import of historical timesheets */}
+                <button
+                    onClick={() => setIsImportModalOpen(true)}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-200 dark:border-white/10 text-gray-900 dark:text-white hover:bg-gray-100 dark:hover:bg-white/5 transition-all"
+                >
+                    <Upload size={18} />
+                    <span>Importar</span>
+                </button>
+
+                {/* History export for payroll (CSV/XLSX) */}
+                <button
+                    onClick={() => setIsExportModalOpen(true)}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-200 dark:border-white/10 text-gray-900 dark:text-white hover:bg-gray-100 dark:hover:bg-white/5 transition-all"
+                >
+                    <Download size={18} />
+                    <span>Exportar</span>
+                </button>
+
+                {/* Legal working-time register (PDF/CSV) */}
+                <button
+                    onClick={() => setIsRegisterModalOpen(true)}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-200 dark:border-white/10 text-gray-900 dark:text-white hover:bg-gray-100 dark:hover:bg-white/5 transition-all"
+                >
+                    <FileText size={18} />
+                    <span>Registro de jornada</span>
+                </button>
+
+                {/* Manual entry */}
+                <button
+                    onClick={() => setIsManualModalOpen(true)}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg border border-primary-lime/30 text-gray-900 dark:text-white hover:bg-primary-lime/10 transition-all"
+                >
+                    <Plus size={18} className="text-primary-lime" />
+                    <span>Registrar jornada manual</span>
+                </button>
+
                 {/* View Toggle */}
                 <div className="flex items-center gap-2 bg-gray-100 dark:bg-card-bg/50 p-1 rounded-lg border border-gray-200 dark:border-white/5">
                     <button
@@ -64,19 +149,35 @@ export default function Sessions() {
                         <CalendarIcon size={18} />
                         <span>Calendario</span>
                     </button>
+                    <button
+                        onClick={() => setViewMode('trash')}
+                        className={`flex items-center gap-2 px-4 py-2 rounded-md transition-all ${viewMode === 'trash'
+                            ? 'bg-primary-lime text-dark-bg font-medium'
+                            : 'text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white'
+                            }`}
+                    >
+                        <Trash2 size={18} />
+                        <span>Papelera</span>
+                    </button>
+                </div>
                 </div>
             </div>
 
             {/* Content */}
             {viewMode === 'list' ? (
                 <div className="glass-card p-6">
-                    <HistoryList refreshTrigger={0} />
+                    <HistoryList refreshTrigger={refreshTrigger} />
+                </div>
+            ) : viewMode === 'trash' ? (
+                // Deleted sessions: restore or purge; restoring reloads the other views
+                <div className="glass-card p-6">
+                    <TrashList onRestored={() => setRefreshTrigger(prev => prev + 1)} />
                 </div>
             ) : (
                 <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                     {/* Calendar */}
                     <div className="lg:col-span-2 glass-card p-6">
-                        <Calendar sessions={sessions} onDayClick={handleDayClick} />
+                        <Calendar sessions={sessions} absences={absences} holidays={holidays} onDayClick={handleDayClick} />
                     </div>
 
                     {/* Day Details Panel */}
@@ -90,8 +191,30 @@ export default function Sessions() {
                                     <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
                                         {selectedDaySessions.length} sesión{selectedDaySessions.length !== 1 ? 'es' : ''}
                                     </p>
+                                    {/* Day total by project */}
+                                    <ProjectBreakdown totals={selectedDayProjects} catalog={{ projects, tasks }} className="mt-3" />
                                 </div>
 
+                                {/* Public holiday from the user's calendars */}
+                                {selectedDayHoliday && (
+                                    <div className="p-3 rounded-lg bg-red-500/10 text-sm text-red-600 dark:text-red-400">
+                                        Festivo: {selectedDayHoliday.name}
+                                        <span className="block text-xs mt-1">{selectedDayHoliday.calendar_name}</span>
+                                    </div>
+                                )}
+
+                                {/* Absence covering the selected day */}
+                                {selectedDayAbsence && (
+                                    <div className="p-3 rounded-lg bg-sky-500/10 text-sm text-sky-700 dark:text-sky-300">
+                                        {ABSENCE_TYPE_LABELS[selectedDayAbsence.absence_type]}
+                                        {selectedDayAbsence.half_day && ' (media jornada)'}
+                                        {selectedDayAbsence.status === 'pending' && ' · pendiente de aprobar'}
+                                        {selectedDayAbsence.notes && (
+                                            <span className="block text-xs italic mt-1">"{selectedDayAbsence.notes}"</span>
+                                        )}
+                                    </div>
+                                )}
+
                                 {selectedDaySessions.length > 0 ? (
                                     <div className="space-y-3">
                                         {selectedDaySessions.map(session => (
@@ -103,21 +226,26 @@ export default function Sessions() {
                                                     <span className="text-gray-900 dark:text-white font-medium">
                                                         {new Date(session.start_time).toLocaleTimeString([], {
                                                             hour: '2-digit',
-                                                            minute: '2-digit'
+                                                            minute: '2-digit',
+                                                            timeZone
                                                         })}
                                                         {' - '}
                                                         {session.end_time
                                                             ? new Date(session.end_time).toLocaleTimeString([], {
                                                                 hour: '2-digit',
-                                                                minute: '2-digit'
+                                                                minute: '2-digit',
+                                                                timeZone
                                                             })
                                                             : 'Activa'}
                                                     </span>
                                                     <div className="px-2 py-1 rounded text-xs font-mono bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 border border-gray-200 dark:border-gray-700">
-                                                        {session.total_duration?.split('.')[0] || '--:--:--'}
+                                                        {session.total_duration ? formatDuration(parseInterval(session.total_duration) * 1000) : '--:--:--'}
                                                     </div>
                                                 </div>
 
+                                                <ProjectBreakdown totals={getProjectBreakdown(session)} catalog={{ projects, tasks }} className="mt-2" />
+                                                <ActivityBreakdown totals={getActivityBreakdown(session)} className="mt-2" />
+
                                                 {session.notes && (
                                                     <p className="text-sm text-gray-500 dark:text-gray-400 italic mt-2">
                                                         "{session.notes}"
@@ -127,8 +255,7 @@ export default function Sessions() {
                                                 <div className="flex items-center gap-4 mt-3 text-xs">
                                                     <span className="flex items-center gap-1 text-yellow-600 dark:text-yellow-500/80">
                                                         <Coffee size={14} />
-                                                        {/* @ts-ignore - Supabase type join inference */}
-                                                        {session.work_pauses?.[0]?.count || 0} pausa(s)
+                                                        {session.work_pauses.length} pausa(s)
                                                     </span>
                                                     <div className={`px-2 py-1 rounded ${session.status === 'completed'
                                                         ? 'bg-green-500/10 text-green-600 dark:text-green-500'
@@ -140,6 +267,20 @@ export default function Sessions() {
                                                             session.status === 'active' ? 'Activa' :
                                                                 session.status === 'paused' ? 'Pausada' : 'Abandonada'}
                                                     </div>
+                                                    {session.source !== 'live' && (
+                                                        <div className="px-2 py-1 rounded bg-purple-500/10 text-purple-600 dark:text-purple-400">
+                                                            {session.source === 'manual' ? 'Manual' : 'Importada'}
+                                                        </div>
+                                                    )}
+                                                    {/* Closed by the server when the user forgot to clock out */}
+                                                    {session.forgotten_at && session.status === 'completed' && (
+                                                        <div
+                                                            className="px-2 py-1 rounded bg-orange-500/10 text-orange-600 dark:text-orange-400"
+                                                            title="Se cerró automáticamente al superar el límite: revisa la hora de salida"
+                                                        >
+                                                            Cierre automático
+                                                        </div>
+                                                    )}
                                                 </div>
                                             </div>
                                         ))}
@@ -159,6 +300,28 @@ export default function Sessions() {
                     </div>
                 </div>
             )}
+
+            <ManualSessionModal
+                isOpen={isManualModalOpen}
+                onClose={() => setIsManualModalOpen(false)}
+                onCreated={handleManualCreated}
+            />
+
+            <WorkRegisterModal
+                isOpen={isRegisterModalOpen}
+                onClose={() => setIsRegisterModalOpen(false)}
+            />
+
+            <SessionExportModal
+                isOpen={isExportModalOpen}
+                onClose={() => setIsExportModalOpen(false)}
+            />
+
+            <ImportSessionsModal
+                isOpen={isImportModalOpen}
+                onClose={() => setIsImportModalOpen(false)}
+                onImported={handleImported}
+            />
         </div>
     );
 }
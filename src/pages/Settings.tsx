@@ -0,0 +1,259 @@
+import { useState } from 'react';
+import { CalendarClock, Globe, Trash2 } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { useOrganization } from '../hooks/useOrganization';
+import { useTimeZone } from '../hooks/useTimeZone';
+import { useWorkSchedules, type WorkScheduleRow } from '../hooks/useWorkSchedules';
+import { HolidayCalendarsCard } from '../components/holidays/HolidayCalendarsCard';
+import { ProjectsCard } from '../components/projects/ProjectsCard';
+import { PauseTypesCard } from '../components/pauses/PauseTypesCard';
+import { AutoCloseCard } from '../components/sessions/AutoCloseCard';
+import { formatDuration } from '../utils/duration';
+import { getBrowserTimeZone } from '../utils/timezone';
+import {
+    WEEKDAY_LABELS,
+    createDefaultScheduleDays,
+    getScheduleForDate,
+    toDateKey,
+    validateScheduleDays,
+    type ScheduleDay
+} from '../utils/schedule';
+
+const inputClass = 'bg-white dark:bg-dark-bg border border-gray-200 dark:border-white/10 rounded-lg p-2 text-sm text-gray-900 dark:text-white focus:border-primary-lime outline-none';
+
+// IANA zones offered in the selector (Canarias included)
+const TIME_ZONES = Intl.supportedValuesOf('timeZone');
+
+// Weekly total of a pattern, e.g. "40:00:00"
+const weeklyTotal = (days: ScheduleDay[]) =>
+    formatDuration(days.reduce((sum, d) => sum + d.expected_minutes, 0) * 60000);
+
+export default function Settings() {
+    const { user } = useAuth();
+    const { organization, role } = useOrganization();
+    const { timeZone, updateTimeZone } = useTimeZone();
+    const [timeZoneError, setTimeZoneError] = useState<string | null>(null);
+    const browserTimeZone = getBrowserTimeZone();
+    const { schedules, loading, error, saveSchedule, deleteSchedule } = useWorkSchedules();
+
+    const [today] = useState(() => new Date());
+    const [effectiveFrom, setEffectiveFrom] = useState(() => toDateKey(today));
+    // null until the user edits: show the schedule in effect (or the default pattern)
+    const [draftDays, setDraftDays] = useState<ScheduleDay[] | null>(null);
+    const [formError, setFormError] = useState<string | null>(null);
+
+    const current = getScheduleForDate(schedules, today);
+    const days = draftDays ?? current?.days ?? createDefaultScheduleDays();
+
+    const updateDay = (weekday: number, changes: Partial<ScheduleDay>) => {
+        setDraftDays(days.map(d => d.weekday === weekday ? { ...d, ...changes } : d));
+    };
+
+    const handleEditVersion = (schedule: WorkScheduleRow) => {
+        setEffectiveFrom(schedule.effective_from);
+        setDraftDays(schedule.days);
+        setFormError(null);
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const validationError = validateScheduleDays(days);
+        setFormError(validationError);
+        if (validationError) return;
+
+        if (await saveSchedule(effectiveFrom, days)) setDraftDays(null);
+    };
+
+    const handleTimeZoneChange = async (newTimeZone: string) => {
+        setTimeZoneError(null);
+        if (!(await updateTimeZone(newTimeZone))) setTimeZoneError('No se pudo guardar la zona horaria');
+    };
+
+    const handleDelete = async (schedule: WorkScheduleRow) => {
+        if (window.confirm(`¿Eliminar el horario vigente desde el ${new Date(`${schedule.effective_from}T00:00`).toLocaleDateString()}?`)) {
+            await deleteSchedule(schedule.id);
+        }
+    };
+
+    return (
+        <div className="space-y-8">
+            {/* Header */}
+            <div>
+                <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Ajustes</h1>
+                <p className="text-gray-500 dark:text-gray-400">Configura tu horario laboral, zona horaria y festivos para comparar las horas previstas con las trabajadas.</p>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+                {/* Weekly pattern editor */}
+                <form onSubmit={handleSave} className="glass-card p-6 space-y-4 lg:col-span-2">
+                    <h2 className="flex items-center gap-2 text-xl font-bold text-gray-900 dark:text-white">
+                        <CalendarClock size={20} className="text-primary-lime" />
+                        Horario laboral
+                    </h2>
+
+                    <label className="flex flex-wrap items-center gap-3 text-sm text-gray-600 dark:text-gray-400">
+                        Vigente desde
+                        <input
+                            type="date"
+                            required
+                            value={effectiveFrom}
+                            onChange={e => setEffectiveFrom(e.target.value)}
+                            className={inputClass}
+                        />
+                    </label>
+
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-gray-500">
+                                <th className="py-2 font-medium">Día</th>
+                                <th className="py-2 font-medium">Horas previstas</th>
+                                <th className="py-2 font-medium">Entrada</th>
+                                <th className="py-2 font-medium">Salida</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {days.map(day => (
+                                <tr key={day.weekday} className="border-t border-gray-200 dark:border-white/10">
+                                    <td className="py-2 pr-3 text-gray-900 dark:text-white">{WEEKDAY_LABELS[day.weekday - 1]}</td>
+                                    <td className="py-2 pr-3">
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            max={24}
+                                            step={0.25}
+                                            value={day.expected_minutes / 60}
+                                            onChange={e => updateDay(day.weekday, { expected_minutes: Math.round(Number(e.target.value) * 60) })}
+                                            className={`${inputClass} w-24`}
+                                        />
+                                    </td>
+                                    <td className="py-2 pr-3">
+                                        <input
+                                            type="time"
+                                            value={day.start_time ?? ''}
+                                            onChange={e => updateDay(day.weekday, { start_time: e.target.value || null })}
+                                            className={inputClass}
+                                        />
+                                    </td>
+                                    <td className="py-2">
+                                        <input
+                                            type="time"
+                                            value={day.end_time ?? ''}
+                                            onChange={e => updateDay(day.weekday, { end_time: e.target.value || null })}
+                                            className={inputClass}
+                                        />
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+
+                    <div className="flex flex-wrap items-center justify-between gap-4">
+                        <span className="text-sm text-gray-500">
+                            Total semanal: <span className="font-bold text-gray-900 dark:text-white">{weeklyTotal(days)}</span>
+                        </span>
+                        <button
+                            type="submit"
+                            disabled={loading}
+                            className="px-4 py-2 bg-primary-lime text-dark-bg font-bold rounded-lg hover:bg-secondary-lime disabled:opacity-50"
+                        >
+                            Guardar horario
+                        </button>
+                    </div>
+
+                    {(formError || error) && <p className="text-sm text-red-500">{formError || error}</p>}
+                </form>
+
+                {/* Saved versions, newest first */}
+                <div className="glass-card p-6 space-y-4">
+                    <h2 className="text-xl font-bold text-gray-900 dark:text-white">Versiones</h2>
+                    {loading && schedules.length === 0 ? (
+                        <p className="text-sm text-gray-500">Cargando horarios...</p>
+                    ) : schedules.length === 0 ? (
+                        <p className="text-sm text-gray-500 italic">
+                            Aún no has guardado ningún horario. Sin horario, no se calculan horas previstas.
+                        </p>
+                    ) : (
+                        <ul className="space-y-2">
+                            {schedules.map(schedule => (
+                                <li key={schedule.id} className="flex items-center justify-between gap-2 p-3 rounded-lg bg-gray-50 dark:bg-white/5">
+                                    <button
+                                        type="button"
+                                        onClick={() => handleEditVersion(schedule)}
+                                        className="text-left text-sm"
+                                    >
+                                        <div className="font-medium text-gray-900 dark:text-white">
+                                            Desde {new Date(`${schedule.effective_from}T00:00`).toLocaleDateString()}
+                                            {schedule.id === current?.id && <span className="ml-2 text-xs text-primary-lime">Vigente</span>}
+                                        </div>
+                                        <div className="text-gray-500">{weeklyTotal(schedule.days)} / semana</div>
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => handleDelete(schedule)}
+                                        className="p-2 text-red-400 hover:bg-red-400/10 rounded-lg transition-colors"
+                                        title="Eliminar versión"
+                                    >
+                                        <Trash2 size={16} />
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </div>
+
+            {/* Timezone used to group sessions into days and weeks */}
+            <div className="glass-card p-6 space-y-4">
+                <div>
+                    <h2 className="flex items-center gap-2 text-xl font-bold text-gray-900 dark:text-white">
+                        <Globe size={20} className="text-primary-lime" />
+                        Zona horaria
+                    </h2>
+                    <p className="text-sm text-gray-500">
+                        Las sesiones se agrupan en días y semanas según esta zona, aunque fiches desde otro lugar.
+                    </p>
+                </div>
+                <div className="flex flex-wrap items-center gap-3">
+                    <select
+                        value={TIME_ZONES.includes(timeZone) ? timeZone : ''}
+                        onChange={e => handleTimeZoneChange(e.target.value)}
+                        className={inputClass}
+                    >
+                        {!TIME_ZONES.includes(timeZone) && <option value="">{timeZone}</option>}
+                        {TIME_ZONES.map(zone => (
+                            <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+                        ))}
+                    </select>
+                    {browserTimeZone !== timeZone && (
+                        <button
+                            type="button"
+                            onClick={() => handleTimeZoneChange(browserTimeZone)}
+                            className="text-sm text-primary-lime hover:underline"
+                        >
+                            Usar la de este dispositivo ({browserTimeZone.replace(/_/g, ' ')})
+                        </button>
+                    )}
+                </div>
+                {timeZoneError && <p className="text-sm text-red-500">{timeZoneError}</p>}
+            </div>
+
+            {/* Public holiday calendars that apply to the user */}
+            {user && (
+                <HolidayCalendarsCard userId={user.id} hasOrganization={!!organization} isAdmin={role === 'admin'} />
+            )}
+
+            {/* Projects and tasks that work time is booked to */}
+            {user && (
+                <ProjectsCard userId={user.id} hasOrganization={!!organization} isAdmin={role === 'admin'} />
+            )}
+
+            {/* Pause types chosen when pausing, paid or unpaid */}
+            {user && (
+                <PauseTypesCard userId={user.id} hasOrganization={!!organization} isAdmin={role === 'admin'} />
+            )}
+
+            {/* What the server does with sessions left open past the limit */}
+            <AutoCloseCard hasOrganization={!!organization} isAdmin={role === 'admin'} />
+        </div>
+    );
+}
@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { Users, Clock, Calendar } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { useOrganization } from '../hooks/useOrganization';
+import { useTeamPresence } from '../hooks/useTeamPresence';
+import { useChangeRequests } from '../hooks/useChangeRequests';
+import { ChangeRequestReviewList } from '../components/history/ChangeRequestReviewList';
+import { formatTime } from '../utils/time';
+import type { PresenceState } from '../utils/teamPresence';
+
+const STATE_STYLES: Record<PresenceState, { label: string; className: string }> = {
+    working: { label: 'Trabajando', className: 'bg-green-500/10 text-green-600 dark:text-green-400' },
+    paused: { label: 'En pausa', className: 'bg-yellow-500/10 text-yellow-600 dark:text-yellow-400' },
+    off: { label: 'Fuera', className: 'bg-gray-500/10 text-gray-600 dark:text-gray-400' },
+};
+
+export default function Team() {
+    const { user } = useAuth();
+    const { role, members, teams, loading: orgLoading } = useOrganization();
+    const [teamFilter, setTeamFilter] = useState<string>('all');
+
+    // Admins see every team; managers only the teams they belong to
+    const visibleTeams = role === 'admin'
+        ? teams
+        : teams.filter(t => user && t.member_ids.includes(user.id));
+
+    const selectedTeams = teamFilter === 'all' ? visibleTeams : visibleTeams.filter(t => t.id === teamFilter);
+    const visibleIds = new Set(
+        role === 'admin' && teamFilter === 'all'
+            ? members.map(m => m.user_id)
+            : selectedTeams.flatMap(t => t.member_ids)
+    );
+    const visibleMembers = members.filter(m => visibleIds.has(m.user_id));
+
+    const { presence, loading, error } = useTeamPresence(visibleMembers.map(m => m.user_id));
+    const { pendingReviews, error: requestError, reviewChangeRequest } = useChangeRequests();
+
+    const memberName = (userId: string) => {
+        const member = members.find(m => m.user_id === userId);
+        return member?.full_name || member?.email || userId.slice(0, 8);
+    };
+
+    if (orgLoading) {
+        return <div className="text-center py-8 text-gray-500">Cargando equipo...</div>;
+    }
+
+    if (role !== 'manager' && role !== 'admin') {
+        return (
+            <div className="max-w-xl mx-auto glass-card p-8 text-center text-gray-600 dark:text-gray-400">
+                El panel de equipo está disponible para managers y administradores.
+            </div>
+        );
+    }
+
+    const counts = visibleMembers.reduce(
+        (acc, m) => ({ ...acc, [presence[m.user_id]?.state ?? 'off']: acc[presence[m.user_id]?.state ?? 'off'] + 1 }),
+        { working: 0, paused: 0, off: 0 } as Record<PresenceState, number>
+    );
+
+    return (
+        <div className="space-y-8">
+            {/* Header */}
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <div>
+                    <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+                        Panel de <span className="text-primary-lime">Equipo</span>
+                    </h1>
+                    <p className="text-gray-500 dark:text-gray-400">
+                        {counts.working} trabajando · {counts.paused} en pausa · {counts.off} fuera
+                    </p>
+                </div>
+
+                {/* Team filter */}
+                <select
+                    value={teamFilter}
+                    onChange={e => setTeamFilter(e.target.value)}
+                    className="bg-white dark:bg-dark-bg border border-gray-200 dark:border-white/10 rounded-lg p-2 text-sm text-gray-900 dark:text-white focus:border-primary-lime outline-none"
+                >
+                    <option value="all">{role === 'admin' ? 'Toda la organización' : 'Todos mis equipos'}</option>
+                    {visibleTeams.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                </select>
+            </div>
+
+            {error && <p className="text-sm text-red-500">{error}</p>}
+
+            {loading ? (
+                <div className="text-center py-8 text-gray-500">Cargando presencia...</div>
+            ) : visibleMembers.length === 0 ? (
+                <div className="text-center py-8 text-gray-500 glass-card">
+                    <Users className="mx-auto mb-2 opacity-50" />
+                    No hay miembros en tus equipos.
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {visibleMembers.map(member => {
+                        const summary = presence[member.user_id];
+                        const state = STATE_STYLES[summary?.state ?? 'off'];
+                        return (
+                            <div key={member.user_id} className="glass-card p-5 space-y-4">
+                                <div className="flex items-start justify-between gap-3">
+                                    <div className="min-w-0">
+                                        <div className="font-bold text-gray-900 dark:text-white truncate">
+                                            {memberName(member.user_id)}
+                                        </div>
+                                        {summary?.since && (
+                                            <div className="text-xs text-gray-500">
+                                                Desde las {new Date(summary.since).toLocaleTimeString('es-ES', { hour: '2-digit', minute: '2-digit' })}
+                                            </div>
+                                        )}
+                                    </div>
+                                    <span className={`text-xs font-medium px-2 py-1 rounded shrink-0 ${state.className}`}>
+                                        {state.label}
+                                    </span>
+                                </div>
+
+                                <div className="grid grid-cols-2 gap-3 text-sm">
+                                    <div>
+                                        <div className="flex items-center gap-1 text-gray-500"><Clock size={14} /> Hoy</div>
+                                        <div className="font-mono font-bold text-gray-900 dark:text-white">{formatTime(summary?.todaySeconds ?? 0)}</div>
+                                    </div>
+                                    <div>
+                                        <div className="flex items-center gap-1 text-gray-500"><Calendar size={14} /> Semana</div>
+                                        <div className="font-mono font-bold text-gray-900 dark:text-white">{formatTime(summary?.weekSeconds ?? 0)}</div>
+                                    </div>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            {/* Change requests for sessions outside the edit window */}
+            {requestError && <p className="text-sm text-red-500">{requestError}</p>}
+            <ChangeRequestReviewList
+                requests={pendingReviews}
+                memberName={memberName}
+                onReview={reviewChangeRequest}
+            />
+        </div>
+    );
+}
@@ -0,0 +1,267 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight, Send, Undo2, Check, X, ClipboardCheck } from 'lucide-react';
+import { useOrganization } from '../hooks/useOrganization';
+import { useTimesheets, type Timesheet } from '../hooks/useTimesheets';
+import { useTimeZone } from '../hooks/useTimeZone';
+import { formatTime } from '../utils/time';
+import { parseInterval } from '../utils/duration';
+import { getPeriodRange, shiftPeriod, toZonedPeriod, formatPeriodLabel, type PeriodType } from '../utils/timesheets';
+import { getZonedCalendarDate } from '../utils/timezone';
+
+const STATUS_STYLES: Record<Timesheet['status'], { label: string; className: string }> = {
+    submitted: { label: 'Pendiente', className: 'bg-yellow-500/10 text-yellow-600 dark:text-yellow-400' },
+    approved: { label: 'Aprobada', className: 'bg-green-500/10 text-green-600 dark:text-green-400' },
+    rejected: { label: 'Rechazada', className: 'bg-red-500/10 text-red-600 dark:text-red-400' },
+};
+
+const inputClass = 'bg-white dark:bg-dark-bg border border-gray-200 dark:border-white/10 rounded-lg p-2 text-sm text-gray-900 dark:text-white focus:border-primary-lime outline-none';
+
+const StatusBadge = ({ status }: { status: Timesheet['status'] }) => (
+    <span className={`text-xs font-medium px-2 py-1 rounded shrink-0 ${STATUS_STYLES[status].className}`}>
+        {STATUS_STYLES[status].label}
+    </span>
+);
+
+export default function Timesheets() {
+    const { role, members } = useOrganization();
+    const {
+        timesheets,
+        pendingReviews,
+        loading,
+        error,
+        getPeriodSummary,
+        submitTimesheet,
+        withdrawTimesheet,
+        reviewTimesheet
+    } = useTimesheets();
+    const { timeZone } = useTimeZone();
+
+    const [periodType, setPeriodType] = useState<PeriodType>('week');
+    const [today] = useState(() => new Date());
+    // Day picked with the arrows; null means today in the profile time zone
+    const [reference, setReference] = useState<Date | null>(null);
+    const [summary, setSummary] = useState<{ key: string; totalSeconds: number; sessionCount: number } | null>(null);
+    const [comments, setComments] = useState<Record<string, string>>({});
+
+    // Calendar days of the period, and the instants they span in the profile time zone
+    const calendarPeriod = useMemo(
+        () => getPeriodRange(periodType, reference ?? getZonedCalendarDate(today, timeZone)),
+        [periodType, reference, today, timeZone]
+    );
+    const period = useMemo(() => toZonedPeriod(calendarPeriod, timeZone), [calendarPeriod, timeZone]);
+    const periodKey = `${periodType}:${period.start.toISOString()}`;
+
+    // Timesheet already sent for the selected period, if any
+    const current = timesheets.find(t =>
+        t.period_type === periodType && new Date(t.period_start).getTime() === period.start.getTime()
+    );
+
+    // Reload the summary when the period changes or after submitting/withdrawing
+    useEffect(() => {
+        void getPeriodSummary(period).then(result => {
+            if (result) setSummary({ key: periodKey, ...result });
+        });
+    }, [getPeriodSummary, period, periodKey, timesheets]);
+
+    const memberName = (userId: string) => {
+        const member = members.find(m => m.user_id === userId);
+        return member?.full_name || member?.email || userId.slice(0, 8);
+    };
+
+    const handleReview = async (timesheet: Timesheet, decision: 'approved' | 'rejected') => {
+        const comment = (comments[timesheet.id] ?? '').trim();
+        if (await reviewTimesheet(timesheet.id, decision, comment)) {
+            setComments(prev => ({ ...prev, [timesheet.id]: '' }));
+        }
+    };
+
+    const canReview = role === 'manager' || role === 'admin';
+    const periodStarted = period.start <= today;
+    const canSubmit = periodStarted && (!current || current.status === 'rejected');
+
+    return (
+        <div className="space-y-8">
+            {/* Header */}
+            <div>
+                <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+                    Hojas de <span className="text-primary-lime">Horas</span>
+                </h1>
+                <p className="text-gray-500 dark:text-gray-400">
+                    Envía tus horas de cada semana o mes para su aprobación. Un periodo aprobado queda bloqueado.
+                </p>
+            </div>
+
+            {error && <p className="text-sm text-red-500">{error}</p>}
+
+            {/* Current period */}
+            <div className="glass-card p-6 space-y-5">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => setReference(shiftPeriod(periodType, calendarPeriod, -1).start)}
+                            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-white/5 text-gray-600 dark:text-gray-300"
+                            title="Periodo anterior"
+                        >
+                            <ChevronLeft size={20} />
+                        </button>
+                        <span className="font-bold text-gray-900 dark:text-white capitalize min-w-[200px] text-center">
+                            {formatPeriodLabel(periodType, calendarPeriod.start)}
+                        </span>
+                        <button
+                            onClick={() => setReference(shiftPeriod(periodType, calendarPeriod, 1).start)}
+                            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-white/5 text-gray-600 dark:text-gray-300"
+                            title="Periodo siguiente"
+                        >
+                            <ChevronRight size={20} />
+                        </button>
+                    </div>
+
+                    {/* Week / month toggle */}
+                    <div className="flex bg-gray-100 dark:bg-white/5 rounded-lg p-1">
+                        {(['week', 'month'] as PeriodType[]).map(type => (
+                            <button
+                                key={type}
+                                onClick={() => setPeriodType(type)}
+                                className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors ${periodType === type
+                                    ? 'bg-primary-lime text-dark-bg'
+                                    : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                                    }`}
+                            >
+                                {type === 'week' ? 'Semana' : 'Mes'}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                    <div>
+                        <div className="text-sm text-gray-500">Total neto del periodo</div>
+                        <div className="text-2xl font-mono font-bold text-gray-900 dark:text-white">
+                            {summary?.key === periodKey ? formatTime(summary.totalSeconds) : '--:--:--'}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                            {summary?.key === periodKey ? `${summary.sessionCount} sesión(es) completada(s)` : 'Calculando...'}
+                        </div>
+                    </div>
+
+                    <div className="flex items-center gap-3">
+                        {current && <StatusBadge status={current.status} />}
+                        {current?.status === 'submitted' && (
+                            <button
+                                onClick={() => withdrawTimesheet(current.id)}
+                                className="flex items-center gap-2 px-4 py-2 text-gray-600 dark:text-gray-300 border border-gray-200 dark:border-white/10 rounded-lg hover:bg-gray-100 dark:hover:bg-white/5"
+                            >
+                                <Undo2 size={16} />
+                                Retirar
+                            </button>
+                        )}
+                        {canSubmit && (
+                            <button
+                                onClick={() => submitTimesheet(periodType, period)}
+                                className="flex items-center gap-2 px-4 py-2 bg-primary-lime text-dark-bg font-bold rounded-lg hover:bg-secondary-lime"
+                            >
+                                <Send size={16} />
+                                {current ? 'Reenviar' : 'Enviar para aprobación'}
+                            </button>
+                        )}
+                    </div>
+                </div>
+
+                {current?.status === 'rejected' && current.review_comment && (
+                    <div className="p-3 rounded-lg bg-red-500/10 text-sm text-red-600 dark:text-red-400">
+                        Motivo del rechazo: {current.review_comment}
+                    </div>
+                )}
+                {current?.status === 'approved' && (
+                    <p className="text-xs text-gray-500">
+                        Este periodo está aprobado: sus sesiones ya no se pueden editar ni eliminar.
+                    </p>
+                )}
+            </div>
+
+            {/* Pending reviews (managers and admins) */}
+            {canReview && (
+                <div className="glass-card p-6 space-y-4">
+                    <h2 className="flex items-center gap-2 text-xl font-bold text-gray-900 dark:text-white">
+                        <ClipboardCheck size={20} className="text-primary-lime" />
+                        Pendientes de revisión ({pendingReviews.length})
+                    </h2>
+
+                    {pendingReviews.length === 0 && (
+                        <p className="text-sm text-gray-500 italic">No hay hojas pendientes.</p>
+                    )}
+
+                    {pendingReviews.map(timesheet => (
+                        <div key={timesheet.id} className="p-4 rounded-lg bg-gray-50 dark:bg-white/5 space-y-3">
+                            <div className="flex flex-wrap items-center justify-between gap-2">
+                                <div>
+                                    <div className="font-medium text-gray-900 dark:text-white">{memberName(timesheet.user_id)}</div>
+                                    <div className="text-xs text-gray-500 capitalize">
+                                        {formatPeriodLabel(timesheet.period_type, timesheet.period_start, timeZone)}
+                                    </div>
+                                </div>
+                                <div className="font-mono font-bold text-gray-900 dark:text-white">
+                                    {formatTime(parseInterval(timesheet.total_duration))}
+                                </div>
+                            </div>
+                            <div className="flex flex-wrap gap-2">
+                                <input
+                                    value={comments[timesheet.id] ?? ''}
+                                    onChange={e => setComments(prev => ({ ...prev, [timesheet.id]: e.target.value }))}
+                                    placeholder="Comentario (obligatorio para rechazar)"
+                                    className={`${inputClass} flex-1 min-w-[200px]`}
+                                />
+                                <button
+                                    onClick={() => handleReview(timesheet, 'approved')}
+                                    className="flex items-center gap-1 px-3 py-2 bg-primary-lime text-dark-bg font-bold rounded-lg hover:bg-secondary-lime text-sm"
+                                >
+                                    <Check size={16} />
+                                    Aprobar
+                                </button>
+                                <button
+                                    onClick={() => handleReview(timesheet, 'rejected')}
+                                    disabled={!(comments[timesheet.id] ?? '').trim()}
+                                    className="flex items-center gap-1 px-3 py-2 text-red-500 border border-red-500/30 rounded-lg hover:bg-red-500/10 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    <X size={16} />
+                                    Rechazar
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Own history */}
+            <div className="space-y-4">
+                <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Mis hojas enviadas</h2>
+                {loading ? (
+                    <div className="text-center py-8 text-gray-500">Cargando hojas de horas...</div>
+                ) : timesheets.length === 0 ? (
+                    <div className="text-center py-8 text-gray-500 glass-card">Todavía no has enviado ninguna hoja.</div>
+                ) : (
+                    <div className="grid gap-3">
+                        {timesheets.map(timesheet => (
+                            <div key={timesheet.id} className="glass-card p-4 flex flex-wrap items-center justify-between gap-3">
+                                <div>
+                                    <div className="font-medium text-gray-900 dark:text-white capitalize">
+                                        {formatPeriodLabel(timesheet.period_type, timesheet.period_start, timeZone)}
+                                    </div>
+                                    {timesheet.review_comment && (
+                                        <div className="text-xs text-gray-500 italic">"{timesheet.review_comment}"</div>
+                                    )}
+                                </div>
+                                <div className="flex items-center gap-3">
+                                    <span className="font-mono text-sm text-gray-700 dark:text-gray-300">
+                                        {formatTime(parseInterval(timesheet.total_duration))}
+                                    </span>
+                                    <StatusBadge status={timesheet.status} />
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -9,9 +9,28 @@
  * - `profiles`: Perfiles de usuario (id, email, nombre, zona horaria).
  * - `work_sessions`: Sesiones de trabajo con estados (active, paused, completed, abandoned).
  * - `work_pauses`: Pausas dentro de una sesión de trabajo.
+ * - `organizations`: Empresas que agrupan a varios usuarios.
+ * - `organization_members`: Pertenencia de cada usuario a una organización y su rol.
+ * - `teams` / `team_members`: Equipos de una organización y sus miembros.
+ * - `timesheets`: Hojas de horas semanales/mensuales enviadas a aprobación.
+ * - `session_change_requests`: Solicitudes de cambio de sesiones fuera de la ventana de edición.
+ * - `audit_log`: Registro inmutable de cambios en sesiones, pausas y perfiles (solo lectura).
+ * - `work_schedules`: Horario laboral semanal de cada usuario (horas previstas por día).
+ * - `absences`: Ausencias (vacaciones, bajas, festivos...) con su estado de aprobación.
+ * - `absence_allowances`: Días de ausencia por año que concede cada organización, por tipo.
+ * - `holiday_calendars` / `holidays`: Calendarios de festivos (nacional, autonómico, local) y sus días.
+ * - `user_holiday_calendars`: Calendarios de festivos asignados a cada usuario.
  *
  * Funciones RPC:
  * - `check_abandoned_sessions`: Detecta sesiones olvidadas abiertas por mucho tiempo.
+ * - `compute_session_duration`: Duración neta de una sesión (la usa el trigger de `total_duration`).
+ * - `create_organization` / `add_organization_member`: Alta de organizaciones y miembros.
+ * - `current_organization_id` / `is_org_admin` / `can_view_user`: Comprobaciones de permisos.
+ * - `is_period_locked`: Indica si un instante cae en un periodo aprobado (bloqueado).
+ * - `session_edit_window_days` / `review_session_change_request`: Ventana de edición y revisión de solicitudes.
+ * - `purge_deleted_sessions`: Vacía las sesiones con más de 30 días en la papelera.
+ * - `overtime_thresholds`: Umbrales de horas extra del usuario (de su organización o por defecto).
+ * - `user_holidays`: Festivos de un usuario entre dos fechas según sus calendarios.
  *
  * Cada tabla tiene 3 sub-tipos:
  * - `Row`: Tipo de lectura (todos los campos obligatorios).
@@ -46,7 +65,9 @@ export type Database = {
              * - `id` (string): UUID del usuario, referencia a auth.users.
              * - `email` (string): Correo electrónico del usuario.
              * - `full_name` (string | null): Nombre completo (opcional).
-             * - `timezone` (string): Zona horaria del usuario (default del DB).
+             * - `timezone` (string): Zona horaria IANA del usuario (default 'Europe/Madrid'); agrupa sus sesiones por días y semanas.
+             * - `auto_close_mode` / `auto_close_after_minutes` / `auto_close_at_schedule_end`:
+             *   Cierre automático de sus sesiones olvidadas si no pertenece a una organización.
              * - `created_at` (string): Timestamp de creación.
              * - `updated_at` (string): Timestamp de última actualización.
              */
@@ -57,6 +78,9 @@ export type Database = {
                     full_name: string | null
                     provider: string
                     timezone: string
+                    auto_close_mode: 'close' | 'flag'
+                    auto_close_after_minutes: number
+                    auto_close_at_schedule_end: boolean
                     created_at: string
                     updated_at: string
                 }
@@ -66,6 +90,9 @@ export type Database = {
                     full_name?: string | null
                     provider?: string
                     timezone?: string
+                    auto_close_mode?: 'close' | 'flag'
+                    auto_close_after_minutes?: number
+                    auto_close_at_schedule_end?: boolean
                     created_at?: string
                     updated_at?: string
                 }
@@ -75,6 +102,9 @@ export type Database = {
                     full_name?: string | null
                     provider?: string
                     timezone?: string
+                    auto_close_mode?: 'close' | 'flag'
+                    auto_close_after_minutes?: number
+                    auto_close_at_schedule_end?: boolean
                     created_at?: string
                     updated_at?: string
                 }
@@ -95,10 +125,21 @@ export type Database = {
              * - `user_id` (string): UUID del usuario propietario.
              * - `start_time` (string): Timestamp ISO de inicio.
              * - `end_time` (string | null): Timestamp ISO de fin (null si activa).
-             * - `total_duration` (string | null): Duración neta formateada "HH:MM:SS".
+             * - `total_duration` (string | null): Duración neta como INTERVAL de Postgres
+             *   ("HH:MM:SS"). La calcula el trigger `set_work_sessions_total_duration`
+             *   (inicio, fin y pausas), por lo que es de solo lectura para el cliente.
              * - `status`: Estado de la sesión ('active' | 'paused' | 'completed' | 'abandoned').
+             * - `source`: Origen del registro: 'live' (fichaje en tiempo real),
+             *   'manual' (jornada registrada a posteriori por el usuario) o
+             *   'import' (importada desde un CSV de un sistema anterior).
              * - `notes` (string | null): Notas opcionales del usuario.
              * - `device_info` (Json | null): Info del dispositivo (userAgent, platform).
+             * - `deleted_at` (string | null): Fecha en que se movió a la papelera
+             *   (null = visible). Las consultas de la app excluyen las eliminadas.
+             * - `forgotten_at` (string | null): Cuándo el cierre automático la cerró
+             *   (si está completada) o la marcó como olvidada (si sigue abierta).
+             * - `recovered_at` (string | null): Cuándo el usuario la recuperó; el
+             *   límite del cierre automático se cuenta desde ahí.
              * - `created_at` / `updated_at`: Timestamps automáticos.
              */
             work_sessions: {
@@ -109,8 +150,12 @@ export type Database = {
                     end_time: string | null
                     total_duration: string | null
                     status: 'active' | 'paused' | 'completed' | 'abandoned'
+                    source: 'live' | 'manual' | 'import'
                     notes: string | null
                     device_info: Json | null
+                    deleted_at: string | null
+                    forgotten_at: string | null
+                    recovered_at: string | null
                     created_at: string
                     updated_at: string
                 }
@@ -119,10 +164,13 @@ export type Database = {
                     user_id: string
                     start_time: string
                     end_time?: string | null
-                    total_duration?: string | null
                     status: 'active' | 'paused' | 'completed' | 'abandoned'
+                    source?: 'live' | 'manual' | 'import'
                     notes?: string | null
                     device_info?: Json | null
+                    deleted_at?: string | null
+                    forgotten_at?: string | null
+                    recovered_at?: string | null
                     created_at?: string
                     updated_at?: string
                 }
@@ -131,10 +179,13 @@ export type Database = {
                     user_id?: string
                     start_time?: string
                     end_time?: string | null
-                    total_duration?: string | null
                     status?: 'active' | 'paused' | 'completed' | 'abandoned'
+                    source?: 'live' | 'manual' | 'import'
                     notes?: string | null
                     device_info?: Json | null
+                    deleted_at?: string | null
+                    forgotten_at?: string | null
+                    recovered_at?: string | null
                     created_at?: string
                     updated_at?: string
                 }
@@ -155,6 +206,8 @@ export type Database = {
              * - `session_id` (string): UUID de la sesión a la que pertenece.
              * - `pause_start` (string): Timestamp ISO de inicio de la pausa.
              * - `pause_end` (string | null): Timestamp ISO de fin (null = pausa abierta).
+             * - `pause_type_id` (string | null): Tipo de pausa (null = sin tipo).
+             * - `paid` (boolean): Si es retribuida. Lo fija el servidor a partir del tipo.
              * - `created_at` (string): Timestamp de creación.
              */
             work_pauses: {
@@ -163,6 +216,8 @@ export type Database = {
                     session_id: string
                     pause_start: string
                     pause_end: string | null
+                    pause_type_id: string | null
+                    paid: boolean
                     created_at: string
                 }
                 Insert: {
@@ -170,6 +225,7 @@ export type Database = {
                     session_id: string
                     pause_start: string
                     pause_end?: string | null
+                    pause_type_id?: string | null
                     created_at?: string
                 }
                 Update: {
@@ -177,6 +233,7 @@ export type Database = {
                     session_id?: string
                     pause_start?: string
                     pause_end?: string | null
+                    pause_type_id?: string | null
                     created_at?: string
                 }
                 Relationships: [
@@ -185,9 +242,713 @@ export type Database = {
                         columns: ["session_id"]
                         referencedRelation: "work_sessions"
                         referencedColumns: ["id"]
+                    },
+                    {
+                        foreignKeyName: "work_pauses_pause_type_id_fkey"
+                        columns: ["pause_type_id"]
+                        referencedRelation: "pause_types"
+                        referencedColumns: ["id"]
+                    }
+                ]
+            }
+            /**
+             * Tabla `organizations`: Empresa que agrupa a varios usuarios.
+             *
+             * Campos:
+             * - `id` (string): UUID único de la organización.
+             * - `name` (string): Nombre de la empresa.
+             * - `edit_window_days` (number): Días en los que las sesiones se editan
+             *   directamente; las anteriores requieren una solicitud de cambio.
+             * - `overtime_daily_minutes` / `overtime_weekly_minutes` (number): Umbrales
+             *   de horas extra al día y a la semana.
+             * - `auto_close_mode` ('close' | 'flag'), `auto_close_after_minutes` (number) y
+             *   `auto_close_at_schedule_end` (boolean): Cierre automático de las sesiones
+             *   olvidadas de sus miembros.
+             * - `created_at` / `updated_at`: Timestamps automáticos.
+             */
+            organizations: {
+                Row: {
+                    id: string
+                    name: string
+                    edit_window_days: number
+                    overtime_daily_minutes: number
+                    overtime_weekly_minutes: number
+                    auto_close_mode: 'close' | 'flag'
+                    auto_close_after_minutes: number
+                    auto_close_at_schedule_end: boolean
+                    created_at: string
+                    updated_at: string
+                }
+                Insert: {
+                    id?: string
+                    name: string
+                    edit_window_days?: number
+                    overtime_daily_minutes?: number
+                    overtime_weekly_minutes?: number
+                    auto_close_mode?: 'close' | 'flag'
+                    auto_close_after_minutes?: number
+                    auto_close_at_schedule_end?: boolean
+                    created_at?: string
+                    updated_at?: string
+                }
+                Update: {
+                    id?: string
+                    name?: string
+                    edit_window_days?: number
+                    overtime_daily_minutes?: number
+                    overtime_weekly_minutes?: number
+                    auto_close_mode?: 'close' | 'flag'
+                    auto_close_after_minutes?: number
+                    auto_close_at_schedule_end?: boolean
+                    created_at?: string
+                    updated_at?: string
+                }
+                Relationships: []
+            }
+            /**
+             * Tabla `organization_members`: Pertenencia de un usuario a una organización.
+             * Cada usuario pertenece como mucho a una organización.
+             *
+             * Campos:
+             * - `organization_id` (string): UUID de la organización.
+             * - `user_id` (string): UUID del usuario.
+             * - `role`: 'employee' (solo sus datos), 'manager' (lee los datos de sus
+             *   equipos) o 'admin' (lee toda la organización y gestiona miembros y equipos).
+             * - `created_at` (string): Timestamp de alta.
+             */
+            organization_members: {
+                Row: {
+                    organization_id: string
+                    user_id: string
+                    role: 'employee' | 'manager' | 'admin'
+                    created_at: string
+                }
+                Insert: {
+                    organization_id: string
+                    user_id: string
+                    role?: 'employee' | 'manager' | 'admin'
+                    created_at?: string
+                }
+                Update: {
+                    organization_id?: string
+                    user_id?: string
+                    role?: 'employee' | 'manager' | 'admin'
+                    created_at?: string
+                }
+                Relationships: [
+                    {
+                        foreignKeyName: "organization_members_organization_id_fkey"
+                        columns: ["organization_id"]
+                        referencedRelation: "organizations"
+                        referencedColumns: ["id"]
+                    }
+                ]
+            }
+            /**
+             * Tabla `teams`: Equipo dentro de una organización.
+             *
+             * Campos:
+             * - `id` (string): UUID único del equipo.
+             * - `organization_id` (string): UUID de la organización.
+             * - `name` (string): Nombre del equipo (único en la organización).
+             * - `created_at` (string): Timestamp de creación.
+             */
+            teams: {
+                Row: {
+                    id: string
+                    organization_id: string
+                    name: string
+                    created_at: string
+                }
+                Insert: {
+                    id?: string
+                    organization_id: string
+                    name: string
+                    created_at?: string
+                }
+                Update: {
+                    id?: string
+                    organization_id?: string
+                    name?: string
+                    created_at?: string
+                }
+                Relationships: [
+                    {
+                        foreignKeyName: "teams_organization_id_fkey"
+                        columns: ["organization_id"]
+                        referencedRelation: "organizations"
+                        referencedColumns: ["id"]
+                    }
+                ]
+            }
+            /**
+             * Tabla `team_members`: Miembros de un equipo. Un manager puede leer
+             * los datos de los usuarios con los que comparte equipo.
+             *
+             * Campos:
+             * - `team_id` (string): UUID del equipo.
+             * - `user_id` (string): UUID del usuario (debe pertenecer a la organización).
+             * - `created_at` (string): Timestamp de alta.
+             */
+            team_members: {
+                Row: {
+                    team_id: string
+                    user_id: string
+                    created_at: string
+                }
+                Insert: {
+                    team_id: string
+                    user_id: string
+                    created_at?: string
+                }
+                Update: {
+                    team_id?: string
+                    user_id?: string
+                    created_at?: string
+                }
+                Relationships: [
+                    {
+                        foreignKeyName: "team_members_team_id_fkey"
+                        columns: ["team_id"]
+                        referencedRelation: "teams"
+                        referencedColumns: ["id"]
+                    }
+                ]
+            }
+            /**
+             * Tabla `timesheets`: Hoja de horas de un periodo enviada a aprobación.
+             *
+             * Campos:
+             * - `id` (string): UUID único de la hoja.
+             * - `user_id` (string): UUID del trabajador.
+             * - `period_type`: 'week' | 'month'.
+             * - `period_start` / `period_end` (string): Rango [inicio, fin) del periodo (ISO).
+             * - `status`: 'submitted' (pendiente) | 'approved' (bloquea el periodo) | 'rejected'.
+             * - `total_duration` (string | null): Total neto del periodo al enviarla
+             *   (INTERVAL, lo calcula el trigger `check_timesheet_transition`).
+             * - `submitted_at` (string | null): Timestamp del último envío.
+             * - `reviewed_by` / `reviewed_at`: Quién y cuándo la revisó (los fija el trigger).
+             * - `review_comment` (string | null): Comentario del revisor.
+             * - `created_at` / `updated_at`: Timestamps automáticos.
+             */
+            timesheets: {
+                Row: {
+                    id: string
+                    user_id: string
+                    period_type: 'week' | 'month'
+                    period_start: string
+                    period_end: string
+                    status: 'submitted' | 'approved' | 'rejected'
+                    total_duration: string | null
+                    submitted_at: string | null
+                    reviewed_by: string | null
+                    reviewed_at: string | null
+                    review_comment: string | null
+                    created_at: string
+                    updated_at: string
+                }
+                Insert: {
+                    id?: string
+                    user_id: string
+                    period_type: 'week' | 'month'
+                    period_start: string
+                    period_end: string
+                    status?: 'submitted' | 'approved' | 'rejected'
+                    review_comment?: string | null
+                    created_at?: string
+                    updated_at?: string
+                }
+                Update: {
+                    id?: string
+                    user_id?: string
+                    period_type?: 'week' | 'month'
+                    period_start?: string
+                    period_end?: string
+                    status?: 'submitted' | 'approved' | 'rejected'
+                    review_comment?: string | null
+                    created_at?: string
+                    updated_at?: string
+                }
+                Relationships: []
+            }
+            /**
+             * Tabla `session_change_requests`: Solicitud de cambio de una sesión
+             * anterior a la ventana de edición, pendiente de aprobación.
+             *
+             * Campos:
+             * - `id` (string): UUID único de la solicitud.
+             * - `session_id` (string): Sesión a corregir.
+             * - `user_id` (string): Trabajador que la solicita (dueño de la sesión).
+             * - `status`: 'pending' | 'approved' (ya aplicada a la sesión) | 'rejected'.
+             * - `reason` (string): Motivo del cambio (obligatorio).
+             * - `original_*`: Valores de la sesión al crear la solicitud (los copia el trigger).
+             * - `proposed_*`: Inicio, fin, notas y pausas corregidos.
+             * - `reviewed_by` / `reviewed_at` / `review_comment`: Datos de la revisión.
+             * - `created_at` / `updated_at`: Timestamps automáticos.
+             */
+            session_change_requests: {
+                Row: {
+                    id: string
+                    session_id: string
+                    user_id: string
+                    status: 'pending' | 'approved' | 'rejected'
+                    reason: string
+                    original_start_time: string
+                    original_end_time: string | null
+                    original_notes: string | null
+                    original_pauses: { pause_start: string; pause_end: string | null }[]
+                    proposed_start_time: string
+                    proposed_end_time: string
+                    proposed_notes: string | null
+                    proposed_pauses: { pause_start: string; pause_end: string | null }[]
+                    reviewed_by: string | null
+                    reviewed_at: string | null
+                    review_comment: string | null
+                    created_at: string
+                    updated_at: string
+                }
+                Insert: {
+                    id?: string
+                    session_id: string
+                    user_id: string
+                    reason: string
+                    proposed_start_time: string
+                    proposed_end_time: string
+                    proposed_notes?: string | null
+                    proposed_pauses?: { pause_start: string; pause_end: string | null }[]
+                    created_at?: string
+                    updated_at?: string
+                }
+                Update: {
+                    reason?: string
+                    updated_at?: string
+                }
+                Relationships: [
+                    {
+                        foreignKeyName: "session_change_requests_session_id_fkey"
+                        columns: ["session_id"]
+                        referencedRelation: "work_sessions"
+                        referencedColumns: ["id"]
+                    }
+                ]
+            }
+            /**
+             * Tabla `audit_log`: Registro inmutable de cambios (lo rellenan triggers).
+             * El cliente solo puede leerla; no admite inserciones ni cambios.
+             *
+             * Campos:
+             * - `id` (number): Identificador incremental.
+             * - `table_name`: Tabla modificada ('work_sessions' | 'work_pauses' | 'work_segments' | 'profiles').
+             * - `record_id` (string): UUID de la fila modificada.
+             * - `session_id` (string | null): Sesión afectada (null en perfiles).
+             * - `user_id` (string | null): Dueño del registro modificado.
+             * - `action`: 'INSERT' | 'UPDATE' | 'DELETE'.
+             * - `changed_by` (string | null): Usuario que hizo el cambio (null = sistema).
+             * - `old_data` / `new_data`: Fila completa antes y después del cambio.
+             * - `client_info`: Navegador e IP de la petición, si llegó por la API.
+             * - `changed_at` (string): Timestamp del cambio.
+             */
+            audit_log: {
+                Row: {
+                    id: number
+                    table_name: 'work_sessions' | 'work_pauses' | 'work_segments' | 'profiles'
+                    record_id: string
+                    session_id: string | null
+                    user_id: string | null
+                    action: 'INSERT' | 'UPDATE' | 'DELETE'
+                    changed_by: string | null
+                    old_data: Record<string, unknown> | null
+                    new_data: Record<string, unknown> | null
+                    client_info: { user_agent: string | null; ip: string | null } | null
+                    changed_at: string
+                }
+                Insert: Record<string, never>
+                Update: Record<string, never>
+                Relationships: []
+            }
+            /**
+             * Tabla `work_schedules`: Versión del horario laboral de un usuario.
+             * Rige desde `effective_from` hasta la siguiente versión.
+             *
+             * Campos:
+             * - `id` (string): UUID único del horario.
+             * - `user_id` (string): UUID del trabajador.
+             * - `effective_from` (string): Fecha de entrada en vigor ('YYYY-MM-DD').
+             * - `days`: Patrón de lunes a domingo (`weekday` 1-7 ISO) con los minutos
+             *   previstos y la franja habitual ("HH:MM") o null si no hay franja.
+             * - `created_at` / `updated_at`: Timestamps automáticos.
+             */
+            work_schedules: {
+                Row: {
+                    id: string
+                    user_id: string
+                    effective_from: string
+                    days: { weekday: number; expected_minutes: number; start_time: string | null; end_time: string | null }[]
+                    created_at: string
+                    updated_at: string
+                }
+                Insert: {
+                    id?: string
+                    user_id: string
+                    effective_from: string
+                    days: { weekday: number; expected_minutes: number; start_time: string | null; end_time: string | null }[]
+                    created_at?: string
+                    updated_at?: string
+                }
+                Update: {
+                    effective_from?: string
+                    days?: { weekday: number; expected_minutes: number; start_time: string | null; end_time: string | null }[]
+                    updated_at?: string
+                }
+                Relationships: []
+            }
+            /**
+             * Tabla `absences`: Ausencia de un trabajador por días completos o media jornada.
+             *
+             * Campos:
+             * - `id` (string): UUID único de la ausencia.
+             * - `user_id` (string): UUID del trabajador.
+             * - `absence_type`: 'vacation' | 'sick_leave' | 'public_holiday' | 'personal' | 'other'.
+             * - `start_date` / `end_date` (string): Primer y último día ('YYYY-MM-DD', incluidos).
+             * - `half_day` (boolean): Media jornada (solo en ausencias de un día).
+             * - `notes` (string | null): Comentario del trabajador.
+             * - `status`: 'pending' | 'approved' | 'rejected' (sin organización se aprueba al crearla).
+             * - `reviewed_by` / `reviewed_at`: Quién y cuándo la revisó (los fija el trigger).
+             * - `review_comment` (string | null): Comentario del revisor.
+             * - `created_at` / `updated_at`: Timestamps automáticos.
+             */
+            absences: {
+                Row: {
+                    id: string
+                    user_id: string
+                    absence_type: 'vacation' | 'sick_leave' | 'public_holiday' | 'personal' | 'other'
+                    start_date: string
+                    end_date: string
+                    half_day: boolean
+                    notes: string | null
+                    status: 'pending' | 'approved' | 'rejected'
+                    reviewed_by: string | null
+                    reviewed_at: string | null
+                    review_comment: string | null
+                    created_at: string
+                    updated_at: string
+                }
+                Insert: {
+                    id?: string
+                    user_id: string
+                    absence_type: 'vacation' | 'sick_leave' | 'public_holiday' | 'personal' | 'other'
+                    start_date: string
+                    end_date: string
+                    half_day?: boolean
+                    notes?: string | null
+                    created_at?: string
+                    updated_at?: string
+                }
+                Update: {
+                    absence_type?: 'vacation' | 'sick_leave' | 'public_holiday' | 'personal' | 'other'
+                    start_date?: string
+                    end_date?: string
+                    half_day?: boolean
+                    notes?: string | null
+                    status?: 'pending' | 'approved' | 'rejected'
+                    review_comment?: string | null
+                    updated_at?: string
+                }
+                Relationships: []
+            }
+            /**
+             * Tabla `absence_allowances`: Días por año de cada tipo de ausencia en
+             * una organización. Sin fila para un tipo, no hay límite.
+             */
+            absence_allowances: {
+                Row: {
+                    organization_id: string
+                    absence_type: 'vacation' | 'sick_leave' | 'public_holiday' | 'personal' | 'other'
+                    days_per_year: number
+                }
+                Insert: {
+                    organization_id: string
+                    absence_type: 'vacation' | 'sick_leave' | 'public_holiday' | 'personal' | 'other'
+                    days_per_year: number
+                }
+                Update: {
+                    days_per_year?: number
+                }
+                Relationships: [
+                    {
+                        foreignKeyName: "absence_allowances_organization_id_fkey"
+                        columns: ["organization_id"]
+                        referencedRelation: "organizations"
+                        referencedColumns: ["id"]
                     }
                 ]
             }
+            /**
+             * Tabla `holiday_calendars`: Conjunto de festivos (nacional, autonómico o local).
+             *
+             * Campos:
+             * - `id` (string): UUID único del calendario.
+             * - `organization_id` (string | null): Organización dueña (null = calendario personal).
+             * - `created_by` (string): Usuario que lo creó.
+             * - `name` (string): Nombre ("Festivos nacionales 2025", "Madrid capital"...).
+             * - `scope`: 'national' | 'regional' | 'local'.
+             * - `region` (string | null): Comunidad autónoma o municipio.
+             * - `created_at` / `updated_at`: Timestamps automáticos.
+             */
+            holiday_calendars: {
+                Row: {
+                    id: string
+                    organization_id: string | null
+                    created_by: string
+                    name: string
+                    scope: 'national' | 'regional' | 'local'
+                    region: string | null
+                    created_at: string
+                    updated_at: string
+                }
+                Insert: {
+                    id?: string
+                    organization_id?: string | null
+                    created_by: string
+                    name: string
+                    scope?: 'national' | 'regional' | 'local'
+                    region?: string | null
+                    created_at?: string
+                    updated_at?: string
+                }
+                Update: {
+                    name?: string
+                    scope?: 'national' | 'regional' | 'local'
+                    region?: string | null
+                    updated_at?: string
+                }
+                Relationships: []
+            }
+            /**
+             * Tabla `holidays`: Día festivo de un calendario (uno por fecha).
+             */
+            holidays: {
+                Row: {
+                    id: string
+                    calendar_id: string
+                    holiday_date: string
+                    name: string
+                    created_at: string
+                }
+                Insert: {
+                    id?: string
+                    calendar_id: string
+                    holiday_date: string
+                    name: string
+                    created_at?: string
+                }
+                Update: {
+                    holiday_date?: string
+                    name?: string
+                }
+                Relationships: [
+                    {
+                        foreignKeyName: "holidays_calendar_id_fkey"
+                        columns: ["calendar_id"]
+                        referencedRelation: "holiday_calendars"
+                        referencedColumns: ["id"]
+                    }
+                ]
+            }
+            /**
+             * Tabla `user_holiday_calendars`: Calendarios de festivos asignados a un usuario.
+             */
+            user_holiday_calendars: {
+                Row: {
+                    user_id: string
+                    calendar_id: string
+                    created_at: string
+                }
+                Insert: {
+                    user_id: string
+                    calendar_id: string
+                    created_at?: string
+                }
+                Update: Record<string, never>
+                Relationships: [
+                    {
+                        foreignKeyName: "user_holiday_calendars_calendar_id_fkey"
+                        columns: ["calendar_id"]
+                        referencedRelation: "holiday_calendars"
+                        referencedColumns: ["id"]
+                    }
+                ]
+            }
+            /**
+             * Tabla `projects`: Proyecto (opcionalmente de un cliente) al que se imputa tiempo.
+             *
+             * Campos:
+             * - `id` (string): UUID único del proyecto.
+             * - `organization_id` (string | null): Organización dueña (null = proyecto personal).
+             * - `created_by` (string): Usuario que lo creó.
+             * - `name` (string): Nombre del proyecto.
+             * - `client` (string | null): Cliente del proyecto.
+             * - `archived` (boolean): Si ya no se ofrece al fichar.
+             * - `created_at` / `updated_at`: Timestamps automáticos.
+             */
+            projects: {
+                Row: {
+                    id: string
+                    organization_id: string | null
+                    created_by: string
+                    name: string
+                    client: string | null
+                    archived: boolean
+                    created_at: string
+                    updated_at: string
+                }
+                Insert: {
+                    id?: string
+                    organization_id?: string | null
+                    created_by: string
+                    name: string
+                    client?: string | null
+                    archived?: boolean
+                    created_at?: string
+                    updated_at?: string
+                }
+                Update: {
+                    name?: string
+                    client?: string | null
+                    archived?: boolean
+                    updated_at?: string
+                }
+                Relationships: []
+            }
+            /**
+             * Tabla `project_tasks`: Tarea opcional dentro de un proyecto.
+             */
+            project_tasks: {
+                Row: {
+                    id: string
+                    project_id: string
+                    name: string
+                    archived: boolean
+                    created_at: string
+                }
+                Insert: {
+                    id?: string
+                    project_id: string
+                    name: string
+                    archived?: boolean
+                    created_at?: string
+                }
+                Update: {
+                    name?: string
+                    archived?: boolean
+                }
+                Relationships: [
+                    {
+                        foreignKeyName: "project_tasks_project_id_fkey"
+                        columns: ["project_id"]
+                        referencedRelation: "projects"
+                        referencedColumns: ["id"]
+                    }
+                ]
+            }
+            /**
+             * Tabla `work_segments`: Tramo de una sesión imputado a un proyecto y una actividad.
+             *
+             * Campos:
+             * - `session_id` (string): Sesión a la que pertenece.
+             * - `project_id` / `task_id` (string | null): Proyecto y tarea (null = sin imputar).
+             * - `activity` (string | null): Actividad en curso, texto libre (null = sin actividad).
+             * - `segment_start` (string): Inicio del tramo.
+             * - `segment_end` (string | null): Fin del tramo (null = tramo en curso).
+             */
+            work_segments: {
+                Row: {
+                    id: string
+                    session_id: string
+                    project_id: string | null
+                    task_id: string | null
+                    activity: string | null
+                    segment_start: string
+                    segment_end: string | null
+                    created_at: string
+                }
+                Insert: {
+                    id?: string
+                    session_id: string
+                    project_id?: string | null
+                    task_id?: string | null
+                    activity?: string | null
+                    segment_start: string
+                    segment_end?: string | null
+                    created_at?: string
+                }
+                Update: {
+                    project_id?: string | null
+                    task_id?: string | null
+                    activity?: string | null
+                    segment_start?: string
+                    segment_end?: string | null
+                }
+                Relationships: [
+                    {
+                        foreignKeyName: "work_segments_session_id_fkey"
+                        columns: ["session_id"]
+                        referencedRelation: "work_sessions"
+                        referencedColumns: ["id"]
+                    },
+                    {
+                        foreignKeyName: "work_segments_project_id_fkey"
+                        columns: ["project_id"]
+                        referencedRelation: "projects"
+                        referencedColumns: ["id"]
+                    },
+                    {
+                        foreignKeyName: "work_segments_task_id_fkey"
+                        columns: ["task_id"]
+                        referencedRelation: "project_tasks"
+                        referencedColumns: ["id"]
+                    }
+                ]
+            }
+            /**
+             * Tabla `pause_types`: Tipo de pausa del convenio (café, comida...).
+             *
+             * Campos:
+             * - `organization_id` (string | null): Organización dueña (null = tipo personal).
+             * - `created_by` (string): Usuario que lo creó.
+             * - `name` (string): Nombre del tipo.
+             * - `paid` (boolean): Si sus pausas son retribuidas (no se descuentan).
+             * - `archived` (boolean): Si ya no se ofrece al pausar.
+             */
+            pause_types: {
+                Row: {
+                    id: string
+                    organization_id: string | null
+                    created_by: string
+                    name: string
+                    paid: boolean
+                    archived: boolean
+                    created_at: string
+                    updated_at: string
+                }
+                Insert: {
+                    id?: string
+                    organization_id?: string | null
+                    created_by: string
+                    name: string
+                    paid?: boolean
+                    archived?: boolean
+                    created_at?: string
+                    updated_at?: string
+                }
+                Update: {
+                    name?: string
+                    paid?: boolean
+                    archived?: boolean
+                    updated_at?: string
+                }
+                Relationships: []
+            }
         }
         Views: {
             [_ in never]: never
@@ -196,9 +957,39 @@ export type Database = {
          * Funciones RPC (Remote Procedure Calls) de la base de datos.
          *
          * `check_abandoned_sessions`: Función SQL que detecta sesiones de trabajo
-         * que llevan demasiado tiempo abiertas sin actividad.
+         * abiertas más allá del límite de cierre automático o marcadas como olvidadas.
          * - Args: no recibe parámetros.
          * - Returns: array de { session_id, hours_since_start }.
+         *
+         * `compute_session_duration`: Duración neta (INTERVAL) de una sesión,
+         * descontando sus pausas recortadas a la ventana [inicio, fin].
+         *
+         * `create_organization`: Crea una organización con el usuario actual como admin.
+         * `add_organization_member`: Un admin añade a un usuario registrado por su email.
+         * `current_organization_id` / `is_org_admin` / `can_view_user`: Comprobaciones
+         * de permisos que usan las políticas RLS.
+         *
+         * `is_period_locked`: true si el instante cae en una hoja de horas aprobada.
+         *
+         * `session_edit_window_days`: Días de edición directa del usuario (null sin organización).
+         * `review_session_change_request`: Aprueba (y aplica) o rechaza una solicitud de cambio.
+         *
+         * `purge_deleted_sessions`: Elimina definitivamente las sesiones del usuario
+         * con más de 30 días en la papelera; devuelve cuántas eliminó.
+         *
+         * `create_completed_sessions`: Crea sesiones completadas ('manual' o 'import')
+         * con sus pausas en una sola transacción; devuelve cuántas creó.
+         * `update_session_with_pauses`: Guarda inicio, fin, notas y pausas de una
+         * sesión en una sola transacción.
+         *
+         * `overtime_thresholds`: Minutos diarios y semanales a partir de los que
+         * hay horas extra (una sola fila).
+         *
+         * `auto_close_settings`: Cierre automático de las sesiones olvidadas de un
+         * usuario, el de su organización o el de su perfil (una sola fila).
+         *
+         * `user_holidays`: Festivos de un usuario entre dos fechas ('YYYY-MM-DD',
+         * incluidas) según sus calendarios asignados, uno por día.
          */
         Functions: {
             check_abandoned_sessions: {
@@ -208,6 +999,123 @@ export type Database = {
                     hours_since_start: number
                 }[]
             }
+            compute_session_duration: {
+                Args: {
+                    p_session_id: string
+                    p_start: string
+                    p_end: string | null
+                }
+                Returns: string | null
+            }
+            create_organization: {
+                Args: {
+                    p_name: string
+                }
+                Returns: string
+            }
+            add_organization_member: {
+                Args: {
+                    p_email: string
+                    p_role?: 'employee' | 'manager' | 'admin'
+                }
+                Returns: string
+            }
+            current_organization_id: {
+                Args: Record<string, never>
+                Returns: string | null
+            }
+            is_org_admin: {
+                Args: {
+                    p_organization_id: string
+                }
+                Returns: boolean
+            }
+            can_view_user: {
+                Args: {
+                    p_user_id: string
+                }
+                Returns: boolean
+            }
+            is_period_locked: {
+                Args: {
+                    p_user_id: string
+                    p_time: string
+                }
+                Returns: boolean
+            }
+            session_edit_window_days: {
+                Args: {
+                    p_user_id: string
+                }
+                Returns: number | null
+            }
+            is_outside_edit_window: {
+                Args: {
+                    p_user_id: string
+                    p_start_time: string
+                }
+                Returns: boolean
+            }
+            purge_deleted_sessions: {
+                Args: Record<string, never>
+                Returns: number
+            }
+            create_completed_sessions: {
+                Args: {
+                    p_source: 'manual' | 'import'
+                    p_sessions: Json
+                }
+                Returns: number
+            }
+            update_session_with_pauses: {
+                Args: {
+                    p_session_id: string
+                    p_start_time: string
+                    p_end_time: string
+                    p_notes: string
+                    p_pauses: Json
+                }
+                Returns: undefined
+            }
+            overtime_thresholds: {
+                Args: {
+                    p_user_id: string
+                }
+                Returns: {
+                    daily_minutes: number
+                    weekly_minutes: number
+                }[]
+            }
+            auto_close_settings: {
+                Args: {
+                    p_user_id: string
+                }
+                Returns: {
+                    mode: 'close' | 'flag'
+                    after_minutes: number
+                    at_schedule_end: boolean
+                }[]
+            }
+            user_holidays: {
+                Args: {
+                    p_user_id: string
+                    p_from: string
+                    p_to: string
+                }
+                Returns: {
+                    holiday_date: string
+                    name: string
+                    calendar_name: string
+                }[]
+            }
+            review_session_change_request: {
+                Args: {
+                    p_request_id: string
+                    p_approve: boolean
+                    p_comment?: string | null
+                }
+                Returns: undefined
+            }
         }
         Enums: {
             [_ in never]: never
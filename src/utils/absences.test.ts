@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { getAbsenceForDate, getAbsenceFraction, countAbsenceDays, getAllowanceUsage, type AbsenceRange } from './absences';
+import { computeBalance } from './hourBalance';
+import { createDefaultScheduleDays, type WorkSchedule } from './schedule';
+
+const schedules: WorkSchedule[] = [{ effective_from: '2024-01-01', days: createDefaultScheduleDays() }];
+
+// Lunes 5 a domingo 11 de agosto de 2024.
+const vacation: AbsenceRange = { absence_type: 'vacation', start_date: '2024-08-05', end_date: '2024-08-11', half_day: false, status: 'approved' };
+const halfDay: AbsenceRange = { absence_type: 'personal', start_date: '2024-08-12', end_date: '2024-08-12', half_day: true, status: 'approved' };
+
+describe('absences', () => {
+    describe('getAbsenceForDate', () => {
+        it('should find the absence covering a date', () => {
+            expect(getAbsenceForDate([vacation, halfDay], new Date(2024, 7, 11))).toBe(vacation);
+            expect(getAbsenceForDate([vacation, halfDay], new Date(2024, 7, 13))).toBeNull();
+        });
+
+        it('should ignore rejected absences', () => {
+            expect(getAbsenceForDate([{ ...vacation, status: 'rejected' }], new Date(2024, 7, 6))).toBeNull();
+        });
+    });
+
+    describe('getAbsenceFraction', () => {
+        it('should count only approved absences', () => {
+            expect(getAbsenceFraction([vacation], new Date(2024, 7, 6))).toBe(1);
+            expect(getAbsenceFraction([halfDay], new Date(2024, 7, 12))).toBe(0.5);
+            expect(getAbsenceFraction([{ ...vacation, status: 'pending' }], new Date(2024, 7, 6))).toBe(0);
+        });
+    });
+
+    describe('countAbsenceDays', () => {
+        it('should count working days of the schedule', () => {
+            expect(countAbsenceDays(vacation, schedules)).toBe(5);
+            expect(countAbsenceDays(halfDay, schedules)).toBe(0.5);
+        });
+
+        it('should skip public holidays', () => {
+            expect(countAbsenceDays(vacation, schedules, undefined, ['2024-08-08'])).toBe(4);
+        });
+
+        it('should count Monday to Friday without a schedule', () => {
+            expect(countAbsenceDays(vacation, [])).toBe(5);
+        });
+
+        it('should limit the count to the given year', () => {
+            const newYear: AbsenceRange = { ...vacation, start_date: '2024-12-30', end_date: '2025-01-03' };
+            expect(countAbsenceDays(newYear, schedules, 2024)).toBe(2);
+            expect(countAbsenceDays(newYear, schedules, 2025)).toBe(3);
+        });
+    });
+
+    describe('getAllowanceUsage', () => {
+        it('should add up pending and approved days per type', () => {
+            const usage = getAllowanceUsage([vacation, halfDay, { ...vacation, start_date: '2024-09-02', end_date: '2024-09-02', status: 'pending' }], schedules, 2024);
+            expect(usage.vacation).toBe(6);
+            expect(usage.personal).toBe(0.5);
+            expect(usage.sick_leave).toBe(0);
+        });
+    });
+
+    describe('expected hours', () => {
+        it('should not expect hours on approved absence days', () => {
+            const balance = computeBalance({}, schedules, new Date(2024, 7, 5), new Date(2024, 7, 13), [vacation, halfDay]);
+            expect(balance.expectedSeconds).toBe(4 * 3600);
+        });
+    });
+});
@@ -0,0 +1,115 @@
+import { getExpectedSeconds, toDateKey, type WorkSchedule } from './schedule';
+
+/**
+ * Tipo de ausencia (columna `absences.absence_type`).
+ */
+export type AbsenceType = 'vacation' | 'sick_leave' | 'public_holiday' | 'personal' | 'other';
+
+/**
+ * Tipos de ausencia en el orden en que se muestran.
+ */
+export const ABSENCE_TYPES: AbsenceType[] = ['vacation', 'sick_leave', 'public_holiday', 'personal', 'other'];
+
+/**
+ * Nombre legible de cada tipo de ausencia.
+ */
+export const ABSENCE_TYPE_LABELS: Record<AbsenceType, string> = {
+    vacation: 'Vacaciones',
+    sick_leave: 'Baja médica',
+    public_holiday: 'Festivo',
+    personal: 'Asuntos propios',
+    other: 'Otra ausencia',
+};
+
+/**
+ * Campos de una ausencia necesarios para los cálculos.
+ *
+ * @property {string} start_date - Primer día ("YYYY-MM-DD").
+ * @property {string} end_date - Último día, incluido ("YYYY-MM-DD").
+ * @property {boolean} half_day - Media jornada (ausencias de un solo día).
+ */
+export interface AbsenceRange {
+    absence_type: AbsenceType;
+    start_date: string;
+    end_date: string;
+    half_day: boolean;
+    status: 'pending' | 'approved' | 'rejected';
+}
+
+/**
+ * Ausencia no rechazada que cubre una fecha, si la hay.
+ *
+ * @param {T[]} absences - Ausencias del usuario.
+ * @param {Date} date - Día consultado (hora local).
+ * @returns {T | null} La ausencia de ese día, o null.
+ */
+export function getAbsenceForDate<T extends AbsenceRange>(absences: T[], date: Date): T | null {
+    const key = toDateKey(date);
+    return absences.find(a => a.status !== 'rejected' && a.start_date <= key && a.end_date >= key) ?? null;
+}
+
+/**
+ * Parte de la jornada prevista que cubre una ausencia aprobada: 1 (día
+ * completo), 0.5 (media jornada) o 0 (sin ausencia aprobada).
+ *
+ * @param {AbsenceRange[]} absences - Ausencias del usuario.
+ * @param {Date} date - Día consultado (hora local).
+ */
+export function getAbsenceFraction(absences: AbsenceRange[], date: Date): number {
+    const absence = getAbsenceForDate(absences.filter(a => a.status === 'approved'), date);
+    if (!absence) return 0;
+    return absence.half_day ? 0.5 : 1;
+}
+
+// Sin horario, se consideran laborables los días de lunes a viernes.
+const isWorkingDay = (schedules: WorkSchedule[], date: Date) =>
+    schedules.length > 0
+        ? getExpectedSeconds(schedules, date) > 0
+        : date.getDay() !== 0 && date.getDay() !== 6;
+
+/**
+ * Días laborables que consume una ausencia (0.5 si es media jornada). Los
+ * festivos no cuentan. Solo cuenta los días del año indicado, si se indica.
+ *
+ * @param {AbsenceRange} absence - Ausencia a contar.
+ * @param {WorkSchedule[]} schedules - Horario del usuario (define los días laborables).
+ * @param {number} [year] - Año al que se limita el recuento.
+ * @param {string[]} [holidayDates] - Festivos del usuario ("YYYY-MM-DD").
+ * @returns {number} Días consumidos.
+ */
+export function countAbsenceDays(absence: AbsenceRange, schedules: WorkSchedule[], year?: number, holidayDates: string[] = []): number {
+    const [startYear, startMonth, startDay] = absence.start_date.split('-').map(Number);
+    const day = new Date(startYear, startMonth - 1, startDay);
+    let count = 0;
+
+    while (toDateKey(day) <= absence.end_date) {
+        if ((year === undefined || day.getFullYear() === year)
+            && isWorkingDay(schedules, day)
+            && !holidayDates.includes(toDateKey(day))) {
+            count += absence.half_day ? 0.5 : 1;
+        }
+        day.setDate(day.getDate() + 1);
+    }
+
+    return count;
+}
+
+/**
+ * Días consumidos de cada tipo en un año (ausencias aprobadas y pendientes).
+ *
+ * @param {AbsenceRange[]} absences - Ausencias del usuario.
+ * @param {WorkSchedule[]} schedules - Horario del usuario.
+ * @param {number} year - Año natural.
+ * @param {string[]} [holidayDates] - Festivos del usuario ("YYYY-MM-DD").
+ * @returns {Record<AbsenceType, number>} Días por tipo.
+ */
+export function getAllowanceUsage(absences: AbsenceRange[], schedules: WorkSchedule[], year: number, holidayDates: string[] = []): Record<AbsenceType, number> {
+    const usage = Object.fromEntries(ABSENCE_TYPES.map(type => [type, 0])) as Record<AbsenceType, number>;
+
+    for (const absence of absences) {
+        if (absence.status === 'rejected') continue;
+        usage[absence.absence_type] += countAbsenceDays(absence, schedules, year, holidayDates);
+    }
+
+    return usage;
+}
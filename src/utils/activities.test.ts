@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { getActivityBreakdown, type ActivitySession } from './activities';
+import { getProjectBreakdown } from './projects';
+
+// Jornada de 09:00 a 14:30 (UTC) con pausa de 11:30 a 12:00: soporte, desarrollo y otra vez soporte.
+const session: ActivitySession = {
+    start_time: '2024-01-15T09:00:00Z',
+    end_time: '2024-01-15T14:30:00Z',
+    work_pauses: [{ pause_start: '2024-01-15T11:30:00Z', pause_end: '2024-01-15T12:00:00Z' }],
+    work_segments: [
+        { segment_start: '2024-01-15T09:00:00Z', segment_end: '2024-01-15T10:00:00Z', activity: 'Soporte' },
+        { segment_start: '2024-01-15T10:00:00Z', segment_end: '2024-01-15T13:30:00Z', activity: 'Desarrollo' },
+        { segment_start: '2024-01-15T13:30:00Z', segment_end: null, activity: 'Soporte' }
+    ]
+};
+
+describe('activities', () => {
+    describe('getActivityBreakdown', () => {
+        it('should add up net time per activity, minus pauses', () => {
+            expect(getActivityBreakdown(session)).toEqual([
+                { activity: 'Desarrollo', seconds: 3 * 3600 },
+                { activity: 'Soporte', seconds: 2 * 3600 }
+            ]);
+        });
+
+        it('should count an open session and its open pause until now', () => {
+            const open = {
+                start_time: '2024-01-15T09:00:00Z',
+                end_time: null,
+                work_pauses: [{ pause_start: '2024-01-15T10:30:00Z', pause_end: null }],
+                work_segments: [{ segment_start: '2024-01-15T09:00:00Z', segment_end: null, activity: null }]
+            };
+            expect(getActivityBreakdown(open, new Date('2024-01-15T11:00:00Z'))).toEqual([
+                { activity: null, seconds: 1.5 * 3600 }
+            ]);
+        });
+
+        it('should match the project breakdown total, paid pauses included', () => {
+            const withProjects = {
+                ...session,
+                work_pauses: [...session.work_pauses, { pause_start: '2024-01-15T13:00:00Z', pause_end: '2024-01-15T13:15:00Z', paid: true }],
+                work_segments: session.work_segments!.map(segment => ({ ...segment, project_id: 'web', task_id: null }))
+            };
+            const sum = (totals: { seconds: number }[]) => totals.reduce((acc, total) => acc + total.seconds, 0);
+
+            expect(sum(getActivityBreakdown(withProjects))).toBe(5 * 3600);
+            expect(sum(getProjectBreakdown(withProjects))).toBe(5 * 3600);
+        });
+
+        it('should return nothing for a session without segments', () => {
+            expect(getActivityBreakdown({ ...session, work_segments: undefined })).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,67 @@
+// segmentNetSeconds: tiempo neto (sin pausas) de un tramo, el mismo que usa el reparto por proyectos.
+import { segmentNetSeconds, type AllocatableSession } from './dayAllocation';
+import type { Tramo } from './duration';
+
+/**
+ * Tramo de una sesión con su actividad (fila de `work_segments`).
+ *
+ * @property {string | null} activity - Actividad del tramo; null = sin actividad.
+ */
+export interface ActivitySegment extends Tramo {
+    activity: string | null;
+}
+
+/**
+ * Sesión con sus pausas y sus tramos. Las sesiones anteriores a los tramos
+ * (o registradas a mano) no tienen ninguno.
+ */
+export interface ActivitySession extends AllocatableSession {
+    work_segments?: ActivitySegment[];
+}
+
+/**
+ * Tiempo neto dedicado a una actividad.
+ */
+export interface ActivityTotal {
+    activity: string | null;
+    seconds: number;
+}
+
+/**
+ * Actividades que se proponen al cambiar de actividad, además de las ya
+ * usadas en la sesión. La actividad es texto libre.
+ */
+export const ACTIVITY_SUGGESTIONS = ['Desarrollo', 'Soporte', 'Reuniones', 'Formación', 'Gestión'];
+
+/**
+ * Reparte el tiempo neto de una sesión entre las actividades de sus tramos.
+ *
+ * Cada tramo aporta lo mismo que en `getProjectBreakdown`: las pausas no
+ * retribuidas se descuentan y las retribuidas cuentan como trabajo. Una sesión
+ * abierta cuenta hasta `now`, y su pausa abierta también se descuenta hasta
+ * `now` (como el cronómetro).
+ *
+ * @param {ActivitySession} session - Sesión con pausas y tramos.
+ * @param {Date} [now] - Instante hasta el que cuenta una sesión abierta.
+ * @returns {ActivityTotal[]} Un total por actividad, de mayor a menor. Vacío si
+ *   la sesión no tiene tramos.
+ *
+ * @example
+ * // "2h en soporte, 3h en desarrollo" dentro de la misma jornada.
+ * getActivityBreakdown({ start_time: '2024-01-15T09:00:00Z', end_time: '2024-01-15T14:00:00Z', work_pauses: [], work_segments: [
+ *   { segment_start: '2024-01-15T09:00:00Z', segment_end: '2024-01-15T11:00:00Z', activity: 'Soporte' },
+ *   { segment_start: '2024-01-15T11:00:00Z', segment_end: null, activity: 'Desarrollo' },
+ * ] });
+ * // → [{ activity: 'Desarrollo', seconds: 10800 }, { activity: 'Soporte', seconds: 7200 }]
+ */
+export function getActivityBreakdown(session: ActivitySession, now: Date = new Date()): ActivityTotal[] {
+    const totals = new Map<string | null, number>();
+    for (const segment of session.work_segments ?? []) {
+        totals.set(segment.activity, (totals.get(segment.activity) ?? 0) + segmentNetSeconds(session, segment, undefined, now));
+    }
+
+    return [...totals.entries()]
+        .map(([activity, seconds]) => ({ activity, seconds }))
+        .filter(total => total.seconds > 0)
+        .sort((a, b) => b.seconds - a.seconds);
+}
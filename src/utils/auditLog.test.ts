@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { describeAuditAction, getAuditChanges, isTimestampField } from './auditLog';
+
+describe('getAuditChanges', () => {
+    it('should list only the visible fields that changed in an update', () => {
+        const changes = getAuditChanges({
+            table_name: 'work_sessions',
+            action: 'UPDATE',
+            old_data: { id: 's1', start_time: '2024-01-15T09:00:00+00:00', end_time: '2024-01-15T17:00:00+00:00', notes: null, updated_at: 'a' },
+            new_data: { id: 's1', start_time: '2024-01-15T08:30:00+00:00', end_time: '2024-01-15T17:00:00+00:00', notes: 'Reunión', updated_at: 'b' },
+        });
+
+        expect(changes).toEqual([
+            { field: 'start_time', label: 'Inicio', before: '2024-01-15T09:00:00+00:00', after: '2024-01-15T08:30:00+00:00' },
+            { field: 'notes', label: 'Notas', before: null, after: 'Reunión' },
+        ]);
+    });
+
+    it('should list the values of a deleted pause as removed', () => {
+        const changes = getAuditChanges({
+            table_name: 'work_pauses',
+            action: 'DELETE',
+            old_data: { id: 'p1', pause_start: '2024-01-15T12:00:00+00:00', pause_end: null },
+            new_data: null,
+        });
+
+        expect(changes).toEqual([
+            { field: 'pause_start', label: 'Inicio de pausa', before: '2024-01-15T12:00:00+00:00', after: null },
+        ]);
+    });
+});
+
+describe('describeAuditAction', () => {
+    it('should describe the action for each table', () => {
+        expect(describeAuditAction({ table_name: 'work_sessions', action: 'INSERT', old_data: null, new_data: {} })).toBe('Sesión creada');
+        expect(describeAuditAction({ table_name: 'work_pauses', action: 'DELETE', old_data: {}, new_data: null })).toBe('Pausa eliminada');
+        expect(describeAuditAction({ table_name: 'work_segments', action: 'UPDATE', old_data: {}, new_data: {} })).toBe('Tramo modificado');
+        expect(describeAuditAction({ table_name: 'profiles', action: 'UPDATE', old_data: {}, new_data: {} })).toBe('Perfil modificado');
+    });
+});
+
+describe('isTimestampField', () => {
+    it('should detect session, pause and segment timestamps', () => {
+        expect(isTimestampField('start_time')).toBe(true);
+        expect(isTimestampField('pause_end')).toBe(true);
+        expect(isTimestampField('segment_start')).toBe(true);
+        expect(isTimestampField('notes')).toBe(false);
+    });
+});
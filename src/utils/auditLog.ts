@@ -0,0 +1,107 @@
+/**
+ * Entrada del registro de auditoría (`audit_log`) con los campos necesarios
+ * para describirla en la UI.
+ */
+export interface AuditEntry {
+    table_name: 'work_sessions' | 'work_pauses' | 'work_segments' | 'profiles';
+    action: 'INSERT' | 'UPDATE' | 'DELETE';
+    old_data: Record<string, unknown> | null;
+    new_data: Record<string, unknown> | null;
+}
+
+/**
+ * Cambio de un campo concreto entre la fila anterior y la nueva.
+ *
+ * @property {string} field - Columna de la tabla.
+ * @property {string} label - Nombre legible de la columna.
+ * @property {string | null} before - Valor anterior (null si no existía).
+ * @property {string | null} after - Valor nuevo (null si se eliminó o vació).
+ */
+export interface AuditChange {
+    field: string;
+    label: string;
+    before: string | null;
+    after: string | null;
+}
+
+/**
+ * Columnas que se muestran en el historial de cambios, por tabla. El resto
+ * (ids, timestamps técnicos, device_info) se omiten.
+ */
+const FIELD_LABELS: Record<AuditEntry['table_name'], Record<string, string>> = {
+    work_sessions: {
+        start_time: 'Inicio',
+        end_time: 'Fin',
+        status: 'Estado',
+        total_duration: 'Duración neta',
+        notes: 'Notas',
+        source: 'Origen',
+    },
+    work_pauses: {
+        pause_start: 'Inicio de pausa',
+        pause_end: 'Fin de pausa',
+    },
+    work_segments: {
+        segment_start: 'Inicio de tramo',
+        segment_end: 'Fin de tramo',
+        activity: 'Actividad',
+    },
+    profiles: {
+        email: 'Email',
+        full_name: 'Nombre',
+        timezone: 'Zona horaria',
+    },
+};
+
+/**
+ * Descripción de cada acción, por tabla.
+ */
+const ACTION_LABELS: Record<AuditEntry['table_name'], Record<AuditEntry['action'], string>> = {
+    work_sessions: { INSERT: 'Sesión creada', UPDATE: 'Sesión modificada', DELETE: 'Sesión eliminada' },
+    work_pauses: { INSERT: 'Pausa añadida', UPDATE: 'Pausa modificada', DELETE: 'Pausa eliminada' },
+    work_segments: { INSERT: 'Tramo añadido', UPDATE: 'Tramo modificado', DELETE: 'Tramo eliminado' },
+    profiles: { INSERT: 'Perfil creado', UPDATE: 'Perfil modificado', DELETE: 'Perfil eliminado' },
+};
+
+/**
+ * Descripción corta de una entrada ("Sesión modificada", "Pausa eliminada").
+ *
+ * @param {AuditEntry} entry - Entrada del registro.
+ * @returns {string} Texto para la UI.
+ */
+export function describeAuditAction(entry: AuditEntry): string {
+    return ACTION_LABELS[entry.table_name][entry.action];
+}
+
+const toText = (value: unknown): string | null =>
+    value === null || value === undefined || value === '' ? null : String(value);
+
+/**
+ * Campos visibles que cambiaron en una entrada.
+ *
+ * - INSERT: los campos con valor en la fila creada.
+ * - UPDATE: los campos cuyo valor es distinto antes y después.
+ * - DELETE: los campos con valor en la fila eliminada.
+ *
+ * @param {AuditEntry} entry - Entrada del registro.
+ * @returns {AuditChange[]} Cambios en el orden de `FIELD_LABELS`.
+ */
+export function getAuditChanges(entry: AuditEntry): AuditChange[] {
+    const labels = FIELD_LABELS[entry.table_name];
+
+    return Object.entries(labels)
+        .map(([field, label]) => ({
+            field,
+            label,
+            before: toText(entry.old_data?.[field]),
+            after: toText(entry.new_data?.[field]),
+        }))
+        .filter(change => change.before !== change.after);
+}
+
+/**
+ * Indica si un campo guarda un timestamp (para formatearlo como fecha y hora).
+ */
+export function isTimestampField(field: string): boolean {
+    return field.endsWith('_time') || field.endsWith('_start') || field.endsWith('_end');
+}
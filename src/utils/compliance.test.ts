@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateCompliance, evaluateComplianceByWeek, groupIssuesBySession, type ComplianceSession } from './compliance';
+
+const TZ = 'Europe/Madrid';
+
+// Sesión sin pausas entre dos instantes UTC.
+const session = (id: string, start: string, end: string | null, work_pauses: ComplianceSession['work_pauses'] = []): ComplianceSession =>
+    ({ id, start_time: start, end_time: end, work_pauses });
+
+describe('compliance', () => {
+    describe('evaluateCompliance', () => {
+        it('should flag a workday over six hours without a 15-minute break', () => {
+            const issues = evaluateCompliance([session('s1', '2024-01-15T07:00:00Z', '2024-01-15T14:30:00Z')], TZ);
+            expect(issues).toEqual([{
+                rule: 'missing_break',
+                sessionId: 's1',
+                message: 'Jornada de 7 h 30 min sin un descanso de al menos 15 min'
+            }]);
+        });
+
+        it('should accept a 15-minute break, even if it is paid', () => {
+            const pauses = [{ pause_start: '2024-01-15T10:00:00Z', pause_end: '2024-01-15T10:15:00Z', paid: true }];
+            expect(evaluateCompliance([session('s1', '2024-01-15T07:00:00Z', '2024-01-15T14:30:00Z', pauses)], TZ)).toEqual([]);
+        });
+
+        it('should not require a break up to six hours', () => {
+            expect(evaluateCompliance([session('s1', '2024-01-15T07:00:00Z', '2024-01-15T13:00:00Z')], TZ)).toEqual([]);
+        });
+
+        it('should flag less than 12 hours of rest between workdays', () => {
+            const issues = evaluateCompliance([
+                session('late', '2024-01-15T14:00:00Z', '2024-01-15T20:00:00Z'),
+                session('early', '2024-01-16T06:00:00Z', '2024-01-16T10:00:00Z')
+            ], TZ);
+            expect(issues).toEqual([{
+                rule: 'short_rest',
+                sessionId: 'early',
+                message: 'Solo 10 h 0 min de descanso desde la jornada anterior (mínimo 12 h)'
+            }]);
+        });
+
+        it('should not treat a split shift on the same day as two workdays', () => {
+            expect(evaluateCompliance([
+                session('morning', '2024-01-15T07:00:00Z', '2024-01-15T11:00:00Z'),
+                session('afternoon', '2024-01-15T14:00:00Z', '2024-01-15T17:00:00Z')
+            ], TZ)).toEqual([]);
+        });
+
+        it('should flag the session that exceeds the weekly maximum', () => {
+            // Lunes a viernes de 08:00 a 16:00 con media hora de pausa (37,5 h) y el sábado por la mañana.
+            const pause = (day: string) => [{ pause_start: `2024-01-${day}T10:00:00Z`, pause_end: `2024-01-${day}T10:30:00Z` }];
+            const week = ['15', '16', '17', '18', '19'].map(day =>
+                session(`d${day}`, `2024-01-${day}T07:00:00Z`, `2024-01-${day}T15:00:00Z`, pause(day)));
+            const issues = evaluateCompliance([
+                ...week,
+                session('sat', '2024-01-20T07:00:00Z', '2024-01-20T13:00:00Z', pause('20'))
+            ], TZ);
+            expect(issues).toEqual([{
+                rule: 'weekly_maximum',
+                sessionId: 'sat',
+                message: 'Más de 40 h trabajadas en la semana del 15/01/2024'
+            }]);
+        });
+
+        it('should count an open session until now', () => {
+            const issues = evaluateCompliance(
+                [session('open', '2024-01-15T07:00:00Z', null)],
+                TZ,
+                new Date('2024-01-15T13:30:00Z')
+            );
+            expect(issues.map(issue => issue.rule)).toEqual(['missing_break']);
+        });
+    });
+
+    describe('evaluateComplianceByWeek', () => {
+        // Sábado 20 (5 h 30 min tras 37,5 h) y lunes 22 temprano tras un domingo tarde.
+        const pause = (day: string) => [{ pause_start: `2024-01-${day}T10:00:00Z`, pause_end: `2024-01-${day}T10:30:00Z` }];
+        const sessions = [
+            ...['15', '16', '17', '18', '19', '20'].map(day =>
+                session(`d${day}`, `2024-01-${day}T07:00:00Z`, `2024-01-${day}T${day === '20' ? '13' : '15'}:00:00Z`, pause(day))),
+            session('sun', '2024-01-21T14:00:00Z', '2024-01-21T20:00:00Z'),
+            session('mon', '2024-01-22T06:00:00Z', '2024-01-22T10:00:00Z')
+        ];
+
+        it('should evaluate whole weeks and the rest across the week edge', () => {
+            const weekStarts = ['2024-01-14T23:00:00.000Z', '2024-01-21T23:00:00.000Z'];
+            const issues = evaluateComplianceByWeek(sessions, weekStarts, TZ);
+            expect(issues.map(issue => [issue.rule, issue.sessionId])).toEqual([
+                ['weekly_maximum', 'd20'],
+                ['short_rest', 'mon']
+            ]);
+        });
+
+        it('should only report the sessions of the requested weeks', () => {
+            const issues = evaluateComplianceByWeek(sessions, ['2024-01-21T23:00:00.000Z'], TZ);
+            expect(issues.map(issue => issue.sessionId)).toEqual(['mon']);
+        });
+    });
+
+    describe('groupIssuesBySession', () => {
+        it('should group issues by session id', () => {
+            const issues = evaluateCompliance([
+                session('late', '2024-01-15T12:00:00Z', '2024-01-15T20:00:00Z'),
+                session('early', '2024-01-16T06:00:00Z', '2024-01-16T10:00:00Z')
+            ], TZ);
+            expect(Object.keys(groupIssuesBySession(issues))).toEqual(['late', 'early']);
+            expect(groupIssuesBySession(issues).late[0].rule).toBe('missing_break');
+        });
+    });
+});
@@ -0,0 +1,214 @@
+// netSecondsInRange / allocateSessionByDay: tiempo neto de una sesión (total y por días).
+import { allocateSessionByDay, netSecondsInRange, type AllocatableSession } from './dayAllocation';
+import { toDateKey } from './schedule';
+import { getZonedDateKey } from './timezone';
+// getStartOfWeek: semana (zona del perfil) a la que pertenece cada sesión.
+import { getStartOfWeek } from './date';
+
+/**
+ * Reglas de descanso y jornada que se comprueban:
+ * - missing_break: jornada continuada de más de 6 h sin una pausa de 15 min.
+ * - short_rest: menos de 12 h de descanso entre el fin de una jornada y el
+ *   inicio de la siguiente.
+ * - weekly_maximum: más de 40 h trabajadas en una semana (lunes a domingo).
+ */
+export type ComplianceRule = 'missing_break' | 'short_rest' | 'weekly_maximum';
+
+/**
+ * Límites legales (Estatuto de los Trabajadores, arts. 34.1, 34.3 y 34.4).
+ */
+export const COMPLIANCE_LIMITS = {
+    breakRequiredAfterSeconds: 6 * 3600,
+    minBreakSeconds: 15 * 60,
+    minRestSeconds: 12 * 3600,
+    maxWeeklySeconds: 40 * 3600,
+};
+
+/**
+ * Nombre corto de cada regla para la UI.
+ */
+export const COMPLIANCE_RULE_LABELS: Record<ComplianceRule, string> = {
+    missing_break: 'Sin descanso de 15 min',
+    short_rest: 'Descanso entre jornadas < 12 h',
+    weekly_maximum: 'Más de 40 h semanales',
+};
+
+/**
+ * Sesión a evaluar: con sus pausas (de cualquier tipo) y su id para marcarla.
+ */
+export interface ComplianceSession extends AllocatableSession {
+    id: string;
+}
+
+/**
+ * Incumplimiento detectado, asociado a la sesión en la que se produce.
+ *
+ * @property {ComplianceRule} rule - Regla incumplida.
+ * @property {string} sessionId - Sesión afectada (la que supera el límite).
+ * @property {string} message - Explicación legible para la UI.
+ */
+export interface ComplianceIssue {
+    rule: ComplianceRule;
+    sessionId: string;
+    message: string;
+}
+
+/**
+ * Duración legible: "6 h 20 min", "45 min".
+ */
+function formatHours(seconds: number): string {
+    const minutes = Math.floor(seconds / 60);
+    const h = Math.floor(minutes / 60);
+    return h > 0 ? `${h} h ${minutes % 60} min` : `${minutes} min`;
+}
+
+/**
+ * Pausa más larga de una sesión en segundos. Cualquier pausa cuenta como
+ * descanso, sea retribuida o no; una pausa abierta cuenta hasta el fin (o `now`).
+ */
+function longestPauseSeconds(session: AllocatableSession, now: Date): number {
+    const end = session.end_time ? new Date(session.end_time).getTime() : now.getTime();
+    return session.work_pauses.reduce((longest, pause) => {
+        const pEnd = pause.pause_end ? new Date(pause.pause_end).getTime() : end;
+        return Math.max(longest, Math.floor((pEnd - new Date(pause.pause_start).getTime()) / 1000));
+    }, 0);
+}
+
+/**
+ * Lunes de la semana de un día "YYYY-MM-DD", como clave "YYYY-MM-DD".
+ */
+function getWeekKey(dateKey: string): string {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    const date = new Date(year, month - 1, day);
+    date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+    return toDateKey(date);
+}
+
+/**
+ * Evalúa las reglas de descanso y jornada sobre un conjunto de sesiones de un
+ * mismo usuario.
+ *
+ * - El descanso de 15 min se exige en cada sesión (jornada continuada) cuyo
+ *   tiempo neto supera las 6 h.
+ * - El descanso entre jornadas se mide entre sesiones consecutivas que
+ *   empiezan en días distintos (zona del perfil): dos tramos del mismo día
+ *   (jornada partida) no cuentan como jornadas distintas.
+ * - El máximo semanal se marca en la sesión con la que se supera.
+ *
+ * Solo se evalúa lo que hay en `sessions`: si falta la sesión anterior o el
+ * resto de la semana, esas reglas no se pueden incumplir (nunca da falsos
+ * positivos por datos incompletos).
+ *
+ * @param {ComplianceSession[]} sessions - Sesiones del usuario (completadas o abiertas).
+ * @param {string} timeZone - Zona horaria del perfil (días y semanas).
+ * @param {Date} [now] - Instante hasta el que cuenta una sesión abierta.
+ * @returns {ComplianceIssue[]} Incumplimientos, en orden cronológico.
+ *
+ * @example
+ * // Jornada de 09:00 a 16:30 sin pausas.
+ * evaluateCompliance([{ id: 's1', start_time: '2024-01-15T08:00:00Z', end_time: '2024-01-15T15:30:00Z', work_pauses: [] }], 'Europe/Madrid');
+ * // → [{ rule: 'missing_break', sessionId: 's1', message: 'Jornada de 7 h 30 min sin un descanso de al menos 15 min' }]
+ */
+export function evaluateCompliance(sessions: ComplianceSession[], timeZone: string, now: Date = new Date()): ComplianceIssue[] {
+    const issues: ComplianceIssue[] = [];
+    const sorted = [...sessions].sort((a, b) => a.start_time.localeCompare(b.start_time));
+    const weekTotals: Record<string, number> = {};
+
+    sorted.forEach((session, index) => {
+        const start = new Date(session.start_time);
+        const end = session.end_time ? new Date(session.end_time) : now;
+
+        // Descanso de 15 min en jornadas de más de 6 h.
+        const netSeconds = netSecondsInRange(session, start, end, now);
+        if (netSeconds > COMPLIANCE_LIMITS.breakRequiredAfterSeconds
+            && longestPauseSeconds(session, now) < COMPLIANCE_LIMITS.minBreakSeconds) {
+            issues.push({
+                rule: 'missing_break',
+                sessionId: session.id,
+                message: `Jornada de ${formatHours(netSeconds)} sin un descanso de al menos 15 min`
+            });
+        }
+
+        // 12 h de descanso desde la jornada anterior (la de otro día).
+        const previous = sorted[index - 1];
+        if (previous?.end_time
+            && getZonedDateKey(new Date(previous.start_time), timeZone) !== getZonedDateKey(start, timeZone)) {
+            const restSeconds = Math.floor((start.getTime() - new Date(previous.end_time).getTime()) / 1000);
+            if (restSeconds >= 0 && restSeconds < COMPLIANCE_LIMITS.minRestSeconds) {
+                issues.push({
+                    rule: 'short_rest',
+                    sessionId: session.id,
+                    message: `Solo ${formatHours(restSeconds)} de descanso desde la jornada anterior (mínimo 12 h)`
+                });
+            }
+        }
+
+        // Máximo semanal: se marca la sesión con la que se supera.
+        for (const [dateKey, seconds] of Object.entries(allocateSessionByDay(session, timeZone, now))) {
+            const week = getWeekKey(dateKey);
+            const before = weekTotals[week] ?? 0;
+            weekTotals[week] = before + seconds;
+            if (before <= COMPLIANCE_LIMITS.maxWeeklySeconds && weekTotals[week] > COMPLIANCE_LIMITS.maxWeeklySeconds) {
+                const [year, month, day] = week.split('-');
+                issues.push({
+                    rule: 'weekly_maximum',
+                    sessionId: session.id,
+                    message: `Más de 40 h trabajadas en la semana del ${day}/${month}/${year}`
+                });
+            }
+        }
+    });
+
+    return issues;
+}
+
+/**
+ * Evalúa las reglas semana a semana, para marcar las sesiones de una lista que
+ * solo muestra parte de ellas (ej: el historial del Dashboard).
+ *
+ * Cada semana se evalúa con todas sus sesiones más la anterior a la primera
+ * (solo como referencia del descanso), y solo se devuelven los incumplimientos
+ * de las sesiones de esa semana. `sessions` debe contener las semanas completas:
+ * no la página visible, o el máximo semanal y el descanso no se verían.
+ *
+ * @param {ComplianceSession[]} sessions - Sesiones de las semanas y la anterior a cada una.
+ * @param {string[]} weekStarts - Lunes (ISO, `getStartOfWeek`) de las semanas a evaluar.
+ * @param {string} timeZone - Zona horaria del perfil (días y semanas).
+ * @param {Date} [now] - Instante hasta el que cuenta una sesión abierta.
+ * @returns {ComplianceIssue[]} Incumplimientos de las sesiones de esas semanas.
+ */
+export function evaluateComplianceByWeek(
+    sessions: ComplianceSession[],
+    weekStarts: string[],
+    timeZone: string,
+    now: Date = new Date()
+): ComplianceIssue[] {
+    const weeks = new Set(weekStarts);
+    const sorted = [...sessions].sort((a, b) => a.start_time.localeCompare(b.start_time));
+    const byWeek = new Map<string, { reference: ComplianceSession | null; sessions: ComplianceSession[] }>();
+
+    sorted.forEach((session, index) => {
+        const week = getStartOfWeek(timeZone, new Date(session.start_time));
+        if (!weeks.has(week)) return;
+        if (!byWeek.has(week)) byWeek.set(week, { reference: sorted[index - 1] ?? null, sessions: [] });
+        byWeek.get(week)!.sessions.push(session);
+    });
+
+    return [...byWeek.values()].flatMap(({ reference, sessions: weekSessions }) => {
+        const ids = new Set(weekSessions.map(s => s.id));
+        const evaluated = reference ? [reference, ...weekSessions] : weekSessions;
+        return evaluateCompliance(evaluated, timeZone, now).filter(issue => ids.has(issue.sessionId));
+    });
+}
+
+/**
+ * Agrupa los incumplimientos por sesión, para marcarlas en listas y calendarios.
+ *
+ * @param {ComplianceIssue[]} issues - Resultado de `evaluateCompliance`.
+ * @returns {Record<string, ComplianceIssue[]>} Incumplimientos de cada sesión (por id).
+ */
+export function groupIssuesBySession(issues: ComplianceIssue[]): Record<string, ComplianceIssue[]> {
+    const grouped: Record<string, ComplianceIssue[]> = {};
+    for (const issue of issues) (grouped[issue.sessionId] ??= []).push(issue);
+    return grouped;
+}
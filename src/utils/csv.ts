@@ -0,0 +1,17 @@
+/**
+ * Escapa un valor para CSV (separador `;`, habitual en Excel con configuración española).
+ */
+const csvCell = (value: string | number) => {
+    const text = String(value);
+    return /[";\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serializa filas a CSV separado por `;`.
+ *
+ * @param {(string | number)[][]} rows - Filas a serializar (una fila vacía genera una línea en blanco).
+ * @returns {string} Contenido CSV.
+ */
+export function toCsv(rows: (string | number)[][]): string {
+    return rows.map(row => row.map(csvCell).join(';')).join('\n');
+}
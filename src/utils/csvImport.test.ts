@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { detectMapping, parseCsv, parseImportRows, validateImportRows } from './csvImport';
+
+const options = {
+    mapping: { date: 0, start: 1, end: 2, pauses: 3, notes: 4 },
+    dateFormat: 'DD/MM/YYYY' as const,
+    timeZone: 'Europe/Madrid'
+};
+
+describe('csvImport', () => {
+    it('should parse quoted cells and detect the delimiter', () => {
+        const rows = parseCsv('Fecha;Entrada;Salida;Pausas;Notas\r\n15/01/2024;09:00;17:00;"13:00-13:30";"Notas; con ""comillas"""\n\n');
+
+        expect(rows).toHaveLength(2);
+        expect(rows[1][4]).toBe('Notas; con "comillas"');
+        expect(parseCsv('a,b\n1,2')).toEqual([['a', 'b'], ['1', '2']]);
+    });
+
+    it('should propose a mapping from the header names', () => {
+        expect(detectMapping(['Fecha', 'Entrada', 'Salida', 'Pausas', 'Notas'])).toEqual(options.mapping);
+    });
+
+    it('should convert local times in the chosen timezone to UTC', () => {
+        const [row] = parseImportRows([['15/01/2024', '09:00', '17:00', '13:00-13:30', 'Migrada']], options);
+
+        expect(row.errors).toEqual([]);
+        expect(row.start_time).toBe('2024-01-15T08:00:00.000Z');
+        expect(row.end_time).toBe('2024-01-15T16:00:00.000Z');
+        expect(row.pauses).toEqual([{ pause_start: '2024-01-15T12:00:00.000Z', pause_end: '2024-01-15T12:30:00.000Z' }]);
+        expect(row.notes).toBe('Migrada');
+    });
+
+    it('should move an exit earlier than the entry to the next day', () => {
+        const [row] = parseImportRows([['15/07/2024', '22:00', '06:00', '', '']], options);
+
+        expect(row.start_time).toBe('2024-07-15T20:00:00.000Z');
+        expect(row.end_time).toBe('2024-07-16T04:00:00.000Z');
+    });
+
+    it('should report format errors per row', () => {
+        const [badDate, noExit] = parseImportRows([
+            ['31/02/2024', '09:00', '17:00', '', ''],
+            ['15/01/2024', '09:00', '', '', '']
+        ], options);
+
+        expect(badDate.errors[0]).toContain('Fecha no válida');
+        expect(noExit.errors).toEqual(['Falta la hora de salida: solo se importan jornadas completadas']);
+    });
+
+    it('should validate duration and overlaps with the file and existing sessions', () => {
+        const rows = parseImportRows([
+            ['15/01/2024', '06:00', '23:00', '', ''],
+            ['16/01/2024', '09:00', '17:00', '', ''],
+            ['16/01/2024', '16:00', '18:00', '', ''],
+            ['17/01/2024', '09:00', '12:00', '', '']
+        ], options);
+
+        const validated = validateImportRows(rows, [
+            { start_time: '2024-01-17T10:00:00.000Z', end_time: '2024-01-17T12:00:00.000Z' }
+        ]);
+
+        expect(validated[0].errors).toEqual(['Una sesión no puede durar más de 16 horas.']);
+        expect(validated[1].errors).toEqual([]);
+        expect(validated[2].errors).toEqual(['Se solapa con la fila 3']);
+        expect(validated[3].errors).toEqual(['Se solapa con una sesión ya registrada']);
+    });
+});
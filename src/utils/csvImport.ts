@@ -0,0 +1,329 @@
+// Pausa: forma mínima de una pausa (inicio y fin) en timestamps ISO.
+import type { Pausa } from './duration';
+import { validatePauses } from './pauses';
+import { rangesOverlap, validateSessionWindow } from './sessionRules';
+import { zonedTimeToUtc } from './timezone';
+
+/**
+ * Formatos de fecha admitidos en el archivo importado.
+ */
+export type ImportDateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+
+export const IMPORT_DATE_FORMATS: ImportDateFormat[] = ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY'];
+
+/**
+ * Columnas del CSV (índices) que corresponden a cada campo de la sesión.
+ *
+ * @property {number | null} date - Fecha de la jornada. Si es null, `start` y
+ *   `end` deben incluir fecha y hora ("15/01/2024 09:00").
+ * @property {number} start - Hora (o fecha y hora) de entrada.
+ * @property {number} end - Hora (o fecha y hora) de salida.
+ * @property {number | null} pauses - Pausas como "12:00-12:30, 16:00-16:10" (opcional).
+ * @property {number | null} notes - Notas (opcional).
+ */
+export interface ImportMapping {
+    date: number | null;
+    start: number;
+    end: number;
+    pauses: number | null;
+    notes: number | null;
+}
+
+/**
+ * Opciones de interpretación del archivo.
+ */
+export interface ImportOptions {
+    mapping: ImportMapping;
+    dateFormat: ImportDateFormat;
+    timeZone: string;
+}
+
+/**
+ * Fila interpretada del CSV, lista para previsualizar e insertar.
+ *
+ * @property {number} line - Número de línea en el archivo (1 = cabecera).
+ * @property {string} start_time - Inicio ISO (vacío si no se pudo interpretar).
+ * @property {string} end_time - Fin ISO (vacío si no se pudo interpretar).
+ * @property {string | null} notes - Notas de la jornada.
+ * @property {Pausa[]} pauses - Pausas ISO de la jornada.
+ * @property {string[]} errors - Errores de la fila (vacío si es válida).
+ */
+export interface ImportRow {
+    line: number;
+    start_time: string;
+    end_time: string;
+    notes: string | null;
+    pauses: Pausa[];
+    errors: string[];
+}
+
+/**
+ * Parsea un CSV a una matriz de celdas.
+ *
+ * Detecta el separador (`;` o `,`) a partir de la primera línea y admite
+ * campos entre comillas con separadores, comillas dobles escapadas y saltos de línea.
+ * Las líneas vacías se descartan.
+ *
+ * @param {string} text - Contenido del archivo.
+ * @returns {string[][]} Filas del archivo (incluida la cabecera).
+ */
+export function parseCsv(text: string): string[][] {
+    const content = text.replace(/^\uFEFF/, '');
+    const firstLine = content.split(/\r?\n/, 1)[0] ?? '';
+    const delimiter = (firstLine.match(/;/g)?.length ?? 0) >= (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+
+        if (inQuotes) {
+            if (char === '"' && content[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    row.push(cell);
+    rows.push(row);
+
+    return rows.filter(r => r.some(c => c.trim() !== ''));
+}
+
+// Nombres de cabecera reconocidos para proponer el mapeo automáticamente.
+const HEADER_ALIASES: Record<keyof ImportMapping, string[]> = {
+    date: ['fecha', 'date', 'dia', 'día'],
+    start: ['entrada', 'inicio', 'start', 'hora entrada', 'start time'],
+    end: ['salida', 'fin', 'end', 'hora salida', 'end time'],
+    pauses: ['pausas', 'pauses', 'descansos', 'breaks'],
+    notes: ['notas', 'notes', 'observaciones', 'comentarios'],
+};
+
+/**
+ * Propone un mapeo de columnas a partir de los nombres de la cabecera.
+ * Si no reconoce entrada o salida, usa las columnas 1 y 2 como respaldo.
+ *
+ * @param {string[]} header - Primera fila del CSV.
+ * @returns {ImportMapping} Mapeo propuesto (editable por el usuario).
+ */
+export function detectMapping(header: string[]): ImportMapping {
+    const normalized = header.map(h => h.trim().toLowerCase());
+    const find = (field: keyof ImportMapping) => {
+        const index = normalized.findIndex(h => HEADER_ALIASES[field].includes(h));
+        return index === -1 ? null : index;
+    };
+
+    return {
+        date: find('date'),
+        start: find('start') ?? 1,
+        end: find('end') ?? 2,
+        pauses: find('pauses'),
+        notes: find('notes'),
+    };
+}
+
+interface DateParts { year: number; month: number; day: number }
+interface TimeParts { hour: number; minute: number; second: number }
+
+/**
+ * Interpreta una fecha según el formato elegido. Retorna null si no es válida.
+ */
+function parseDate(value: string, format: ImportDateFormat): DateParts | null {
+    const match = format === 'YYYY-MM-DD'
+        ? value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/)
+        : value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+    if (!match) return null;
+
+    const [a, b, c] = match.slice(1).map(Number);
+    const parts = format === 'YYYY-MM-DD'
+        ? { year: a, month: b, day: c }
+        : format === 'DD/MM/YYYY'
+            ? { year: c, month: b, day: a }
+            : { year: c, month: a, day: b };
+
+    // Rechaza fechas imposibles (ej: 31/02).
+    const check = new Date(Date.UTC(parts.year, parts.month - 1, parts.day));
+    if (check.getUTCMonth() !== parts.month - 1 || check.getUTCDate() !== parts.day) return null;
+
+    return parts;
+}
+
+/**
+ * Interpreta una hora "H:MM" o "HH:MM:SS". Retorna null si no es válida.
+ */
+function parseTime(value: string): TimeParts | null {
+    const match = value.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+    if (!match) return null;
+
+    const [hour, minute, second] = [Number(match[1]), Number(match[2]), Number(match[3] ?? 0)];
+    if (hour > 23 || minute > 59 || second > 59) return null;
+
+    return { hour, minute, second };
+}
+
+/**
+ * Convierte fecha + hora de reloj en la zona indicada a un Date UTC.
+ * `dayOffset` suma días (ej: salida después de medianoche).
+ */
+const toUtc = (date: DateParts, time: TimeParts, timeZone: string, dayOffset = 0) =>
+    zonedTimeToUtc(date.year, date.month, date.day + dayOffset, time.hour, time.minute, time.second, timeZone);
+
+/**
+ * Interpreta las filas de datos del CSV (sin la cabecera) con el mapeo elegido.
+ *
+ * Reglas de interpretación:
+ * - Con columna de fecha, entrada y salida son horas de ese día; si la salida
+ *   es anterior a la entrada, se entiende que es del día siguiente.
+ * - Sin columna de fecha, entrada y salida deben ser "fecha hora".
+ * - Las pausas son horas del día de la jornada ("13:00-13:30, 17:00-17:15");
+ *   las anteriores a la entrada se consideran del día siguiente.
+ *
+ * @param {string[][]} records - Filas de datos (sin cabecera).
+ * @param {ImportOptions} options - Mapeo, formato de fecha y zona horaria.
+ * @returns {ImportRow[]} Filas interpretadas, con los errores de formato encontrados.
+ */
+export function parseImportRows(records: string[][], options: ImportOptions): ImportRow[] {
+    const { mapping, dateFormat, timeZone } = options;
+
+    return records.map((record, index) => {
+        const cell = (column: number | null) => (column === null ? '' : (record[column] ?? '').trim());
+        const row: ImportRow = {
+            line: index + 2,
+            start_time: '',
+            end_time: '',
+            notes: cell(mapping.notes) || null,
+            pauses: [],
+            errors: [],
+        };
+
+        // Fecha de la jornada y horas de entrada/salida.
+        let date: DateParts | null;
+        let startTime: TimeParts | null;
+        let endDate: DateParts | null;
+        let endTime: TimeParts | null;
+
+        if (mapping.date !== null) {
+            date = parseDate(cell(mapping.date), dateFormat);
+            endDate = date;
+            startTime = parseTime(cell(mapping.start));
+            endTime = parseTime(cell(mapping.end));
+            if (!date) row.errors.push(`Fecha no válida: "${cell(mapping.date)}" (formato ${dateFormat})`);
+        } else {
+            const [startDay = '', startClock = ''] = cell(mapping.start).split(/\s+/);
+            const [endDay = '', endClock = ''] = cell(mapping.end).split(/\s+/);
+            date = parseDate(startDay, dateFormat);
+            endDate = parseDate(endDay, dateFormat);
+            startTime = parseTime(startClock);
+            endTime = parseTime(endClock);
+            if (!date || !endDate) row.errors.push(`Fecha no válida (formato ${dateFormat})`);
+        }
+
+        if (!startTime) row.errors.push(`Hora de entrada no válida: "${cell(mapping.start)}"`);
+        if (!endTime) {
+            // Una fila sin salida sería una sesión activa: solo puede haber una y se crea fichando.
+            row.errors.push(cell(mapping.end)
+                ? `Hora de salida no válida: "${cell(mapping.end)}"`
+                : 'Falta la hora de salida: solo se importan jornadas completadas');
+        }
+        if (!date || !endDate || !startTime || !endTime) return row;
+
+        const start = toUtc(date, startTime, timeZone);
+        let end = toUtc(endDate, endTime, timeZone);
+        if (mapping.date !== null && end <= start) {
+            end = toUtc(endDate, endTime, timeZone, 1);
+        }
+        row.start_time = start.toISOString();
+        row.end_time = end.toISOString();
+
+        // Pausas: "HH:MM-HH:MM" separadas por comas o barras verticales.
+        const pausesText = cell(mapping.pauses);
+        if (pausesText) {
+            pausesText.split(/[,|]/).map(p => p.trim()).filter(Boolean).forEach(text => {
+                const [from = '', to = ''] = text.split('-').map(t => t.trim());
+                const pauseStart = parseTime(from);
+                const pauseEnd = parseTime(to);
+                if (!pauseStart || !pauseEnd) {
+                    row.errors.push(`Pausa no válida: "${text}" (formato HH:MM-HH:MM)`);
+                    return;
+                }
+
+                let pStart = toUtc(date, pauseStart, timeZone);
+                if (pStart < start) pStart = toUtc(date, pauseStart, timeZone, 1);
+                let pEnd = toUtc(date, pauseEnd, timeZone);
+                while (pEnd <= pStart) pEnd = new Date(pEnd.getTime() + 86400000);
+
+                row.pauses.push({ pause_start: pStart.toISOString(), pause_end: pEnd.toISOString() });
+            });
+        }
+
+        return row;
+    });
+}
+
+/**
+ * Valida las filas interpretadas con las mismas reglas que la base de datos.
+ *
+ * - Duración máxima de 16 horas, fin posterior al inicio y sin fechas futuras
+ *   (`validate_max_session_duration`).
+ * - Pausas dentro de la jornada y sin solaparse.
+ * - Sin solapes entre filas del archivo ni con sesiones ya registradas,
+ *   incluida una sesión activa (`validate_single_active_session`,
+ *   `validate_session_overlap`).
+ *
+ * @param {ImportRow[]} rows - Filas interpretadas con `parseImportRows`.
+ * @param {{ start_time: string; end_time: string | null }[]} existing - Sesiones del usuario en el rango importado.
+ * @returns {ImportRow[]} Las mismas filas con los errores de validación añadidos.
+ */
+export function validateImportRows(
+    rows: ImportRow[],
+    existing: { start_time: string; end_time: string | null }[]
+): ImportRow[] {
+    const validated = rows.map(row => {
+        if (row.errors.length > 0) return row;
+
+        const errors: string[] = [];
+        const windowError = validateSessionWindow(row.start_time, row.end_time);
+        if (windowError) errors.push(windowError);
+
+        validatePauses(row.start_time, row.end_time, row.pauses).forEach(e => {
+            errors.push(`Pausa ${e.index + 1}: ${e.message}`);
+        });
+
+        if (existing.some(s => rangesOverlap(row.start_time, row.end_time, s.start_time, s.end_time))) {
+            errors.push('Se solapa con una sesión ya registrada');
+        }
+
+        return { ...row, errors };
+    });
+
+    // Solapes entre filas del propio archivo (se marca la fila posterior).
+    validated.forEach((row, index) => {
+        if (row.errors.length > 0) return;
+        const clash = validated.slice(0, index).find(other =>
+            other.errors.length === 0 && rangesOverlap(row.start_time, row.end_time, other.start_time, other.end_time)
+        );
+        if (clash) row.errors.push(`Se solapa con la fila ${clash.line}`);
+    });
+
+    return validated;
+}
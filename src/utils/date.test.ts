@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { fromDateTimeLocal, getStartOfWeek, toDateTimeLocal } from './date';
+
+describe('date', () => {
+    describe('toDateTimeLocal / fromDateTimeLocal', () => {
+        it('should convert between UTC and the wall clock of a zone', () => {
+            expect(toDateTimeLocal('2024-07-15T07:00:00.000Z', 'Europe/Madrid')).toBe('2024-07-15T09:00');
+            expect(toDateTimeLocal('2024-07-15T07:00:00.000Z', 'Atlantic/Canary')).toBe('2024-07-15T08:00');
+            expect(fromDateTimeLocal('2024-07-15T09:00', 'Europe/Madrid')).toBe('2024-07-15T07:00:00.000Z');
+        });
+
+        it('should return an empty string for invalid values', () => {
+            expect(fromDateTimeLocal('', 'Europe/Madrid')).toBe('');
+            expect(fromDateTimeLocal('15/07/2024 09:00', 'Europe/Madrid')).toBe('');
+        });
+    });
+
+    describe('getStartOfWeek', () => {
+        it('should start on Monday at midnight of the zone', () => {
+            const start = new Date(getStartOfWeek('Atlantic/Canary'));
+            expect(toDateTimeLocal(start.toISOString(), 'Atlantic/Canary').slice(11)).toBe('00:00');
+            expect(new Date(`${toDateTimeLocal(start.toISOString(), 'Atlantic/Canary')}Z`).getUTCDay()).toBe(1);
+        });
+
+        it('should find the week of a given instant in the zone', () => {
+            // Lunes 15 a las 00:30 en Madrid; en UTC aún es domingo 14.
+            const instant = new Date('2024-07-14T22:30:00Z');
+            expect(getStartOfWeek('Europe/Madrid', instant)).toBe('2024-07-14T22:00:00.000Z');
+            expect(getStartOfWeek('UTC', instant)).toBe('2024-07-08T00:00:00.000Z');
+        });
+    });
+});
@@ -1,11 +1,45 @@
-export const getStartOfWeek = (): string => {
-    const now = new Date();
-    const day = now.getDay();
+import { getBrowserTimeZone, getTimeZoneOffset, getZonedCalendarDate, startOfZonedDay, zonedTimeToUtc } from './timezone';
+
+/**
+ * Inicio de la semana actual, o de la que contiene `date` (lunes 00:00 en la
+ * zona horaria indicada, por defecto la del navegador) como timestamp ISO.
+ */
+export const getStartOfWeek = (timeZone: string = getBrowserTimeZone(), date: Date = new Date()): string => {
+    const today = getZonedCalendarDate(date, timeZone);
+    const day = today.getDay();
     const diff = (day === 0 ? -6 : 1) - day;
 
-    const monday = new Date(now);
-    monday.setDate(now.getDate() + diff);
-    monday.setHours(0, 0, 0, 0);
+    const monday = new Date(today.getFullYear(), today.getMonth(), today.getDate() + diff);
+
+    return startOfZonedDay(monday, timeZone).toISOString();
+};
 
-    return monday.toISOString();
+/**
+ * Convierte un timestamp ISO (UTC) al formato de `<input type="datetime-local">`
+ * ("YYYY-MM-DDThh:mm") en la zona horaria indicada (por defecto la del navegador).
+ */
+export const toDateTimeLocal = (isoString: string, timeZone: string = getBrowserTimeZone()): string => {
+    const date = new Date(isoString);
+    return new Date(date.getTime() + getTimeZoneOffset(timeZone, date)).toISOString().slice(0, 16);
 };
+
+/**
+ * Convierte el valor de un `<input type="datetime-local">` (hora de la zona
+ * indicada, por defecto la del navegador) a ISO UTC.
+ * Retorna un string vacío si el valor está vacío o no es una fecha válida.
+ */
+export const fromDateTimeLocal = (localString: string, timeZone: string = getBrowserTimeZone()): string => {
+    const match = localString.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/);
+    if (!match) return '';
+
+    const [year, month, day, hour, minute, second] = match.slice(1).map(v => Number(v ?? 0));
+    const date = zonedTimeToUtc(year, month, day, hour, minute, second, timeZone);
+    return isNaN(date.getTime()) ? '' : date.toISOString();
+};
+
+/**
+ * Inicio del día actual (00:00 en la zona horaria indicada, por defecto la del
+ * navegador) como timestamp ISO.
+ */
+export const getStartOfDay = (timeZone: string = getBrowserTimeZone()): string =>
+    startOfZonedDay(getZonedCalendarDate(new Date(), timeZone), timeZone).toISOString();
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { allocateSessionByDay, netSecondsInRange, segmentNetSeconds, type AllocatableSession } from './dayAllocation';
+
+// Turno de noche en Madrid (invierno, UTC+1): de 22:00 a 06:00 con pausa de 02:00 a 02:30.
+const nightShift: AllocatableSession = {
+    start_time: '2024-01-14T21:00:00Z',
+    end_time: '2024-01-15T05:00:00Z',
+    work_pauses: [{ pause_start: '2024-01-15T01:00:00Z', pause_end: '2024-01-15T01:30:00Z' }]
+};
+
+describe('dayAllocation', () => {
+    describe('allocateSessionByDay', () => {
+        it('should split a night shift at midnight, minus pauses', () => {
+            expect(allocateSessionByDay(nightShift, 'Europe/Madrid')).toEqual({
+                '2024-01-14': 2 * 3600,
+                '2024-01-15': 5.5 * 3600,
+            });
+        });
+
+        it('should cut the days in the given timezone', () => {
+            // En Canarias (UTC+0) el turno va de 21:00 a 05:00.
+            expect(allocateSessionByDay(nightShift, 'Atlantic/Canary')).toEqual({
+                '2024-01-14': 3 * 3600,
+                '2024-01-15': 4.5 * 3600,
+            });
+        });
+
+        it('should count an open session and an open pause until now', () => {
+            const open: AllocatableSession = {
+                start_time: '2024-01-15T08:00:00Z',
+                end_time: null,
+                work_pauses: [{ pause_start: '2024-01-15T10:00:00Z', pause_end: null }]
+            };
+            expect(allocateSessionByDay(open, 'Europe/Madrid', new Date('2024-01-15T12:00:00Z'))).toEqual({
+                '2024-01-15': 2 * 3600,
+            });
+        });
+    });
+
+    describe('netSecondsInRange', () => {
+        it('should only count the part of the session inside the range', () => {
+            // Lunes 15 a las 00:00 en Madrid: empieza una semana nueva.
+            const monday = new Date('2024-01-14T23:00:00Z');
+            const nextMonday = new Date('2024-01-21T23:00:00Z');
+            expect(netSecondsInRange(nightShift, monday, nextMonday)).toBe(5.5 * 3600);
+            expect(netSecondsInRange(nightShift, new Date('2024-01-08T23:00:00Z'), monday)).toBe(2 * 3600);
+        });
+    });
+
+    describe('segmentNetSeconds', () => {
+        it('should count an open segment until the end of the session, minus its pauses', () => {
+            const segment = { segment_start: '2024-01-15T00:00:00Z', segment_end: null };
+            expect(segmentNetSeconds(nightShift, segment)).toBe(4.5 * 3600);
+            // Solo la parte del tramo dentro del lunes en Madrid.
+            expect(segmentNetSeconds(nightShift, segment, { from: new Date('2024-01-14T23:00:00Z'), to: new Date('2024-01-15T02:00:00Z') })).toBe(1.5 * 3600);
+        });
+    });
+});
@@ -0,0 +1,124 @@
+// Pausa / Tramo: forma mínima de una pausa y de un tramo (inicio y fin).
+import type { Pausa, Tramo } from './duration';
+
+// Utilidades para cortar los días en la zona horaria del perfil.
+import { getZonedCalendarDate, getZonedDateKey, startOfZonedDay } from './timezone';
+
+/**
+ * Sesión con lo necesario para repartir su tiempo neto entre días.
+ *
+ * @property {string | null} end_time - Fin de la sesión; null si sigue abierta (cuenta hasta `now`).
+ * @property {Pausa[]} work_pauses - Pausas; una pausa abierta cuenta hasta el fin de la sesión.
+ */
+export interface AllocatableSession {
+    start_time: string;
+    end_time: string | null;
+    work_pauses: Pausa[];
+}
+
+/**
+ * Tramos [inicio, fin) en ms en los que se trabajó: la sesión menos sus pausas
+ * no retribuidas.
+ */
+function getWorkedIntervals(session: AllocatableSession, now: Date): [number, number][] {
+    const start = new Date(session.start_time).getTime();
+    const end = session.end_time ? new Date(session.end_time).getTime() : now.getTime();
+    if (isNaN(start) || isNaN(end) || end <= start) return [];
+
+    const pauses = session.work_pauses
+        .filter(p => !p.paid)
+        .map(p => [new Date(p.pause_start).getTime(), p.pause_end ? new Date(p.pause_end).getTime() : end])
+        .filter(([pStart, pEnd]) => !isNaN(pStart) && !isNaN(pEnd) && pEnd > pStart)
+        .sort((a, b) => a[0] - b[0]);
+
+    const intervals: [number, number][] = [];
+    let cursor = start;
+    for (const [pStart, pEnd] of pauses) {
+        if (pStart > cursor) intervals.push([cursor, Math.min(pStart, end)]);
+        cursor = Math.max(cursor, pEnd);
+        if (cursor >= end) break;
+    }
+    if (cursor < end) intervals.push([cursor, end]);
+
+    return intervals.filter(([a, b]) => b > a);
+}
+
+/**
+ * Segundos netos (sin pausas) que una sesión aporta al rango [from, to).
+ *
+ * Una jornada de 22:00 a 06:00 aporta 2 h al día de la entrada y 6 h al
+ * siguiente; lo mismo entre semanas.
+ *
+ * @param {AllocatableSession} session - Sesión con sus pausas.
+ * @param {Date} from - Inicio del rango (incluido).
+ * @param {Date} to - Fin del rango (excluido).
+ * @param {Date} [now] - Instante hasta el que cuenta una sesión o pausa abierta.
+ * @returns {number} Segundos enteros.
+ */
+export function netSecondsInRange(session: AllocatableSession, from: Date, to: Date, now: Date = new Date()): number {
+    const ms = getWorkedIntervals(session, now).reduce((acc, [a, b]) =>
+        acc + Math.max(0, Math.min(b, to.getTime()) - Math.max(a, from.getTime())), 0);
+    return Math.floor(ms / 1000);
+}
+
+/**
+ * Segundos netos que aporta un tramo de la sesión (fila de `work_segments`):
+ * lo trabajado entre su inicio y su fin, o el fin de la sesión si sigue abierto.
+ * Es la base del reparto por actividades y por proyectos.
+ *
+ * @param {AllocatableSession} session - Sesión del tramo, con sus pausas.
+ * @param {Tramo} segment - Tramo de la sesión.
+ * @param {{ from: Date; to: Date }} [range] - Rango [from, to) al que limitar el tramo.
+ * @param {Date} [now] - Instante hasta el que cuenta una sesión o pausa abierta.
+ * @returns {number} Segundos enteros.
+ */
+export function segmentNetSeconds(
+    session: AllocatableSession,
+    segment: Tramo,
+    range?: { from: Date; to: Date },
+    now: Date = new Date()
+): number {
+    const start = new Date(segment.segment_start);
+    const end = segment.segment_end ? new Date(segment.segment_end) : session.end_time ? new Date(session.end_time) : now;
+
+    return netSecondsInRange(
+        session,
+        range && range.from > start ? range.from : start,
+        range && range.to < end ? range.to : end,
+        now
+    );
+}
+
+/**
+ * Reparte el tiempo neto de una sesión entre los días de calendario que
+ * abarca en una zona horaria.
+ *
+ * @param {AllocatableSession} session - Sesión con sus pausas.
+ * @param {string} timeZone - Zona horaria IANA en la que se cortan los días.
+ * @param {Date} [now] - Instante hasta el que cuenta una sesión o pausa abierta.
+ * @returns {Record<string, number>} Segundos por fecha "YYYY-MM-DD" (solo días con tiempo).
+ *
+ * @example
+ * allocateSessionByDay({ start_time: '2024-01-15T21:00:00Z', end_time: '2024-01-16T05:00:00Z', work_pauses: [] }, 'Europe/Madrid');
+ * // → { '2024-01-15': 7200, '2024-01-16': 21600 }
+ */
+export function allocateSessionByDay(session: AllocatableSession, timeZone: string, now: Date = new Date()): Record<string, number> {
+    const byDay: Record<string, number> = {};
+
+    for (const [start, end] of getWorkedIntervals(session, now)) {
+        let cursor = start;
+        while (cursor < end) {
+            const day = getZonedCalendarDate(new Date(cursor), timeZone);
+            const nextDay = startOfZonedDay(new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1), timeZone).getTime();
+            const sliceEnd = Math.min(end, nextDay);
+            const key = getZonedDateKey(new Date(cursor), timeZone);
+
+            byDay[key] = (byDay[key] ?? 0) + (sliceEnd - cursor);
+            cursor = sliceEnd;
+        }
+    }
+
+    return Object.fromEntries(Object.entries(byDay)
+        .map(([key, ms]) => [key, Math.floor(ms / 1000)] as const)
+        .filter(([, seconds]) => seconds > 0));
+}
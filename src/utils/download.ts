@@ -0,0 +1,25 @@
+/**
+ * Descarga un contenido generado en el navegador como archivo.
+ *
+ * @param {BlobPart} content - Contenido del archivo (texto, ArrayBuffer, etc.).
+ * @param {string} filename - Nombre sugerido del archivo.
+ * @param {string} mimeType - Tipo MIME (ej: "text/csv;charset=utf-8").
+ */
+export const downloadFile = (content: BlobPart | Blob, filename: string, mimeType: string): void => {
+    const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * Marca de orden de bytes UTF-8: hace que Excel abra los CSV con tildes correctamente.
+ */
+export const UTF8_BOM = '\uFEFF';
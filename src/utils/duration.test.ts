@@ -1,16 +1,19 @@
 // Funciones de Vitest para definir suites de test, casos individuales y aserciones.
 import { describe, it, expect } from 'vitest';
 
-// Función a testear: calcula la duración neta de trabajo descontando pausas.
-import { calculateDuration } from './duration';
+// Funciones a testear: calcula la duración neta de trabajo descontando pausas
+// (de la sesión o de cada tramo) y convierte un INTERVAL de Postgres a segundos.
+import { calculateDuration, parseInterval } from './duration';
 
 /**
  * Suite de tests para la función `calculateDuration`.
  *
- * Verifica que el cálculo de duración neta sea correcto en tres escenarios:
+ * Verifica que el cálculo de duración neta sea correcto en cuatro escenarios:
  * 1. Sin pausas → la duración es igual al tiempo total.
  * 2. Una pausa → se resta correctamente del tiempo total.
  * 3. Múltiples pausas → se restan todas correctamente.
+ * 4. Ventana de un tramo → solo se resta la parte de las pausas dentro de ella.
+ * 5. Pausas retribuidas → no se restan.
  */
 describe('calculateDuration', () => {
     /**
@@ -70,4 +73,65 @@ describe('calculateDuration', () => {
 
         expect(duration).toBe(expected);
     });
+
+    /**
+     * Test: Solo resta la parte de las pausas que cae dentro de la ventana.
+     * Tramo de 12:30 a 15:00 con pausas de 12:00-13:00 y 16:00-16:30 = 2 horas netas.
+     */
+    it('should only subtract the part of each pause within the window', () => {
+        const pauses = [
+            { pause_start: '2023-01-01T12:00:00Z', pause_end: '2023-01-01T13:00:00Z' },
+            { pause_start: '2023-01-01T16:00:00Z', pause_end: '2023-01-01T16:30:00Z' }
+        ];
+
+        const duration = calculateDuration('2023-01-01T12:30:00Z', '2023-01-01T15:00:00Z', pauses);
+
+        expect(duration).toBe(2 * 60 * 60 * 1000);
+    });
+
+    /**
+     * Test: Las pausas retribuidas cuentan como trabajo.
+     * Sesión de 8 horas con café retribuido de 15 min y comida de 1 hora = 7 horas netas.
+     */
+    it('should not subtract paid pauses', () => {
+        const pauses = [
+            { pause_start: '2023-01-01T10:00:00Z', pause_end: '2023-01-01T10:15:00Z', paid: true },
+            { pause_start: '2023-01-01T13:00:00Z', pause_end: '2023-01-01T14:00:00Z', paid: false }
+        ];
+
+        const duration = calculateDuration('2023-01-01T09:00:00Z', '2023-01-01T17:00:00Z', pauses);
+
+        expect(duration).toBe(7 * 60 * 60 * 1000);
+    });
+});
+
+/**
+ * Suite de tests para la función `parseInterval`.
+ *
+ * Verifica la lectura de los formatos de INTERVAL que devuelve Postgres
+ * para `total_duration` (calculado por trigger en la base de datos).
+ */
+describe('parseInterval', () => {
+    /**
+     * Test: Formato básico "HH:MM:SS".
+     */
+    it('should parse HH:MM:SS intervals', () => {
+        expect(parseInterval('07:15:30')).toBe(7 * 3600 + 15 * 60 + 30);
+    });
+
+    /**
+     * Test: Ignora las fracciones de segundo y admite el prefijo de días.
+     */
+    it('should handle fractional seconds and day prefixes', () => {
+        expect(parseInterval('00:00:59.999')).toBe(59);
+        expect(parseInterval('1 day 02:00:00')).toBe(26 * 3600);
+    });
+
+    /**
+     * Test: Valores nulos o con formato desconocido cuentan como 0.
+     */
+    it('should return 0 for null or invalid values', () => {
+        expect(parseInterval(null)).toBe(0);
+        expect(parseInterval('abc')).toBe(0);
+    });
 });
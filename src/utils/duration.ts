@@ -4,10 +4,25 @@
  * @property {string} pause_start - Timestamp ISO del inicio de la pausa.
  * @property {string | null} pause_end - Timestamp ISO del fin de la pausa.
  *   Si es null, la pausa sigue abierta (activa).
+ * @property {boolean} [paid] - Si es retribuida (según su tipo): cuenta como
+ *   tiempo trabajado y no se descuenta. Ausente = no retribuida.
  */
 export interface Pausa {
     pause_start: string;
     pause_end: string | null;
+    paid?: boolean;
+}
+
+/**
+ * Interfaz que representa un tramo de una sesión (fila de `work_segments`).
+ *
+ * @property {string} segment_start - Timestamp ISO del inicio del tramo.
+ * @property {string | null} segment_end - Timestamp ISO del fin del tramo.
+ *   Si es null, el tramo sigue abierto (dura hasta el fin de la sesión).
+ */
+export interface Tramo {
+    segment_start: string;
+    segment_end: string | null;
 }
 
 /**
@@ -16,10 +31,15 @@ export interface Pausa {
  * Fórmula: duración_neta = (endTime - startTime) - suma_de_pausas
  *
  * Solo se restan las pausas que tienen tanto `pause_start` como `pause_end` definidos.
- * Las pausas abiertas (sin `pause_end`) se ignoran en este cálculo.
+ * Las pausas abiertas (sin `pause_end`) se ignoran en este cálculo, igual que
+ * las retribuidas (`paid`), que cuentan como tiempo trabajado.
  *
- * @param {string} startTime - Timestamp ISO del inicio de la sesión.
- * @param {string} endTime - Timestamp ISO del fin de la sesión.
+ * Cada pausa se recorta a la ventana [startTime, endTime]: así la misma
+ * función da el tiempo neto de un tramo de la sesión pasándole los límites
+ * del tramo y todas las pausas de la sesión.
+ *
+ * @param {string} startTime - Timestamp ISO del inicio de la sesión (o del tramo).
+ * @param {string} endTime - Timestamp ISO del fin de la sesión (o del tramo).
  * @param {Pausa[]} pauses - Array de pausas realizadas durante la sesión.
  * @returns {number} Duración neta en milisegundos. Retorna 0 si las fechas son inválidas.
  *
@@ -28,6 +48,11 @@ export interface Pausa {
  * calculateDuration('2023-01-01T09:00:00Z', '2023-01-01T17:00:00Z', [
  *   { pause_start: '2023-01-01T12:00:00Z', pause_end: '2023-01-01T13:00:00Z' }
  * ]); // → 25200000 (7 horas en ms)
+ *
+ * // Tramo de 11:00 a 17:00 de la misma sesión: la pausa cae dentro = 5 horas
+ * calculateDuration('2023-01-01T11:00:00Z', '2023-01-01T17:00:00Z', [
+ *   { pause_start: '2023-01-01T12:00:00Z', pause_end: '2023-01-01T13:00:00Z' }
+ * ]); // → 18000000 (5 horas en ms)
  */
 export function calculateDuration(startTime: string, endTime: string, pauses: Pausa[]): number {
     const start = new Date(startTime).getTime();
@@ -38,14 +63,15 @@ export function calculateDuration(startTime: string, endTime: string, pauses: Pa
 
     let totalPauseTime = 0;
 
-    // Suma la duración de cada pausa completada (con inicio y fin definidos).
+    // Suma la parte de cada pausa completada (con inicio y fin definidos) y no
+    // retribuida que cae dentro de la ventana.
     pauses.forEach(pause => {
-        if (pause.pause_start && pause.pause_end) {
-            const pStart = new Date(pause.pause_start).getTime();
-            const pEnd = new Date(pause.pause_end).getTime();
+        if (pause.pause_start && pause.pause_end && !pause.paid) {
+            const pStart = Math.max(new Date(pause.pause_start).getTime(), start);
+            const pEnd = Math.min(new Date(pause.pause_end).getTime(), end);
 
-            // Solo suma si las fechas de la pausa son válidas.
-            if (!isNaN(pStart) && !isNaN(pEnd)) {
+            // Solo suma si las fechas de la pausa son válidas y se solapa con la ventana.
+            if (!isNaN(pStart) && !isNaN(pEnd) && pEnd > pStart) {
                 totalPauseTime += (pEnd - pStart);
             }
         }
@@ -72,3 +98,57 @@ export function formatDuration(ms: number): string {
     const s = seconds % 60;
     return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
 }
+
+/**
+ * Convierte un INTERVAL de Postgres (como lo devuelve Supabase) a segundos.
+ *
+ * Acepta el formato "HH:MM:SS", con fracciones de segundo opcionales
+ * ("07:15:30.5") y un prefijo de días ("1 day 02:00:00").
+ *
+ * @param {string | null} interval - Valor de `total_duration` u otra columna INTERVAL.
+ * @returns {number} Duración en segundos enteros. Retorna 0 si es null o inválido.
+ *
+ * @example
+ * parseInterval('07:15:30');        // → 26130
+ * parseInterval('1 day 02:00:00');  // → 93600
+ */
+export function parseInterval(interval: string | null): number {
+    if (!interval) return 0;
+
+    const match = interval.trim().match(/^(?:(-?\d+) days?\s*)?(-?)(\d+):(\d{2}):(\d{2}(?:\.\d+)?)$/);
+    if (!match) return 0;
+
+    const [, days = '0', sign, h, m, s] = match;
+    const timeSeconds = Number(h) * 3600 + Number(m) * 60 + Math.floor(Number(s));
+
+    return Number(days) * 86400 + (sign === '-' ? -timeSeconds : timeSeconds);
+}
+
+/**
+ * Suma la duración neta (`total_duration`, calculada por el servidor) de un
+ * conjunto de sesiones completadas.
+ *
+ * @param {{ total_duration: string | null }[]} sessions - Sesiones a sumar.
+ * @returns {number} Total en segundos.
+ */
+export function sumNetSeconds(sessions: { total_duration: string | null }[]): number {
+    return sessions.reduce((acc, session) => acc + parseInterval(session.total_duration), 0);
+}
+
+/**
+ * Tiempo neto transcurrido (en segundos) de una sesión abierta hasta `now`.
+ *
+ * A diferencia de `calculateDuration`, una pausa abierta (sin `pause_end`)
+ * también se descuenta, hasta `now`: una sesión pausada no acumula tiempo,
+ * salvo que la pausa sea retribuida.
+ *
+ * @param {string} startTime - Timestamp ISO del inicio de la sesión.
+ * @param {Pausa[]} pauses - Pausas de la sesión (la última puede estar abierta).
+ * @param {Date} now - Instante de referencia.
+ * @returns {number} Segundos netos trabajados hasta `now`.
+ */
+export function liveNetSeconds(startTime: string, pauses: Pausa[], now: Date): number {
+    const nowIso = now.toISOString();
+    const closedPauses = pauses.map(p => ({ ...p, pause_end: p.pause_end ?? nowIso }));
+    return Math.floor(calculateDuration(startTime, nowIso, closedPauses) / 1000);
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { groupWorkedByDay, computeBalance, getOvertimeSeconds, formatBalance } from './hourBalance';
+import { createDefaultScheduleDays, type WorkSchedule } from './schedule';
+
+const schedules: WorkSchedule[] = [{ effective_from: '2024-01-01', days: createDefaultScheduleDays() }];
+
+describe('hourBalance', () => {
+    describe('groupWorkedByDay', () => {
+        it('should add up sessions by local date', () => {
+            const totals = groupWorkedByDay([
+                { start_time: new Date(2024, 0, 1, 9).toISOString(), end_time: new Date(2024, 0, 1, 13).toISOString(), work_pauses: [] },
+                { start_time: new Date(2024, 0, 1, 14).toISOString(), end_time: new Date(2024, 0, 1, 18, 30).toISOString(), work_pauses: [] },
+                { start_time: new Date(2024, 0, 2, 9).toISOString(), end_time: new Date(2024, 0, 2, 10).toISOString(), work_pauses: [] },
+            ]);
+            expect(totals).toEqual({ '2024-01-01': 8.5 * 3600, '2024-01-02': 3600 });
+        });
+
+        it('should use the calendar day of the given timezone', () => {
+            // 23:30 UTC del día 1: día 2 en Madrid, día 1 en Canarias.
+            const sessions = [{ start_time: '2024-01-01T23:30:00Z', end_time: '2024-01-02T00:00:00Z', work_pauses: [] }];
+            expect(groupWorkedByDay(sessions, 'Europe/Madrid')).toEqual({ '2024-01-02': 1800 });
+            expect(groupWorkedByDay(sessions, 'Atlantic/Canary')).toEqual({ '2024-01-01': 1800 });
+        });
+
+        it('should split a session across midnight', () => {
+            // 22:00 a 02:00 en Madrid.
+            const sessions = [{ start_time: '2024-01-01T21:00:00Z', end_time: '2024-01-02T01:00:00Z', work_pauses: [] }];
+            expect(groupWorkedByDay(sessions, 'Europe/Madrid')).toEqual({ '2024-01-01': 2 * 3600, '2024-01-02': 2 * 3600 });
+        });
+    });
+
+    describe('computeBalance', () => {
+        it('should subtract the expected hours of each day', () => {
+            // Lunes 8.5 h y martes 6 h frente a 8 h previstas cada día.
+            const worked = { '2024-01-01': 8.5 * 3600, '2024-01-02': 6 * 3600 };
+            expect(computeBalance(worked, schedules, new Date(2024, 0, 1), new Date(2024, 0, 3))).toEqual({
+                workedSeconds: 14.5 * 3600,
+                expectedSeconds: 16 * 3600,
+                balanceSeconds: -1.5 * 3600,
+            });
+        });
+
+        it('should count weekend work as surplus', () => {
+            const worked = { '2024-01-06': 2 * 3600 };
+            expect(computeBalance(worked, schedules, new Date(2024, 0, 6), new Date(2024, 0, 8)).balanceSeconds).toBe(2 * 3600);
+        });
+
+        it('should not expect hours on public holidays', () => {
+            const worked = { '2024-01-01': 3 * 3600 };
+            expect(computeBalance(worked, schedules, new Date(2024, 0, 1), new Date(2024, 0, 3), [], ['2024-01-01'])).toEqual({
+                workedSeconds: 3 * 3600,
+                expectedSeconds: 8 * 3600,
+                balanceSeconds: -5 * 3600,
+            });
+        });
+
+        it('should not expect hours before the first schedule', () => {
+            expect(computeBalance({}, schedules, new Date(2023, 11, 25), new Date(2024, 0, 1)).expectedSeconds).toBe(0);
+        });
+    });
+
+    describe('getOvertimeSeconds', () => {
+        it('should return the time above the threshold', () => {
+            expect(getOvertimeSeconds(10 * 3600, 540)).toBe(3600);
+            expect(getOvertimeSeconds(8 * 3600, 540)).toBe(0);
+        });
+    });
+
+    describe('formatBalance', () => {
+        it('should format signed hours and minutes', () => {
+            expect(formatBalance(5400)).toBe('+1h 30m');
+            expect(formatBalance(-2700)).toBe('-0h 45m');
+            expect(formatBalance(0)).toBe('+0h 0m');
+        });
+    });
+});
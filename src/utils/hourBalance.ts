@@ -0,0 +1,104 @@
+import { getExpectedSeconds, toDateKey, type WorkSchedule } from './schedule';
+import { getAbsenceFraction, type AbsenceRange } from './absences';
+import { getBrowserTimeZone } from './timezone';
+import { allocateSessionByDay, type AllocatableSession } from './dayAllocation';
+
+/**
+ * Umbrales de horas extra por defecto (función `overtime_thresholds`):
+ * 9 h al día y 40 h a la semana.
+ */
+export const DEFAULT_OVERTIME_THRESHOLDS = { daily_minutes: 540, weekly_minutes: 2400 };
+
+/**
+ * Saldo de horas de un rango de días.
+ *
+ * @property {number} workedSeconds - Segundos trabajados (netos de pausas).
+ * @property {number} expectedSeconds - Segundos previstos según el horario.
+ * @property {number} balanceSeconds - Exceso (positivo) o déficit (negativo).
+ */
+export interface HourBalance {
+    workedSeconds: number;
+    expectedSeconds: number;
+    balanceSeconds: number;
+}
+
+/**
+ * Agrupa los segundos trabajados por día en la zona horaria del usuario. Una
+ * sesión que cruza la medianoche reparte su tiempo neto entre ambos días.
+ *
+ * @param {AllocatableSession[]} sessions - Sesiones con sus pausas.
+ * @param {string} [timeZone] - Zona horaria IANA (por defecto la del navegador).
+ * @param {Date} [now] - Instante hasta el que cuenta una sesión abierta.
+ * @returns {Record<string, number>} Segundos por fecha "YYYY-MM-DD".
+ */
+export function groupWorkedByDay(
+    sessions: AllocatableSession[],
+    timeZone: string = getBrowserTimeZone(),
+    now: Date = new Date()
+): Record<string, number> {
+    const totals: Record<string, number> = {};
+    for (const session of sessions) {
+        for (const [key, seconds] of Object.entries(allocateSessionByDay(session, timeZone, now))) {
+            totals[key] = (totals[key] ?? 0) + seconds;
+        }
+    }
+    return totals;
+}
+
+/**
+ * Saldo de los días del rango [from, to) (hora local): trabajado menos previsto,
+ * usando en cada día la versión del horario vigente en esa fecha. Los festivos
+ * y los días de una ausencia aprobada no tienen horas previstas (la mitad si
+ * es media jornada).
+ *
+ * @param {Record<string, number>} workedByDay - Segundos trabajados por día (ver `groupWorkedByDay`).
+ * @param {WorkSchedule[]} schedules - Versiones del horario del usuario.
+ * @param {Date} from - Primer día del rango.
+ * @param {Date} to - Fin del rango (excluido).
+ * @param {AbsenceRange[]} [absences] - Ausencias del usuario.
+ * @param {string[]} [holidayDates] - Festivos del usuario ("YYYY-MM-DD").
+ * @returns {HourBalance} Totales del rango.
+ */
+export function computeBalance(
+    workedByDay: Record<string, number>,
+    schedules: WorkSchedule[],
+    from: Date,
+    to: Date,
+    absences: AbsenceRange[] = [],
+    holidayDates: string[] = []
+): HourBalance {
+    let workedSeconds = 0;
+    let expectedSeconds = 0;
+    const day = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+
+    while (day < to) {
+        const key = toDateKey(day);
+        workedSeconds += workedByDay[key] ?? 0;
+        if (!holidayDates.includes(key)) {
+            expectedSeconds += getExpectedSeconds(schedules, day) * (1 - getAbsenceFraction(absences, day));
+        }
+        day.setDate(day.getDate() + 1);
+    }
+
+    return { workedSeconds, expectedSeconds, balanceSeconds: workedSeconds - expectedSeconds };
+}
+
+/**
+ * Horas extra de un periodo: lo trabajado por encima del umbral.
+ *
+ * @param {number} workedSeconds - Segundos trabajados en el periodo.
+ * @param {number} thresholdMinutes - Umbral del periodo en minutos.
+ * @returns {number} Segundos de horas extra (0 si no se supera el umbral).
+ */
+export function getOvertimeSeconds(workedSeconds: number, thresholdMinutes: number): number {
+    return Math.max(0, workedSeconds - thresholdMinutes * 60);
+}
+
+/**
+ * Saldo con signo en horas y minutos ("+1h 30m", "-0h 45m").
+ */
+export function formatBalance(seconds: number): string {
+    const sign = seconds < 0 ? '-' : '+';
+    const minutes = Math.floor(Math.abs(seconds) / 60);
+    return `${sign}${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { parseICalHolidays } from './ical';
+
+const ics = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'BEGIN:VEVENT',
+    'DTSTART;VALUE=DATE:20250101',
+    'DTEND;VALUE=DATE:20250102',
+    'SUMMARY:Año Nuevo',
+    'END:VEVENT',
+    'BEGIN:VEVENT',
+    'DTSTART;VALUE=DATE:20250502',
+    'SUMMARY:Fiesta de la Comunidad\\, de Madrid',
+    'END:VEVENT',
+    'BEGIN:VEVENT',
+    'DTSTART:20250515T000000Z',
+    'DTEND:20250517T000000Z',
+    'SUMMARY:San Isidro y víspera que es una descripción muy larga partida',
+    '  en dos líneas',
+    'END:VEVENT',
+    'END:VCALENDAR',
+].join('\r\n');
+
+describe('ical', () => {
+    describe('parseICalHolidays', () => {
+        it('should read all-day events and escaped summaries', () => {
+            const holidays = parseICalHolidays(ics);
+            expect(holidays[0]).toEqual({ date: '2025-01-01', name: 'Año Nuevo' });
+            expect(holidays[1]).toEqual({ date: '2025-05-02', name: 'Fiesta de la Comunidad, de Madrid' });
+        });
+
+        it('should expand multi-day events and unfold long lines', () => {
+            const holidays = parseICalHolidays(ics);
+            expect(holidays.map(h => h.date)).toEqual(['2025-01-01', '2025-05-02', '2025-05-15', '2025-05-16']);
+            expect(holidays[2].name).toBe('San Isidro y víspera que es una descripción muy larga partida en dos líneas');
+        });
+
+        it('should ignore content without events', () => {
+            expect(parseICalHolidays('BEGIN:VCALENDAR\nEND:VCALENDAR')).toEqual([]);
+        });
+    });
+});
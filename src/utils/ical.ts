@@ -0,0 +1,78 @@
+/**
+ * Festivo leído de un fichero iCalendar (.ics).
+ *
+ * @property {string} date - Día festivo ("YYYY-MM-DD").
+ * @property {string} name - Nombre del festivo (SUMMARY del evento).
+ */
+export interface ICalHoliday {
+    date: string;
+    name: string;
+}
+
+// "20250101" o "20250101T000000Z" → "2025-01-01"
+const toDate = (value: string): string | null => {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+    return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+// Deshace el escapado de los valores de texto (RFC 5545, 3.3.11).
+const unescapeText = (value: string) =>
+    value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? ' ' : char)).trim();
+
+/**
+ * Extrae los festivos de un calendario iCalendar (como los que publican los
+ * ayuntamientos, las comunidades autónomas o Google Calendar).
+ *
+ * Cada VEVENT aporta los días entre DTSTART y DTEND (excluido, como en los
+ * eventos de día completo); sin DTEND, solo el día de inicio. Si dos eventos
+ * caen el mismo día se conserva el primero.
+ *
+ * @param {string} text - Contenido del fichero .ics.
+ * @returns {ICalHoliday[]} Festivos ordenados por fecha.
+ */
+export function parseICalHolidays(text: string): ICalHoliday[] {
+    // Las líneas largas se parten en varias que empiezan por espacio o tabulador.
+    const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    const holidays = new Map<string, string>();
+
+    let event: { start?: string; end?: string; name?: string } | null = null;
+
+    for (const line of lines) {
+        if (line === 'BEGIN:VEVENT') {
+            event = {};
+            continue;
+        }
+        if (!event) continue;
+
+        if (line === 'END:VEVENT') {
+            const start = event.start && toDate(event.start);
+            if (start) {
+                const end = (event.end && toDate(event.end)) || null;
+                const [year, month, day] = start.split('-').map(Number);
+                const date = new Date(Date.UTC(year, month - 1, day));
+
+                do {
+                    const key = date.toISOString().slice(0, 10);
+                    if (!holidays.has(key)) holidays.set(key, event.name || 'Festivo');
+                    date.setUTCDate(date.getUTCDate() + 1);
+                } while (end && date.toISOString().slice(0, 10) < end);
+            }
+            event = null;
+            continue;
+        }
+
+        // "NOMBRE;PARAMETROS:valor"
+        const separator = line.indexOf(':');
+        if (separator === -1) continue;
+        const property = line.slice(0, separator).split(';')[0].toUpperCase();
+        const value = line.slice(separator + 1);
+
+        if (property === 'DTSTART') event.start = value;
+        else if (property === 'DTEND') event.end = value;
+        else if (property === 'SUMMARY') event.name = unescapeText(value);
+    }
+
+    return [...holidays.entries()]
+        .map(([date, name]) => ({ date, name }))
+        .sort((a, b) => a.date.localeCompare(b.date));
+}
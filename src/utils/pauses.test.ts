@@ -0,0 +1,57 @@
+// Funciones de Vitest para definir suites de test, casos individuales y aserciones.
+import { describe, it, expect } from 'vitest';
+
+// Función a testear: valida las pausas de una sesión editada.
+import { validatePauses } from './pauses';
+
+/**
+ * Suite de tests para la función `validatePauses`.
+ *
+ * Sesión de referencia: de 9:00 a 17:00.
+ */
+describe('validatePauses', () => {
+    const start = '2023-01-01T09:00:00Z';
+    const end = '2023-01-01T17:00:00Z';
+
+    /**
+     * Test: Pausas correctas dentro de la sesión no producen errores.
+     */
+    it('should accept pauses inside the session that do not overlap', () => {
+        const errors = validatePauses(start, end, [
+            { pause_start: '2023-01-01T12:00:00Z', pause_end: '2023-01-01T13:00:00Z' },
+            { pause_start: '2023-01-01T15:00:00Z', pause_end: '2023-01-01T15:15:00Z' },
+        ]);
+
+        expect(errors).toEqual([]);
+    });
+
+    /**
+     * Test: Pausas sin fin, invertidas o fuera del horario se rechazan.
+     */
+    it('should reject incomplete, inverted or out-of-window pauses', () => {
+        const errors = validatePauses(start, end, [
+            { pause_start: '2023-01-01T10:00:00Z', pause_end: null },
+            { pause_start: '2023-01-01T11:00:00Z', pause_end: '2023-01-01T10:30:00Z' },
+            { pause_start: '2023-01-01T16:30:00Z', pause_end: '2023-01-01T17:30:00Z' },
+        ]);
+
+        expect(errors.map(e => e.index)).toEqual([0, 1, 2]);
+    });
+
+    /**
+     * Test: Detecta solapamientos aunque la pausa solapada no sea la inmediatamente anterior.
+     * La pausa de 10:00 a 14:00 contiene a las otras dos.
+     */
+    it('should reject overlapping pauses', () => {
+        const errors = validatePauses(start, end, [
+            { pause_start: '2023-01-01T10:00:00Z', pause_end: '2023-01-01T14:00:00Z' },
+            { pause_start: '2023-01-01T11:00:00Z', pause_end: '2023-01-01T11:15:00Z' },
+            { pause_start: '2023-01-01T12:00:00Z', pause_end: '2023-01-01T12:15:00Z' },
+        ]);
+
+        expect(errors).toEqual([
+            { index: 1, message: 'La pausa se solapa con otra pausa' },
+            { index: 2, message: 'La pausa se solapa con otra pausa' },
+        ]);
+    });
+});
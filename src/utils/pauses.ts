@@ -0,0 +1,95 @@
+// Pausa: forma mínima de una pausa (inicio y fin) usada en los cálculos de duración.
+import type { Pausa } from './duration';
+
+/**
+ * Pausa editable: una pausa existente (con `id`) o nueva (sin `id`).
+ *
+ * @property {string} [id] - UUID de la pausa en `work_pauses` (ausente si es nueva).
+ * @property {string | null} [pause_type_id] - Tipo de la pausa; se conserva al editarla.
+ */
+export interface EditablePause extends Pausa {
+    id?: string;
+    pause_type_id?: string | null;
+}
+
+/**
+ * Tipos de pausa habituales del convenio, que se pueden crear de una vez
+ * desde Ajustes: el café y las citas médicas son retribuidos; la comida y
+ * los asuntos propios, no.
+ */
+export const DEFAULT_PAUSE_TYPES: { name: string; paid: boolean }[] = [
+    { name: 'Café', paid: true },
+    { name: 'Comida', paid: false },
+    { name: 'Cita médica', paid: true },
+    { name: 'Asuntos propios', paid: false }
+];
+
+/**
+ * Error de validación asociado a una pausa concreta.
+ *
+ * @property {number} index - Posición de la pausa en el array recibido.
+ * @property {string} message - Mensaje legible para mostrar en la UI.
+ */
+export interface PauseValidationError {
+    index: number;
+    message: string;
+}
+
+/**
+ * Valida las pausas de una sesión completada.
+ *
+ * Reglas:
+ * 1. Cada pausa debe tener inicio y fin válidos, con fin posterior al inicio.
+ * 2. Cada pausa debe quedar dentro de la ventana [inicio, fin] de la sesión.
+ * 3. Las pausas no pueden solaparse entre sí.
+ *
+ * @param {string} sessionStart - Timestamp ISO del inicio de la sesión.
+ * @param {string} sessionEnd - Timestamp ISO del fin de la sesión.
+ * @param {Pausa[]} pauses - Pausas a validar (timestamps ISO).
+ * @returns {PauseValidationError[]} Errores encontrados (vacío si todo es válido).
+ *
+ * @example
+ * validatePauses('2023-01-01T09:00:00Z', '2023-01-01T17:00:00Z', [
+ *   { pause_start: '2023-01-01T08:00:00Z', pause_end: '2023-01-01T08:30:00Z' }
+ * ]); // → [{ index: 0, message: 'La pausa debe estar dentro del horario de la sesión' }]
+ */
+export function validatePauses(sessionStart: string, sessionEnd: string, pauses: Pausa[]): PauseValidationError[] {
+    const errors: PauseValidationError[] = [];
+    const start = new Date(sessionStart).getTime();
+    const end = new Date(sessionEnd).getTime();
+
+    // Rangos válidos, para comprobar solapamientos después.
+    const ranges: { index: number; start: number; end: number }[] = [];
+
+    pauses.forEach((pause, index) => {
+        const pStart = new Date(pause.pause_start).getTime();
+        const pEnd = pause.pause_end ? new Date(pause.pause_end).getTime() : NaN;
+
+        if (isNaN(pStart) || isNaN(pEnd)) {
+            errors.push({ index, message: 'La pausa debe tener inicio y fin' });
+            return;
+        }
+        if (pEnd <= pStart) {
+            errors.push({ index, message: 'El fin de la pausa debe ser posterior a su inicio' });
+            return;
+        }
+        if (pStart < start || pEnd > end) {
+            errors.push({ index, message: 'La pausa debe estar dentro del horario de la sesión' });
+            return;
+        }
+
+        ranges.push({ index, start: pStart, end: pEnd });
+    });
+
+    // Ordena por inicio: una pausa se solapa si empieza antes del fin más tardío previo.
+    ranges.sort((a, b) => a.start - b.start);
+    let latestEnd = -Infinity;
+    ranges.forEach(range => {
+        if (range.start < latestEnd) {
+            errors.push({ index: range.index, message: 'La pausa se solapa con otra pausa' });
+        }
+        latestEnd = Math.max(latestEnd, range.end);
+    });
+
+    return errors.sort((a, b) => a.index - b.index);
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { describeProjectBreakdown, getProjectBreakdown, mergeProjectTotals, type SegmentedSession } from './projects';
+
+// Jornada de 09:00 a 13:00 (UTC) con pausa de 10:30 a 11:00 y cambio de proyecto a las 10:00.
+const session: SegmentedSession = {
+    start_time: '2024-01-15T09:00:00Z',
+    end_time: '2024-01-15T13:00:00Z',
+    work_pauses: [{ pause_start: '2024-01-15T10:30:00Z', pause_end: '2024-01-15T11:00:00Z' }],
+    work_segments: [
+        { segment_start: '2024-01-15T09:00:00Z', segment_end: '2024-01-15T10:00:00Z', project_id: 'web', task_id: 'design' },
+        { segment_start: '2024-01-15T10:00:00Z', segment_end: null, project_id: 'app', task_id: null }
+    ]
+};
+
+const catalog = {
+    projects: [{ id: 'web', name: 'Web', client: 'Acme' }, { id: 'app', name: 'App', client: null }],
+    tasks: [{ id: 'design', name: 'Diseño' }]
+};
+
+describe('projects', () => {
+    describe('getProjectBreakdown', () => {
+        it('should split net time between segments, minus pauses', () => {
+            expect(getProjectBreakdown(session)).toEqual([
+                { projectId: 'app', taskId: null, seconds: 2.5 * 3600 },
+                { projectId: 'web', taskId: 'design', seconds: 3600 }
+            ]);
+        });
+
+        it('should leave a session without segments unassigned', () => {
+            expect(getProjectBreakdown({ ...session, work_segments: undefined })).toEqual([
+                { projectId: null, taskId: null, seconds: 3.5 * 3600 }
+            ]);
+        });
+
+        it('should count an open session until now', () => {
+            const open = { ...session, end_time: null, work_pauses: [] };
+            expect(getProjectBreakdown(open, undefined, new Date('2024-01-15T11:00:00Z'))).toEqual([
+                { projectId: 'web', taskId: 'design', seconds: 3600 },
+                { projectId: 'app', taskId: null, seconds: 3600 }
+            ]);
+        });
+
+        it('should only count the time within the range', () => {
+            const range = { from: new Date('2024-01-15T09:30:00Z'), to: new Date('2024-01-15T12:00:00Z') };
+            expect(getProjectBreakdown(session, range)).toEqual([
+                { projectId: 'app', taskId: null, seconds: 1.5 * 3600 },
+                { projectId: 'web', taskId: 'design', seconds: 1800 }
+            ]);
+        });
+    });
+
+    describe('mergeProjectTotals', () => {
+        it('should add up the same project and task across sessions', () => {
+            expect(mergeProjectTotals([
+                { projectId: 'web', taskId: null, seconds: 600 },
+                { projectId: 'web', taskId: null, seconds: 1200 },
+                { projectId: 'web', taskId: 'design', seconds: 300 }
+            ])).toEqual([
+                { projectId: 'web', taskId: null, seconds: 1800 },
+                { projectId: 'web', taskId: 'design', seconds: 300 }
+            ]);
+        });
+    });
+
+    describe('describeProjectBreakdown', () => {
+        it('should list client, project and task with their time', () => {
+            expect(describeProjectBreakdown(getProjectBreakdown(session), catalog))
+                .toBe('App (02:30:00), Acme / Web · Diseño (01:00:00)');
+        });
+    });
+});
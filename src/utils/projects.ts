@@ -0,0 +1,154 @@
+// netSecondsInRange / segmentNetSeconds: tiempo neto (sin pausas) de una sesión o de un tramo dentro de un rango.
+import { netSecondsInRange, segmentNetSeconds, type AllocatableSession } from './dayAllocation';
+import { formatDuration } from './duration';
+
+/**
+ * Tramo de una sesión imputado a un proyecto (fila de `work_segments`).
+ *
+ * @property {string | null} segment_end - Fin del tramo; null si sigue abierto
+ *   (cuenta hasta el fin de la sesión).
+ * @property {string | null} project_id - Proyecto; null = tiempo sin imputar.
+ */
+export interface ProjectSegment {
+    segment_start: string;
+    segment_end: string | null;
+    project_id: string | null;
+    task_id: string | null;
+}
+
+/**
+ * Sesión con sus pausas y sus tramos por proyecto. Las sesiones anteriores a
+ * los proyectos (o registradas a mano) no tienen tramos.
+ */
+export interface SegmentedSession extends AllocatableSession {
+    work_segments?: ProjectSegment[];
+}
+
+/**
+ * Proyecto y tarea elegidos al fichar (null = sin proyecto / sin tarea).
+ */
+export interface ProjectSelection {
+    projectId: string | null;
+    taskId: string | null;
+}
+
+/**
+ * Selección vacía: el tiempo queda sin proyecto.
+ */
+export const NO_PROJECT: ProjectSelection = { projectId: null, taskId: null };
+
+/**
+ * Tiempo neto imputado a un proyecto y tarea.
+ */
+export interface ProjectTotal {
+    projectId: string | null;
+    taskId: string | null;
+    seconds: number;
+}
+
+/**
+ * Nombres de proyectos y tareas para mostrar los totales.
+ */
+export interface ProjectCatalog {
+    projects: { id: string; name: string; client: string | null }[];
+    tasks: { id: string; name: string }[];
+}
+
+const EMPTY_CATALOG: ProjectCatalog = { projects: [], tasks: [] };
+
+/**
+ * Suma totales por proyecto y tarea, ordenados de mayor a menor tiempo.
+ *
+ * @param {ProjectTotal[]} totals - Totales sin agrupar (p. ej. de varias sesiones).
+ * @returns {ProjectTotal[]} Un total por combinación proyecto/tarea.
+ */
+export function mergeProjectTotals(totals: ProjectTotal[]): ProjectTotal[] {
+    const merged = new Map<string, ProjectTotal>();
+
+    for (const total of totals) {
+        const key = `${total.projectId ?? ''}:${total.taskId ?? ''}`;
+        const current = merged.get(key);
+        if (current) current.seconds += total.seconds;
+        else merged.set(key, { ...total });
+    }
+
+    return [...merged.values()]
+        .filter(total => total.seconds > 0)
+        .sort((a, b) => b.seconds - a.seconds);
+}
+
+/**
+ * Reparte el tiempo neto de una sesión entre los proyectos de sus tramos.
+ *
+ * Cada tramo aporta el tiempo trabajado entre su inicio y su fin (sin las
+ * pausas que caen dentro); lo que no cubre ningún tramo queda sin proyecto.
+ * Con `range` solo cuenta el tiempo dentro del rango (p. ej. un día de una
+ * jornada que cruza la medianoche).
+ *
+ * @param {SegmentedSession} session - Sesión con pausas y tramos.
+ * @param {{ from: Date; to: Date }} [range] - Rango [from, to) al que limitar el reparto.
+ * @param {Date} [now] - Instante hasta el que cuenta una sesión abierta.
+ * @returns {ProjectTotal[]} Totales de la sesión, de mayor a menor.
+ *
+ * @example
+ * // Sesión de 09:00 a 13:00 que cambia de proyecto a las 11:00.
+ * getProjectBreakdown({ start_time: '2024-01-15T09:00:00Z', end_time: '2024-01-15T13:00:00Z', work_pauses: [], work_segments: [
+ *   { segment_start: '2024-01-15T09:00:00Z', segment_end: '2024-01-15T11:00:00Z', project_id: 'web', task_id: null },
+ *   { segment_start: '2024-01-15T11:00:00Z', segment_end: null, project_id: 'app', task_id: null },
+ * ] });
+ * // → [{ projectId: 'web', taskId: null, seconds: 7200 }, { projectId: 'app', taskId: null, seconds: 7200 }]
+ */
+export function getProjectBreakdown(
+    session: SegmentedSession,
+    range?: { from: Date; to: Date },
+    now: Date = new Date()
+): ProjectTotal[] {
+    const sessionEnd = session.end_time ? new Date(session.end_time) : now;
+    const from = (start: Date) => range && range.from > start ? range.from : start;
+    const to = (end: Date) => range && range.to < end ? range.to : end;
+
+    const totalSeconds = netSecondsInRange(session, from(new Date(session.start_time)), to(sessionEnd), now);
+
+    const totals = (session.work_segments ?? []).map(segment => ({
+        projectId: segment.project_id,
+        taskId: segment.project_id ? segment.task_id : null,
+        seconds: segmentNetSeconds(session, segment, range, now)
+    }));
+
+    const assigned = totals.reduce((acc, total) => acc + total.seconds, 0);
+    totals.push({ projectId: null, taskId: null, seconds: Math.max(0, totalSeconds - assigned) });
+
+    return mergeProjectTotals(totals);
+}
+
+/**
+ * Nombre legible de un total: "Proyecto · Tarea", o "Sin proyecto".
+ *
+ * @param {Pick<ProjectTotal, 'projectId' | 'taskId'>} total - Proyecto y tarea.
+ * @param {ProjectCatalog} catalog - Proyectos y tareas conocidos.
+ * @returns {string} Etiqueta para la UI y las exportaciones.
+ */
+export function formatProjectLabel(total: Pick<ProjectTotal, 'projectId' | 'taskId'>, catalog: ProjectCatalog): string {
+    if (!total.projectId) return 'Sin proyecto';
+
+    const project = catalog.projects.find(p => p.id === total.projectId);
+    const task = total.taskId ? catalog.tasks.find(t => t.id === total.taskId) : undefined;
+    const projectName = project
+        ? project.client ? `${project.client} / ${project.name}` : project.name
+        : 'Proyecto no disponible';
+
+    return task ? `${projectName} · ${task.name}` : projectName;
+}
+
+/**
+ * Resume los totales en una línea: "Web · Diseño (02:00:00), Sin proyecto (00:30:00)".
+ *
+ * @param {ProjectTotal[]} totals - Totales por proyecto.
+ * @param {ProjectCatalog} [catalog] - Nombres de proyectos y tareas.
+ * @returns {string} Resumen separado por comas.
+ */
+export function describeProjectBreakdown(totals: ProjectTotal[], catalog: ProjectCatalog = EMPTY_CATALOG): string {
+    return totals
+        .map(total => `${formatProjectLabel(total, catalog)} (${formatDuration(total.seconds * 1000)})`)
+        .join(', ');
+}
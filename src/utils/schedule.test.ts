@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+    createDefaultScheduleDays,
+    getScheduleForDate,
+    getExpectedSeconds,
+    getExpectedSecondsInRange,
+    validateScheduleDays,
+    type WorkSchedule
+} from './schedule';
+
+const fullTime: WorkSchedule = { effective_from: '2024-01-01', days: createDefaultScheduleDays() };
+const partTime: WorkSchedule = {
+    effective_from: '2024-03-01',
+    days: createDefaultScheduleDays().map(d => ({ ...d, expected_minutes: d.expected_minutes / 2 }))
+};
+
+describe('schedule', () => {
+    describe('getScheduleForDate', () => {
+        it('should return the latest version in effect', () => {
+            expect(getScheduleForDate([partTime, fullTime], new Date(2024, 1, 15))).toBe(fullTime);
+            expect(getScheduleForDate([partTime, fullTime], new Date(2024, 2, 1))).toBe(partTime);
+        });
+
+        it('should return null before the first version', () => {
+            expect(getScheduleForDate([fullTime], new Date(2023, 11, 31))).toBeNull();
+        });
+    });
+
+    describe('getExpectedSeconds', () => {
+        it('should use the weekday pattern', () => {
+            // 2024-01-01 es lunes; 2024-01-06 es sábado.
+            expect(getExpectedSeconds([fullTime], new Date(2024, 0, 1))).toBe(8 * 3600);
+            expect(getExpectedSeconds([fullTime], new Date(2024, 0, 6))).toBe(0);
+        });
+
+        it('should be 0 without a schedule', () => {
+            expect(getExpectedSeconds([], new Date(2024, 0, 1))).toBe(0);
+        });
+    });
+
+    describe('getExpectedSecondsInRange', () => {
+        it('should add up a full week', () => {
+            expect(getExpectedSecondsInRange([fullTime], new Date(2024, 0, 1), new Date(2024, 0, 8))).toBe(40 * 3600);
+        });
+
+        it('should switch versions inside the range', () => {
+            // Semana del lunes 26/02/2024: jueves 29 a 8 h, viernes 1/03 a 4 h.
+            expect(getExpectedSecondsInRange([fullTime, partTime], new Date(2024, 1, 26), new Date(2024, 2, 4))).toBe(36 * 3600);
+        });
+    });
+
+    describe('validateScheduleDays', () => {
+        it('should accept the default pattern', () => {
+            expect(validateScheduleDays(createDefaultScheduleDays())).toBeNull();
+        });
+
+        it('should reject more than 24 hours in a day', () => {
+            const days = createDefaultScheduleDays();
+            days[0].expected_minutes = 1500;
+            expect(validateScheduleDays(days)).toBe('Lunes: las horas previstas deben estar entre 0 y 24');
+        });
+
+        it('should reject an end time before the start time', () => {
+            const days = createDefaultScheduleDays();
+            days[2].end_time = '08:00';
+            expect(validateScheduleDays(days)).toBe('Miércoles: la hora de salida debe ser posterior a la de entrada');
+        });
+    });
+});
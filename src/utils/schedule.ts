@@ -0,0 +1,120 @@
+/**
+ * Horario laboral de un día de la semana (elemento de `work_schedules.days`).
+ *
+ * @property {number} weekday - Día ISO: 1 = lunes … 7 = domingo.
+ * @property {number} expected_minutes - Minutos de trabajo previstos ese día.
+ * @property {string | null} start_time - Hora habitual de entrada ("HH:MM"), o null.
+ * @property {string | null} end_time - Hora habitual de salida ("HH:MM"), o null.
+ */
+export interface ScheduleDay {
+    weekday: number;
+    expected_minutes: number;
+    start_time: string | null;
+    end_time: string | null;
+}
+
+/**
+ * Versión del horario de un usuario: rige desde `effective_from` (fecha local
+ * "YYYY-MM-DD") hasta la siguiente versión.
+ */
+export interface WorkSchedule {
+    effective_from: string;
+    days: ScheduleDay[];
+}
+
+/**
+ * Nombre de cada día, indexado por `weekday - 1`.
+ */
+export const WEEKDAY_LABELS = ['Lunes', 'Martes', 'Miércoles', 'Jueves', 'Viernes', 'Sábado', 'Domingo'];
+
+/**
+ * Patrón por defecto para un horario nuevo: lunes a viernes, 8 h de 09:00 a 17:00.
+ */
+export function createDefaultScheduleDays(): ScheduleDay[] {
+    return WEEKDAY_LABELS.map((_, index) => index < 5
+        ? { weekday: index + 1, expected_minutes: 480, start_time: '09:00', end_time: '17:00' }
+        : { weekday: index + 1, expected_minutes: 0, start_time: null, end_time: null });
+}
+
+/**
+ * Fecha local de un instante en formato "YYYY-MM-DD" (el de `effective_from`).
+ */
+export function toDateKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Versión del horario vigente en una fecha: la de `effective_from` más reciente
+ * que no sea posterior a la fecha.
+ *
+ * @param {T[]} schedules - Versiones del usuario (en cualquier orden).
+ * @param {Date} date - Fecha consultada (hora local).
+ * @returns {T | null} Horario vigente, o null si aún no había ninguno.
+ */
+export function getScheduleForDate<T extends WorkSchedule>(schedules: T[], date: Date): T | null {
+    const key = toDateKey(date);
+
+    return schedules
+        .filter(s => s.effective_from <= key)
+        .reduce<T | null>((latest, s) => !latest || s.effective_from > latest.effective_from ? s : latest, null);
+}
+
+/**
+ * Segundos de trabajo previstos en un día según el horario vigente.
+ *
+ * @param {WorkSchedule[]} schedules - Versiones del usuario.
+ * @param {Date} date - Día consultado (hora local).
+ * @returns {number} Segundos previstos (0 sin horario o en días libres).
+ */
+export function getExpectedSeconds(schedules: WorkSchedule[], date: Date): number {
+    const schedule = getScheduleForDate(schedules, date);
+    if (!schedule) return 0;
+
+    const weekday = date.getDay() === 0 ? 7 : date.getDay();
+    const day = schedule.days.find(d => d.weekday === weekday);
+    return (day?.expected_minutes ?? 0) * 60;
+}
+
+/**
+ * Segundos previstos en los días del rango [from, to) (hora local). Cada día
+ * usa la versión del horario vigente en esa fecha.
+ *
+ * @param {WorkSchedule[]} schedules - Versiones del usuario.
+ * @param {Date} from - Inicio del rango.
+ * @param {Date} to - Fin del rango (excluido).
+ * @returns {number} Total de segundos previstos.
+ */
+export function getExpectedSecondsInRange(schedules: WorkSchedule[], from: Date, to: Date): number {
+    let total = 0;
+    const day = new Date(from);
+    day.setHours(0, 0, 0, 0);
+
+    while (day < to) {
+        total += getExpectedSeconds(schedules, day);
+        day.setDate(day.getDate() + 1);
+    }
+
+    return total;
+}
+
+/**
+ * Valida un patrón semanal antes de guardarlo (el trigger
+ * `validate_work_schedule_days` aplica las mismas reglas).
+ *
+ * @param {ScheduleDay[]} days - Días de lunes a domingo.
+ * @returns {string | null} Mensaje de error, o null si es válido.
+ */
+export function validateScheduleDays(days: ScheduleDay[]): string | null {
+    for (const day of days) {
+        const label = WEEKDAY_LABELS[day.weekday - 1];
+        if (!Number.isFinite(day.expected_minutes) || day.expected_minutes < 0 || day.expected_minutes > 1440) {
+            return `${label}: las horas previstas deben estar entre 0 y 24`;
+        }
+        if (day.start_time && day.end_time && day.end_time <= day.start_time) {
+            return `${label}: la hora de salida debe ser posterior a la de entrada`;
+        }
+    }
+    return null;
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { buildProjectSummaryRows, buildSessionExportRows, sessionsToCsv } from './sessionExport';
+
+// Timestamps construidos en hora local para que los tests no dependan de la zona horaria.
+const at = (hour: number, minute = 0) => new Date(2024, 0, 15, hour, minute).toISOString();
+
+describe('sessionExport', () => {
+    it('should build export rows with HH:MM:SS and decimal hours', () => {
+        const [row] = buildSessionExportRows([{
+            start_time: at(9),
+            end_time: at(17),
+            total_duration: '07:15:00',
+            notes: 'Cierre de mes',
+            device_info: { platform: 'Linux', userAgent: 'Firefox' },
+            work_pauses: [{ pause_start: at(13), pause_end: at(13, 45) }]
+        }]);
+
+        expect(row).toMatchObject({
+            netDuration: '07:15:00',
+            netHours: 7.25,
+            pauseCount: 1,
+            pauseDetails: '13:00:00-13:45:00 (00:45:00)',
+            notes: 'Cierre de mes',
+            device: 'Linux · Firefox'
+        });
+    });
+
+    it('should serialize rows to CSV with a decimal comma', () => {
+        const rows = buildSessionExportRows([{
+            start_time: at(9),
+            end_time: at(10, 30),
+            total_duration: null,
+            notes: 'Reunión; cliente',
+            device_info: null,
+            work_pauses: []
+        }]);
+
+        const [header, line] = sessionsToCsv(rows).split('\n');
+        expect(header.startsWith('Inicio;Fin;Duración neta;Horas (decimal)')).toBe(true);
+        expect(line).toBe('2024-01-15 09:00:00;2024-01-15 10:30:00;01:30:00;1,50;0;;;"Reunión; cliente";');
+    });
+
+    it('should summarize net time per project', () => {
+        const sessions = [{
+            start_time: at(9),
+            end_time: at(11),
+            total_duration: '02:00:00',
+            notes: null,
+            device_info: null,
+            work_pauses: [],
+            work_segments: [
+                { segment_start: at(9), segment_end: at(10, 30), project_id: 'web', task_id: null },
+                { segment_start: at(10, 30), segment_end: at(11), project_id: null, task_id: null }
+            ]
+        }];
+        const catalog = { projects: [{ id: 'web', name: 'Web', client: 'Acme' }], tasks: [] };
+
+        expect(buildSessionExportRows(sessions, catalog)[0].projects).toBe('Acme / Web (01:30:00), Sin proyecto (00:30:00)');
+        expect(buildProjectSummaryRows(sessions, catalog)).toEqual([
+            { project: 'Acme / Web', netDuration: '01:30:00', netHours: 1.5 },
+            { project: 'Sin proyecto', netDuration: '00:30:00', netHours: 0.5 }
+        ]);
+    });
+});
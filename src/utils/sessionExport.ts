@@ -0,0 +1,192 @@
+// Utilidades de duración: neto del servidor (INTERVAL) o calculado, y formato "HH:MM:SS".
+import { calculateDuration, formatDuration, parseInterval, type Pausa } from './duration';
+import { toCsv } from './csv';
+
+// Desglose del tiempo de cada sesión por proyecto.
+import {
+    describeProjectBreakdown,
+    formatProjectLabel,
+    getProjectBreakdown,
+    mergeProjectTotals,
+    type ProjectCatalog,
+    type ProjectSegment
+} from './projects';
+
+/**
+ * Sesión tal como la consulta la exportación del historial (con pausas completas).
+ */
+export interface ExportSession {
+    start_time: string;
+    end_time: string | null;
+    total_duration: string | null;
+    notes: string | null;
+    device_info: unknown;
+    work_pauses: Pausa[];
+    work_segments?: ProjectSegment[];
+}
+
+/**
+ * Fila exportada de una sesión.
+ *
+ * @property {Date} start - Inicio de la sesión.
+ * @property {Date | null} end - Fin de la sesión.
+ * @property {string} netDuration - Duración neta "HH:MM:SS".
+ * @property {number} netHours - Duración neta en horas decimales (2 decimales).
+ * @property {number} pauseCount - Número de pausas.
+ * @property {string} pauseDetails - Pausas como texto ("12:00:00-12:30:00 (00:30:00)"),
+ *   con ", retribuida" en las que no se descuentan.
+ * @property {string} projects - Tiempo por proyecto ("Web (02:00:00), Sin proyecto (00:30:00)");
+ *   vacío si la sesión no se imputó a ningún proyecto.
+ * @property {string} notes - Notas de la sesión.
+ * @property {string} device - Plataforma y navegador desde el que se fichó.
+ */
+export interface SessionExportRow {
+    start: Date;
+    end: Date | null;
+    netDuration: string;
+    netHours: number;
+    pauseCount: number;
+    pauseDetails: string;
+    projects: string;
+    notes: string;
+    device: string;
+}
+
+/**
+ * Cabeceras de las columnas exportadas (mismo orden en CSV y XLSX).
+ */
+export const SESSION_EXPORT_HEADERS = [
+    'Inicio',
+    'Fin',
+    'Duración neta',
+    'Horas (decimal)',
+    'Nº pausas',
+    'Detalle de pausas',
+    'Proyectos',
+    'Notas',
+    'Dispositivo',
+];
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+/**
+ * Formatea una fecha como "YYYY-MM-DD HH:MM:SS" en hora local.
+ */
+export const formatExportDateTime = (date: Date) =>
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+
+/**
+ * Hora local "HH:MM:SS" de un timestamp ISO.
+ */
+const formatTimeOfDay = (iso: string) => formatExportDateTime(new Date(iso)).slice(11);
+
+/**
+ * Resume `device_info` ({ userAgent, platform }) en una sola cadena.
+ */
+const describeDevice = (deviceInfo: unknown): string => {
+    if (!deviceInfo || typeof deviceInfo !== 'object') return '';
+    const { platform, userAgent } = deviceInfo as { platform?: string; userAgent?: string };
+    return [platform, userAgent].filter(Boolean).join(' · ');
+};
+
+/**
+ * Total de un proyecto (y tarea) en el rango exportado.
+ */
+export interface ProjectSummaryRow {
+    project: string;
+    netDuration: string;
+    netHours: number;
+}
+
+/**
+ * Cabeceras del resumen por proyecto (hoja "Proyectos" del XLSX).
+ */
+export const PROJECT_SUMMARY_HEADERS = ['Proyecto', 'Duración neta', 'Horas (decimal)'];
+
+/**
+ * Horas decimales redondeadas a 2 decimales.
+ */
+const toDecimalHours = (seconds: number) => Math.round((seconds / 3600) * 100) / 100;
+
+/**
+ * Convierte las sesiones consultadas en filas de exportación.
+ *
+ * La duración neta es `total_duration` (calculada por el servidor); si falta,
+ * se calcula a partir de las pausas. Las horas decimales se redondean a 2 decimales.
+ *
+ * @param {ExportSession[]} sessions - Sesiones con sus pausas y tramos por proyecto.
+ * @param {ProjectCatalog} [catalog] - Nombres de proyectos y tareas.
+ * @returns {SessionExportRow[]} Filas ordenadas por inicio ascendente.
+ */
+export function buildSessionExportRows(sessions: ExportSession[], catalog?: ProjectCatalog): SessionExportRow[] {
+    return [...sessions]
+        .sort((a, b) => a.start_time.localeCompare(b.start_time))
+        .map(session => {
+            const pauses = [...session.work_pauses].sort((a, b) => a.pause_start.localeCompare(b.pause_start));
+            const projectTotals = getProjectBreakdown(session);
+            const netSeconds = session.total_duration
+                ? parseInterval(session.total_duration)
+                : session.end_time
+                    ? Math.floor(calculateDuration(session.start_time, session.end_time, pauses) / 1000)
+                    : 0;
+
+            return {
+                start: new Date(session.start_time),
+                end: session.end_time ? new Date(session.end_time) : null,
+                netDuration: formatDuration(netSeconds * 1000),
+                netHours: toDecimalHours(netSeconds),
+                pauseCount: pauses.length,
+                pauseDetails: pauses
+                    .map(p => p.pause_end
+                        ? `${formatTimeOfDay(p.pause_start)}-${formatTimeOfDay(p.pause_end)} (${formatDuration(new Date(p.pause_end).getTime() - new Date(p.pause_start).getTime())}${p.paid ? ', retribuida' : ''})`
+                        : `${formatTimeOfDay(p.pause_start)}-`)
+                    .join(', '),
+                projects: projectTotals.some(total => total.projectId) ? describeProjectBreakdown(projectTotals, catalog) : '',
+                notes: session.notes ?? '',
+                device: describeDevice(session.device_info),
+            };
+        });
+}
+
+/**
+ * Suma el tiempo de las sesiones exportadas por proyecto y tarea.
+ *
+ * @param {ExportSession[]} sessions - Sesiones con sus pausas y tramos por proyecto.
+ * @param {ProjectCatalog} [catalog] - Nombres de proyectos y tareas.
+ * @returns {ProjectSummaryRow[]} Un total por proyecto y tarea, de mayor a menor.
+ */
+export function buildProjectSummaryRows(sessions: ExportSession[], catalog: ProjectCatalog = { projects: [], tasks: [] }): ProjectSummaryRow[] {
+    return mergeProjectTotals(sessions.flatMap(session => getProjectBreakdown(session)))
+        .map(total => ({
+            project: formatProjectLabel(total, catalog),
+            netDuration: formatDuration(total.seconds * 1000),
+            netHours: toDecimalHours(total.seconds),
+        }));
+}
+
+/**
+ * Serializa las filas exportadas a CSV (separado por `;`).
+ *
+ * Las horas decimales usan coma como separador decimal para que Excel en
+ * español las reconozca como números.
+ *
+ * @param {SessionExportRow[]} rows - Filas generadas con `buildSessionExportRows`.
+ * @returns {string} Contenido CSV con cabecera.
+ */
+export function sessionsToCsv(rows: SessionExportRow[]): string {
+    return toCsv([
+        SESSION_EXPORT_HEADERS,
+        ...rows.map(row => [
+            formatExportDateTime(row.start),
+            row.end ? formatExportDateTime(row.end) : '',
+            row.netDuration,
+            row.netHours.toFixed(2).replace('.', ','),
+            row.pauseCount,
+            row.pauseDetails,
+            row.projects,
+            row.notes,
+            row.device,
+        ]),
+    ]);
+}
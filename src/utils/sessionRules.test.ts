@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+    validateSessionWindow,
+    rangesOverlap,
+    isOutsideEditWindow,
+    daysUntilPurge,
+    getLastActionTime,
+    validateForgottenSessionEnd,
+    getAutoCloseDueAt
+} from './sessionRules';
+
+describe('sessionRules', () => {
+    describe('validateSessionWindow', () => {
+        it('should accept a valid past window', () => {
+            expect(validateSessionWindow('2023-01-01T09:00:00Z', '2023-01-01T17:00:00Z')).toBeNull();
+        });
+
+        it('should reject an end before the start', () => {
+            expect(validateSessionWindow('2023-01-01T17:00:00Z', '2023-01-01T09:00:00Z'))
+                .toBe('El fin de la sesión debe ser posterior a su inicio');
+        });
+
+        it('should reject sessions longer than 16 hours', () => {
+            expect(validateSessionWindow('2023-01-01T06:00:00Z', '2023-01-01T23:00:00Z'))
+                .toBe('Una sesión no puede durar más de 16 horas.');
+        });
+
+        it('should reject sessions ending in the future', () => {
+            const start = new Date(Date.now() - 3600000).toISOString();
+            const end = new Date(Date.now() + 3600000).toISOString();
+            expect(validateSessionWindow(start, end)).toBe('No se pueden registrar sesiones en el futuro');
+        });
+    });
+
+    describe('rangesOverlap', () => {
+        it('should detect overlapping ranges', () => {
+            expect(rangesOverlap('2023-01-01T09:00:00Z', '2023-01-01T12:00:00Z', '2023-01-01T11:00:00Z', '2023-01-01T14:00:00Z')).toBe(true);
+        });
+
+        it('should treat touching ranges as non overlapping', () => {
+            expect(rangesOverlap('2023-01-01T09:00:00Z', '2023-01-01T12:00:00Z', '2023-01-01T12:00:00Z', '2023-01-01T14:00:00Z')).toBe(false);
+        });
+
+        it('should treat a null end as an open range', () => {
+            expect(rangesOverlap('2023-01-01T09:00:00Z', null, '2023-01-02T09:00:00Z', '2023-01-02T10:00:00Z')).toBe(true);
+        });
+    });
+
+    describe('isOutsideEditWindow', () => {
+        const now = new Date('2023-01-10T12:00:00Z');
+
+        it('should allow editing sessions inside the window', () => {
+            expect(isOutsideEditWindow('2023-01-04T09:00:00Z', 7, now)).toBe(false);
+        });
+
+        it('should require a change request for older sessions', () => {
+            expect(isOutsideEditWindow('2023-01-03T09:00:00Z', 7, now)).toBe(true);
+        });
+
+        it('should never lock sessions when there is no window', () => {
+            expect(isOutsideEditWindow('2020-01-01T09:00:00Z', null, now)).toBe(false);
+        });
+    });
+
+    describe('daysUntilPurge', () => {
+        it('should count the days left in the trash', () => {
+            expect(daysUntilPurge('2023-01-01T12:00:00Z', new Date('2023-01-01T12:00:00Z'))).toBe(30);
+            expect(daysUntilPurge('2023-01-01T12:00:00Z', new Date('2023-01-30T18:00:00Z'))).toBe(1);
+        });
+
+        it('should not go below zero once the retention has expired', () => {
+            expect(daysUntilPurge('2023-01-01T12:00:00Z', new Date('2023-03-01T12:00:00Z'))).toBe(0);
+        });
+    });
+
+    describe('forgotten sessions', () => {
+        // Sesión olvidada con una pausa ya cerrada y un cambio de actividad posterior.
+        const session = {
+            start_time: '2023-01-01T08:00:00Z',
+            work_pauses: [{ pause_start: '2023-01-01T11:00:00Z', pause_end: '2023-01-01T11:30:00Z' }],
+            work_segments: [{ segment_start: '2023-01-01T08:00:00Z' }, { segment_start: '2023-01-01T12:00:00Z' }]
+        };
+
+        it('should find the last recorded action', () => {
+            expect(getLastActionTime(session)).toBe('2023-01-01T12:00:00Z');
+            expect(getLastActionTime({ ...session, work_segments: undefined })).toBe('2023-01-01T11:30:00Z');
+        });
+
+        it('should reject an end before the last recorded action', () => {
+            expect(validateForgottenSessionEnd(session, '2023-01-01T11:45:00Z'))
+                .toBe('La salida no puede ser anterior al último fichaje de la sesión');
+            expect(validateForgottenSessionEnd(session, '2023-01-01T16:00:00Z')).toBeNull();
+        });
+
+        it('should count the auto-close limit from the recovery, up to 16 hours', () => {
+            expect(getAutoCloseDueAt(session.start_time, null, 720)).toBe(Date.parse('2023-01-01T20:00:00Z'));
+            expect(getAutoCloseDueAt(session.start_time, '2023-01-01T10:00:00Z', 120)).toBe(Date.parse('2023-01-01T12:00:00Z'));
+            expect(getAutoCloseDueAt(session.start_time, '2023-01-01T20:00:00Z', 720)).toBe(Date.parse('2023-01-02T00:00:00Z'));
+        });
+    });
+});
@@ -0,0 +1,152 @@
+/**
+ * Reglas de negocio de las sesiones de trabajo, replicadas en el cliente.
+ *
+ * La fuente de verdad son los triggers de `supabase/schema.sql`
+ * (`validate_max_session_duration`, `validate_session_overlap`,
+ * `prevent_session_edit_outside_window`, `purge_deleted_sessions`); estas funciones
+ * permiten avisar al usuario antes de enviar datos que el servidor rechazaría.
+ */
+
+/**
+ * Duración máxima de una sesión en horas (trigger `validate_max_session_duration`).
+ */
+export const MAX_SESSION_HOURS = 16;
+
+/**
+ * Valida la ventana de una sesión completada.
+ *
+ * @param {string} startTime - Timestamp ISO del inicio.
+ * @param {string} endTime - Timestamp ISO del fin.
+ * @returns {string | null} Mensaje de error, o null si la ventana es válida.
+ */
+export function validateSessionWindow(startTime: string, endTime: string): string | null {
+    const start = new Date(startTime).getTime();
+    const end = new Date(endTime).getTime();
+
+    if (isNaN(start) || isNaN(end)) return 'La sesión debe tener inicio y fin';
+    if (end <= start) return 'El fin de la sesión debe ser posterior a su inicio';
+    if ((end - start) / 3600000 > MAX_SESSION_HOURS) {
+        return `Una sesión no puede durar más de ${MAX_SESSION_HOURS} horas.`;
+    }
+    if (end > Date.now()) return 'No se pueden registrar sesiones en el futuro';
+
+    return null;
+}
+
+/**
+ * Indica si dos rangos de tiempo se solapan. Un fin null se considera "en curso".
+ *
+ * @param {string} startA - Inicio ISO del primer rango.
+ * @param {string | null} endA - Fin ISO del primer rango (null = abierto).
+ * @param {string} startB - Inicio ISO del segundo rango.
+ * @param {string | null} endB - Fin ISO del segundo rango (null = abierto).
+ * @returns {boolean} true si los rangos comparten algún instante.
+ */
+export function rangesOverlap(startA: string, endA: string | null, startB: string, endB: string | null): boolean {
+    const aStart = new Date(startA).getTime();
+    const aEnd = endA ? new Date(endA).getTime() : Infinity;
+    const bStart = new Date(startB).getTime();
+    const bEnd = endB ? new Date(endB).getTime() : Infinity;
+
+    return aStart < bEnd && bStart < aEnd;
+}
+
+/**
+ * Indica si una sesión ya no se puede editar directamente y sus cambios deben
+ * pasar por una solicitud (trigger `prevent_session_edit_outside_window`).
+ *
+ * @param {string} startTime - Timestamp ISO del inicio de la sesión.
+ * @param {number | null} windowDays - Ventana de edición en días (null = sin límite).
+ * @param {Date} [now] - Instante de referencia (por defecto, ahora).
+ * @returns {boolean} true si la sesión empezó antes de la ventana.
+ */
+export function isOutsideEditWindow(startTime: string, windowDays: number | null, now: Date = new Date()): boolean {
+    if (windowDays === null) return false;
+    return new Date(startTime).getTime() < now.getTime() - windowDays * 86400000;
+}
+
+/**
+ * Días que una sesión permanece en la papelera antes de eliminarse
+ * definitivamente (función `purge_deleted_sessions`).
+ */
+export const TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Días que faltan para que una sesión de la papelera se elimine definitivamente.
+ *
+ * @param {string} deletedAt - Timestamp ISO en que se movió a la papelera.
+ * @param {Date} [now] - Instante de referencia (por defecto, ahora).
+ * @returns {number} Días completos restantes (0 si ya venció la retención).
+ */
+export function daysUntilPurge(deletedAt: string, now: Date = new Date()): number {
+    const purgeAt = new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * 86400000;
+    return Math.max(0, Math.ceil((purgeAt - now.getTime()) / 86400000));
+}
+
+/**
+ * Límite por defecto del cierre automático de sesiones olvidadas, en minutos
+ * desde el inicio (función `auto_close_settings`).
+ */
+export const DEFAULT_AUTO_CLOSE_MINUTES = 720;
+
+/**
+ * Momento en que una sesión abierta supera el límite del cierre automático
+ * (función `auto_close_due_at`): el límite se cuenta desde el inicio o, si el
+ * usuario la recuperó, desde la recuperación, sin pasar de las 16 h.
+ *
+ * @param {string} startTime - Inicio ISO de la sesión.
+ * @param {string | null} recoveredAt - Cuándo se recuperó (null si nunca).
+ * @param {number} limitMinutes - Límite del usuario en minutos.
+ * @returns {number} Timestamp en milisegundos.
+ */
+export function getAutoCloseDueAt(startTime: string, recoveredAt: string | null, limitMinutes: number): number {
+    const start = new Date(startTime).getTime();
+    const from = recoveredAt ? new Date(recoveredAt).getTime() : start;
+    return Math.min(from + limitMinutes * 60000, start + MAX_SESSION_HOURS * 3600000);
+}
+
+/**
+ * Sesión abierta con sus fichajes, para saber hasta cuándo se trabajó seguro.
+ */
+export interface OpenSessionActions {
+    start_time: string;
+    work_pauses: { pause_start: string; pause_end: string | null }[];
+    work_segments?: { segment_start: string }[];
+}
+
+/**
+ * Último fichaje de una sesión abierta (inicio, pausas, reanudaciones y cambios
+ * de proyecto o actividad). Su salida no puede ser anterior.
+ *
+ * @param {OpenSessionActions} session - Sesión con sus pausas y tramos.
+ * @returns {string} Timestamp ISO del último fichaje.
+ */
+export function getLastActionTime(session: OpenSessionActions): string {
+    const times = [
+        session.start_time,
+        ...session.work_pauses.flatMap(p => p.pause_end ? [p.pause_start, p.pause_end] : [p.pause_start]),
+        ...(session.work_segments ?? []).map(s => s.segment_start)
+    ];
+    return times.reduce((latest, time) => new Date(time) > new Date(latest) ? time : latest);
+}
+
+/**
+ * Valida la hora de salida que indica el usuario para una sesión olvidada:
+ * las reglas de cualquier sesión y, además, no anterior a su último fichaje
+ * (el trigger del servidor no lo comprueba, pero la pausa abierta se cerraría
+ * antes de empezar).
+ *
+ * @param {OpenSessionActions} session - Sesión olvidada con sus pausas y tramos.
+ * @param {string} endTime - Timestamp ISO de la salida indicada.
+ * @returns {string | null} Mensaje de error, o null si la salida es válida.
+ */
+export function validateForgottenSessionEnd(session: OpenSessionActions, endTime: string): string | null {
+    const windowError = validateSessionWindow(session.start_time, endTime);
+    if (windowError) return windowError;
+
+    if (new Date(endTime) < new Date(getLastActionTime(session))) {
+        return 'La salida no puede ser anterior al último fichaje de la sesión';
+    }
+
+    return null;
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { summarizePresence, type PresenceSession } from './teamPresence';
+
+const startOfWeek = '2024-01-15T00:00:00.000Z';
+const startOfDay = '2024-01-17T00:00:00.000Z';
+const now = new Date('2024-01-17T12:00:00.000Z');
+
+const completed = (start: string, hours: number): PresenceSession => ({
+    user_id: 'u1',
+    start_time: start,
+    end_time: new Date(new Date(start).getTime() + hours * 3600000).toISOString(),
+    status: 'completed',
+    total_duration: `0${hours}:00:00`,
+    work_pauses: []
+});
+
+describe('summarizePresence', () => {
+    it('should mark a member without an open session as off', () => {
+        const summary = summarizePresence([
+            completed('2024-01-15T09:00:00.000Z', 8),
+            completed('2024-01-17T06:00:00.000Z', 2)
+        ], now, startOfDay, startOfWeek);
+
+        expect(summary).toEqual({ state: 'off', since: null, todaySeconds: 7200, weekSeconds: 36000 });
+    });
+
+    it('should add the live time of an active session', () => {
+        const summary = summarizePresence([
+            completed('2024-01-16T09:00:00.000Z', 8),
+            {
+                user_id: 'u1',
+                start_time: '2024-01-17T09:00:00.000Z',
+                end_time: null,
+                status: 'active',
+                total_duration: null,
+                work_pauses: [{ pause_start: '2024-01-17T10:00:00.000Z', pause_end: '2024-01-17T10:30:00.000Z' }]
+            }
+        ], now, startOfDay, startOfWeek);
+
+        expect(summary.state).toBe('working');
+        expect(summary.since).toBe('2024-01-17T09:00:00.000Z');
+        expect(summary.todaySeconds).toBe(9000);
+        expect(summary.weekSeconds).toBe(28800 + 9000);
+    });
+
+    it('should not count an open pause as worked time', () => {
+        const summary = summarizePresence([{
+            user_id: 'u1',
+            start_time: '2024-01-17T10:00:00.000Z',
+            end_time: null,
+            status: 'paused',
+            total_duration: null,
+            work_pauses: [{ pause_start: '2024-01-17T11:00:00.000Z', pause_end: null }]
+        }], now, startOfDay, startOfWeek);
+
+        expect(summary.state).toBe('paused');
+        expect(summary.todaySeconds).toBe(3600);
+    });
+
+    it('should count only the part of a night shift after midnight as today', () => {
+        const summary = summarizePresence([completed('2024-01-16T22:00:00.000Z', 8)], now, startOfDay, startOfWeek);
+
+        expect(summary.todaySeconds).toBe(6 * 3600);
+        expect(summary.weekSeconds).toBe(8 * 3600);
+    });
+});
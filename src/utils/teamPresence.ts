@@ -0,0 +1,76 @@
+// Pausa: forma mínima de una pausa (inicio y fin).
+import type { Pausa } from './duration';
+
+// netSecondsInRange: tiempo neto dentro de un rango (corta en la medianoche).
+import { netSecondsInRange } from './dayAllocation';
+
+/**
+ * Estado de presencia de un trabajador, derivado de `work_sessions.status`.
+ * - working: tiene una sesión 'active'.
+ * - paused: tiene una sesión 'paused'.
+ * - off: no tiene sesión abierta.
+ */
+export type PresenceState = 'working' | 'paused' | 'off';
+
+/**
+ * Sesión de un miembro del equipo, tal como la consulta el panel de equipo.
+ */
+export interface PresenceSession {
+    user_id: string;
+    start_time: string;
+    end_time: string | null;
+    status: 'active' | 'paused' | 'completed' | 'abandoned';
+    total_duration: string | null;
+    work_pauses: Pausa[];
+}
+
+/**
+ * Resumen de presencia de un miembro.
+ *
+ * @property {PresenceState} state - Estado actual.
+ * @property {string | null} since - Inicio de la sesión abierta, si la hay.
+ * @property {number} todaySeconds - Tiempo neto trabajado hoy (incluye la sesión abierta).
+ * @property {number} weekSeconds - Tiempo neto trabajado esta semana (incluye la sesión abierta).
+ */
+export interface PresenceSummary {
+    state: PresenceState;
+    since: string | null;
+    todaySeconds: number;
+    weekSeconds: number;
+}
+
+/**
+ * Calcula la presencia de un miembro a partir de sus sesiones de la semana
+ * (y de su sesión abierta, aunque empezara antes).
+ *
+ * Cada sesión (también la abierta, hasta `now`) aporta solo su tiempo neto
+ * dentro del día o la semana: una jornada que empezó ayer cuenta hoy desde
+ * la medianoche (`netSecondsInRange`).
+ *
+ * @param {PresenceSession[]} sessions - Sesiones del miembro.
+ * @param {Date} now - Instante de referencia (se actualiza cada segundo en la UI).
+ * @param {string} startOfDay - Inicio del día (ISO).
+ * @param {string} startOfWeek - Inicio de la semana (ISO).
+ * @returns {PresenceSummary} Estado y totales del miembro.
+ */
+export function summarizePresence(
+    sessions: PresenceSession[],
+    now: Date,
+    startOfDay: string,
+    startOfWeek: string
+): PresenceSummary {
+    const dayStart = new Date(startOfDay);
+    const weekStart = new Date(startOfWeek);
+    const counted = sessions.filter(s => s.status !== 'abandoned');
+    const open = sessions.find(s => s.status === 'active' || s.status === 'paused');
+
+    const netSince = (from: Date) =>
+        counted.reduce((acc, session) => acc + netSecondsInRange(session, from, now, now), 0);
+
+    return {
+        state: open ? (open.status === 'active' ? 'working' : 'paused') : 'off',
+        since: open?.start_time ?? null,
+        todaySeconds: netSince(dayStart),
+        weekSeconds: netSince(weekStart),
+    };
+}
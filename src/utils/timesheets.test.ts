@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { getPeriodRange, shiftPeriod, toZonedPeriod, formatPeriodLabel } from './timesheets';
+
+describe('getPeriodRange', () => {
+    it('should return the Monday-to-Monday week containing the date', () => {
+        // Wednesday 17 January 2024
+        const { start, end } = getPeriodRange('week', new Date(2024, 0, 17, 15, 30));
+        expect(start).toEqual(new Date(2024, 0, 15));
+        expect(end).toEqual(new Date(2024, 0, 22));
+    });
+
+    it('should treat Sunday as the last day of the week', () => {
+        const { start } = getPeriodRange('week', new Date(2024, 0, 21, 23, 0));
+        expect(start).toEqual(new Date(2024, 0, 15));
+    });
+
+    it('should return the calendar month containing the date', () => {
+        const { start, end } = getPeriodRange('month', new Date(2024, 1, 29));
+        expect(start).toEqual(new Date(2024, 1, 1));
+        expect(end).toEqual(new Date(2024, 2, 1));
+    });
+});
+
+describe('shiftPeriod', () => {
+    it('should move weeks across month boundaries', () => {
+        const week = getPeriodRange('week', new Date(2024, 0, 31));
+        expect(shiftPeriod('week', week, 1).start).toEqual(new Date(2024, 1, 5));
+        expect(shiftPeriod('week', week, -1).start).toEqual(new Date(2024, 0, 22));
+    });
+
+    it('should move months across years', () => {
+        const month = getPeriodRange('month', new Date(2024, 0, 10));
+        expect(shiftPeriod('month', month, -1)).toEqual({ start: new Date(2023, 11, 1), end: new Date(2024, 0, 1) });
+    });
+});
+
+describe('toZonedPeriod', () => {
+    it('should start the week at midnight in the worker time zone', () => {
+        const week = getPeriodRange('week', new Date(2024, 6, 10));
+        expect(toZonedPeriod(week, 'Europe/Madrid')).toEqual({
+            start: new Date('2024-07-07T22:00:00Z'),
+            end: new Date('2024-07-14T22:00:00Z'),
+        });
+        expect(toZonedPeriod(week, 'Atlantic/Canary').start).toEqual(new Date('2024-07-07T23:00:00Z'));
+    });
+});
+
+describe('formatPeriodLabel', () => {
+    it('should label weeks by their first day and months by name', () => {
+        expect(formatPeriodLabel('week', new Date(2024, 0, 15))).toBe('Semana del 15/1/2024');
+        expect(formatPeriodLabel('month', new Date(2024, 0, 1))).toBe('enero de 2024');
+    });
+
+    it('should show a stored start in the given time zone', () => {
+        expect(formatPeriodLabel('week', '2024-07-07T22:00:00Z', 'Europe/Madrid')).toBe('Semana del 8/7/2024');
+    });
+});
@@ -0,0 +1,83 @@
+import { startOfZonedDay } from './timezone';
+
+/**
+ * Tipo de periodo de una hoja de horas.
+ */
+export type PeriodType = 'week' | 'month';
+
+/**
+ * Rango [start, end) de un periodo: días de calendario (fechas locales a las
+ * 00:00) en `getPeriodRange`/`shiftPeriod`, o instantes en `toZonedPeriod`.
+ */
+export interface PeriodRange {
+    start: Date;
+    end: Date;
+}
+
+/**
+ * Calcula el periodo (semana de lunes a domingo, o mes natural) que contiene
+ * la fecha de referencia, en hora local.
+ *
+ * @param {PeriodType} type - 'week' o 'month'.
+ * @param {Date} reference - Cualquier instante dentro del periodo.
+ * @returns {PeriodRange} Inicio (incluido) y fin (excluido) del periodo.
+ */
+export function getPeriodRange(type: PeriodType, reference: Date): PeriodRange {
+    if (type === 'month') {
+        return {
+            start: new Date(reference.getFullYear(), reference.getMonth(), 1),
+            end: new Date(reference.getFullYear(), reference.getMonth() + 1, 1),
+        };
+    }
+
+    const day = reference.getDay();
+    const start = new Date(reference.getFullYear(), reference.getMonth(), reference.getDate() - (day === 0 ? 6 : day - 1));
+    return {
+        start,
+        end: new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7),
+    };
+}
+
+/**
+ * Periodo anterior o siguiente al indicado.
+ *
+ * @param {PeriodType} type - 'week' o 'month'.
+ * @param {PeriodRange} period - Periodo actual.
+ * @param {number} delta - -1 para el anterior, 1 para el siguiente.
+ */
+export function shiftPeriod(type: PeriodType, period: PeriodRange, delta: number): PeriodRange {
+    const reference = type === 'month'
+        ? new Date(period.start.getFullYear(), period.start.getMonth() + delta, 1)
+        : new Date(period.start.getFullYear(), period.start.getMonth(), period.start.getDate() + 7 * delta);
+    return getPeriodRange(type, reference);
+}
+
+/**
+ * Convierte un periodo de días de calendario en los instantes en que empieza y
+ * termina en la zona horaria del trabajador, que es como se guardan
+ * `period_start`/`period_end` y se filtran sus sesiones.
+ *
+ * @param {PeriodRange} period - Periodo de `getPeriodRange`/`shiftPeriod`.
+ * @param {string} timeZone - Zona horaria IANA.
+ */
+export function toZonedPeriod(period: PeriodRange, timeZone: string): PeriodRange {
+    return {
+        start: startOfZonedDay(period.start, timeZone),
+        end: startOfZonedDay(period.end, timeZone),
+    };
+}
+
+/**
+ * Etiqueta legible de un periodo ("Semana del 15/01/2024" o "enero de 2024").
+ *
+ * @param {PeriodType} type - 'week' o 'month'.
+ * @param {Date | string} start - Inicio del periodo.
+ * @param {string} [timeZone] - Zona en la que mostrar un inicio guardado como
+ *   instante; sin ella se usa la del navegador.
+ */
+export function formatPeriodLabel(type: PeriodType, start: Date | string, timeZone?: string): string {
+    const date = new Date(start);
+    return type === 'month'
+        ? date.toLocaleDateString('es-ES', { month: 'long', year: 'numeric', timeZone })
+        : `Semana del ${date.toLocaleDateString('es-ES', { timeZone })}`;
+}
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { getZonedCalendarDate, getZonedDateKey, startOfZonedDay, zonedTimeToUtc } from './timezone';
+
+describe('timezone', () => {
+    describe('getZonedDateKey', () => {
+        it('should use the calendar day of the zone', () => {
+            // 23:30 UTC: ya es el día siguiente en Madrid, aún no en Canarias.
+            const instant = new Date('2024-01-15T23:30:00Z');
+            expect(getZonedDateKey(instant, 'Europe/Madrid')).toBe('2024-01-16');
+            expect(getZonedDateKey(instant, 'Atlantic/Canary')).toBe('2024-01-15');
+        });
+    });
+
+    describe('startOfZonedDay', () => {
+        it('should return midnight of the zone as an instant', () => {
+            expect(startOfZonedDay(new Date(2024, 6, 15), 'Europe/Madrid').toISOString()).toBe('2024-07-14T22:00:00.000Z');
+            expect(startOfZonedDay(new Date(2024, 6, 15), 'Atlantic/Canary').toISOString()).toBe('2024-07-14T23:00:00.000Z');
+        });
+
+        it('should round-trip with getZonedCalendarDate', () => {
+            const day = getZonedCalendarDate(new Date('2024-03-31T12:00:00Z'), 'Europe/Madrid');
+            expect(startOfZonedDay(day, 'Europe/Madrid').toISOString()).toBe('2024-03-30T23:00:00.000Z');
+        });
+    });
+
+    describe('zonedTimeToUtc', () => {
+        it('should honour daylight saving time', () => {
+            expect(zonedTimeToUtc(2024, 1, 15, 9, 0, 0, 'Europe/Madrid').toISOString()).toBe('2024-01-15T08:00:00.000Z');
+            expect(zonedTimeToUtc(2024, 7, 15, 9, 0, 0, 'Europe/Madrid').toISOString()).toBe('2024-07-15T07:00:00.000Z');
+        });
+    });
+});
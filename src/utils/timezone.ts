@@ -0,0 +1,96 @@
+/**
+ * Utilidades de zonas horarias IANA ("Europe/Madrid") basadas en `Intl`,
+ * sin dependencias externas.
+ */
+
+/**
+ * Indica si una cadena es una zona horaria IANA reconocida por el navegador.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Zona horaria del navegador (ej: "Europe/Madrid").
+ */
+export const getBrowserTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/**
+ * Desfase (ms) de una zona horaria respecto a UTC en un instante dado.
+ * Positivo al este de Greenwich (Madrid en verano → +7200000).
+ */
+export function getTimeZoneOffset(timeZone: string, date: Date): number {
+    const parts = Object.fromEntries(
+        new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+            second: '2-digit',
+        }).formatToParts(date).map(p => [p.type, p.value])
+    );
+    const asUtc = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second);
+    return asUtc - (date.getTime() - date.getMilliseconds());
+}
+
+/**
+ * Convierte una hora de reloj en una zona horaria a un instante UTC.
+ *
+ * @example
+ * zonedTimeToUtc(2024, 1, 15, 9, 0, 0, 'Europe/Madrid').toISOString(); // → "2024-01-15T08:00:00.000Z"
+ */
+export function zonedTimeToUtc(
+    year: number,
+    month: number,
+    day: number,
+    hour: number,
+    minute: number,
+    second: number,
+    timeZone: string
+): Date {
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+    const offset = getTimeZoneOffset(timeZone, new Date(wallClock));
+    const result = wallClock - offset;
+
+    // Cerca de un cambio de horario el desfase del resultado puede diferir del estimado.
+    const correctedOffset = getTimeZoneOffset(timeZone, new Date(result));
+    return new Date(correctedOffset === offset ? result : wallClock - correctedOffset);
+}
+
+/**
+ * Fecha de calendario ("YYYY-MM-DD") de un instante en una zona horaria.
+ *
+ * @example
+ * getZonedDateKey(new Date('2024-01-15T23:30:00Z'), 'Europe/Madrid'); // → "2024-01-16"
+ */
+export function getZonedDateKey(date: Date, timeZone: string): string {
+    // en-CA formatea las fechas como "YYYY-MM-DD".
+    return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+}
+
+/**
+ * Día de calendario de un instante en una zona horaria, como fecha local a las
+ * 00:00 (el formato de días que usan `utils/schedule` y `utils/hourBalance`).
+ */
+export function getZonedCalendarDate(date: Date, timeZone: string): Date {
+    const [year, month, day] = getZonedDateKey(date, timeZone).split('-').map(Number);
+    return new Date(year, month - 1, day);
+}
+
+/**
+ * Instante en que empieza (00:00) un día de calendario en una zona horaria.
+ *
+ * @param {Date} day - Día de calendario (fecha local, ver `getZonedCalendarDate`).
+ * @param {string} timeZone - Zona horaria IANA.
+ */
+export function startOfZonedDay(day: Date, timeZone: string): Date {
+    return zonedTimeToUtc(day.getFullYear(), day.getMonth() + 1, day.getDate(), 0, 0, 0, timeZone);
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { buildWorkRegister, formatRegisterHours, workRegisterToCsv } from './workRegister';
+
+// Timestamps construidos en hora local para que los tests no dependan de la zona horaria.
+const at = (day: number, hour: number, minute = 0) => new Date(2024, 0, day, hour, minute).toISOString();
+
+const employee = { name: 'Ana Pérez', email: 'ana@example.com' };
+
+describe('workRegister', () => {
+    it('should format seconds as H:MM', () => {
+        expect(formatRegisterHours(27000)).toBe('7:30');
+        expect(formatRegisterHours(0)).toBe('0:00');
+    });
+
+    it('should build one row per session with daily, weekly and monthly totals', () => {
+        const register = buildWorkRegister([
+            {
+                start_time: at(15, 9),
+                end_time: at(15, 17),
+                total_duration: '07:30:00',
+                work_pauses: [{ pause_start: at(15, 13), pause_end: at(15, 13, 30) }]
+            },
+            {
+                start_time: at(16, 9),
+                end_time: at(16, 13),
+                total_duration: null,
+                source: 'manual',
+                work_pauses: []
+            }
+        ], 2024, 1, employee);
+
+        // Enero 2024 tiene 31 días y empieza en lunes: 5 semanas.
+        expect(register.days).toHaveLength(31);
+        expect(register.weeks).toHaveLength(5);
+
+        const monday = register.days[14];
+        expect(monday.date).toBe('2024-01-15');
+        expect(monday.entries[0]).toMatchObject({
+            entry: '09:00',
+            exit: '17:00',
+            pauses: '13:00-13:30',
+            pauseSeconds: 1800,
+            netSeconds: 27000,
+            manual: false
+        });
+
+        // Sin total_duration se calcula a partir de entrada, salida y pausas.
+        expect(register.days[15].entries[0]).toMatchObject({ netSeconds: 14400, manual: true });
+
+        expect(register.weeks[2]).toMatchObject({ from: '2024-01-15', to: '2024-01-21', totalSeconds: 41400 });
+        expect(register.totalSeconds).toBe(41400);
+    });
+
+    it('should serialize the register to CSV', () => {
+        const register = buildWorkRegister([
+            { start_time: at(15, 9), end_time: at(15, 17), total_duration: '08:00:00', work_pauses: [] }
+        ], 2024, 1, employee);
+
+        const lines = workRegisterToCsv(register).split('\n');
+        expect(lines[1]).toBe('Trabajador;Ana Pérez');
+        expect(lines).toContain('2024-01-15;09:00;17:00;;0:00;8:00;8:00;Fichaje');
+        expect(lines[lines.length - 1]).toBe('Total mensual;8:00');
+    });
+});
@@ -0,0 +1,245 @@
+// Pausa: forma mínima de una pausa; calculateDuration: respaldo si falta total_duration.
+import { calculateDuration, parseInterval, type Pausa } from './duration';
+import { toCsv } from './csv';
+
+/**
+ * Sesión de trabajo con sus pausas, tal como la consulta el generador del registro.
+ */
+export interface RegisterSession {
+    start_time: string;
+    end_time: string | null;
+    total_duration: string | null;
+    source?: string;
+    work_pauses: Pausa[];
+}
+
+/**
+ * Fila del registro: una sesión (entrada/salida) dentro de un día.
+ *
+ * @property {string} date - Día en formato "YYYY-MM-DD" (hora local).
+ * @property {string} entry - Hora de entrada "HH:MM".
+ * @property {string} exit - Hora de salida "HH:MM".
+ * @property {string} pauses - Pausas como texto ("12:00-12:30, 16:00-16:10 (retribuida)").
+ * @property {number} pauseSeconds - Tiempo total en pausas no retribuidas.
+ * @property {number} netSeconds - Tiempo neto trabajado.
+ * @property {boolean} manual - Indica si la jornada se registró manualmente.
+ */
+export interface RegisterEntry {
+    date: string;
+    entry: string;
+    exit: string;
+    pauses: string;
+    pauseSeconds: number;
+    netSeconds: number;
+    manual: boolean;
+}
+
+/**
+ * Día del registro con sus fichajes y el total diario.
+ */
+export interface RegisterDay {
+    date: string;
+    entries: RegisterEntry[];
+    totalSeconds: number;
+}
+
+/**
+ * Total semanal (semanas de lunes a domingo, recortadas al mes).
+ */
+export interface RegisterWeek {
+    from: string;
+    to: string;
+    totalSeconds: number;
+}
+
+/**
+ * Registro de jornada mensual de un trabajador (art. 34.9 del Estatuto de los Trabajadores).
+ */
+export interface WorkRegister {
+    employeeName: string;
+    employeeEmail: string;
+    year: number;
+    month: number; // 1-12
+    days: RegisterDay[];
+    weeks: RegisterWeek[];
+    totalSeconds: number;
+    generatedAt: string;
+}
+
+/**
+ * Datos del trabajador que figuran en la cabecera del registro.
+ */
+export interface RegisterEmployee {
+    name: string;
+    email: string;
+}
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+/**
+ * Fecha local "YYYY-MM-DD" de un objeto Date.
+ */
+const toLocalDateKey = (date: Date) =>
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * Hora local "HH:MM" de un timestamp ISO.
+ */
+const toLocalTime = (iso: string) => {
+    const date = new Date(iso);
+    return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+/**
+ * Formatea segundos como horas "H:MM" (formato habitual en registros de jornada).
+ *
+ * @example
+ * formatRegisterHours(27000); // → "7:30"
+ */
+export function formatRegisterHours(seconds: number): string {
+    const minutes = Math.round(seconds / 60);
+    return `${Math.floor(minutes / 60)}:${pad(minutes % 60)}`;
+}
+
+/**
+ * Rango [inicio, fin) del mes en hora local, como timestamps ISO, para consultar sesiones.
+ *
+ * @param {number} year - Año.
+ * @param {number} month - Mes (1-12).
+ */
+export function getMonthRange(year: number, month: number): { from: string; to: string } {
+    return {
+        from: new Date(year, month - 1, 1).toISOString(),
+        to: new Date(year, month, 1).toISOString(),
+    };
+}
+
+/**
+ * Construye el registro de jornada mensual a partir de las sesiones completadas.
+ *
+ * - Cada sesión se asigna al día local de su entrada.
+ * - El tiempo neto es `total_duration` (calculado por el servidor); si falta,
+ *   se calcula con `calculateDuration`.
+ * - Se incluyen todos los días del mes, también los que no tienen fichajes.
+ *
+ * @param {RegisterSession[]} sessions - Sesiones completadas del mes con sus pausas.
+ * @param {number} year - Año del registro.
+ * @param {number} month - Mes del registro (1-12).
+ * @param {RegisterEmployee} employee - Nombre y email del trabajador.
+ * @returns {WorkRegister} Registro listo para exportar a PDF o CSV.
+ */
+export function buildWorkRegister(
+    sessions: RegisterSession[],
+    year: number,
+    month: number,
+    employee: RegisterEmployee
+): WorkRegister {
+    const entriesByDay = new Map<string, RegisterEntry[]>();
+
+    [...sessions]
+        .filter(s => s.end_time)
+        .sort((a, b) => a.start_time.localeCompare(b.start_time))
+        .forEach(session => {
+            const endTime = session.end_time as string;
+            const pauses = [...session.work_pauses]
+                .filter(p => p.pause_end)
+                .sort((a, b) => a.pause_start.localeCompare(b.pause_start));
+
+            const grossMs = new Date(endTime).getTime() - new Date(session.start_time).getTime();
+            const netSeconds = session.total_duration
+                ? parseInterval(session.total_duration)
+                : Math.floor(calculateDuration(session.start_time, endTime, pauses) / 1000);
+
+            const entry: RegisterEntry = {
+                date: toLocalDateKey(new Date(session.start_time)),
+                entry: toLocalTime(session.start_time),
+                exit: toLocalTime(endTime),
+                pauses: pauses.map(p => `${toLocalTime(p.pause_start)}-${toLocalTime(p.pause_end as string)}${p.paid ? ' (retribuida)' : ''}`).join(', '),
+                pauseSeconds: Math.max(0, Math.floor(grossMs / 1000) - netSeconds),
+                netSeconds,
+                manual: session.source === 'manual',
+            };
+
+            const list = entriesByDay.get(entry.date) ?? [];
+            list.push(entry);
+            entriesByDay.set(entry.date, list);
+        });
+
+    const days: RegisterDay[] = [];
+    const weeks: RegisterWeek[] = [];
+    const daysInMonth = new Date(year, month, 0).getDate();
+
+    for (let day = 1; day <= daysInMonth; day++) {
+        const date = new Date(year, month - 1, day);
+        const key = toLocalDateKey(date);
+        const entries = entriesByDay.get(key) ?? [];
+        const totalSeconds = entries.reduce((acc, e) => acc + e.netSeconds, 0);
+        days.push({ date: key, entries, totalSeconds });
+
+        // Abre una semana nueva el primer día del mes y cada lunes.
+        if (day === 1 || date.getDay() === 1) {
+            weeks.push({ from: key, to: key, totalSeconds: 0 });
+        }
+        const week = weeks[weeks.length - 1];
+        week.to = key;
+        week.totalSeconds += totalSeconds;
+    }
+
+    return {
+        employeeName: employee.name,
+        employeeEmail: employee.email,
+        year,
+        month,
+        days,
+        weeks,
+        totalSeconds: days.reduce((acc, d) => acc + d.totalSeconds, 0),
+        generatedAt: new Date().toISOString(),
+    };
+}
+
+/**
+ * Serializa el registro a CSV: una fila por fichaje, los totales semanales
+ * y el total mensual al final.
+ *
+ * @param {WorkRegister} register - Registro generado con `buildWorkRegister`.
+ * @returns {string} Contenido CSV (separado por `;`).
+ */
+export function workRegisterToCsv(register: WorkRegister): string {
+    const rows: (string | number)[][] = [
+        ['Registro de jornada', `${pad(register.month)}/${register.year}`],
+        ['Trabajador', register.employeeName],
+        ['Email', register.employeeEmail],
+        [],
+        ['Fecha', 'Entrada', 'Salida', 'Pausas', 'Tiempo en pausa', 'Horas netas', 'Total día', 'Origen'],
+    ];
+
+    register.days.forEach(day => {
+        if (day.entries.length === 0) {
+            rows.push([day.date, '', '', '', '', '', formatRegisterHours(0), '']);
+            return;
+        }
+        day.entries.forEach((entry, index) => {
+            rows.push([
+                entry.date,
+                entry.entry,
+                entry.exit,
+                entry.pauses,
+                formatRegisterHours(entry.pauseSeconds),
+                formatRegisterHours(entry.netSeconds),
+                // El total diario solo se muestra en la última fila del día.
+                index === day.entries.length - 1 ? formatRegisterHours(day.totalSeconds) : '',
+                entry.manual ? 'Manual' : 'Fichaje',
+            ]);
+        });
+    });
+
+    rows.push([]);
+    rows.push(['Semana', 'Desde', 'Hasta', 'Horas']);
+    register.weeks.forEach((week, index) => {
+        rows.push([index + 1, week.from, week.to, formatRegisterHours(week.totalSeconds)]);
+    });
+    rows.push([]);
+    rows.push(['Total mensual', formatRegisterHours(register.totalSeconds)]);
+
+    return toCsv(rows);
+}
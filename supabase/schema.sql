@@ -6,7 +6,13 @@ CREATE TABLE profiles (
   id UUID REFERENCES auth.users(id) ON DELETE CASCADE PRIMARY KEY,
   email TEXT NOT NULL UNIQUE,
   full_name TEXT,
-  timezone TEXT DEFAULT 'UTC',
+  -- Zona horaria IANA en la que se agrupan sus sesiones por días y semanas (sección 19).
+  timezone TEXT DEFAULT 'Europe/Madrid' NOT NULL,
+  -- Cierre automático de sus sesiones olvidadas si no pertenece a una
+  -- organización (sección 22).
+  auto_close_mode TEXT DEFAULT 'close' NOT NULL CHECK (auto_close_mode IN ('close', 'flag')),
+  auto_close_after_minutes INTEGER DEFAULT 720 NOT NULL CHECK (auto_close_after_minutes BETWEEN 60 AND 960),
+  auto_close_at_schedule_end BOOLEAN DEFAULT true NOT NULL,
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -19,10 +25,19 @@ CREATE TABLE work_sessions (
   end_time TIMESTAMPTZ,
   total_duration INTERVAL,
   status TEXT CHECK (status IN ('active', 'paused', 'completed', 'abandoned')) NOT NULL,
+  source TEXT DEFAULT 'live' CHECK (source IN ('live', 'manual', 'import')) NOT NULL,
   notes TEXT,
   device_info JSONB,
+  -- Papelera (sección 14): fecha de borrado; NULL = sesión visible.
+  deleted_at TIMESTAMPTZ,
+  -- Sesión olvidada (sección 22): cuándo la cerró o la marcó el cierre automático.
+  forgotten_at TIMESTAMPTZ,
+  -- Sesión recuperada (sección 22): cuándo el usuario confirmó que seguía
+  -- trabajando; el límite del cierre automático se cuenta desde aquí.
+  recovered_at TIMESTAMPTZ,
   created_at TIMESTAMPTZ DEFAULT NOW(),
-  updated_at TIMESTAMPTZ DEFAULT NOW()
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (deleted_at IS NULL OR status IN ('completed', 'abandoned'))
 );
 
 -- 3. Work Pauses Table
@@ -31,6 +46,9 @@ CREATE TABLE work_pauses (
   session_id UUID REFERENCES work_sessions(id) ON DELETE CASCADE NOT NULL,
   pause_start TIMESTAMPTZ NOT NULL,
   pause_end TIMESTAMPTZ,
+  -- Tipo de pausa (sección 21) y si es retribuida, copiado del tipo al crearla.
+  pause_type_id UUID,
+  paid BOOLEAN DEFAULT false NOT NULL,
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
@@ -101,23 +119,61 @@ CREATE TRIGGER check_max_session_duration
   FOR EACH ROW
   EXECUTE FUNCTION validate_max_session_duration();
 
+-- Validate No Overlapping Sessions
+-- Una sesión (en vivo o registrada a mano) no puede solaparse con otra del
+-- mismo usuario. Las sesiones abiertas se consideran en curso hasta ahora.
+-- Las sesiones en la papelera no cuentan; al restaurarlas se vuelve a comprobar.
+-- Las descartadas ('abandoned') tampoco: su tiempo no es trabajo registrado.
+CREATE OR REPLACE FUNCTION validate_session_overlap()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.deleted_at IS NOT NULL OR NEW.status = 'abandoned' THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM work_sessions
+    WHERE user_id = NEW.user_id
+      AND id != COALESCE(NEW.id, uuid_nil())
+      AND deleted_at IS NULL
+      AND status <> 'abandoned'
+      AND start_time < COALESCE(NEW.end_time, 'infinity'::timestamptz)
+      AND COALESCE(end_time, NOW()) > NEW.start_time
+  ) THEN
+    RAISE EXCEPTION 'La sesión se solapa con otra sesión registrada';
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Nombre con prefijo 'enforce_' para que se ejecute después de los triggers
+-- 'check_*' (Postgres los ordena alfabéticamente) y conserve sus mensajes.
+CREATE TRIGGER enforce_session_no_overlap
+  BEFORE INSERT OR UPDATE OF start_time, end_time, deleted_at ON work_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_session_overlap();
+
 -- Check Abandoned Sessions (RPC)
+-- Sesiones abiertas del usuario que superan su límite de cierre automático
+-- (sección 22) o que el cierre automático ya marcó como olvidadas.
 CREATE OR REPLACE FUNCTION check_abandoned_sessions()
 RETURNS TABLE (
   session_id UUID,
   hours_since_start DOUBLE PRECISION
 ) 
-SECURITY DEFINER
+SECURITY DEFINER SET search_path = public
 AS $$
 BEGIN
   RETURN QUERY
   SELECT 
-    id as session_id,
-    EXTRACT(EPOCH FROM (NOW() - start_time))/3600 as hours_since_start
-  FROM work_sessions
-  WHERE user_id = auth.uid()
-    AND status IN ('active', 'paused')
-    AND start_time < NOW() - INTERVAL '24 hours';
+    ws.id as session_id,
+    EXTRACT(EPOCH FROM (NOW() - ws.start_time))/3600 as hours_since_start
+  FROM work_sessions ws
+  CROSS JOIN LATERAL auto_close_settings(ws.user_id) s
+  WHERE ws.user_id = auth.uid()
+    AND ws.status IN ('active', 'paused')
+    AND (ws.forgotten_at IS NOT NULL
+      OR auto_close_due_at(ws.start_time, ws.recovered_at, s.after_minutes) < NOW());
 END;
 $$ language 'plpgsql';
 
@@ -189,3 +245,1944 @@ CREATE POLICY "Users can update pauses of own sessions"
       AND work_sessions.user_id = auth.uid()
     )
   );
+
+CREATE POLICY "Users can delete pauses of own sessions" 
+  ON work_pauses FOR DELETE 
+  USING (
+    EXISTS (
+      SELECT 1 FROM work_sessions 
+      WHERE work_sessions.id = work_pauses.session_id 
+      AND work_sessions.user_id = auth.uid()
+    )
+  );
+
+-- 8. Realtime
+
+-- Publica los cambios de sesiones y pausas para sincronizar el estado entre
+-- dispositivos. Las suscripciones respetan RLS: cada usuario solo recibe sus filas.
+ALTER PUBLICATION supabase_realtime ADD TABLE work_sessions, work_pauses;
+
+-- 9. Server-Authoritative Net Duration
+
+-- Calcula la duración neta de una sesión: (fin - inicio) - pausas.
+-- Las pausas se recortan a la ventana de la sesión y las abiertas se cierran en
+-- el fin, de modo que editar inicio/fin nunca produce duraciones incoherentes.
+-- Las pausas retribuidas (sección 21) cuentan como trabajo y no se restan.
+CREATE OR REPLACE FUNCTION compute_session_duration(
+  p_session_id UUID,
+  p_start TIMESTAMPTZ,
+  p_end TIMESTAMPTZ
+)
+RETURNS INTERVAL AS $$
+  SELECT CASE
+    WHEN p_end IS NULL THEN NULL
+    ELSE GREATEST(
+      date_trunc('second', (p_end - p_start) - COALESCE((
+        SELECT SUM(LEAST(COALESCE(pause_end, p_end), p_end) - GREATEST(pause_start, p_start))
+        FROM work_pauses
+        WHERE session_id = p_session_id
+          AND NOT paid
+          AND pause_start < p_end
+          AND COALESCE(pause_end, p_end) > p_start
+      ), INTERVAL '0')),
+      INTERVAL '0'
+    )
+  END;
+$$ language 'sql' STABLE;
+
+-- Recalcula total_duration en cada insert/update de la sesión.
+-- Cualquier valor enviado por el cliente se sobrescribe.
+CREATE OR REPLACE FUNCTION set_session_total_duration()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.total_duration = compute_session_duration(NEW.id, NEW.start_time, NEW.end_time);
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER set_work_sessions_total_duration
+  BEFORE INSERT OR UPDATE ON work_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION set_session_total_duration();
+
+-- Recalcula la sesión padre cuando se crea, edita o elimina una de sus pausas.
+CREATE OR REPLACE FUNCTION refresh_session_total_duration()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_session_id UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_session_id := OLD.session_id;
+  ELSE
+    v_session_id := NEW.session_id;
+  END IF;
+
+  UPDATE work_sessions
+  SET total_duration = compute_session_duration(id, start_time, end_time)
+  WHERE id = v_session_id
+    AND end_time IS NOT NULL;
+  RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER refresh_work_sessions_total_duration
+  AFTER INSERT OR UPDATE OR DELETE ON work_pauses
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_session_total_duration();
+
+-- Recalcula las sesiones existentes (cuya duración se calculaba en el navegador).
+UPDATE work_sessions
+SET total_duration = compute_session_duration(id, start_time, end_time)
+WHERE end_time IS NOT NULL;
+
+-- 10. Organizations, Teams & Roles
+
+-- Una organización agrupa a los trabajadores de una empresa. Cada usuario
+-- pertenece como mucho a una organización, con uno de estos roles:
+--   employee: solo ve y gestiona sus propios datos.
+--   manager:  además puede LEER los datos de los miembros de sus equipos.
+--   admin:    puede leer los datos de toda la organización y gestiona miembros y equipos.
+-- Ningún rol puede modificar las sesiones de otra persona: las políticas de
+-- escritura siguen limitadas a auth.uid().
+CREATE TABLE organizations (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  name TEXT NOT NULL,
+  -- Días durante los que un miembro edita sus sesiones directamente; después,
+  -- los cambios pasan por una solicitud que aprueba un manager (sección 12).
+  edit_window_days INTEGER DEFAULT 7 NOT NULL CHECK (edit_window_days >= 0),
+  -- Umbrales de horas extra (minutos trabajados al día y a la semana); lo que
+  -- los supera se marca como horas extra en la bolsa de horas (sección 16).
+  overtime_daily_minutes INTEGER DEFAULT 540 NOT NULL CHECK (overtime_daily_minutes > 0),
+  overtime_weekly_minutes INTEGER DEFAULT 2400 NOT NULL CHECK (overtime_weekly_minutes > 0),
+  -- Cierre automático de las sesiones olvidadas de sus miembros (sección 22).
+  auto_close_mode TEXT DEFAULT 'close' NOT NULL CHECK (auto_close_mode IN ('close', 'flag')),
+  auto_close_after_minutes INTEGER DEFAULT 720 NOT NULL CHECK (auto_close_after_minutes BETWEEN 60 AND 960),
+  auto_close_at_schedule_end BOOLEAN DEFAULT true NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE organization_members (
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  role TEXT DEFAULT 'employee' CHECK (role IN ('employee', 'manager', 'admin')) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE TABLE teams (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (organization_id, name)
+);
+
+CREATE TABLE team_members (
+  team_id UUID REFERENCES teams(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (team_id, user_id)
+);
+
+CREATE INDEX idx_teams_organization ON teams(organization_id);
+CREATE INDEX idx_team_members_user ON team_members(user_id);
+
+CREATE TRIGGER update_organizations_updated_at
+  BEFORE UPDATE ON organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Un miembro de equipo debe pertenecer a la organización del equipo.
+CREATE OR REPLACE FUNCTION validate_team_member_organization()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM teams t
+    JOIN organization_members m ON m.organization_id = t.organization_id
+    WHERE t.id = NEW.team_id AND m.user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'El usuario no pertenece a la organización del equipo';
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER check_team_member_organization
+  BEFORE INSERT OR UPDATE ON team_members
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_team_member_organization();
+
+-- Al salir de una organización, el usuario sale también de sus equipos.
+CREATE OR REPLACE FUNCTION remove_team_memberships()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM team_members
+  WHERE user_id = OLD.user_id
+    AND team_id IN (SELECT id FROM teams WHERE organization_id = OLD.organization_id);
+  RETURN OLD;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER remove_team_memberships_on_leave
+  AFTER DELETE ON organization_members
+  FOR EACH ROW
+  EXECUTE FUNCTION remove_team_memberships();
+
+-- Funciones auxiliares de permisos. Son SECURITY DEFINER para que las
+-- políticas puedan consultar la pertenencia sin recursión de RLS.
+
+-- Organización del usuario actual (NULL si no pertenece a ninguna).
+CREATE OR REPLACE FUNCTION current_organization_id()
+RETURNS UUID
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT organization_id FROM organization_members WHERE user_id = auth.uid();
+$$;
+
+-- Indica si el usuario actual es admin de la organización indicada.
+CREATE OR REPLACE FUNCTION is_org_admin(p_organization_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_id = p_organization_id
+      AND user_id = auth.uid()
+      AND role = 'admin'
+  );
+$$;
+
+-- Indica si el usuario actual puede leer los datos de p_user_id: es él mismo,
+-- es admin de su organización o es manager de un equipo al que pertenece.
+CREATE OR REPLACE FUNCTION can_view_user(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT p_user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM organization_members me
+      JOIN organization_members them ON them.organization_id = me.organization_id
+      WHERE me.user_id = auth.uid()
+        AND me.role = 'admin'
+        AND them.user_id = p_user_id
+    )
+    OR EXISTS (
+      SELECT 1 FROM organization_members me
+      JOIN team_members mine ON mine.user_id = me.user_id
+      JOIN team_members theirs ON theirs.team_id = mine.team_id
+      WHERE me.user_id = auth.uid()
+        AND me.role = 'manager'
+        AND theirs.user_id = p_user_id
+    );
+$$;
+
+-- Crea una organización con el usuario actual como admin (RPC).
+CREATE OR REPLACE FUNCTION create_organization(p_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_organization_id UUID;
+BEGIN
+  IF EXISTS (SELECT 1 FROM organization_members WHERE user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Ya perteneces a una organización';
+  END IF;
+
+  INSERT INTO organizations (name) VALUES (p_name) RETURNING id INTO v_organization_id;
+  INSERT INTO organization_members (organization_id, user_id, role)
+  VALUES (v_organization_id, auth.uid(), 'admin');
+
+  RETURN v_organization_id;
+END;
+$$;
+
+-- Añade a la organización del admin actual un usuario ya registrado, por email (RPC).
+CREATE OR REPLACE FUNCTION add_organization_member(p_email TEXT, p_role TEXT DEFAULT 'employee')
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_organization_id UUID := current_organization_id();
+  v_user_id UUID;
+BEGIN
+  IF v_organization_id IS NULL OR NOT is_org_admin(v_organization_id) THEN
+    RAISE EXCEPTION 'Solo un admin puede añadir miembros';
+  END IF;
+
+  SELECT id INTO v_user_id FROM profiles WHERE lower(email) = lower(p_email);
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'No existe ningún usuario registrado con ese email';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM organization_members WHERE user_id = v_user_id) THEN
+    RAISE EXCEPTION 'El usuario ya pertenece a una organización';
+  END IF;
+
+  INSERT INTO organization_members (organization_id, user_id, role)
+  VALUES (v_organization_id, v_user_id, p_role);
+
+  RETURN v_user_id;
+END;
+$$;
+
+-- RLS de las tablas de organización: los miembros leen su organización,
+-- sus miembros y sus equipos; solo los admins los modifican.
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE team_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view own organization"
+  ON organizations FOR SELECT
+  USING (id = current_organization_id());
+
+CREATE POLICY "Admins can update own organization"
+  ON organizations FOR UPDATE
+  USING (is_org_admin(id));
+
+CREATE POLICY "Members can view organization members"
+  ON organization_members FOR SELECT
+  USING (organization_id = current_organization_id());
+
+CREATE POLICY "Admins can update organization members"
+  ON organization_members FOR UPDATE
+  USING (is_org_admin(organization_id))
+  WITH CHECK (is_org_admin(organization_id));
+
+CREATE POLICY "Admins can remove organization members"
+  ON organization_members FOR DELETE
+  USING (is_org_admin(organization_id));
+
+CREATE POLICY "Members can view organization teams"
+  ON teams FOR SELECT
+  USING (organization_id = current_organization_id());
+
+CREATE POLICY "Admins can manage teams"
+  ON teams FOR ALL
+  USING (is_org_admin(organization_id))
+  WITH CHECK (is_org_admin(organization_id));
+
+CREATE POLICY "Members can view team members"
+  ON team_members FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM teams
+      WHERE teams.id = team_members.team_id
+      AND teams.organization_id = current_organization_id()
+    )
+  );
+
+CREATE POLICY "Admins can manage team members"
+  ON team_members FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM teams
+      WHERE teams.id = team_members.team_id
+      AND is_org_admin(teams.organization_id)
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM teams
+      WHERE teams.id = team_members.team_id
+      AND is_org_admin(teams.organization_id)
+    )
+  );
+
+-- Lectura de datos de otros usuarios: managers (sus equipos) y admins (toda la
+-- organización). Solo SELECT: las políticas de escritura de la sección 7 no cambian.
+CREATE POLICY "Managers can view profiles of their teams"
+  ON profiles FOR SELECT
+  USING (can_view_user(id));
+
+CREATE POLICY "Managers can view sessions of their teams"
+  ON work_sessions FOR SELECT
+  USING (can_view_user(user_id));
+
+CREATE POLICY "Managers can view pauses of their teams"
+  ON work_pauses FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM work_sessions
+      WHERE work_sessions.id = work_pauses.session_id
+      AND can_view_user(work_sessions.user_id)
+    )
+  );
+
+-- 11. Timesheet Approval
+
+-- Hoja de horas de un periodo (semana o mes) que el trabajador envía a revisión.
+-- Flujo: submitted → approved | rejected; una hoja rechazada puede reenviarse.
+-- El periodo es el rango [period_start, period_end) en la zona horaria del perfil del trabajador.
+-- Las sesiones de un periodo aprobado quedan bloqueadas (no se editan ni eliminan).
+CREATE TABLE timesheets (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  period_type TEXT CHECK (period_type IN ('week', 'month')) NOT NULL,
+  period_start TIMESTAMPTZ NOT NULL,
+  period_end TIMESTAMPTZ NOT NULL,
+  status TEXT DEFAULT 'submitted' CHECK (status IN ('submitted', 'approved', 'rejected')) NOT NULL,
+  total_duration INTERVAL,
+  submitted_at TIMESTAMPTZ DEFAULT NOW(),
+  reviewed_by UUID REFERENCES auth.users(id),
+  reviewed_at TIMESTAMPTZ,
+  review_comment TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (period_end > period_start),
+  UNIQUE (user_id, period_type, period_start)
+);
+
+CREATE INDEX idx_timesheets_user_period ON timesheets(user_id, period_start, period_end);
+CREATE INDEX idx_timesheets_status ON timesheets(status);
+
+CREATE TRIGGER update_timesheets_updated_at
+  BEFORE UPDATE ON timesheets
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Valida las transiciones de estado y completa los datos de revisión:
+-- - Solo el propio trabajador envía (o reenvía tras un rechazo) su hoja.
+-- - Solo un manager/admin que puede ver al trabajador la aprueba o rechaza,
+--   nunca la suya propia.
+-- - Al enviar se guarda el total neto del periodo como referencia para RRHH.
+-- - El trabajador y el periodo de una hoja no cambian nunca.
+CREATE OR REPLACE FUNCTION validate_timesheet_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF (NEW.user_id, NEW.period_type, NEW.period_start, NEW.period_end)
+      IS DISTINCT FROM (OLD.user_id, OLD.period_type, OLD.period_start, OLD.period_end) THEN
+      RAISE EXCEPTION 'El periodo de una hoja de horas no se puede cambiar';
+    END IF;
+    IF NEW.status = OLD.status THEN
+      RAISE EXCEPTION 'Solo se puede cambiar el estado de la hoja de horas';
+    END IF;
+  END IF;
+
+  IF NEW.status = 'submitted' THEN
+    IF NEW.user_id != auth.uid() THEN
+      RAISE EXCEPTION 'Solo el trabajador puede enviar su hoja de horas';
+    END IF;
+    IF TG_OP = 'UPDATE' AND OLD.status = 'approved' THEN
+      RAISE EXCEPTION 'La hoja de horas ya está aprobada';
+    END IF;
+
+    NEW.submitted_at := NOW();
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+    NEW.total_duration := (
+      SELECT COALESCE(SUM(total_duration), INTERVAL '0')
+      FROM work_sessions
+      WHERE user_id = NEW.user_id
+        AND status = 'completed'
+        AND deleted_at IS NULL
+        AND start_time >= NEW.period_start
+        AND start_time < NEW.period_end
+    );
+  ELSE
+    IF TG_OP = 'INSERT' OR OLD.status != 'submitted' THEN
+      RAISE EXCEPTION 'Solo se pueden revisar hojas de horas enviadas';
+    END IF;
+    IF NEW.user_id = auth.uid() OR NOT can_view_user(NEW.user_id) THEN
+      RAISE EXCEPTION 'No tienes permiso para revisar esta hoja de horas';
+    END IF;
+
+    NEW.reviewed_by := auth.uid();
+    NEW.reviewed_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_timesheet_transition
+  BEFORE INSERT OR UPDATE ON timesheets
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_timesheet_transition();
+
+-- Indica si el instante p_time de p_user_id cae en un periodo aprobado.
+CREATE OR REPLACE FUNCTION is_period_locked(p_user_id UUID, p_time TIMESTAMPTZ)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM timesheets
+    WHERE user_id = p_user_id
+      AND status = 'approved'
+      AND period_start <= p_time
+      AND period_end > p_time
+  );
+$$;
+
+-- Bloquea altas, cambios y bajas de sesiones dentro de un periodo aprobado
+-- (tanto el periodo de origen como el de destino si se mueve la sesión).
+-- Vaciar la papelera sí está permitido: esas sesiones no cuentan en el periodo.
+CREATE OR REPLACE FUNCTION prevent_locked_session_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF ((TG_OP = 'UPDATE' OR (TG_OP = 'DELETE' AND OLD.deleted_at IS NULL))
+      AND is_period_locked(OLD.user_id, OLD.start_time))
+    OR (TG_OP IN ('INSERT', 'UPDATE') AND is_period_locked(NEW.user_id, NEW.start_time)) THEN
+    RAISE EXCEPTION 'La sesión pertenece a un periodo aprobado y no se puede modificar';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER check_session_period_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON work_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_locked_session_changes();
+
+-- Las pausas de una sesión bloqueada tampoco se pueden tocar.
+CREATE OR REPLACE FUNCTION prevent_locked_pause_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_session_id UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_session_id := OLD.session_id;
+  ELSE
+    v_session_id := NEW.session_id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM work_sessions
+    WHERE id = v_session_id
+      AND is_period_locked(user_id, start_time)
+  ) THEN
+    RAISE EXCEPTION 'La sesión pertenece a un periodo aprobado y no se puede modificar';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER check_pause_period_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON work_pauses
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_locked_pause_changes();
+
+-- RLS: el trabajador ve, envía y retira (mientras está pendiente) sus hojas;
+-- managers y admins ven y revisan las de sus equipos. El trigger valida quién
+-- puede hacer cada transición.
+ALTER TABLE timesheets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users and managers can view timesheets"
+  ON timesheets FOR SELECT
+  USING (can_view_user(user_id));
+
+CREATE POLICY "Users can submit own timesheets"
+  ON timesheets FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users and managers can update timesheets"
+  ON timesheets FOR UPDATE
+  USING (can_view_user(user_id));
+
+CREATE POLICY "Users can withdraw pending timesheets"
+  ON timesheets FOR DELETE
+  USING (auth.uid() = user_id AND status = 'submitted');
+
+ALTER PUBLICATION supabase_realtime ADD TABLE timesheets;
+
+-- 12. Session Change Requests
+
+-- Los miembros de una organización solo editan directamente las sesiones de
+-- los últimos `edit_window_days` días. Para las anteriores envían una
+-- solicitud de cambio con los valores propuestos y un motivo; al aprobarla un
+-- manager o admin, se aplica a work_sessions/work_pauses. La solicitud guarda
+-- los valores originales y los corregidos como registro del cambio.
+-- Los usuarios sin organización no tienen ventana (nadie podría aprobar).
+CREATE TABLE session_change_requests (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  session_id UUID REFERENCES work_sessions(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')) NOT NULL,
+  reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+  original_start_time TIMESTAMPTZ NOT NULL,
+  original_end_time TIMESTAMPTZ,
+  original_notes TEXT,
+  original_pauses JSONB DEFAULT '[]'::jsonb NOT NULL,
+  proposed_start_time TIMESTAMPTZ NOT NULL,
+  proposed_end_time TIMESTAMPTZ NOT NULL,
+  proposed_notes TEXT,
+  proposed_pauses JSONB DEFAULT '[]'::jsonb NOT NULL,
+  reviewed_by UUID REFERENCES auth.users(id),
+  reviewed_at TIMESTAMPTZ,
+  review_comment TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (proposed_end_time > proposed_start_time)
+);
+
+CREATE INDEX idx_change_requests_user ON session_change_requests(user_id, created_at DESC);
+CREATE INDEX idx_change_requests_status ON session_change_requests(status);
+
+-- Una sola solicitud pendiente por sesión.
+CREATE UNIQUE INDEX idx_change_requests_one_pending
+  ON session_change_requests(session_id)
+  WHERE status = 'pending';
+
+CREATE TRIGGER update_session_change_requests_updated_at
+  BEFORE UPDATE ON session_change_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Ventana de edición directa (en días) de p_user_id; NULL si no pertenece a
+-- ninguna organización.
+CREATE OR REPLACE FUNCTION session_edit_window_days(p_user_id UUID)
+RETURNS INTEGER
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT o.edit_window_days
+  FROM organization_members m
+  JOIN organizations o ON o.id = m.organization_id
+  WHERE m.user_id = p_user_id;
+$$;
+
+-- Indica si una sesión completada ya está fuera de la ventana de edición.
+CREATE OR REPLACE FUNCTION is_outside_edit_window(p_user_id UUID, p_start_time TIMESTAMPTZ)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE
+AS $$
+  SELECT COALESCE(
+    p_start_time < NOW() - make_interval(days => session_edit_window_days(p_user_id)),
+    FALSE
+  );
+$$;
+
+-- Impide editar o eliminar directamente las sesiones completadas fuera de la
+-- ventana (y sus pausas). review_session_change_request activa
+-- 'app.applying_change_request' durante su transacción para aplicar los cambios.
+CREATE OR REPLACE FUNCTION prevent_session_edit_outside_window()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('app.applying_change_request', true) = 'on' THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  -- Sesión que create_completed_sessions acaba de crear en esta transacción
+  -- (el alta de sus pausas recalcula su duración).
+  IF current_setting('app.creating_session', true) = OLD.id::text THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  -- Las sesiones de la papelera entraron en ella dentro de la ventana y se
+  -- pueden eliminar definitivamente en cualquier momento.
+  IF TG_OP = 'DELETE' AND OLD.deleted_at IS NOT NULL THEN
+    RETURN OLD;
+  END IF;
+
+  IF OLD.status = 'completed' AND is_outside_edit_window(OLD.user_id, OLD.start_time) THEN
+    RAISE EXCEPTION 'La sesión es anterior a la ventana de edición: envía una solicitud de cambio';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER check_session_edit_window
+  BEFORE UPDATE OR DELETE ON work_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_session_edit_outside_window();
+
+CREATE OR REPLACE FUNCTION prevent_pause_edit_outside_window()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_session_id UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_session_id := OLD.session_id;
+  ELSE
+    v_session_id := NEW.session_id;
+  END IF;
+
+  IF current_setting('app.applying_change_request', true) IS DISTINCT FROM 'on'
+    AND current_setting('app.creating_session', true) IS DISTINCT FROM v_session_id::text
+    AND EXISTS (
+      SELECT 1 FROM work_sessions
+      WHERE id = v_session_id
+        AND status = 'completed'
+        AND is_outside_edit_window(user_id, start_time)
+    ) THEN
+    RAISE EXCEPTION 'La sesión es anterior a la ventana de edición: envía una solicitud de cambio';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER check_pause_edit_window
+  BEFORE INSERT OR UPDATE OR DELETE ON work_pauses
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_pause_edit_outside_window();
+
+-- Crea sesiones completadas del usuario actual (registro manual o
+-- importación) junto con sus pausas en una sola transacción: si algo falla,
+-- no queda ninguna sesión sin sus pausas. 'app.creating_session' indica a los
+-- triggers de la ventana de edición que las pausas son de la sesión recién
+-- creada, aunque su fecha quede fuera de la ventana. El resto de reglas
+-- (solapes, 16 h, periodos aprobados) se aplican igual.
+-- p_sessions: [{ "start_time", "end_time", "notes", "device_info", "pauses": [{ "pause_start", "pause_end" }] }]
+CREATE OR REPLACE FUNCTION create_completed_sessions(p_source TEXT, p_sessions JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql SET search_path = public
+AS $$
+DECLARE
+  v_row JSONB;
+  v_session_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  IF p_source NOT IN ('manual', 'import') THEN
+    RAISE EXCEPTION 'Origen de sesión no válido: %', p_source;
+  END IF;
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(p_sessions) LOOP
+    INSERT INTO work_sessions (user_id, start_time, end_time, status, source, notes, device_info)
+    VALUES (
+      auth.uid(),
+      (v_row->>'start_time')::timestamptz,
+      (v_row->>'end_time')::timestamptz,
+      'completed',
+      p_source,
+      NULLIF(v_row->>'notes', ''),
+      NULLIF(v_row->'device_info', 'null'::jsonb)
+    )
+    RETURNING id INTO v_session_id;
+
+    PERFORM set_config('app.creating_session', v_session_id::text, true);
+
+    INSERT INTO work_pauses (session_id, pause_start, pause_end)
+    SELECT v_session_id, (p->>'pause_start')::timestamptz, (p->>'pause_end')::timestamptz
+    FROM jsonb_array_elements(COALESCE(v_row->'pauses', '[]'::jsonb)) p;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  PERFORM set_config('app.creating_session', '', true);
+  RETURN v_count;
+END;
+$$;
+
+-- Guarda la edición directa de una sesión (inicio, fin, notas, pausas y los
+-- límites de sus tramos) en una sola transacción: si un trigger rechaza algo
+-- (16 h, solapes, ventana de edición, periodo aprobado), no queda la sesión a
+-- medio editar. Se ejecuta con los permisos del usuario, así que RLS y todos
+-- los triggers se aplican.
+-- p_pauses: [{ "id"?, "pause_start", "pause_end" }]; las que no traen id son
+-- nuevas y las existentes que no aparecen se eliminan.
+CREATE OR REPLACE FUNCTION update_session_with_pauses(
+  p_session_id UUID,
+  p_start_time TIMESTAMPTZ,
+  p_end_time TIMESTAMPTZ,
+  p_notes TEXT,
+  p_pauses JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM work_sessions WHERE id = p_session_id) THEN
+    RAISE EXCEPTION 'La sesión no existe';
+  END IF;
+
+  DELETE FROM work_pauses
+  WHERE session_id = p_session_id
+    AND id NOT IN (
+      SELECT (p->>'id')::uuid FROM jsonb_array_elements(p_pauses) p WHERE p->>'id' IS NOT NULL
+    );
+
+  UPDATE work_pauses wp
+  SET pause_start = (p->>'pause_start')::timestamptz,
+      pause_end = (p->>'pause_end')::timestamptz
+  FROM jsonb_array_elements(p_pauses) p
+  WHERE p->>'id' IS NOT NULL
+    AND wp.id = (p->>'id')::uuid
+    AND wp.session_id = p_session_id;
+
+  INSERT INTO work_pauses (session_id, pause_start, pause_end)
+  SELECT p_session_id, (p->>'pause_start')::timestamptz, (p->>'pause_end')::timestamptz
+  FROM jsonb_array_elements(p_pauses) p
+  WHERE p->>'id' IS NULL;
+
+  -- La duración neta (total_duration) la recalcula el trigger de la sesión.
+  UPDATE work_sessions
+  SET start_time = p_start_time,
+      end_time = p_end_time,
+      notes = NULLIF(p_notes, '')
+  WHERE id = p_session_id;
+
+  -- Los tramos (sección 20) siguen a los nuevos límites.
+  PERFORM clamp_session_segments(p_session_id, p_start_time, p_end_time);
+END;
+$$;
+
+-- Al crear una solicitud copia los valores originales desde la sesión (no se
+-- confía en el cliente) y comprueba que la sesión es del usuario.
+CREATE OR REPLACE FUNCTION capture_change_request_original()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_session work_sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_session FROM work_sessions WHERE id = NEW.session_id;
+
+  IF v_session.id IS NULL OR v_session.user_id != auth.uid() OR NEW.user_id != auth.uid() THEN
+    RAISE EXCEPTION 'Solo puedes solicitar cambios de tus propias sesiones';
+  END IF;
+  IF v_session.status != 'completed' OR v_session.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Solo se pueden solicitar cambios de sesiones completadas';
+  END IF;
+
+  NEW.status := 'pending';
+  NEW.reviewed_by := NULL;
+  NEW.reviewed_at := NULL;
+  NEW.review_comment := NULL;
+  NEW.original_start_time := v_session.start_time;
+  NEW.original_end_time := v_session.end_time;
+  NEW.original_notes := v_session.notes;
+  NEW.original_pauses := COALESCE((
+    SELECT jsonb_agg(jsonb_build_object('pause_start', pause_start, 'pause_end', pause_end, 'pause_type_id', pause_type_id) ORDER BY pause_start)
+    FROM work_pauses
+    WHERE session_id = NEW.session_id
+  ), '[]'::jsonb);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER capture_change_request_original_values
+  BEFORE INSERT ON session_change_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION capture_change_request_original();
+
+-- Aprueba o rechaza una solicitud pendiente (RPC). Solo un manager/admin que
+-- puede ver al trabajador, nunca el propio trabajador. Al aprobar reemplaza
+-- inicio, fin, notas y pausas de la sesión por los valores propuestos (y
+-- ajusta sus tramos a los nuevos límites); los triggers de validación
+-- (duración máxima, solapes, periodos aprobados) siguen aplicándose y, si
+-- fallan, la solicitud queda pendiente.
+CREATE OR REPLACE FUNCTION review_session_change_request(
+  p_request_id UUID,
+  p_approve BOOLEAN,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_request session_change_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO v_request FROM session_change_requests WHERE id = p_request_id FOR UPDATE;
+
+  IF v_request.id IS NULL OR v_request.status != 'pending' THEN
+    RAISE EXCEPTION 'La solicitud no existe o ya fue revisada';
+  END IF;
+  IF v_request.user_id = auth.uid() OR NOT can_view_user(v_request.user_id) THEN
+    RAISE EXCEPTION 'No tienes permiso para revisar esta solicitud';
+  END IF;
+
+  IF p_approve THEN
+    PERFORM set_config('app.applying_change_request', 'on', true);
+
+    DELETE FROM work_pauses WHERE session_id = v_request.session_id;
+
+    UPDATE work_sessions
+    SET start_time = v_request.proposed_start_time,
+        end_time = v_request.proposed_end_time,
+        notes = v_request.proposed_notes
+    WHERE id = v_request.session_id;
+
+    PERFORM clamp_session_segments(v_request.session_id, v_request.proposed_start_time, v_request.proposed_end_time);
+
+    INSERT INTO work_pauses (session_id, pause_start, pause_end, pause_type_id)
+    SELECT v_request.session_id, (p->>'pause_start')::timestamptz, (p->>'pause_end')::timestamptz, (p->>'pause_type_id')::uuid
+    FROM jsonb_array_elements(v_request.proposed_pauses) AS p;
+
+    PERFORM set_config('app.applying_change_request', 'off', true);
+  END IF;
+
+  UPDATE session_change_requests
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      reviewed_by = auth.uid(),
+      reviewed_at = NOW(),
+      review_comment = NULLIF(trim(p_comment), '')
+  WHERE id = p_request_id;
+END;
+$$;
+
+-- RLS: el trabajador crea, ve y cancela (mientras está pendiente) sus
+-- solicitudes; managers y admins las ven. Las revisiones solo se hacen con la
+-- función review_session_change_request (no hay política de UPDATE).
+ALTER TABLE session_change_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users and managers can view change requests"
+  ON session_change_requests FOR SELECT
+  USING (can_view_user(user_id));
+
+CREATE POLICY "Users can create own change requests"
+  ON session_change_requests FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can cancel pending change requests"
+  ON session_change_requests FOR DELETE
+  USING (auth.uid() = user_id AND status = 'pending');
+
+ALTER PUBLICATION supabase_realtime ADD TABLE session_change_requests;
+
+-- 13. Audit Log
+
+-- Registro inmutable de cada alta, cambio y baja en work_sessions, work_pauses
+-- y profiles, para demostrar ante una inspección laboral que los registros no
+-- se han manipulado. Lo rellenan triggers (el cliente no puede escribir en él)
+-- y nadie puede modificarlo ni borrarlo. No tiene claves foráneas: las filas
+-- sobreviven a la eliminación de la sesión o del usuario.
+CREATE TABLE audit_log (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  table_name TEXT NOT NULL CHECK (table_name IN ('work_sessions', 'work_pauses', 'work_segments', 'profiles')),
+  record_id UUID NOT NULL,
+  -- Sesión afectada (la propia sesión o la de la pausa o el tramo); NULL en profiles.
+  session_id UUID,
+  -- Dueño del registro modificado, para aplicar los mismos permisos de lectura.
+  user_id UUID,
+  action TEXT CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')) NOT NULL,
+  -- Quién hizo el cambio (NULL si fue un proceso del sistema sin usuario).
+  changed_by UUID,
+  old_data JSONB,
+  new_data JSONB,
+  -- Cabeceras de la petición HTTP (navegador e IP) cuando llega por la API.
+  client_info JSONB,
+  changed_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX idx_audit_log_session ON audit_log(session_id, changed_at);
+CREATE INDEX idx_audit_log_user ON audit_log(user_id, changed_at DESC);
+
+-- Inserta una fila de auditoría por cada cambio. Ignora las actualizaciones
+-- que solo tocan updated_at.
+CREATE OR REPLACE FUNCTION record_audit_log()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_old JSONB := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+  v_new JSONB := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+  v_row JSONB := COALESCE(v_new, v_old);
+  v_session_id UUID;
+  v_user_id UUID;
+  v_headers JSONB := NULLIF(current_setting('request.headers', true), '')::jsonb;
+BEGIN
+  IF TG_OP = 'UPDATE' AND (v_old - 'updated_at') = (v_new - 'updated_at') THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_TABLE_NAME = 'work_sessions' THEN
+    v_session_id := (v_row->>'id')::uuid;
+    v_user_id := (v_row->>'user_id')::uuid;
+  ELSIF TG_TABLE_NAME IN ('work_pauses', 'work_segments') THEN
+    v_session_id := (v_row->>'session_id')::uuid;
+    -- Si la pausa o el tramo se borran en cascada, la sesión ya no existe: se
+    -- toma su dueño del propio registro de auditoría.
+    v_user_id := COALESCE(
+      (SELECT user_id FROM work_sessions WHERE id = v_session_id),
+      (SELECT user_id FROM audit_log
+       WHERE table_name = 'work_sessions' AND record_id = v_session_id
+       ORDER BY id DESC LIMIT 1)
+    );
+  ELSE
+    v_user_id := (v_row->>'id')::uuid;
+  END IF;
+
+  INSERT INTO audit_log (table_name, record_id, session_id, user_id, action, changed_by, old_data, new_data, client_info)
+  VALUES (
+    TG_TABLE_NAME,
+    (v_row->>'id')::uuid,
+    v_session_id,
+    v_user_id,
+    TG_OP,
+    auth.uid(),
+    v_old,
+    v_new,
+    CASE WHEN v_headers IS NOT NULL THEN jsonb_build_object(
+      'user_agent', v_headers->>'user-agent',
+      'ip', split_part(v_headers->>'x-forwarded-for', ',', 1)
+    ) END
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_work_sessions
+  AFTER INSERT OR UPDATE OR DELETE ON work_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER audit_work_pauses
+  AFTER INSERT OR UPDATE OR DELETE ON work_pauses
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER audit_profiles
+  AFTER INSERT OR UPDATE OR DELETE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_log();
+
+-- El registro es de solo inserción: se rechaza cualquier UPDATE, DELETE o
+-- TRUNCATE, incluso con privilegios de servicio.
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'El registro de auditoría no se puede modificar';
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER protect_audit_log
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_audit_log_changes();
+
+CREATE TRIGGER protect_audit_log_truncate
+  BEFORE TRUNCATE ON audit_log
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION prevent_audit_log_changes();
+
+-- RLS: cada usuario ve el historial de sus registros y managers/admins el de
+-- sus equipos. Sin políticas de escritura: solo escribe el trigger.
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users and managers can view audit log"
+  ON audit_log FOR SELECT
+  USING (can_view_user(user_id));
+
+-- 14. Session Trash (Soft Delete)
+
+-- Eliminar una sesión desde la app solo marca deleted_at (UPDATE): la sesión
+-- sale del historial, los totales, el calendario y los informes, pero se puede
+-- restaurar desde la papelera. Las consultas de la app filtran
+-- `deleted_at IS NULL`. Tras 30 días en la papelera (job diario de pg_cron),
+-- o si el usuario la vacía, se elimina definitivamente (DELETE, con sus pausas
+-- en cascada). Ambas operaciones quedan en audit_log.
+CREATE INDEX idx_session_deleted ON work_sessions(user_id, deleted_at)
+  WHERE deleted_at IS NOT NULL;
+
+-- Elimina definitivamente las sesiones del usuario actual que llevan más de
+-- 30 días en la papelera (RPC). Devuelve cuántas se eliminaron.
+CREATE OR REPLACE FUNCTION purge_deleted_sessions()
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  DELETE FROM work_sessions
+  WHERE user_id = auth.uid()
+    AND deleted_at IS NOT NULL
+    AND deleted_at < NOW() - INTERVAL '30 days';
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Lo mismo para todos los usuarios, desde el job programado (en pg_cron no hay
+-- auth.uid()). Así la retención se cumple aunque el usuario no vuelva a abrir
+-- la papelera; la RPC anterior sigue vaciándola al abrirla.
+CREATE OR REPLACE FUNCTION purge_expired_deleted_sessions()
+RETURNS INTEGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  DELETE FROM work_sessions
+  WHERE deleted_at IS NOT NULL
+    AND deleted_at < NOW() - INTERVAL '30 days';
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Solo la ejecuta el job programado, no los clientes.
+REVOKE EXECUTE ON FUNCTION purge_expired_deleted_sessions() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- Cada día a las 03:00 (UTC).
+SELECT cron.schedule(
+  'purge-deleted-sessions',
+  '0 3 * * *',
+  $$SELECT purge_expired_deleted_sessions()$$
+);
+
+-- 15. Work Schedules
+
+-- Horario laboral de un usuario: patrón semanal con las horas previstas de
+-- cada día y la franja habitual de entrada y salida. Cada versión rige desde
+-- effective_from hasta la siguiente versión del mismo usuario, así que cambiar
+-- el horario no altera las horas previstas de semanas anteriores.
+-- days es un array de 7 elementos (lunes a domingo):
+--   { "weekday": 1..7, "expected_minutes": INT, "start_time": "HH:MM" | null, "end_time": "HH:MM" | null }
+CREATE TABLE work_schedules (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  effective_from DATE NOT NULL,
+  days JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (jsonb_typeof(days) = 'array' AND jsonb_array_length(days) = 7),
+  UNIQUE (user_id, effective_from)
+);
+
+CREATE TRIGGER update_work_schedules_updated_at
+  BEFORE UPDATE ON work_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Valida cada día del patrón: un día por weekday, horas previstas entre 0 y
+-- 24 h y, si hay franja, fin posterior al inicio.
+CREATE OR REPLACE FUNCTION validate_work_schedule_days()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_day JSONB;
+BEGIN
+  IF (SELECT COUNT(DISTINCT (d->>'weekday')::INT) FROM jsonb_array_elements(NEW.days) d
+      WHERE (d->>'weekday')::INT BETWEEN 1 AND 7) != 7 THEN
+    RAISE EXCEPTION 'El horario debe definir cada día de la semana una sola vez';
+  END IF;
+
+  FOR v_day IN SELECT * FROM jsonb_array_elements(NEW.days) LOOP
+    IF (v_day->>'expected_minutes')::INT NOT BETWEEN 0 AND 1440 THEN
+      RAISE EXCEPTION 'Las horas previstas de un día deben estar entre 0 y 24';
+    END IF;
+    IF v_day->>'start_time' IS NOT NULL AND v_day->>'end_time' IS NOT NULL
+      AND (v_day->>'end_time')::TIME <= (v_day->>'start_time')::TIME THEN
+      RAISE EXCEPTION 'La hora de salida debe ser posterior a la de entrada';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER check_work_schedule_days
+  BEFORE INSERT OR UPDATE ON work_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_work_schedule_days();
+
+-- RLS: cada usuario gestiona su horario; managers y admins lo consultan para
+-- comparar horas previstas y reales de su equipo.
+ALTER TABLE work_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users and managers can view work schedules"
+  ON work_schedules FOR SELECT
+  USING (can_view_user(user_id));
+
+CREATE POLICY "Users can insert own work schedules"
+  ON work_schedules FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own work schedules"
+  ON work_schedules FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own work schedules"
+  ON work_schedules FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- 16. Hour Balance & Overtime
+
+-- La bolsa de horas (trabajado menos previsto según work_schedules) se calcula
+-- en el cliente a partir de work_sessions; aquí solo viven los umbrales de
+-- horas extra que configura cada organización.
+
+-- Umbrales de horas extra de p_user_id: los de su organización, o 9 h diarias
+-- y 40 h semanales si no pertenece a ninguna.
+CREATE OR REPLACE FUNCTION overtime_thresholds(p_user_id UUID)
+RETURNS TABLE (daily_minutes INTEGER, weekly_minutes INTEGER)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT COALESCE(o.overtime_daily_minutes, 540), COALESCE(o.overtime_weekly_minutes, 2400)
+  FROM (SELECT 1) AS defaults
+  LEFT JOIN organization_members m ON m.user_id = p_user_id
+  LEFT JOIN organizations o ON o.id = m.organization_id;
+$$;
+
+-- 17. Absences
+
+-- Ausencias del trabajador (vacaciones, baja médica, festivos, asuntos propios
+-- u otras) por días completos entre start_date y end_date (ambos incluidos),
+-- o media jornada de un solo día. Los días de una ausencia aprobada no tienen
+-- horas previstas en la bolsa de horas.
+-- Flujo: pending → approved | rejected. Un manager o admin que puede ver al
+-- trabajador la revisa; sin organización no hay quien apruebe, así que se
+-- aprueba al crearla.
+CREATE TABLE absences (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  absence_type TEXT CHECK (absence_type IN ('vacation', 'sick_leave', 'public_holiday', 'personal', 'other')) NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  half_day BOOLEAN DEFAULT FALSE NOT NULL,
+  notes TEXT,
+  status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')) NOT NULL,
+  reviewed_by UUID REFERENCES auth.users(id),
+  reviewed_at TIMESTAMPTZ,
+  review_comment TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (end_date >= start_date),
+  CHECK (NOT half_day OR start_date = end_date)
+);
+
+CREATE INDEX idx_absences_user_dates ON absences(user_id, start_date, end_date);
+CREATE INDEX idx_absences_status ON absences(status);
+
+CREATE TRIGGER update_absences_updated_at
+  BEFORE UPDATE ON absences
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Días de ausencia por año que concede la organización para cada tipo.
+-- Sin fila para un tipo, no hay límite.
+CREATE TABLE absence_allowances (
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  absence_type TEXT CHECK (absence_type IN ('vacation', 'sick_leave', 'public_holiday', 'personal', 'other')) NOT NULL,
+  days_per_year NUMERIC(5, 1) NOT NULL CHECK (days_per_year >= 0),
+  PRIMARY KEY (organization_id, absence_type)
+);
+
+-- Valida altas, cambios y revisiones de ausencias:
+-- - Solo el trabajador crea o modifica (mientras está pendiente) sus ausencias;
+--   sin organización, también las aprobadas.
+-- - Solo un manager/admin que puede ver al trabajador la aprueba o rechaza,
+--   nunca la suya propia.
+-- - Dos ausencias no rechazadas del mismo trabajador no se solapan.
+CREATE OR REPLACE FUNCTION validate_absence()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'El trabajador de una ausencia no se puede cambiar';
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.status = OLD.status THEN
+    -- Alta o corrección del propio trabajador.
+    IF NEW.user_id != auth.uid() THEN
+      RAISE EXCEPTION 'Solo el trabajador puede registrar sus ausencias';
+    END IF;
+    IF TG_OP = 'UPDATE' AND OLD.status != 'pending' AND current_organization_id() IS NOT NULL THEN
+      RAISE EXCEPTION 'Solo se pueden modificar ausencias pendientes';
+    END IF;
+
+    NEW.status := CASE WHEN current_organization_id() IS NULL THEN 'approved' ELSE 'pending' END;
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+  ELSE
+    IF OLD.status != 'pending' THEN
+      RAISE EXCEPTION 'Solo se pueden revisar ausencias pendientes';
+    END IF;
+    IF NEW.user_id = auth.uid() OR NOT can_view_user(NEW.user_id) THEN
+      RAISE EXCEPTION 'No tienes permiso para revisar esta ausencia';
+    END IF;
+    IF (NEW.absence_type, NEW.start_date, NEW.end_date, NEW.half_day)
+      IS DISTINCT FROM (OLD.absence_type, OLD.start_date, OLD.end_date, OLD.half_day) THEN
+      RAISE EXCEPTION 'Al revisar una ausencia solo se cambia su estado';
+    END IF;
+
+    NEW.reviewed_by := auth.uid();
+    NEW.reviewed_at := NOW();
+  END IF;
+
+  IF NEW.status != 'rejected' AND EXISTS (
+    SELECT 1 FROM absences
+    WHERE user_id = NEW.user_id
+      AND id != NEW.id
+      AND status != 'rejected'
+      AND start_date <= NEW.end_date
+      AND end_date >= NEW.start_date
+  ) THEN
+    RAISE EXCEPTION 'Ya hay una ausencia registrada en esas fechas';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_absence
+  BEFORE INSERT OR UPDATE ON absences
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_absence();
+
+-- RLS: el trabajador ve, solicita, corrige y retira (mientras está pendiente)
+-- sus ausencias; managers y admins ven y revisan las de sus equipos. Los
+-- cupos los ven los miembros y los gestionan los admins.
+ALTER TABLE absences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE absence_allowances ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users and managers can view absences"
+  ON absences FOR SELECT
+  USING (can_view_user(user_id));
+
+CREATE POLICY "Users can request own absences"
+  ON absences FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users and managers can update absences"
+  ON absences FOR UPDATE
+  USING (can_view_user(user_id));
+
+CREATE POLICY "Users can withdraw pending absences"
+  ON absences FOR DELETE
+  USING (auth.uid() = user_id AND (status = 'pending' OR current_organization_id() IS NULL));
+
+CREATE POLICY "Members can view absence allowances"
+  ON absence_allowances FOR SELECT
+  USING (organization_id = current_organization_id());
+
+CREATE POLICY "Admins can manage absence allowances"
+  ON absence_allowances FOR ALL
+  USING (is_org_admin(organization_id))
+  WITH CHECK (is_org_admin(organization_id));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE absences;
+
+-- 18. Holiday Calendars
+
+-- Calendarios de festivos: conjuntos de días no laborables de ámbito
+-- nacional, autonómico o local. Los de una organización los gestionan sus
+-- admins; un usuario sin organización gestiona los suyos. A cada usuario se le
+-- asignan uno o varios calendarios (p. ej. nacional + comunidad + municipio) y
+-- sus festivos no tienen horas previstas.
+CREATE TABLE holiday_calendars (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  scope TEXT DEFAULT 'national' CHECK (scope IN ('national', 'regional', 'local')) NOT NULL,
+  region TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE holidays (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  calendar_id UUID REFERENCES holiday_calendars(id) ON DELETE CASCADE NOT NULL,
+  holiday_date DATE NOT NULL,
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (calendar_id, holiday_date)
+);
+
+CREATE TABLE user_holiday_calendars (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  calendar_id UUID REFERENCES holiday_calendars(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (user_id, calendar_id)
+);
+
+CREATE INDEX idx_holiday_calendars_organization ON holiday_calendars(organization_id);
+CREATE INDEX idx_user_holiday_calendars_calendar ON user_holiday_calendars(calendar_id);
+
+CREATE TRIGGER update_holiday_calendars_updated_at
+  BEFORE UPDATE ON holiday_calendars
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Indica si el usuario actual puede modificar un calendario y sus festivos.
+CREATE OR REPLACE FUNCTION can_manage_holiday_calendar(p_calendar_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM holiday_calendars
+    WHERE id = p_calendar_id
+      AND CASE
+        WHEN organization_id IS NULL THEN created_by = auth.uid()
+        ELSE is_org_admin(organization_id)
+      END
+  );
+$$;
+
+-- Festivos de p_user_id entre dos fechas (incluidas), según sus calendarios
+-- asignados (RPC). Un día festivo en varios calendarios aparece una vez.
+CREATE OR REPLACE FUNCTION user_holidays(p_user_id UUID, p_from DATE, p_to DATE)
+RETURNS TABLE (holiday_date DATE, name TEXT, calendar_name TEXT)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT DISTINCT ON (h.holiday_date) h.holiday_date, h.name, c.name
+  FROM user_holiday_calendars uc
+  JOIN holiday_calendars c ON c.id = uc.calendar_id
+  JOIN holidays h ON h.calendar_id = c.id
+  WHERE uc.user_id = p_user_id
+    AND can_view_user(p_user_id)
+    AND h.holiday_date BETWEEN p_from AND p_to
+  ORDER BY h.holiday_date, c.scope;
+$$;
+
+-- RLS: los miembros ven los calendarios de su organización (y cada uno los
+-- que creó); el trabajador elige los suyos y un admin asigna los de sus miembros.
+ALTER TABLE holiday_calendars ENABLE ROW LEVEL SECURITY;
+ALTER TABLE holidays ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_holiday_calendars ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view holiday calendars"
+  ON holiday_calendars FOR SELECT
+  USING (organization_id = current_organization_id() OR created_by = auth.uid());
+
+CREATE POLICY "Calendar managers can create holiday calendars"
+  ON holiday_calendars FOR INSERT
+  WITH CHECK (
+    created_by = auth.uid()
+    AND (organization_id IS NULL OR is_org_admin(organization_id))
+  );
+
+CREATE POLICY "Calendar managers can update holiday calendars"
+  ON holiday_calendars FOR UPDATE
+  USING (can_manage_holiday_calendar(id));
+
+CREATE POLICY "Calendar managers can delete holiday calendars"
+  ON holiday_calendars FOR DELETE
+  USING (can_manage_holiday_calendar(id));
+
+CREATE POLICY "Members can view holidays"
+  ON holidays FOR SELECT
+  USING (EXISTS (SELECT 1 FROM holiday_calendars WHERE holiday_calendars.id = holidays.calendar_id));
+
+CREATE POLICY "Calendar managers can manage holidays"
+  ON holidays FOR ALL
+  USING (can_manage_holiday_calendar(calendar_id))
+  WITH CHECK (can_manage_holiday_calendar(calendar_id));
+
+CREATE POLICY "Users and managers can view holiday assignments"
+  ON user_holiday_calendars FOR SELECT
+  USING (can_view_user(user_id));
+
+CREATE POLICY "Users and admins can assign holiday calendars"
+  ON user_holiday_calendars FOR INSERT
+  WITH CHECK (
+    (auth.uid() = user_id OR (is_org_admin(current_organization_id()) AND can_view_user(user_id)))
+    AND EXISTS (SELECT 1 FROM holiday_calendars WHERE holiday_calendars.id = user_holiday_calendars.calendar_id)
+  );
+
+CREATE POLICY "Users and admins can unassign holiday calendars"
+  ON user_holiday_calendars FOR DELETE
+  USING (auth.uid() = user_id OR (is_org_admin(current_organization_id()) AND can_view_user(user_id)));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE user_holiday_calendars;
+
+-- 19. User Timezone
+
+-- Los días y semanas de las sesiones (totales, calendario, bolsa de horas) se
+-- calculan en el cliente en la zona horaria del perfil, no en la del
+-- navegador: así un trabajador de Canarias o de viaje ve sus totales
+-- correctos. Aquí solo se valida que sea una zona IANA conocida.
+CREATE OR REPLACE FUNCTION validate_profile_timezone()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+    RAISE EXCEPTION 'Zona horaria no válida: %', NEW.timezone;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER check_profile_timezone
+  BEFORE INSERT OR UPDATE OF timezone ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_profile_timezone();
+
+-- 20. Projects, Tasks, Activities & Work Segments
+
+-- Proyectos (opcionalmente de un cliente) y sus tareas, a los que se imputa
+-- el tiempo de las sesiones. Los de una organización los gestionan sus
+-- admins; un usuario sin organización gestiona los suyos. Un proyecto
+-- archivado ya no se ofrece al fichar, pero conserva el tiempo imputado.
+CREATE TABLE projects (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  client TEXT,
+  archived BOOLEAN DEFAULT false NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE project_tasks (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  archived BOOLEAN DEFAULT false NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (project_id, name)
+);
+
+-- Tramos de una sesión imputados a un proyecto (y tarea) y a una actividad
+-- ("Soporte", "Desarrollo"...). Al iniciar la sesión se abre el primero;
+-- cambiar de proyecto o de actividad cierra el abierto y abre otro en el
+-- mismo instante, y finalizar la sesión cierra el último. El tiempo neto de
+-- cada tramo descuenta las pausas que caen dentro.
+-- Sin proyecto / sin actividad (NULL) = tiempo no imputado.
+CREATE TABLE work_segments (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  session_id UUID REFERENCES work_sessions(id) ON DELETE CASCADE NOT NULL,
+  project_id UUID REFERENCES projects(id) ON DELETE SET NULL,
+  task_id UUID REFERENCES project_tasks(id) ON DELETE SET NULL,
+  activity TEXT CHECK (activity IS NULL OR char_length(activity) BETWEEN 1 AND 80),
+  segment_start TIMESTAMPTZ NOT NULL,
+  segment_end TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (segment_end IS NULL OR segment_end >= segment_start)
+);
+
+CREATE INDEX idx_projects_organization ON projects(organization_id);
+CREATE INDEX idx_project_tasks_project ON project_tasks(project_id);
+CREATE INDEX idx_session_segments ON work_segments(session_id);
+
+CREATE TRIGGER update_projects_updated_at
+  BEFORE UPDATE ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- La tarea de un tramo debe ser del proyecto del tramo.
+CREATE OR REPLACE FUNCTION validate_segment_task()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.task_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM project_tasks
+    WHERE id = NEW.task_id AND project_id = NEW.project_id
+  ) THEN
+    RAISE EXCEPTION 'La tarea no pertenece al proyecto indicado';
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER check_segment_task
+  BEFORE INSERT OR UPDATE OF project_id, task_id ON work_segments
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_segment_task();
+
+-- Los tramos de una sesión bloqueada (hoja aprobada) tampoco se pueden tocar.
+-- La función de las pausas sirve tal cual: solo usa session_id.
+CREATE TRIGGER check_segment_period_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON work_segments
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_locked_pause_changes();
+
+-- Los cambios de tramos quedan en el registro de auditoría (sección 13) junto
+-- a los de su sesión.
+CREATE TRIGGER audit_work_segments
+  AFTER INSERT OR UPDATE OR DELETE ON work_segments
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_log();
+
+-- Ajusta los tramos a los nuevos límites de una sesión editada: elimina los
+-- que quedan fuera y lleva el inicio del primero y el fin del último a los de
+-- la sesión, para que el reparto por proyectos y actividades siga sumando el
+-- tiempo de la sesión. Lo llaman update_session_with_pauses y
+-- review_session_change_request dentro de su transacción; se ejecuta con los
+-- permisos de quien llama.
+CREATE OR REPLACE FUNCTION clamp_session_segments(
+  p_session_id UUID,
+  p_start_time TIMESTAMPTZ,
+  p_end_time TIMESTAMPTZ
+)
+RETURNS VOID
+LANGUAGE plpgsql SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM work_segments
+  WHERE session_id = p_session_id
+    AND (segment_start >= COALESCE(p_end_time, 'infinity')
+      OR COALESCE(segment_end, 'infinity') <= p_start_time);
+
+  UPDATE work_segments
+  SET segment_start = p_start_time
+  WHERE id = (
+    SELECT id FROM work_segments
+    WHERE session_id = p_session_id
+    ORDER BY segment_start
+    LIMIT 1
+  );
+
+  -- Una sesión sin fin (aún abierta) conserva su último tramo abierto.
+  IF p_end_time IS NOT NULL THEN
+    UPDATE work_segments
+    SET segment_end = p_end_time
+    WHERE id = (
+      SELECT id FROM work_segments
+      WHERE session_id = p_session_id
+      ORDER BY segment_start DESC
+      LIMIT 1
+    );
+  END IF;
+END;
+$$;
+
+-- Indica si el usuario actual puede modificar un proyecto y sus tareas.
+CREATE OR REPLACE FUNCTION can_manage_project(p_project_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM projects
+    WHERE id = p_project_id
+      AND CASE
+        WHEN organization_id IS NULL THEN created_by = auth.uid()
+        ELSE is_org_admin(organization_id)
+      END
+  );
+$$;
+
+-- RLS: los miembros ven los proyectos de su organización (y cada uno los que
+-- creó); los tramos siguen las mismas reglas que las pausas de la sesión.
+ALTER TABLE projects ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE work_segments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view projects"
+  ON projects FOR SELECT
+  USING (organization_id = current_organization_id() OR created_by = auth.uid());
+
+CREATE POLICY "Project managers can create projects"
+  ON projects FOR INSERT
+  WITH CHECK (
+    created_by = auth.uid()
+    AND (organization_id IS NULL OR is_org_admin(organization_id))
+  );
+
+CREATE POLICY "Project managers can update projects"
+  ON projects FOR UPDATE
+  USING (can_manage_project(id));
+
+CREATE POLICY "Project managers can delete projects"
+  ON projects FOR DELETE
+  USING (can_manage_project(id));
+
+CREATE POLICY "Members can view project tasks"
+  ON project_tasks FOR SELECT
+  USING (EXISTS (SELECT 1 FROM projects WHERE projects.id = project_tasks.project_id));
+
+CREATE POLICY "Project managers can manage project tasks"
+  ON project_tasks FOR ALL
+  USING (can_manage_project(project_id))
+  WITH CHECK (can_manage_project(project_id));
+
+CREATE POLICY "Users and managers can view segments"
+  ON work_segments FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM work_sessions
+      WHERE work_sessions.id = work_segments.session_id
+      AND can_view_user(work_sessions.user_id)
+    )
+  );
+
+CREATE POLICY "Users can insert segments to own sessions"
+  ON work_segments FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM work_sessions
+      WHERE work_sessions.id = work_segments.session_id
+      AND work_sessions.user_id = auth.uid()
+    )
+    AND (project_id IS NULL OR EXISTS (SELECT 1 FROM projects WHERE projects.id = work_segments.project_id))
+  );
+
+CREATE POLICY "Users can update segments of own sessions"
+  ON work_segments FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM work_sessions
+      WHERE work_sessions.id = work_segments.session_id
+      AND work_sessions.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete segments of own sessions"
+  ON work_segments FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM work_sessions
+      WHERE work_sessions.id = work_segments.session_id
+      AND work_sessions.user_id = auth.uid()
+    )
+  );
+
+-- Cambiar de proyecto en otro dispositivo se refleja en la sesión activa.
+ALTER PUBLICATION supabase_realtime ADD TABLE work_segments;
+
+-- 21. Pause Types
+
+-- Tipos de pausa del convenio (café, comida, cita médica, asuntos propios...),
+-- elegidos al pausar. Cada tipo es retribuido (cuenta como trabajo) o no; los
+-- de una organización los gestionan sus admins y un usuario sin organización
+-- gestiona los suyos. Un tipo archivado ya no se ofrece al pausar.
+CREATE TABLE pause_types (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  paid BOOLEAN DEFAULT false NOT NULL,
+  archived BOOLEAN DEFAULT false NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_pause_types_organization ON pause_types(organization_id);
+
+CREATE TRIGGER update_pause_types_updated_at
+  BEFORE UPDATE ON pause_types
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- work_pauses se crea antes que las organizaciones; la referencia al tipo se
+-- añade aquí. Eliminar un tipo deja sus pausas sin tipo, pero conservan si
+-- eran retribuidas.
+ALTER TABLE work_pauses
+  ADD CONSTRAINT work_pauses_pause_type_id_fkey
+  FOREIGN KEY (pause_type_id) REFERENCES pause_types(id) ON DELETE SET NULL;
+
+-- Copia en la pausa si su tipo es retribuido. Se guarda en la pausa (y no se
+-- consulta el tipo al calcular) para que cambiar la configuración de un tipo
+-- no altere las horas ya registradas. El cliente no puede fijarlo: solo
+-- cambia al cambiar de tipo. Sin tipo = no retribuida, como hasta ahora.
+CREATE OR REPLACE FUNCTION set_pause_paid()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.pause_type_id IS NOT DISTINCT FROM OLD.pause_type_id THEN
+    NEW.paid := OLD.paid;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.pause_type_id IS NULL THEN
+    NEW.paid := false;
+    RETURN NEW;
+  END IF;
+
+  SELECT paid INTO NEW.paid FROM pause_types WHERE id = NEW.pause_type_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'El tipo de pausa no existe';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER set_work_pauses_paid
+  BEFORE INSERT OR UPDATE ON work_pauses
+  FOR EACH ROW
+  EXECUTE FUNCTION set_pause_paid();
+
+-- Indica si el usuario actual puede modificar un tipo de pausa.
+CREATE OR REPLACE FUNCTION can_manage_pause_type(p_pause_type_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM pause_types
+    WHERE id = p_pause_type_id
+      AND CASE
+        WHEN organization_id IS NULL THEN created_by = auth.uid()
+        ELSE is_org_admin(organization_id)
+      END
+  );
+$$;
+
+-- RLS: los miembros ven los tipos de su organización (y cada uno los que creó).
+ALTER TABLE pause_types ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view pause types"
+  ON pause_types FOR SELECT
+  USING (organization_id = current_organization_id() OR created_by = auth.uid());
+
+CREATE POLICY "Pause type managers can create pause types"
+  ON pause_types FOR INSERT
+  WITH CHECK (
+    created_by = auth.uid()
+    AND (organization_id IS NULL OR is_org_admin(organization_id))
+  );
+
+CREATE POLICY "Pause type managers can update pause types"
+  ON pause_types FOR UPDATE
+  USING (can_manage_pause_type(id));
+
+CREATE POLICY "Pause type managers can delete pause types"
+  ON pause_types FOR DELETE
+  USING (can_manage_pause_type(id));
+
+-- 22. Forgotten Sessions Auto-Close
+
+-- Una sesión que nadie finaliza (se olvidó fichar la salida) se cierra o se
+-- marca en el servidor al superar el límite configurado, sin esperar a que el
+-- usuario vuelva a abrir la app. Lo configura cada organización para sus
+-- miembros, y cada usuario sin organización para sí mismo:
+--   auto_close_mode:            'close' la finaliza; 'flag' solo la marca
+--                               (forgotten_at) para que el usuario indique la
+--                               hora real de salida.
+--   auto_close_after_minutes:   minutos desde el inicio (1 a 16 h; una sesión
+--                               no puede durar más de 16 h).
+--   auto_close_at_schedule_end: al cerrar, usa la hora de salida de su horario
+--                               de ese día (sección 15) si ya pasó.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- Configuración de cierre automático de p_user_id: la de su organización o,
+-- si no pertenece a ninguna, la de su perfil.
+CREATE OR REPLACE FUNCTION auto_close_settings(p_user_id UUID)
+RETURNS TABLE (mode TEXT, after_minutes INTEGER, at_schedule_end BOOLEAN)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT
+    COALESCE(o.auto_close_mode, p.auto_close_mode),
+    COALESCE(o.auto_close_after_minutes, p.auto_close_after_minutes),
+    COALESCE(o.auto_close_at_schedule_end, p.auto_close_at_schedule_end)
+  FROM profiles p
+  LEFT JOIN organization_members m ON m.user_id = p.id
+  LEFT JOIN organizations o ON o.id = m.organization_id
+  WHERE p.id = p_user_id;
+$$;
+
+-- Hora de salida prevista por el horario de p_user_id el día (en su zona
+-- horaria) en que empezó p_start; NULL si ese día no tiene franja.
+CREATE OR REPLACE FUNCTION scheduled_end_time(p_user_id UUID, p_start TIMESTAMPTZ)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT (v.local_start::DATE + (d->>'end_time')::TIME) AT TIME ZONE v.timezone
+  FROM (
+    SELECT ws.days, p.timezone, p_start AT TIME ZONE p.timezone AS local_start
+    FROM profiles p
+    JOIN work_schedules ws ON ws.user_id = p.id
+    WHERE p.id = p_user_id
+      AND ws.effective_from <= (p_start AT TIME ZONE p.timezone)::DATE
+    ORDER BY ws.effective_from DESC
+    LIMIT 1
+  ) v
+  CROSS JOIN LATERAL jsonb_array_elements(v.days) d
+  WHERE (d->>'weekday')::INT = EXTRACT(ISODOW FROM v.local_start)
+    AND d->>'end_time' IS NOT NULL;
+$$;
+
+-- Momento en que una sesión abierta supera su límite: p_after_minutes desde
+-- el inicio o, si el usuario la recuperó, desde la recuperación. Nunca pasa de
+-- las 16 h desde el inicio, para que el job aún pueda cerrarla.
+CREATE OR REPLACE FUNCTION auto_close_due_at(
+  p_start_time TIMESTAMPTZ,
+  p_recovered_at TIMESTAMPTZ,
+  p_after_minutes INTEGER
+)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT LEAST(
+    COALESCE(p_recovered_at, p_start_time) + make_interval(mins => p_after_minutes),
+    p_start_time + INTERVAL '16 hours'
+  );
+$$;
+
+-- Cierra o marca las sesiones abiertas que superan su límite. La hora de
+-- salida es la del horario (si se usa, ya pasó y la sesión no se recuperó
+-- después) o el límite, pero nunca anterior al último fichaje de la sesión
+-- (pausas y cambios de tramo). Si aun así la sesión superaría las 16 h, solo
+-- se marca. Devuelve cuántas trató.
+-- Las que ya tienen forgotten_at no se vuelven a tratar hasta que el usuario
+-- las recupera: recuperar borra la marca y fija recovered_at.
+CREATE OR REPLACE FUNCTION auto_close_forgotten_sessions()
+RETURNS INTEGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_session RECORD;
+  v_end TIMESTAMPTZ;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_session IN
+    SELECT ws.id, ws.user_id, ws.start_time, ws.recovered_at, s.mode, s.after_minutes, s.at_schedule_end
+    FROM work_sessions ws
+    CROSS JOIN LATERAL auto_close_settings(ws.user_id) s
+    WHERE ws.status IN ('active', 'paused')
+      AND ws.forgotten_at IS NULL
+      AND auto_close_due_at(ws.start_time, ws.recovered_at, s.after_minutes) < NOW()
+  LOOP
+    v_end := auto_close_due_at(v_session.start_time, v_session.recovered_at, v_session.after_minutes);
+
+    -- Tras recuperarla, el usuario ya confirmó que seguía trabajando pasada
+    -- la hora de salida de su horario.
+    IF v_session.at_schedule_end AND v_session.recovered_at IS NULL THEN
+      v_end := COALESCE(
+        (SELECT e FROM scheduled_end_time(v_session.user_id, v_session.start_time) e
+         WHERE e > v_session.start_time AND e < NOW()),
+        v_end
+      );
+    END IF;
+
+    v_end := GREATEST(
+      v_end,
+      (SELECT MAX(GREATEST(pause_start, COALESCE(pause_end, pause_start))) FROM work_pauses WHERE session_id = v_session.id),
+      (SELECT MAX(segment_start) FROM work_segments WHERE session_id = v_session.id)
+    );
+
+    -- Cada sesión se trata en su propio bloque: si un trigger la rechaza
+    -- (ej: periodo bloqueado o solapamiento), se deshace solo su cierre, se
+    -- intenta marcarla como olvidada y el job sigue con las demás.
+    BEGIN
+      IF v_session.mode = 'flag' OR v_end > v_session.start_time + INTERVAL '16 hours' THEN
+        UPDATE work_sessions SET forgotten_at = NOW() WHERE id = v_session.id;
+      ELSE
+        UPDATE work_pauses SET pause_end = v_end
+        WHERE session_id = v_session.id AND pause_end IS NULL;
+
+        UPDATE work_segments SET segment_end = v_end
+        WHERE session_id = v_session.id AND segment_end IS NULL;
+
+        -- La duración neta (total_duration) la calcula el trigger de la sesión.
+        UPDATE work_sessions
+        SET end_time = v_end, status = 'completed', forgotten_at = NOW()
+        WHERE id = v_session.id;
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'No se pudo cerrar la sesión olvidada %: %', v_session.id, SQLERRM;
+      BEGIN
+        UPDATE work_sessions SET forgotten_at = NOW() WHERE id = v_session.id;
+      EXCEPTION WHEN OTHERS THEN
+        RAISE WARNING 'No se pudo marcar la sesión olvidada %: %', v_session.id, SQLERRM;
+      END;
+    END;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Solo la ejecuta el job programado, no los clientes.
+REVOKE EXECUTE ON FUNCTION auto_close_forgotten_sessions() FROM PUBLIC, anon, authenticated;
+
+-- Cada 15 minutos.
+SELECT cron.schedule(
+  'auto-close-forgotten-sessions',
+  '*/15 * * * *',
+  $$SELECT auto_close_forgotten_sessions()$$
+);